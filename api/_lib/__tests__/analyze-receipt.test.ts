@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { fileURLToPath } from 'node:url'
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import handler from '../../analyze-receipt.js'
+
+// No Supabase in tests: every request is signed in and under quota
+vi.mock('../supabase.js', () => ({
+  requireUser: vi.fn(async () => ({ client: {}, userId: 'user-1' })),
+}))
+vi.mock('../redaction.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../redaction.js')>(),
+  getRedactionLevel: vi.fn(async () => 'standard'),
+}))
+vi.mock('../usage.js', () => ({
+  consumeAIQuota: vi.fn(async () => true),
+  withQuota: (provider: unknown) => provider,
+}))
+
+const FIXTURE_DIR = fileURLToPath(new URL('./fixtures/receipt', import.meta.url))
+
+function mockResponse() {
+  const res = { statusCode: 200, body: undefined as unknown }
+  const response = {
+    status(code: number) {
+      res.statusCode = code
+      return response
+    },
+    json(body: unknown) {
+      res.body = body
+      return response
+    },
+  }
+  return { res, response: response as unknown as VercelResponse }
+}
+
+async function post(body: Record<string, unknown>) {
+  const { res, response } = mockResponse()
+  await handler({ method: 'POST', headers: {}, body } as VercelRequest, response)
+  return res as { statusCode: number; body: Record<string, unknown> }
+}
+
+describe('POST /api/analyze-receipt', () => {
+  beforeEach(() => {
+    vi.stubEnv('LLM_PROVIDER', 'fixture')
+    vi.stubEnv('LLM_FALLBACK_PROVIDER', '')
+    vi.stubEnv('LLM_FIXTURE_DIR', FIXTURE_DIR)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('returns the recorded receipt as a validated transaction', async () => {
+    const { statusCode, body } = await post({
+      image: 'data:image/jpeg;base64,/9j/4AAQSkZJRg==',
+      mimeType: 'image/jpeg',
+      currentDateTime: '2026-01-05T09:00:00',
+    })
+
+    expect(statusCode).toBe(200)
+    expect(body.error).toBeUndefined()
+    expect(body.rejected).toEqual([])
+    expect(body.transactions).toEqual([
+      expect.objectContaining({
+        amount: 48.3,
+        currency: 'SAR',
+        merchant: 'Half Million',
+        transaction_datetime: '2026-01-04T13:52:00',
+        direction: 'out',
+        payment_hint: 'Mada *4821',
+      }),
+    ])
+  })
+
+  it('rejects unsupported image types before calling the model', async () => {
+    const { statusCode, body } = await post({ image: 'R0lGODlh', mimeType: 'image/gif' })
+
+    expect(statusCode).toBe(400)
+    expect(body.error).toBe('Unsupported image')
+  })
+
+  it('rejects images over 3MB with the same limit in the reason', async () => {
+    // 3MB of image is 4MB of base64
+    const { statusCode, body } = await post({ image: 'A'.repeat(4 * 1024 * 1024 + 4), mimeType: 'image/jpeg' })
+
+    expect(statusCode).toBe(413)
+    expect(body.reason).toBe('Receipt image must be under 3MB')
+  })
+
+  it('reports a provider error when no fixture matches', async () => {
+    vi.stubEnv('LLM_FIXTURE_DIR', fileURLToPath(new URL('./fixtures/missing', import.meta.url)))
+
+    const { statusCode, body } = await post({ image: '/9j/4AAQ', mimeType: 'image/png' })
+
+    expect(statusCode).toBe(500)
+    expect(body.error).toBe('AI service error')
+  })
+})
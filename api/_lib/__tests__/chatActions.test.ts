@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest'
+import type { UserClient } from '../supabase.js'
+import { proposeChatAction, summarizeChatAction, type ChatActionProposal } from '../chatActions.js'
+
+type Row = Record<string, unknown>
+
+/**
+ * Supabase stand-in: each table answers with its rows that pass the eq
+ * filters, cut to the limit; every call is recorded
+ */
+function userWithTables(tables: Record<string, Row[]>) {
+  const calls: [string, ...unknown[]][] = []
+
+  const from = (table: string) => {
+    const eq: Record<string, unknown> = {}
+    let limit = Infinity
+    const result = () => ({
+      data: (tables[table] || [])
+        .filter(row => Object.entries(eq).every(([column, value]) => column === 'user_id' || row[column] === value))
+        .slice(0, limit),
+      error: null,
+    })
+    const builder = {
+      select: () => builder,
+      order: (column: string, options: unknown) => {
+        calls.push(['order', column, options])
+        return builder
+      },
+      gte: (column: string, value: unknown) => {
+        calls.push(['gte', column, value])
+        return builder
+      },
+      lte: (column: string, value: unknown) => {
+        calls.push(['lte', column, value])
+        return builder
+      },
+      eq: (column: string, value: unknown) => {
+        eq[column] = value
+        return builder
+      },
+      ilike: (column: string, pattern: string) => {
+        calls.push(['ilike', column, pattern])
+        return builder
+      },
+      limit: (count: number) => {
+        calls.push(['limit', table, count])
+        limit = count
+        return builder
+      },
+      then: (resolve: (value: ReturnType<typeof result>) => void) => resolve(result()),
+    }
+    return builder
+  }
+
+  return { user: { client: { from }, userId: 'user-1' } as unknown as UserClient, calls }
+}
+
+function tx(id: string, fields: Row = {}): Row {
+  return {
+    id,
+    amount: 40,
+    currency: 'SAR',
+    direction: 'out',
+    category: 'Other',
+    merchant: 'Jahez',
+    transaction_date: '2025-01-15',
+    beneficiary_id: null,
+    account_id: null,
+    card_id: null,
+    is_reimbursable: false,
+    ...fields,
+  }
+}
+
+const recategorize = (filter: Row) => ({ action: 'recategorize', category: 'food & dining', filter })
+
+describe('proposeChatAction', () => {
+  it('builds a proposal with the rows to change, newest first', async () => {
+    const { user, calls } = userWithTables({
+      transactions: [tx('t1', { transaction_date: '2025-01-20' }), tx('t2', { transaction_date: '2025-01-10' })],
+    })
+
+    const proposal = await proposeChatAction(user, 'A1', recategorize({ merchant: 'jahez' })) as ChatActionProposal
+
+    expect(calls).toContainEqual(['order', 'transaction_date', { ascending: false }])
+    expect(proposal).toMatchObject({
+      id: 'A1',
+      action: 'recategorize',
+      label: 'Move 2 transactions to Food & Dining',
+      updates: { category: 'Food & Dining' },
+      transaction_ids: ['t1', 't2'],
+    })
+    expect(proposal.preview[0]).toEqual({
+      id: 't1',
+      date: '2025-01-20',
+      merchant: 'Jahez',
+      category: 'Other',
+      amount: 40,
+      currency: 'SAR',
+      direction: 'out',
+    })
+  })
+
+  it('leaves out rows that already have the value', async () => {
+    const { user } = userWithTables({
+      transactions: [tx('t1'), tx('t2', { category: 'Food & Dining' })],
+    })
+
+    const proposal = await proposeChatAction(user, 'A1', recategorize({ merchant: 'Jahez' })) as ChatActionProposal
+
+    expect(proposal.transaction_ids).toEqual(['t1'])
+    expect(proposal.label).toBe('Move 1 transaction to Food & Dining')
+  })
+
+  it('reads no more than one row past the limit', async () => {
+    const { user, calls } = userWithTables({
+      transactions: Array.from({ length: 600 }, (_, i) => tx(`t${i}`)),
+    })
+
+    const result = await proposeChatAction(user, 'A1', recategorize({ merchant: 'Jahez' }))
+
+    expect(result).toEqual({ id: 'A1', error: 'More than 500 transactions match - narrow the filter' })
+    expect(calls).toContainEqual(['limit', 'transactions', 501])
+  })
+
+  it('accepts exactly the limit', async () => {
+    const { user } = userWithTables({
+      transactions: Array.from({ length: 500 }, (_, i) => tx(`t${i}`)),
+    })
+
+    const proposal = await proposeChatAction(user, 'A1', recategorize({ merchant: 'Jahez' })) as ChatActionProposal
+
+    expect(proposal.transaction_ids).toHaveLength(500)
+    expect(proposal.preview).toHaveLength(50)
+  })
+
+  it('reports an empty match', async () => {
+    const { user } = userWithTables({ transactions: [tx('t1', { category: 'Food & Dining' })] })
+
+    const result = await proposeChatAction(user, 'A1', recategorize({ merchant: 'Jahez' }))
+
+    expect(result).toEqual({ id: 'A1', error: 'No transactions match, or they already have this value' })
+  })
+
+  it('refuses a filter without a period, category or merchant', async () => {
+    const { user, calls } = userWithTables({ transactions: [tx('t1')] })
+
+    const result = await proposeChatAction(user, 'A1', recategorize({ direction: 'out', currency: 'SAR' }))
+
+    expect(result).toEqual({ id: 'A1', error: 'The filter must include a period, category or merchant' })
+    expect(calls).toEqual([])
+  })
+
+  it('takes the filter from the top-level args when there is no filter object', async () => {
+    const { user, calls } = userWithTables({ transactions: [tx('t1')] })
+
+    await proposeChatAction(user, 'A1', { action: 'delete', from: '2025-01-01', to: '2025-01-31' })
+
+    expect(calls).toContainEqual(['gte', 'transaction_date', '2025-01-01'])
+    expect(calls).toContainEqual(['lte', 'transaction_date', '2025-01-31'])
+  })
+
+  it('ignores dates that are not YYYY-MM-DD', async () => {
+    const { user } = userWithTables({ transactions: [tx('t1')] })
+
+    const result = await proposeChatAction(user, 'A1', { action: 'delete', filter: { from: 'last month' } })
+
+    expect(result).toEqual({ id: 'A1', error: 'The filter must include a period, category or merchant' })
+  })
+
+  it('matches % and _ in a merchant filter literally', async () => {
+    const { user, calls } = userWithTables({ transactions: [tx('t1')] })
+
+    await proposeChatAction(user, 'A1', { action: 'delete', filter: { merchant: '50%_off' } })
+
+    expect(calls).toContainEqual(['ilike', 'merchant', '%50\\%\\_off%'])
+  })
+
+  it('rejects an unknown action or category', async () => {
+    const { user } = userWithTables({ transactions: [tx('t1')] })
+
+    expect(await proposeChatAction(user, 'A1', { action: 'archive', filter: { merchant: 'Jahez' } }))
+      .toEqual({ id: 'A1', error: 'Unknown action "archive"' })
+    expect(await proposeChatAction(user, 'A2', { action: 'recategorize', category: 'Snacks', filter: { merchant: 'Jahez' } }))
+      .toEqual({ id: 'A2', error: 'Unknown category "Snacks"' })
+  })
+
+  it('asks which beneficiary when a name is ambiguous', async () => {
+    const { user } = userWithTables({
+      transactions: [tx('t1')],
+      beneficiaries: [{ id: 'b1', name: 'Omar Saleh' }, { id: 'b2', name: 'Omar Ali' }],
+    })
+
+    const result = await proposeChatAction(user, 'A1', { action: 'set_beneficiary', beneficiary: 'omar', filter: { merchant: 'Jahez' } })
+
+    expect(result).toEqual({ id: 'A1', error: '"omar" matches Omar Saleh, Omar Ali - ask which one' })
+  })
+
+  it('moves rows to a card and its account, named by the last 4 digits', async () => {
+    const { user } = userWithTables({
+      transactions: [tx('t1')],
+      accounts: [{ id: 'acc-1', name: 'Rajhi Current' }],
+      account_cards: [{ id: 'card-1', name: 'Mada', last_4_digits: '4821', account_id: 'acc-1' }],
+    })
+
+    const proposal = await proposeChatAction(user, 'A1', { action: 'set_account', card: '*4821', filter: { merchant: 'Jahez' } }) as ChatActionProposal
+
+    expect(proposal.updates).toEqual({ account_id: 'acc-1', card_id: 'card-1' })
+    expect(proposal.label).toBe('Move 1 transaction to Rajhi Current · Mada')
+  })
+})
+
+describe('summarizeChatAction', () => {
+  it('sums the preview per currency and says nothing was applied', async () => {
+    const { user } = userWithTables({
+      transactions: [tx('t1', { amount: 25 }), tx('t2', { amount: 15 }), tx('t3', { amount: 3, currency: 'KWD' })],
+    })
+
+    const proposal = await proposeChatAction(user, 'A1', { action: 'delete', filter: { merchant: 'Jahez' } }) as ChatActionProposal
+
+    expect(summarizeChatAction(proposal)).toBe(
+      'Delete 3 transactions · all time · merchant "Jahez" · SAR 40.00, KWD 3.000 - shown to the user, not applied until they confirm'
+    )
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import type { UserClient } from '../supabase.js'
+import { formatAmount, roundAmount, runChatTool, type ChatCitation } from '../chatTools.js'
+
+/**
+ * Supabase stand-in: records the filters each query applied and answers
+ * with the rows that pass the eq filters
+ */
+function userWithRows(rows: Record<string, unknown>[]) {
+  const calls: [string, ...unknown[]][] = []
+
+  const query = () => {
+    const eq: Record<string, unknown> = {}
+    const builder = {
+      select: () => builder,
+      order: () => builder,
+      gte: () => builder,
+      lte: () => builder,
+      eq: (column: string, value: unknown) => {
+        calls.push(['eq', column, value])
+        eq[column] = value
+        return builder
+      },
+      ilike: (column: string, pattern: string) => {
+        calls.push(['ilike', column, pattern])
+        return builder
+      },
+      range: async () => ({
+        data: rows.filter(row => Object.entries(eq).every(([column, value]) => column === 'user_id' || row[column] === value)),
+        error: null,
+      }),
+    }
+    return builder
+  }
+
+  return { user: { client: { from: query }, userId: 'user-1' } as unknown as UserClient, calls }
+}
+
+function row(amount: number, currency: string, direction: string) {
+  return { id: `${amount}-${direction}`, amount, currency, direction, category: 'Shopping', merchant: 'Jarir', transaction_date: '2025-01-15' }
+}
+
+describe('sum_transactions', () => {
+  it('totals spending only when no direction is given', async () => {
+    const { user } = userWithRows([row(100, 'SAR', 'out'), row(5000, 'SAR', 'in'), row(300, 'SAR', 'transfer')])
+
+    const citation = await runChatTool(user, 'R1', 'sum_transactions', { group_by: 'none' }) as ChatCitation
+
+    expect(citation.result).toMatchObject({ totals: [{ currency: 'SAR', total: 100, count: 1 }] })
+  })
+
+  it('keeps every direction when grouped by direction', async () => {
+    const { user } = userWithRows([row(100, 'SAR', 'out'), row(5000, 'SAR', 'in')])
+
+    const citation = await runChatTool(user, 'R1', 'sum_transactions', { group_by: 'direction' }) as ChatCitation
+
+    expect(citation.lines).toContain('out: SAR 100.00 (1)')
+    expect(citation.lines).toContain('in: SAR 5,000.00 (1)')
+  })
+
+  it('matches % and _ in a merchant name literally', async () => {
+    const { user, calls } = userWithRows([])
+
+    await runChatTool(user, 'R1', 'sum_transactions', { merchant: '100%_cotton', category: 'Food_Drinks' })
+
+    expect(calls).toContainEqual(['ilike', 'merchant', '%100\\%\\_cotton%'])
+    expect(calls).toContainEqual(['ilike', 'category', 'Food\\_Drinks'])
+  })
+})
+
+describe('amounts', () => {
+  it('round and format to the currency minor units', () => {
+    expect(roundAmount(10.1234, 'BHD')).toBe(10.123)
+    expect(roundAmount(1500.6, 'JPY')).toBe(1501)
+    expect(formatAmount('KWD', 2.5)).toBe('KWD 2.500')
+    expect(formatAmount('JPY', 1500)).toBe('JPY 1,500')
+    expect(formatAmount('SAR', 12)).toBe('SAR 12.00')
+  })
+})
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { createFixtureProvider, getLLMProvider, getRequestKey, type LLMRequest } from '../llm.js'
+
+const FIXTURE_DIR = fileURLToPath(new URL('./fixtures/llm', import.meta.url))
+
+// Has a keyed fixture in FIXTURE_DIR
+const RECORDED_REQUEST: LLMRequest = {
+  system: 'Parse the message',
+  messages: [{ role: 'user', content: 'Purchase SAR 25.00 at Jahez' }],
+}
+
+const OTHER_REQUEST: LLMRequest = {
+  system: 'Parse the message',
+  messages: [{ role: 'user', content: 'Refund SAR 10.00 from Noon' }],
+}
+
+// Ollama-style reply from the stubbed local model server
+function localReply(content: string) {
+  return new Response(JSON.stringify({ message: { content } }), { status: 200 })
+}
+
+function getProvider() {
+  const llm = getLLMProvider()
+  if (!llm.provider) throw new Error(llm.error)
+  return llm.provider
+}
+
+describe('createFixtureProvider', () => {
+  it('replays the fixture recorded for the request', async () => {
+    const result = await createFixtureProvider(FIXTURE_DIR).generate(RECORDED_REQUEST)
+
+    expect(result.ok).toBe(true)
+    expect(result.ok && JSON.parse(result.text).transactions[0].merchant).toBe('Jahez')
+  })
+
+  it('answers other requests from default.json', async () => {
+    const result = await createFixtureProvider(FIXTURE_DIR).generate(OTHER_REQUEST)
+
+    expect(result.ok && JSON.parse(result.text).reason).toBe('Fixture default')
+  })
+
+  it('errors when the directory has no matching fixture', async () => {
+    const result = await createFixtureProvider(join(FIXTURE_DIR, 'missing')).generate(OTHER_REQUEST)
+
+    expect(result).toMatchObject({ ok: false, provider: 'fixture' })
+  })
+})
+
+describe('getLLMProvider', () => {
+  let recordDir: string
+
+  beforeEach(async () => {
+    recordDir = await mkdtemp(join(tmpdir(), 'rqeeb-llm-'))
+    vi.stubEnv('LLM_RECORD_FIXTURES', '')
+    vi.stubEnv('LLM_FALLBACK_PROVIDER', '')
+    vi.stubEnv('LOCAL_LLM_URL', 'http://localhost:11434')
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+    await rm(recordDir, { recursive: true, force: true })
+  })
+
+  it('uses the primary provider when it answers', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'local')
+    vi.stubEnv('LLM_FALLBACK_PROVIDER', 'fixture')
+    vi.stubEnv('LLM_FIXTURE_DIR', FIXTURE_DIR)
+    vi.stubGlobal('fetch', vi.fn(async () => localReply('from local')))
+
+    const result = await getProvider().generate(OTHER_REQUEST)
+
+    expect(result).toEqual({ ok: true, text: 'from local', provider: 'local' })
+  })
+
+  it('falls back when the primary provider errors', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'local')
+    vi.stubEnv('LLM_FALLBACK_PROVIDER', 'fixture')
+    vi.stubEnv('LLM_FIXTURE_DIR', FIXTURE_DIR)
+    const fetchMock = vi.fn(async () => new Response('{}', { status: 503 }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const provider = getProvider()
+    const result = await provider.generate(RECORDED_REQUEST)
+
+    expect(provider.name).toBe('local+fixture')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(result.ok && result.provider).toBe('fixture')
+  })
+
+  it('falls back when the primary provider is not configured', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'gemini')
+    vi.stubEnv('GOOGLE_AI_API_KEY', '')
+    vi.stubEnv('LLM_FALLBACK_PROVIDER', 'fixture')
+    vi.stubEnv('LLM_FIXTURE_DIR', FIXTURE_DIR)
+
+    expect(getProvider().name).toBe('fixture')
+  })
+
+  it('records live responses that the fixture provider then replays', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'local')
+    vi.stubEnv('LLM_FIXTURE_DIR', recordDir)
+    vi.stubEnv('LLM_RECORD_FIXTURES', 'true')
+    vi.stubGlobal('fetch', vi.fn(async () => localReply('{"transactions": []}')))
+
+    await getProvider().generate(OTHER_REQUEST)
+
+    const recorded = JSON.parse(await readFile(join(recordDir, `${getRequestKey(OTHER_REQUEST)}.json`), 'utf-8'))
+    expect(recorded).toEqual({ provider: 'local', text: '{"transactions": []}' })
+
+    vi.stubEnv('LLM_PROVIDER', 'fixture')
+    vi.stubEnv('LLM_RECORD_FIXTURES', '')
+    const replayed = await getProvider().generate(OTHER_REQUEST)
+    expect(replayed).toEqual({ ok: true, text: '{"transactions": []}', provider: 'fixture' })
+  })
+
+  it('still answers when the fixture directory cannot be created', async () => {
+    // A file where the directory should go makes mkdir fail
+    const blocked = join(recordDir, 'blocked')
+    await writeFile(blocked, '')
+    vi.stubEnv('LLM_PROVIDER', 'local')
+    vi.stubEnv('LLM_FIXTURE_DIR', join(blocked, 'fixtures'))
+    vi.stubEnv('LLM_RECORD_FIXTURES', 'true')
+    vi.stubGlobal('fetch', vi.fn(async () => localReply('{"transactions": []}')))
+
+    const result = await getProvider().generate(OTHER_REQUEST)
+
+    expect(result).toEqual({ ok: true, text: '{"transactions": []}', provider: 'local' })
+  })
+
+  it('does not record failed responses', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'local')
+    vi.stubEnv('LLM_FIXTURE_DIR', recordDir)
+    vi.stubEnv('LLM_RECORD_FIXTURES', 'true')
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 500 })))
+
+    await getProvider().generate(OTHER_REQUEST)
+
+    await expect(readFile(join(recordDir, `${getRequestKey(OTHER_REQUEST)}.json`), 'utf-8')).rejects.toThrow()
+  })
+})
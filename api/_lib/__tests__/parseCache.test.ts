@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { getParseCacheKey, type ParseCacheInput } from '../parseCache.js'
+
+const INPUT: ParseCacheInput = {
+  text: 'Purchase SAR 45.00 at Starbucks\nCard: *4589',
+  customCategories: [{ name: 'Coffee', description: 'Starbucks, Barns' }],
+  referenceDate: '2025-01-15',
+  hint: '',
+  redactionLevel: 'standard',
+  correctionIds: ['c-1', 'c-2'],
+}
+
+describe('getParseCacheKey', () => {
+  it('ignores whitespace differences in the pasted text', () => {
+    const spaced = { ...INPUT, text: '  Purchase SAR 45.00   at Starbucks\r\nCard: *4589  ' }
+
+    expect(getParseCacheKey(spaced)).toBe(getParseCacheKey(INPUT))
+  })
+
+  it('keeps parses made under different redaction levels apart', () => {
+    expect(getParseCacheKey({ ...INPUT, redactionLevel: 'strict' })).not.toBe(getParseCacheKey(INPUT))
+    expect(getParseCacheKey({ ...INPUT, redactionLevel: 'off' })).not.toBe(getParseCacheKey(INPUT))
+  })
+
+  it('changes with the custom categories and reference date', () => {
+    expect(getParseCacheKey({ ...INPUT, customCategories: [] })).not.toBe(getParseCacheKey(INPUT))
+    expect(getParseCacheKey({ ...INPUT, referenceDate: '2025-01-16' })).not.toBe(getParseCacheKey(INPUT))
+  })
+
+  it('misses once the corrections picked as examples change', () => {
+    expect(getParseCacheKey({ ...INPUT, correctionIds: ['c-2', 'c-1'] })).toBe(getParseCacheKey(INPUT))
+    expect(getParseCacheKey({ ...INPUT, correctionIds: ['c-1', 'c-2', 'c-3'] })).not.toBe(getParseCacheKey(INPUT))
+    expect(getParseCacheKey({ ...INPUT, correctionIds: ['c-1'] })).not.toBe(getParseCacheKey(INPUT))
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { createRedactor } from '../redaction.js'
+
+// Same length, same last 4 digits
+const ACCOUNT_A = '123456789017519'
+const ACCOUNT_B = '987654321097519'
+
+describe('createRedactor', () => {
+  it('gives numbers sharing their last digits different masks', () => {
+    const redactor = createRedactor('standard')
+
+    const masked = redactor.redact(`From ${ACCOUNT_A} to ${ACCOUNT_B}`)
+
+    expect(masked).toBe('From [NUMBER_1 *7519] to [NUMBER_2 *7519]')
+    expect(redactor.restore(masked)).toBe(`From ${ACCOUNT_A} to ${ACCOUNT_B}`)
+  })
+
+  it('reuses the mask for a value seen again', () => {
+    const redactor = createRedactor('standard')
+
+    const first = redactor.redact(`Card 4847 1234 5678 9012`)
+    const second = redactor.redact(`Refund to 4847 1234 5678 9012`)
+
+    expect(first).toBe('Card [CARD_1 *9012]')
+    expect(second).toBe('Refund to [CARD_1 *9012]')
+  })
+
+  it('restores masks inside model output', () => {
+    const redactor = createRedactor('strict')
+    redactor.redact(`Transfer to Omar Saleh, IBAN SA03 8000 0000 6080 1016 7519, +966 50 123 4567`)
+
+    const restored = redactor.restoreDeep({
+      merchant: '[NAME_1]',
+      notes: 'IBAN [IBAN_1 *7519], phone [PHONE_1 *4567]',
+    })
+
+    expect(restored).toEqual({
+      merchant: 'Omar Saleh',
+      notes: 'IBAN SA03 8000 0000 6080 1016 7519, phone +966 50 123 4567',
+    })
+  })
+
+  it('gives saved fields only the last digits of a masked number', () => {
+    const redactor = createRedactor('strict')
+    redactor.redact(`Dear Omar Saleh, card 4847 1234 5678 9012 was charged`)
+
+    const stored = redactor.restoreForStorage({
+      merchant: 'Paid by [NAME_1]',
+      payment_hint: '[CARD_1 *9012]',
+      notes: null,
+    })
+
+    expect(stored).toEqual({ merchant: 'Paid by Omar Saleh', payment_hint: '*9012', notes: null })
+    expect(JSON.stringify(stored)).not.toContain('4847')
+  })
+
+  it('leaves text alone when redaction is off', () => {
+    expect(createRedactor('off').redact(`Account ${ACCOUNT_A}`)).toBe(`Account ${ACCOUNT_A}`)
+  })
+})
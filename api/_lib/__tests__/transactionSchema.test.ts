@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { LLMProvider } from '../llm.js'
+import { generateValidatedTransactions, validateTransactionsResponse } from '../transactionSchema.js'
+
+const VALID_ROW = {
+  amount: 45.5,
+  currency: 'SAR',
+  category: 'Food & Dining',
+  merchant: 'Starbucks',
+  transaction_datetime: '2025-01-15T14:30:00',
+  direction: 'out',
+  payment_hint: null,
+  notes: null,
+  description: null,
+}
+
+// No amount the model could read
+const BROKEN_ROW = { ...VALID_ROW, amount: 'unknown', merchant: 'Panda' }
+
+// Amount written as text, fixable on the re-ask
+const FIXABLE_ROW = { ...VALID_ROW, amount: '120.00', merchant: 'Jarir' }
+
+/**
+ * Provider answering each call with the next scripted payload
+ */
+function scriptedProvider(...payloads: unknown[]): LLMProvider & { calls: number } {
+  const provider = {
+    name: 'scripted',
+    calls: 0,
+    generate: async () => {
+      const payload = payloads[provider.calls++]
+      return { ok: true as const, text: JSON.stringify(payload), provider: 'scripted' }
+    },
+  }
+  return provider
+}
+
+const REQUEST = { messages: [{ role: 'user' as const, content: 'Parse these' }] }
+
+describe('validateTransactionsResponse', () => {
+  it('lists every invalid row with its field errors', () => {
+    const result = validateTransactionsResponse(JSON.stringify({ transactions: [VALID_ROW, BROKEN_ROW] }))
+
+    expect(result.transactions).toHaveLength(1)
+    expect(result.rejected).toEqual([
+      { index: 1, errors: [expect.objectContaining({ field: 'amount' })], raw: BROKEN_ROW },
+    ])
+  })
+})
+
+describe('generateValidatedTransactions', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('does not re-ask when the first answer is valid', async () => {
+    const provider = scriptedProvider({ transactions: [VALID_ROW] })
+
+    const attempt = await generateValidatedTransactions(provider, REQUEST)
+
+    expect(provider.calls).toBe(1)
+    expect(attempt).toMatchObject({ ok: true, repaired: false })
+  })
+
+  it('uses the repaired answer when it fixes the rows', async () => {
+    const provider = scriptedProvider(
+      { transactions: [VALID_ROW, FIXABLE_ROW] },
+      { transactions: [VALID_ROW, { ...FIXABLE_ROW, amount: 120 }] }
+    )
+
+    const attempt = await generateValidatedTransactions(provider, REQUEST)
+
+    expect(provider.calls).toBe(2)
+    expect(attempt.ok && attempt.repaired).toBe(true)
+    expect(attempt.ok && attempt.result.transactions).toHaveLength(2)
+    expect(attempt.ok && attempt.result.rejected).toEqual([])
+  })
+
+  it('keeps rows that fail twice in rejected when the repair leaves them out', async () => {
+    const provider = scriptedProvider(
+      { transactions: [VALID_ROW, FIXABLE_ROW, BROKEN_ROW] },
+      { transactions: [VALID_ROW, { ...FIXABLE_ROW, amount: 120 }] }
+    )
+
+    const attempt = await generateValidatedTransactions(provider, REQUEST)
+
+    expect(attempt.ok && attempt.result.transactions.map(tx => tx.merchant)).toEqual(['Starbucks', 'Jarir'])
+    expect(attempt.ok && attempt.result.rejected).toEqual([
+      expect.objectContaining({ index: 2, raw: BROKEN_ROW }),
+    ])
+  })
+
+  it('does not list a row twice when the repair returns it still broken', async () => {
+    const provider = scriptedProvider(
+      { transactions: [VALID_ROW, BROKEN_ROW] },
+      { transactions: [VALID_ROW, BROKEN_ROW] }
+    )
+
+    const attempt = await generateValidatedTransactions(provider, REQUEST)
+
+    expect(attempt.ok && attempt.result.rejected).toHaveLength(1)
+  })
+})
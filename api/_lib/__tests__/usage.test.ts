@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { VercelResponse } from '@vercel/node'
+import type { LLMProvider } from '../llm.js'
+import type { UserClient } from '../supabase.js'
+import { consumeAIQuota, withQuota } from '../usage.js'
+
+/**
+ * User whose consume_api_quota RPC answers each call with the next result
+ */
+function userWithQuota(...results: Array<{ data: unknown; error: unknown }>) {
+  const rpc = vi.fn(async () => results.shift() ?? { data: null, error: { message: 'no more results' } })
+  return { user: { client: { rpc }, userId: 'user-1' } as unknown as UserClient, rpc }
+}
+
+const ALLOWED = { data: { allowed: true, used_today: 1, retry_after: 0 }, error: null }
+const OVER_MINUTE = { data: { allowed: false, limit: 'minute', used_today: 9, retry_after: 30 }, error: null }
+
+function mockResponse() {
+  const res = { statusCode: 200, body: undefined as unknown, headers: {} as Record<string, string> }
+  const response = {
+    setHeader(name: string, value: string) {
+      res.headers[name] = value
+      return response
+    },
+    status(code: number) {
+      res.statusCode = code
+      return response
+    },
+    json(body: unknown) {
+      res.body = body
+      return response
+    },
+  }
+  return { res, response: response as unknown as VercelResponse }
+}
+
+function echoProvider(): LLMProvider & { generate: ReturnType<typeof vi.fn> } {
+  return {
+    name: 'echo',
+    generate: vi.fn(async () => ({ ok: true as const, text: '{}', provider: 'echo' })),
+  }
+}
+
+describe('consumeAIQuota', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('answers 429 with Retry-After when over a limit', async () => {
+    const { user } = userWithQuota(OVER_MINUTE)
+    const { res, response } = mockResponse()
+
+    expect(await consumeAIQuota(user, 'analyze', response)).toBe(false)
+    expect(res.statusCode).toBe(429)
+    expect(res.headers['Retry-After']).toBe('30')
+  })
+
+  it('refuses the call when the quota cannot be checked', async () => {
+    const { user } = userWithQuota({ data: null, error: { message: 'function does not exist' } })
+    const { res, response } = mockResponse()
+
+    expect(await consumeAIQuota(user, 'analyze', response)).toBe(false)
+    expect(res.statusCode).toBe(503)
+  })
+})
+
+describe('withQuota', () => {
+  it('charges every call after the first', async () => {
+    const { user, rpc } = userWithQuota(ALLOWED, ALLOWED)
+    const provider = withQuota(echoProvider(), user, 'chat')
+
+    await provider.generate({ messages: [] })
+    await provider.generate({ messages: [] })
+    await provider.generate({ messages: [] })
+
+    expect(rpc).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not call the model once the quota refuses', async () => {
+    const { user } = userWithQuota(OVER_MINUTE)
+    const inner = echoProvider()
+    const provider = withQuota(inner, user, 'analyze')
+
+    await provider.generate({ messages: [] })
+    const result = await provider.generate({ messages: [] })
+
+    expect(inner.generate).toHaveBeenCalledTimes(1)
+    expect(result).toMatchObject({ ok: false, status: 429 })
+  })
+})
@@ -0,0 +1,317 @@
+/**
+ * Chat edit proposals
+ *
+ * "Move all Jahez orders to Food & Dining" is answered with a proposal, not
+ * an edit. The model names the change and a filter; the matching
+ * transactions are looked up here and sent to the browser with the exact
+ * column updates. Nothing is written until the user previews the list and
+ * confirms - the app then applies the update to those transaction ids.
+ */
+
+import type { UserClient } from './supabase.js'
+import {
+  readFilter,
+  readString,
+  describeFilter,
+  selectTransactions,
+  formatAmount,
+  type ToolArgs,
+  type TransactionFilter,
+  type TransactionRow,
+} from './chatTools.js'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ChatActionType =
+  | 'recategorize'
+  | 'set_beneficiary'
+  | 'set_reimbursable'
+  | 'set_account'
+  | 'delete'
+
+export interface ChatActionUpdates {
+  category?: string
+  beneficiary_id?: string | null
+  is_reimbursable?: boolean
+  account_id?: string | null
+  card_id?: string | null
+}
+
+export interface ChatActionPreviewRow {
+  id: string
+  date: string
+  merchant: string | null
+  category: string
+  amount: number
+  currency: string
+  direction: 'in' | 'out' | 'transfer'
+}
+
+export interface ChatActionProposal {
+  id: string // "A1", "A2"...
+  action: ChatActionType
+  label: string // "Move 12 transactions to Food & Dining"
+  filter_label: string
+  updates: ChatActionUpdates | null // null for delete
+  transaction_ids: string[]
+  preview: ChatActionPreviewRow[]
+}
+
+type Resolved = { updates: ChatActionUpdates | null; describe: (count: number) => string } | { error: string }
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const PROPOSE_EDIT_TOOL = 'propose_edit'
+
+const ACTION_TYPES: ChatActionType[] = ['recategorize', 'set_beneficiary', 'set_reimbursable', 'set_account', 'delete']
+
+// Most transactions one proposal may touch
+const MAX_AFFECTED = 500
+
+// Rows sent for the preview list
+const MAX_PREVIEW_ROWS = 50
+
+// Same list as the parsing prompt in analyze.ts
+const DEFAULT_CATEGORIES = [
+  'Food & Dining', 'Transportation', 'Shopping', 'Bills & Utilities', 'Groceries', 'Health', 'Transfer',
+  'Entertainment', 'Income', 'Travel', 'Education', 'Advertising', 'Subscription', 'Other',
+]
+
+// ============================================
+// LOOKUPS
+// ============================================
+
+const plural = (count: number) => `${count} transaction${count === 1 ? '' : 's'}`
+
+/**
+ * One row by name: an exact (case-insensitive) match wins, otherwise the
+ * partial match if there is only one
+ */
+function pickByName<T extends { name: string }>(rows: T[], name: string): T | string {
+  const lower = name.toLowerCase()
+  const exact = rows.filter(r => r.name.toLowerCase() === lower)
+  if (exact.length === 1) return exact[0]
+
+  const partial = rows.filter(r => r.name.toLowerCase().includes(lower))
+  if (partial.length === 1) return partial[0]
+  return partial.length === 0
+    ? `No match for "${name}"`
+    : `"${name}" matches ${partial.map(r => r.name).join(', ')} - ask which one`
+}
+
+async function findCategory(user: UserClient, name: string): Promise<string | null> {
+  const { data, error } = await user.client
+    .from('user_categories')
+    .select('name')
+    .eq('user_id', user.userId)
+    .eq('is_active', true)
+
+  if (error) console.error('Error loading custom categories:', error)
+
+  const custom = ((data || []) as { name: string }[]).map(c => c.name)
+  const lower = name.toLowerCase()
+  return [...custom, ...DEFAULT_CATEGORIES].find(c => c.toLowerCase() === lower) || null
+}
+
+async function findBeneficiary(user: UserClient, name: string): Promise<{ id: string; name: string } | string> {
+  const { data, error } = await user.client
+    .from('beneficiaries')
+    .select('id, name')
+    .eq('user_id', user.userId)
+
+  if (error) throw error
+  return pickByName((data || []) as { id: string; name: string }[], name)
+}
+
+/**
+ * Account and card by name (a card can also be named by its last 4 digits).
+ * A card brings its account along.
+ */
+async function findAccountAndCard(
+  user: UserClient,
+  accountName: string | undefined,
+  cardName: string | undefined
+): Promise<{ account: { id: string; name: string }; card: { id: string; name: string } | null } | string> {
+  const [accountsResult, cardsResult] = await Promise.all([
+    user.client.from('accounts').select('id, name').eq('user_id', user.userId),
+    user.client.from('account_cards').select('id, name, last_4_digits, account_id').eq('user_id', user.userId),
+  ])
+  if (accountsResult.error) throw accountsResult.error
+  if (cardsResult.error) throw cardsResult.error
+
+  const accounts = (accountsResult.data || []) as { id: string; name: string }[]
+  const cards = (cardsResult.data || []) as { id: string; name: string; last_4_digits: string; account_id: string }[]
+
+  if (cardName) {
+    const digits = cardName.replace(/\D/g, '')
+    const byDigits = digits.length === 4 ? cards.filter(c => c.last_4_digits === digits) : []
+    const card = byDigits.length === 1 ? byDigits[0] : pickByName(cards, cardName)
+    if (typeof card === 'string') return card
+
+    const account = accounts.find(a => a.id === card.account_id)
+    if (!account) return `Card "${card.name}" has no account`
+    return { account, card }
+  }
+
+  if (!accountName) return 'Name an account or a card'
+  const account = pickByName(accounts, accountName)
+  return typeof account === 'string' ? account : { account, card: null }
+}
+
+// ============================================
+// ACTIONS
+// ============================================
+
+async function resolveAction(user: UserClient, action: ChatActionType, args: ToolArgs): Promise<Resolved> {
+  switch (action) {
+    case 'recategorize': {
+      const name = readString(args.category)
+      if (!name) return { error: 'category is required' }
+      const category = await findCategory(user, name)
+      if (!category) return { error: `Unknown category "${name}"` }
+      return { updates: { category }, describe: count => `Move ${plural(count)} to ${category}` }
+    }
+
+    case 'set_beneficiary': {
+      const name = readString(args.beneficiary)
+      if (!name) return { error: 'beneficiary is required' }
+      const beneficiary = await findBeneficiary(user, name)
+      if (typeof beneficiary === 'string') return { error: beneficiary }
+      return {
+        updates: { beneficiary_id: beneficiary.id },
+        describe: count => `Set ${beneficiary.name} as beneficiary on ${plural(count)}`,
+      }
+    }
+
+    case 'set_reimbursable': {
+      const reimbursable = args.reimbursable !== false
+      const name = readString(args.beneficiary)
+      if (!name) {
+        return {
+          updates: { is_reimbursable: reimbursable },
+          describe: count => `Mark ${plural(count)} as ${reimbursable ? 'reimbursable' : 'not reimbursable'}`,
+        }
+      }
+
+      const beneficiary = await findBeneficiary(user, name)
+      if (typeof beneficiary === 'string') return { error: beneficiary }
+      return {
+        updates: { is_reimbursable: reimbursable, beneficiary_id: beneficiary.id },
+        describe: count => `Mark ${plural(count)} as ${reimbursable ? 'reimbursable' : 'not reimbursable'} for ${beneficiary.name}`,
+      }
+    }
+
+    case 'set_account': {
+      const found = await findAccountAndCard(user, readString(args.account), readString(args.card))
+      if (typeof found === 'string') return { error: found }
+      const target = found.card ? `${found.account.name} · ${found.card.name}` : found.account.name
+      return {
+        updates: { account_id: found.account.id, card_id: found.card?.id ?? null },
+        describe: count => `Move ${plural(count)} to ${target}`,
+      }
+    }
+
+    case 'delete':
+      return { updates: null, describe: count => `Delete ${plural(count)}` }
+  }
+}
+
+/**
+ * Rows the update would actually change
+ */
+function needsUpdate(row: TransactionRow, updates: ChatActionUpdates | null): boolean {
+  if (!updates) return true
+  return (Object.keys(updates) as (keyof ChatActionUpdates)[]).some(key => row[key] !== updates[key])
+}
+
+function hasScope(filter: TransactionFilter): boolean {
+  return Boolean(filter.from || filter.to || filter.category || filter.merchant)
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Tool description for the system prompt
+ */
+export function describeChatActions(): string {
+  return `- ${PROPOSE_EDIT_TOOL}: Propose a change to many transactions. The user sees the matching transactions and must confirm.
+  args: { action: "recategorize" | "set_beneficiary" | "set_reimbursable" | "set_account" | "delete",
+          filter: { from?, to?, direction?, category?, merchant?, currency? } (at least a period, category or merchant),
+          category?: string (recategorize), beneficiary?: string (set_beneficiary; optional for set_reimbursable),
+          reimbursable?: boolean (set_reimbursable, default true), account?: string, card?: string (set_account) }`
+}
+
+/**
+ * Build a proposal from a propose_edit call. Bad arguments, unknown names
+ * and empty matches come back as an error for the model to relay.
+ */
+export async function proposeChatAction(
+  user: UserClient,
+  id: string,
+  args: ToolArgs
+): Promise<ChatActionProposal | { id: string; error: string }> {
+  const action = args.action as ChatActionType
+  if (!ACTION_TYPES.includes(action)) return { id, error: `Unknown action "${String(args.action)}"` }
+
+  const filter = readFilter((args.filter && typeof args.filter === 'object' ? args.filter : args) as ToolArgs)
+  if (!hasScope(filter)) return { id, error: 'The filter must include a period, category or merchant' }
+
+  try {
+    const resolved = await resolveAction(user, action, args)
+    if ('error' in resolved) return { id, error: resolved.error }
+
+    // One row past the limit is enough to tell the filter is too broad.
+    // Newest first, like the feed.
+    const { data, error } = await selectTransactions(user, filter)
+      .order('transaction_date', { ascending: false })
+      .order('id', { ascending: true })
+      .limit(MAX_AFFECTED + 1)
+    if (error) throw error
+
+    const matching = (data || []) as TransactionRow[]
+    if (matching.length > MAX_AFFECTED) {
+      return { id, error: `More than ${MAX_AFFECTED} transactions match - narrow the filter` }
+    }
+    const rows = matching.filter(r => needsUpdate(r, resolved.updates))
+    if (rows.length === 0) return { id, error: 'No transactions match, or they already have this value' }
+
+    return {
+      id,
+      action,
+      label: resolved.describe(rows.length),
+      filter_label: describeFilter(filter),
+      updates: resolved.updates,
+      transaction_ids: rows.map(r => r.id),
+      preview: rows.slice(0, MAX_PREVIEW_ROWS).map(r => ({
+        id: r.id,
+        date: r.transaction_date,
+        merchant: r.merchant,
+        category: r.category,
+        amount: r.amount,
+        currency: r.currency,
+        direction: r.direction,
+      })),
+    }
+  } catch (error) {
+    console.error('Error proposing chat action:', error)
+    return { id, error: 'Query failed' }
+  }
+}
+
+/**
+ * One line for the model about a proposal it made
+ */
+export function summarizeChatAction(proposal: ChatActionProposal): string {
+  const totals = new Map<string, number>()
+  for (const row of proposal.preview) totals.set(row.currency, (totals.get(row.currency) || 0) + row.amount)
+  const shown = proposal.preview.length < proposal.transaction_ids.length ? ' (first rows)' : ''
+  const amounts = Array.from(totals.entries()).map(([currency, total]) => formatAmount(currency, total)).join(', ')
+
+  return `${proposal.label} · ${proposal.filter_label} · ${amounts}${shown} - shown to the user, not applied until they confirm`
+}
@@ -0,0 +1,198 @@
+/**
+ * Chat history
+ *
+ * Conversations are stored per user (chat_sessions / chat_messages) so a
+ * follow-up like "and last month?" can be answered in context. The latest
+ * turns go to the model word for word; older ones are condensed to one line
+ * each so long conversations don't grow the prompt without bound.
+ */
+
+import type { LLMMessage } from './llm.js'
+import type { UserClient } from './supabase.js'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface StoredChatMessage {
+  role: 'user' | 'assistant'
+  content: string
+  response: { bullets?: string[]; citations?: { label: string }[]; actions?: { label: string }[] } | null
+}
+
+export interface ChatContext {
+  // Condensed older turns, for the system prompt ('' when there are none)
+  summary: string
+  // Recent turns as alternating user/assistant messages
+  messages: LLMMessage[]
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Question/answer pairs sent in full
+const RECENT_TURNS = 4
+
+// Older turns kept as one-line summaries; anything before is dropped
+const SUMMARIZED_TURNS = 20
+
+// Longest answer text sent back to the model for a recent turn
+const MAX_ANSWER_LENGTH = 1500
+
+// Longest answer excerpt in a summary line
+const MAX_SUMMARY_ANSWER_LENGTH = 160
+
+const MAX_TITLE_LENGTH = 60
+
+// ============================================
+// SESSIONS
+// ============================================
+
+function titleFromQuestion(question: string): string {
+  const title = question.trim().replace(/\s+/g, ' ')
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title
+}
+
+/**
+ * The session to add this turn to: the requested one if it exists (and is
+ * the user's - RLS hides everyone else's), otherwise a new one titled after
+ * the question. Null if the session can't be stored; the chat still answers.
+ */
+export async function ensureChatSession(
+  user: UserClient,
+  sessionId: string | undefined,
+  question: string
+): Promise<string | null> {
+  if (sessionId) {
+    const { data, error } = await user.client
+      .from('chat_sessions')
+      .select('id')
+      .eq('id', sessionId)
+      .maybeSingle()
+
+    if (error) console.error('Error loading chat session:', error)
+    if (data) return sessionId
+  }
+
+  const { data, error } = await user.client
+    .from('chat_sessions')
+    .insert({ user_id: user.userId, title: titleFromQuestion(question) })
+    .select('id')
+    .single()
+
+  if (error || !data) {
+    console.error('Error creating chat session:', error)
+    return null
+  }
+
+  return (data as { id: string }).id
+}
+
+/**
+ * Messages of a session, oldest first
+ */
+export async function loadChatHistory(user: UserClient, sessionId: string): Promise<StoredChatMessage[]> {
+  const { data, error } = await user.client
+    .from('chat_messages')
+    .select('role, content, response')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error loading chat history:', error)
+    return []
+  }
+
+  return (data || []) as StoredChatMessage[]
+}
+
+/**
+ * Store a question and its answer, and bump the session to the top of the list
+ */
+export async function saveChatTurn(
+  user: UserClient,
+  sessionId: string,
+  question: string,
+  answer: { text: string }
+): Promise<void> {
+  const now = Date.now()
+  const { error } = await user.client
+    .from('chat_messages')
+    .insert([
+      { session_id: sessionId, user_id: user.userId, role: 'user', content: question, created_at: new Date(now).toISOString() },
+      // 1ms later so the pair always sorts question-first
+      { session_id: sessionId, user_id: user.userId, role: 'assistant', content: answer.text, response: answer, created_at: new Date(now + 1).toISOString() },
+    ])
+
+  if (error) {
+    console.error('Error saving chat turn:', error)
+    return
+  }
+
+  const { error: sessionError } = await user.client
+    .from('chat_sessions')
+    .update({ updated_at: new Date(now).toISOString() })
+    .eq('id', sessionId)
+
+  if (sessionError) console.error('Error updating chat session:', sessionError)
+}
+
+// ============================================
+// PROMPT CONTEXT
+// ============================================
+
+function clip(text: string, maxLength: number): string {
+  const flat = text.trim()
+  return flat.length > maxLength ? `${flat.slice(0, maxLength - 1)}…` : flat
+}
+
+/**
+ * What the model sees of an earlier answer: the text, the bullets, which
+ * queries it was based on (so "only Careem" can reuse the same period) and
+ * any edits it proposed
+ */
+function formatAnswer(message: StoredChatMessage): string {
+  const bullets = message.response?.bullets || []
+  const queries = (message.response?.citations || []).map(c => c.label)
+  const edits = (message.response?.actions || []).map(a => a.label)
+
+  return [
+    clip(message.content, MAX_ANSWER_LENGTH),
+    ...bullets.map(b => `- ${b}`),
+    ...(queries.length > 0 ? [`(Queries used: ${queries.join('; ')})`] : []),
+    ...(edits.length > 0 ? [`(Edits proposed to the user: ${edits.join('; ')})`] : []),
+  ].join('\n')
+}
+
+export function buildChatContext(history: StoredChatMessage[]): ChatContext {
+  // Pair each question with the answer that follows it
+  const turns: { question: string; answer: StoredChatMessage | null }[] = []
+  for (const message of history) {
+    if (message.role === 'user') {
+      turns.push({ question: message.content, answer: null })
+    } else if (turns.length > 0 && !turns[turns.length - 1].answer) {
+      turns[turns.length - 1].answer = message
+    }
+  }
+
+  const answered = turns.filter(t => t.answer)
+  const recent = answered.slice(-RECENT_TURNS)
+  const older = answered.slice(0, -RECENT_TURNS)
+  const summarized = older.slice(-SUMMARIZED_TURNS)
+  const dropped = older.length - summarized.length
+
+  const summary = summarized.length > 0
+    ? [
+        ...(dropped > 0 ? [`(${dropped} earlier questions omitted)`] : []),
+        ...summarized.map(t => `- Q: ${clip(t.question, MAX_SUMMARY_ANSWER_LENGTH)} → A: ${clip(t.answer!.content, MAX_SUMMARY_ANSWER_LENGTH)}`),
+      ].join('\n')
+    : ''
+
+  const messages: LLMMessage[] = recent.flatMap(t => [
+    { role: 'user' as const, content: `User's question: "${t.question}"` },
+    { role: 'assistant' as const, content: formatAnswer(t.answer!) },
+  ])
+
+  return { summary, messages }
+}
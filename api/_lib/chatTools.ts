@@ -0,0 +1,548 @@
+/**
+ * Chat query tools
+ *
+ * The chat model doesn't get the user's transactions up front. It asks for
+ * what it needs by naming one of these tools; each runs a query against
+ * Supabase as the signed-in user (RLS applies) and returns a compact result
+ * the model answers from. Every result is returned to the browser as a
+ * citation, so the numbers in an answer can be checked.
+ *
+ * Totals are always grouped by currency - amounts in different currencies
+ * are never added together - and rounded to each currency's minor units.
+ */
+
+import { CURRENCY_REGISTRY } from '../../shared/currencyRegistry.js'
+import type { UserClient } from './supabase.js'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ChatToolName =
+  | 'sum_transactions'
+  | 'list_transactions'
+  | 'compare_periods'
+  | 'list_subscriptions'
+  | 'beneficiary_spending'
+
+export type ToolArgs = Record<string, unknown>
+
+export interface ChatCitation {
+  id: string // "R1", "R2"... - the model cites these
+  tool: ChatToolName
+  label: string // Human-readable description of the query
+  lines: string[] // The result, formatted for display
+  result: unknown // The result as the model saw it
+}
+
+interface ChatTool {
+  name: ChatToolName
+  description: string
+  run: (user: UserClient, args: ToolArgs) => Promise<{ label: string; lines: string[]; result: unknown }>
+}
+
+export interface TransactionFilter {
+  from?: string
+  to?: string
+  direction?: 'in' | 'out' | 'transfer'
+  category?: string
+  merchant?: string
+  currency?: string
+}
+
+type GroupBy = 'category' | 'merchant' | 'month' | 'week' | 'day' | 'direction' | 'none'
+
+export interface TransactionRow {
+  id: string
+  amount: number
+  currency: string
+  direction: 'in' | 'out' | 'transfer'
+  category: string
+  merchant: string | null
+  transaction_date: string
+  description: string | null
+  beneficiary_id: string | null
+  account_id: string | null
+  card_id: string | null
+  is_reimbursable: boolean
+}
+
+interface CurrencyTotal {
+  currency: string
+  total: number
+  count: number
+}
+
+interface GroupTotal extends CurrencyTotal {
+  key: string
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Rows fetched per request when aggregating the full history
+const PAGE_SIZE = 1000
+
+// Most rows one aggregation reads; past this the result says it is partial
+const MAX_AGGREGATE_ROWS = 20000
+
+// Most groups returned by one aggregation (the rest are summed as "other")
+const MAX_GROUPS = 25
+
+const DEFAULT_LIST_LIMIT = 20
+const MAX_LIST_LIMIT = 50
+
+const GROUP_BY_VALUES: GroupBy[] = ['category', 'merchant', 'month', 'week', 'day', 'direction', 'none']
+
+const TRANSACTION_COLUMNS = 'id, amount, currency, direction, category, merchant, transaction_date, description, beneficiary_id, account_id, card_id, is_reimbursable'
+
+// Subscription cost per month, by billing cycle
+const MONTHLY_FACTOR: Record<string, number> = {
+  weekly: 52 / 12,
+  biweekly: 26 / 12,
+  monthly: 1,
+  quarterly: 1 / 3,
+  semiannual: 1 / 6,
+  annual: 1 / 12,
+}
+
+// ============================================
+// ARGUMENT PARSING
+// ============================================
+
+function readDate(value: unknown): string | undefined {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined
+}
+
+export function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+export function readFilter(args: ToolArgs): TransactionFilter {
+  const direction = args.direction === 'in' || args.direction === 'out' || args.direction === 'transfer' ? args.direction : undefined
+  const currency = readString(args.currency)
+  return {
+    from: readDate(args.from),
+    to: readDate(args.to),
+    direction,
+    category: readString(args.category),
+    merchant: readString(args.merchant),
+    currency: currency?.toUpperCase(),
+  }
+}
+
+function readGroupBy(value: unknown): GroupBy {
+  return GROUP_BY_VALUES.includes(value as GroupBy) ? value as GroupBy : 'category'
+}
+
+/**
+ * Totals without a direction would add income, spending and transfers
+ * together, so they count spending unless grouped by direction
+ */
+function readSumFilter(args: ToolArgs, groupBy: GroupBy): TransactionFilter {
+  const filter = readFilter(args)
+  return filter.direction || groupBy === 'direction' ? filter : { ...filter, direction: 'out' }
+}
+
+export function describeFilter(filter: TransactionFilter): string {
+  const parts = [
+    filter.from || filter.to ? `${filter.from || 'start'} to ${filter.to || 'today'}` : 'all time',
+    filter.direction === 'out' ? 'spending' : filter.direction === 'in' ? 'income' : filter.direction === 'transfer' ? 'transfers' : null,
+    filter.category ? `category "${filter.category}"` : null,
+    filter.merchant ? `merchant "${filter.merchant}"` : null,
+    filter.currency,
+  ]
+  return parts.filter(Boolean).join(' · ')
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+// Match the user's words literally - % and _ are wildcards to ilike
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, char => `\\${char}`)
+}
+
+/**
+ * The user's transactions matching the filter, as a query to order and limit
+ */
+export function selectTransactions(user: UserClient, filter: TransactionFilter, options?: { count?: boolean }) {
+  let query = user.client
+    .from('transactions')
+    .select(TRANSACTION_COLUMNS, options?.count ? { count: 'exact' } : undefined)
+    .eq('user_id', user.userId)
+
+  if (filter.from) query = query.gte('transaction_date', filter.from)
+  if (filter.to) query = query.lte('transaction_date', filter.to)
+  if (filter.direction) query = query.eq('direction', filter.direction)
+  if (filter.category) query = query.ilike('category', escapeLike(filter.category))
+  if (filter.merchant) query = query.ilike('merchant', `%${escapeLike(filter.merchant)}%`)
+  if (filter.currency) query = query.eq('currency', filter.currency)
+
+  return query
+}
+
+/**
+ * Every matching transaction, fetched page by page so totals cover the
+ * whole history - up to MAX_AGGREGATE_ROWS, with `truncated` set past that
+ */
+export async function fetchAllTransactions(
+  user: UserClient,
+  filter: TransactionFilter
+): Promise<{ rows: TransactionRow[]; truncated: boolean }> {
+  const rows: TransactionRow[] = []
+
+  for (let offset = 0; offset < MAX_AGGREGATE_ROWS; offset += PAGE_SIZE) {
+    const { data, error } = await selectTransactions(user, filter)
+      .order('transaction_date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) throw error
+    rows.push(...(data as TransactionRow[]))
+    if (!data || data.length < PAGE_SIZE) return { rows, truncated: false }
+  }
+
+  return { rows, truncated: true }
+}
+
+// ============================================
+// AGGREGATION
+// ============================================
+
+function minorUnits(currency: string): number {
+  return (CURRENCY_REGISTRY as Record<string, { minorUnits: number }>)[currency]?.minorUnits ?? 2
+}
+
+export function roundAmount(amount: number, currency: string): number {
+  const factor = 10 ** minorUnits(currency)
+  return Math.round(amount * factor) / factor
+}
+
+function weekStart(date: string): string {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`)
+  const offset = (day.getUTCDay() + 6) % 7 // Monday-based
+  day.setUTCDate(day.getUTCDate() - offset)
+  return day.toISOString().slice(0, 10)
+}
+
+function groupKey(row: TransactionRow, groupBy: GroupBy): string {
+  switch (groupBy) {
+    case 'category': return row.category || 'Other'
+    case 'merchant': return row.merchant || 'Unknown'
+    case 'month': return row.transaction_date.slice(0, 7)
+    case 'week': return weekStart(row.transaction_date)
+    case 'day': return row.transaction_date.slice(0, 10)
+    case 'direction': return row.direction
+    case 'none': return 'all'
+  }
+}
+
+function totalsByCurrency(rows: TransactionRow[]): CurrencyTotal[] {
+  const totals = new Map<string, CurrencyTotal>()
+  for (const row of rows) {
+    const entry = totals.get(row.currency) || { currency: row.currency, total: 0, count: 0 }
+    entry.total += row.amount
+    entry.count++
+    totals.set(row.currency, entry)
+  }
+  return Array.from(totals.values())
+    .map(t => ({ ...t, total: roundAmount(t.total, t.currency) }))
+    .sort((a, b) => b.total - a.total)
+}
+
+function aggregate(rows: TransactionRow[], groupBy: GroupBy): { groups: GroupTotal[]; other: CurrencyTotal[] } {
+  const groups = new Map<string, GroupTotal>()
+  for (const row of rows) {
+    const key = groupKey(row, groupBy)
+    const mapKey = `${key}\u0000${row.currency}`
+    const entry = groups.get(mapKey) || { key, currency: row.currency, total: 0, count: 0 }
+    entry.total += row.amount
+    entry.count++
+    groups.set(mapKey, entry)
+  }
+
+  const isTimeGroup = groupBy === 'month' || groupBy === 'week' || groupBy === 'day'
+  const sorted = Array.from(groups.values())
+    .map(g => ({ ...g, total: roundAmount(g.total, g.currency) }))
+    .sort((a, b) => isTimeGroup ? a.key.localeCompare(b.key) : b.total - a.total)
+
+  // Time series keep the latest periods, rankings keep the largest groups
+  const kept = isTimeGroup ? sorted.slice(-MAX_GROUPS) : sorted.slice(0, MAX_GROUPS)
+  const dropped = isTimeGroup ? sorted.slice(0, -MAX_GROUPS) : sorted.slice(MAX_GROUPS)
+
+  const other = new Map<string, CurrencyTotal>()
+  for (const group of dropped) {
+    const entry = other.get(group.currency) || { currency: group.currency, total: 0, count: 0 }
+    entry.total = roundAmount(entry.total + group.total, group.currency)
+    entry.count += group.count
+    other.set(group.currency, entry)
+  }
+
+  return { groups: kept, other: Array.from(other.values()) }
+}
+
+export function formatAmount(currency: string, amount: number): string {
+  const digits = minorUnits(currency)
+  return `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits })}`
+}
+
+// Label suffix for an aggregation that hit MAX_AGGREGATE_ROWS
+function partialNote(truncated: boolean): string {
+  return truncated ? ` · first ${MAX_AGGREGATE_ROWS.toLocaleString('en-US')} transactions only` : ''
+}
+
+function formatTotalLine(label: string, total: CurrencyTotal): string {
+  return `${label}: ${formatAmount(total.currency, total.total)} (${total.count})`
+}
+
+// ============================================
+// TOOLS
+// ============================================
+
+const sumTransactions: ChatTool = {
+  name: 'sum_transactions',
+  description: `Totals and counts of transactions, grouped.
+  args: { group_by: "category" | "merchant" | "month" | "week" | "day" | "direction" | "none",
+          from?: "YYYY-MM-DD", to?: "YYYY-MM-DD",
+          direction?: "in" | "out" | "transfer" (between the user's own accounts; default "out" unless group_by is "direction"),
+          category?: string, merchant?: string (partial match), currency?: string }`,
+  run: async (user, args) => {
+    const groupBy = readGroupBy(args.group_by)
+    const filter = readSumFilter(args, groupBy)
+    const { rows, truncated } = await fetchAllTransactions(user, filter)
+    const { groups, other } = aggregate(rows, groupBy)
+    const totals = totalsByCurrency(rows)
+
+    return {
+      label: `Totals${groupBy === 'none' ? '' : ` by ${groupBy}`} · ${describeFilter(filter)}${partialNote(truncated)}`,
+      lines: [
+        ...totals.map(t => formatTotalLine('Total', t)),
+        ...(groupBy === 'none' ? [] : groups.map(g => formatTotalLine(g.key, g))),
+        ...other.map(t => formatTotalLine('Other groups', t)),
+      ],
+      result: { filter, group_by: groupBy, totals, groups: groupBy === 'none' ? [] : groups, other_groups: other, truncated },
+    }
+  },
+}
+
+const listTransactions: ChatTool = {
+  name: 'list_transactions',
+  description: `Individual transactions.
+  args: { from?, to?, direction?, category?, merchant?, currency? (as above),
+          sort?: "date_desc" | "amount_desc" | "amount_asc", limit?: number (max ${MAX_LIST_LIMIT}) }`,
+  run: async (user, args) => {
+    const filter = readFilter(args)
+    const limit = Math.min(MAX_LIST_LIMIT, Math.max(1, Number(args.limit) || DEFAULT_LIST_LIMIT))
+    const sort = args.sort === 'amount_desc' || args.sort === 'amount_asc' ? args.sort : 'date_desc'
+
+    const { data, error, count } = await selectTransactions(user, filter, { count: true })
+      .order(sort === 'date_desc' ? 'transaction_date' : 'amount', { ascending: sort === 'amount_asc' })
+      .limit(limit)
+
+    if (error) throw error
+    const rows = (data || []) as TransactionRow[]
+
+    return {
+      label: `Transactions · ${describeFilter(filter)}${count !== null && count > rows.length ? ` · ${rows.length} of ${count}` : ''}`,
+      lines: rows.map(r =>
+        `${r.transaction_date.slice(0, 10)} · ${r.merchant || r.category} · ${r.direction === 'out' ? '-' : r.direction === 'in' ? '+' : ''}${formatAmount(r.currency, r.amount)}`
+      ),
+      result: {
+        filter,
+        total_matching: count,
+        transactions: rows.map(r => ({
+          id: r.id,
+          date: r.transaction_date,
+          amount: r.amount,
+          currency: r.currency,
+          direction: r.direction,
+          category: r.category,
+          merchant: r.merchant,
+          description: r.description,
+        })),
+      },
+    }
+  },
+}
+
+const comparePeriods: ChatTool = {
+  name: 'compare_periods',
+  description: `Totals for two date ranges side by side, with the change per group.
+  args: { a_from: "YYYY-MM-DD", a_to: "YYYY-MM-DD", b_from: "YYYY-MM-DD", b_to: "YYYY-MM-DD",
+          group_by?: "category" | "merchant" | "direction" | "none", direction? (default "out" unless grouped by direction),
+          category?, merchant?, currency? }`,
+  run: async (user, args) => {
+    const groupBy = readGroupBy(args.group_by ?? 'none')
+    const base = readSumFilter(args, groupBy)
+    const periodA = { ...base, from: readDate(args.a_from), to: readDate(args.a_to) }
+    const periodB = { ...base, from: readDate(args.b_from), to: readDate(args.b_to) }
+
+    const [fetchedA, fetchedB] = await Promise.all([
+      fetchAllTransactions(user, periodA),
+      fetchAllTransactions(user, periodB),
+    ])
+    const rowsA = fetchedA.rows
+    const rowsB = fetchedB.rows
+    const truncated = fetchedA.truncated || fetchedB.truncated
+
+    const groupsA = aggregate(rowsA, groupBy).groups
+    const groupsB = aggregate(rowsB, groupBy).groups
+    const keys = new Map<string, { key: string; currency: string }>()
+    for (const g of [...groupsA, ...groupsB]) keys.set(`${g.key}\u0000${g.currency}`, { key: g.key, currency: g.currency })
+
+    const changes = Array.from(keys.values()).map(({ key, currency }) => {
+      const a = groupsA.find(g => g.key === key && g.currency === currency)?.total || 0
+      const b = groupsB.find(g => g.key === key && g.currency === currency)?.total || 0
+      return {
+        key,
+        currency,
+        a,
+        b,
+        change: roundAmount(b - a, currency),
+        change_percent: a !== 0 ? Math.round(((b - a) / a) * 1000) / 10 : null,
+      }
+    }).sort((x, y) => Math.abs(y.change) - Math.abs(x.change))
+
+    const labelA = `${periodA.from || 'start'} to ${periodA.to || 'today'}`
+    const labelB = `${periodB.from || 'start'} to ${periodB.to || 'today'}`
+
+    return {
+      label: `Compare ${labelA} vs ${labelB}${groupBy === 'none' ? '' : ` by ${groupBy}`}${partialNote(truncated)}`,
+      lines: changes.map(c =>
+        `${groupBy === 'none' ? 'Total' : c.key}: ${formatAmount(c.currency, c.a)} → ${formatAmount(c.currency, c.b)}${c.change_percent !== null ? ` (${c.change_percent > 0 ? '+' : ''}${c.change_percent}%)` : ''}`
+      ),
+      result: {
+        period_a: { from: periodA.from, to: periodA.to, totals: totalsByCurrency(rowsA) },
+        period_b: { from: periodB.from, to: periodB.to, totals: totalsByCurrency(rowsB) },
+        group_by: groupBy,
+        changes,
+        truncated,
+      },
+    }
+  },
+}
+
+const listSubscriptions: ChatTool = {
+  name: 'list_subscriptions',
+  description: `The user's recurring subscriptions with their monthly cost.
+  args: { active_only?: boolean (default true) }`,
+  run: async (user, args) => {
+    const activeOnly = args.active_only !== false
+
+    let query = user.client
+      .from('subscriptions')
+      .select('name, amount, currency, category, billing_cycle, deduction_day, is_active, next_deduction_date')
+      .eq('user_id', user.userId)
+    if (activeOnly) query = query.eq('is_active', true)
+
+    const { data, error } = await query.order('amount', { ascending: false })
+    if (error) throw error
+
+    const subscriptions = (data || []) as {
+      name: string
+      amount: number
+      currency: string
+      category: string
+      billing_cycle: string
+      deduction_day: number
+      is_active: boolean
+      next_deduction_date: string | null
+    }[]
+
+    const monthly = new Map<string, CurrencyTotal>()
+    for (const sub of subscriptions.filter(s => s.is_active)) {
+      const entry = monthly.get(sub.currency) || { currency: sub.currency, total: 0, count: 0 }
+      entry.total = roundAmount(entry.total + sub.amount * (MONTHLY_FACTOR[sub.billing_cycle] ?? 1), sub.currency)
+      entry.count++
+      monthly.set(sub.currency, entry)
+    }
+
+    return {
+      label: activeOnly ? 'Active subscriptions' : 'All subscriptions',
+      lines: [
+        ...Array.from(monthly.values()).map(t => formatTotalLine('Monthly cost', t)),
+        ...subscriptions.map(s => `${s.name} · ${formatAmount(s.currency, s.amount)} ${s.billing_cycle}${s.is_active ? '' : ' (paused)'}`),
+      ],
+      result: { subscriptions, monthly_cost: Array.from(monthly.values()) },
+    }
+  },
+}
+
+const beneficiarySpending: ChatTool = {
+  name: 'beneficiary_spending',
+  description: `Totals per beneficiary (people the user spends on or sends money to).
+  args: { name?: string (partial match), from?, to?, direction? }`,
+  run: async (user, args) => {
+    const filter = readFilter(args)
+    const name = readString(args.name)
+
+    let query = user.client
+      .from('beneficiaries')
+      .select('id, name, relationship')
+      .eq('user_id', user.userId)
+    if (name) query = query.ilike('name', `%${escapeLike(name)}%`)
+
+    const { data, error } = await query
+    if (error) throw error
+
+    const beneficiaries = (data || []) as { id: string; name: string; relationship: string | null }[]
+    const fetched = beneficiaries.length > 0
+      ? await fetchAllTransactions(user, filter)
+      : { rows: [], truncated: false }
+    const rows = fetched.rows.filter(r => r.beneficiary_id !== null)
+
+    const results = beneficiaries.map(b => ({
+      name: b.name,
+      relationship: b.relationship,
+      totals: totalsByCurrency(rows.filter(r => r.beneficiary_id === b.id)),
+    }))
+
+    return {
+      label: `Beneficiaries${name ? ` matching "${name}"` : ''} · ${describeFilter(filter)}${partialNote(fetched.truncated)}`,
+      lines: results.flatMap(b =>
+        b.totals.length > 0
+          ? b.totals.map(t => formatTotalLine(b.name, t))
+          : [`${b.name}: no transactions`]
+      ),
+      result: { filter, beneficiaries: results, truncated: fetched.truncated },
+    }
+  },
+}
+
+const TOOLS: ChatTool[] = [sumTransactions, listTransactions, comparePeriods, listSubscriptions, beneficiarySpending]
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Tool list for the system prompt
+ */
+export function describeChatTools(): string {
+  return TOOLS.map(tool => `- ${tool.name}: ${tool.description}`).join('\n')
+}
+
+/**
+ * Run one tool call. Unknown tools and query failures come back as an error
+ * result for the model rather than failing the whole chat request.
+ */
+export async function runChatTool(
+  user: UserClient,
+  id: string,
+  name: string,
+  args: ToolArgs
+): Promise<ChatCitation | { id: string; tool: string; error: string }> {
+  const tool = TOOLS.find(t => t.name === name)
+  if (!tool) return { id, tool: name, error: `Unknown tool "${name}"` }
+
+  try {
+    const { label, lines, result } = await tool.run(user, args || {})
+    return { id, tool: tool.name, label, lines, result }
+  } catch (error) {
+    console.error(`Error running chat tool ${name}:`, error)
+    return { id, tool: name, error: 'Query failed' }
+  }
+}
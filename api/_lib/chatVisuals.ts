@@ -0,0 +1,183 @@
+/**
+ * Chat visual blocks
+ *
+ * The chat model can ask for a chart or table under its answer, but it only
+ * names the block type and the tool result to draw it from ("R2"). The
+ * block's numbers are taken from that result here, so a chart can't show
+ * figures the queries didn't return.
+ */
+
+import { roundAmount, type ChatCitation } from './chatTools.js'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TimeSeriesVisual {
+  type: 'time_series'
+  chart: 'bar' | 'line'
+  title: string
+  currency: string
+  points: { label: string; value: number }[]
+}
+
+export interface CategoryPieVisual {
+  type: 'category_pie'
+  title: string
+  currency: string
+  slices: { name: string; value: number }[]
+}
+
+export interface TransactionTableVisual {
+  type: 'transaction_table'
+  title: string
+  rows: {
+    date: string
+    merchant: string | null
+    category: string
+    amount: number
+    currency: string
+    direction: 'in' | 'out' | 'transfer'
+  }[]
+}
+
+export type ChatVisual = TimeSeriesVisual | CategoryPieVisual | TransactionTableVisual
+
+// What the model asks for
+export interface VisualRequest {
+  type?: string
+  source?: string
+  chart?: string
+  title?: string
+  currency?: string
+}
+
+// Shapes of the tool results the blocks are drawn from (see chatTools.ts)
+interface GroupedResult {
+  group_by: string
+  groups: { key: string; currency: string; total: number }[]
+}
+
+interface ListResult {
+  transactions: TransactionTableVisual['rows'][number][]
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Blocks per answer
+const MAX_VISUALS = 3
+
+// Pie slices before the rest are merged into "Other"
+const MAX_SLICES = 8
+
+const TIME_GROUPS = ['month', 'week', 'day']
+const SLICE_GROUPS = ['category', 'merchant', 'direction']
+
+// ============================================
+// BUILDERS
+// ============================================
+
+/**
+ * The currency to draw: the one asked for if the result has it, otherwise
+ * the one with the largest total (a chart never mixes currencies)
+ */
+function pickCurrency(groups: GroupedResult['groups'], requested?: string): string | null {
+  if (groups.length === 0) return null
+  const wanted = requested?.toUpperCase()
+  if (wanted && groups.some(g => g.currency === wanted)) return wanted
+
+  const totals = new Map<string, number>()
+  for (const g of groups) totals.set(g.currency, (totals.get(g.currency) || 0) + g.total)
+  return Array.from(totals.entries()).sort(([, a], [, b]) => b - a)[0][0]
+}
+
+function buildTimeSeries(request: VisualRequest, citation: ChatCitation): TimeSeriesVisual | null {
+  const result = citation.result as GroupedResult
+  if (citation.tool !== 'sum_transactions' || !TIME_GROUPS.includes(result.group_by)) return null
+
+  const currency = pickCurrency(result.groups, request.currency)
+  if (!currency) return null
+
+  return {
+    type: 'time_series',
+    chart: request.chart === 'line' ? 'line' : 'bar',
+    title: request.title || citation.label,
+    currency,
+    points: result.groups
+      .filter(g => g.currency === currency)
+      .sort((a, b) => a.key.localeCompare(b.key))
+      .map(g => ({ label: g.key, value: g.total })),
+  }
+}
+
+function buildCategoryPie(request: VisualRequest, citation: ChatCitation): CategoryPieVisual | null {
+  const result = citation.result as GroupedResult
+  if (citation.tool !== 'sum_transactions' || !SLICE_GROUPS.includes(result.group_by)) return null
+
+  const currency = pickCurrency(result.groups, request.currency)
+  if (!currency) return null
+
+  const slices = result.groups
+    .filter(g => g.currency === currency && g.total > 0)
+    .sort((a, b) => b.total - a.total)
+    .map(g => ({ name: g.key, value: g.total }))
+
+  const kept = slices.slice(0, MAX_SLICES)
+  const rest = slices.slice(MAX_SLICES).reduce((sum, s) => sum + s.value, 0)
+
+  return {
+    type: 'category_pie',
+    title: request.title || citation.label,
+    currency,
+    slices: rest > 0 ? [...kept, { name: 'Other', value: roundAmount(rest, currency) }] : kept,
+  }
+}
+
+function buildTransactionTable(request: VisualRequest, citation: ChatCitation): TransactionTableVisual | null {
+  if (citation.tool !== 'list_transactions') return null
+  const result = citation.result as ListResult
+
+  return {
+    type: 'transaction_table',
+    title: request.title || citation.label,
+    rows: result.transactions.map(t => ({
+      date: t.date,
+      merchant: t.merchant,
+      category: t.category,
+      amount: t.amount,
+      currency: t.currency,
+      direction: t.direction,
+    })),
+  }
+}
+
+/**
+ * Blocks for the model's requests. Requests that point at a missing or
+ * unsuitable result (a pie from a monthly series, say) are dropped.
+ */
+export function buildChatVisuals(requests: unknown, citations: ChatCitation[]): ChatVisual[] {
+  if (!Array.isArray(requests)) return []
+
+  const visuals: ChatVisual[] = []
+  for (const request of requests as VisualRequest[]) {
+    const citation = citations.find(c => c.id === request?.source)
+    if (!citation) continue
+
+    const visual =
+      request.type === 'time_series' ? buildTimeSeries(request, citation)
+      : request.type === 'category_pie' ? buildCategoryPie(request, citation)
+      : request.type === 'transaction_table' ? buildTransactionTable(request, citation)
+      : null
+
+    const isEmpty = !visual
+      || (visual.type === 'time_series' && visual.points.length === 0)
+      || (visual.type === 'category_pie' && visual.slices.length === 0)
+      || (visual.type === 'transaction_table' && visual.rows.length === 0)
+    if (!isEmpty) visuals.push(visual)
+    if (visuals.length >= MAX_VISUALS) break
+  }
+
+  return visuals
+}
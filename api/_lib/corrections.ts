@@ -0,0 +1,142 @@
+/**
+ * Few-shot corrections
+ *
+ * Users fix parser mistakes in the review screen; each fix is stored as a
+ * (raw input -> corrected transaction) pair. Before parsing, the most similar
+ * past pairs are added to the prompt so the model stops repeating mistakes
+ * on messages it has already been corrected on.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ParseCorrection {
+  id: string
+  raw_input: string
+  original: Record<string, unknown>
+  corrected: Record<string, unknown>
+  fields_changed: string[]
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// How many of the user's latest corrections to consider per request
+const CANDIDATE_LIMIT = 200
+
+// Examples injected into the prompt at most
+const MAX_EXAMPLES = 3
+
+// Minimum token overlap for a correction to count as "similar"
+const MIN_SIMILARITY = 0.3
+
+// Raw inputs are clipped to this length in the prompt
+const MAX_EXAMPLE_LENGTH = 600
+
+// ============================================
+// SIMILARITY
+// ============================================
+
+/**
+ * Word set with numbers masked, so the same bank template with a different
+ * amount, date or reference still matches
+ */
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[0-9٠-٩]+([.,][0-9٠-٩]+)*/g, '#')
+      .split(/[^\p{L}#]+/u)
+      .filter(token => token.length > 1 || token === '#')
+  )
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  for (const token of a) {
+    if (b.has(token)) shared++
+  }
+  return shared / (a.size + b.size - shared)
+}
+
+/**
+ * Best similarity between a correction and any message in the input
+ */
+function scoreCorrection(segments: Set<string>[], correction: ParseCorrection): number {
+  const tokens = tokenize(correction.raw_input)
+  return Math.max(0, ...segments.map(segment => jaccard(segment, tokens)))
+}
+
+// ============================================
+// LOOKUP
+// ============================================
+
+/**
+ * Pick the user's past corrections most similar to the text being parsed
+ */
+export async function findSimilarCorrections(
+  client: SupabaseClient,
+  userId: string,
+  text: string
+): Promise<ParseCorrection[]> {
+  const { data, error } = await client
+    .from('parse_corrections')
+    .select('id, raw_input, original, corrected, fields_changed')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(CANDIDATE_LIMIT)
+
+  if (error || !data || data.length === 0) {
+    if (error) console.error('Error fetching parse corrections:', error)
+    return []
+  }
+
+  const segments = text.split(/\n\s*\n/).map(tokenize).filter(s => s.size > 0)
+  return (data as ParseCorrection[])
+    .map(correction => ({ correction, score: scoreCorrection(segments, correction) }))
+    .filter(({ score }) => score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_EXAMPLES)
+    .map(({ correction }) => correction)
+}
+
+/**
+ * Count the corrections as used by a prompt. Usage stats let the user see
+ * which examples matter before pruning.
+ */
+export async function markCorrectionsUsed(client: SupabaseClient, corrections: ParseCorrection[]): Promise<void> {
+  if (corrections.length === 0) return
+
+  const { error } = await client.rpc('mark_parse_corrections_used', {
+    p_ids: corrections.map(c => c.id),
+  })
+  if (error) console.error('Error updating parse correction usage:', error)
+}
+
+/**
+ * Prompt section with the picked corrections as worked examples
+ */
+export function formatCorrectionExamples(corrections: ParseCorrection[]): string {
+  if (corrections.length === 0) return ''
+
+  const examples = corrections.map((correction, i) => {
+    const input = correction.raw_input.length > MAX_EXAMPLE_LENGTH
+      ? `${correction.raw_input.slice(0, MAX_EXAMPLE_LENGTH)}…`
+      : correction.raw_input
+    const mistakes = correction.fields_changed
+      .map(field => `${field} ${JSON.stringify(correction.original[field] ?? null)} -> ${JSON.stringify(correction.corrected[field] ?? null)}`)
+      .join(', ')
+
+    return `Correction ${i + 1}:
+Input: ${JSON.stringify(input)}
+You previously got wrong: ${mistakes}
+Correct output: ${JSON.stringify(correction.corrected)}`
+  })
+
+  return `\n\nTHIS USER'S PAST CORRECTIONS (they reviewed your earlier output and fixed it - apply the same interpretation to similar messages, but take amounts and dates from the new input):\n${examples.join('\n\n')}`
+}
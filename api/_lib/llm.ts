@@ -0,0 +1,439 @@
+/**
+ * LLM Provider Layer
+ *
+ * One interface for every model call made by the serverless functions.
+ * The backend is picked by environment variables:
+ *
+ *   LLM_PROVIDER            gemini (default) | openai | local | fixture
+ *   LLM_FALLBACK_PROVIDER   optional second provider, used when the first one errors
+ *
+ *   gemini   GOOGLE_AI_API_KEY, GEMINI_MODEL (default gemini-2.0-flash)
+ *   openai   OPENAI_API_KEY, OPENAI_BASE_URL (default https://api.openai.com/v1),
+ *            OPENAI_MODEL (default gpt-4o-mini) - any OpenAI-compatible server
+ *            (llama.cpp, vLLM, LM Studio...) works by changing the base URL
+ *   local    LOCAL_LLM_URL (default http://localhost:11434), LOCAL_LLM_MODEL
+ *            (default llama3.1) - Ollama-style /api/chat
+ *   fixture  LLM_FIXTURE_DIR - replays recorded responses, no network
+ *
+ * Set LLM_RECORD_FIXTURES=true together with LLM_FIXTURE_DIR to record the
+ * responses of a live provider for later replay.
+ */
+
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface LLMImage {
+  mimeType: string
+  data: string // base64, no data URL prefix
+}
+
+export interface LLMMessage {
+  role: 'user' | 'assistant'
+  content: string
+  images?: LLMImage[]
+}
+
+/**
+ * Response schema for structured output (common subset of JSON Schema
+ * and Gemini's OpenAPI schema). Providers without native support ignore it.
+ */
+export interface LLMSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean'
+  properties?: Record<string, LLMSchema>
+  required?: string[]
+  items?: LLMSchema
+  enum?: string[]
+  nullable?: boolean
+  description?: string
+}
+
+export interface LLMRequest {
+  system?: string
+  messages: LLMMessage[]
+  temperature?: number
+  maxOutputTokens?: number
+  responseSchema?: LLMSchema
+}
+
+export type LLMResult =
+  | { ok: true; text: string; provider: string }
+  | { ok: false; status: number; error: string; provider: string }
+
+export interface LLMProvider {
+  name: string
+  generate: (request: LLMRequest) => Promise<LLMResult>
+}
+
+export type LLMProviderName = 'gemini' | 'openai' | 'local' | 'fixture'
+
+const PROVIDER_NAMES: LLMProviderName[] = ['gemini', 'openai', 'local', 'fixture']
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Run a provider request, turning network failures into an error result
+ */
+async function safeGenerate(
+  provider: string,
+  run: () => Promise<LLMResult>
+): Promise<LLMResult> {
+  try {
+    return await run()
+  } catch (error) {
+    console.error(`LLM provider "${provider}" failed:`, error)
+    return {
+      ok: false,
+      status: 502,
+      error: error instanceof Error ? error.message : 'Provider request failed',
+      provider,
+    }
+  }
+}
+
+/**
+ * Read the error message out of a failed provider response
+ */
+async function readErrorMessage(response: Response): Promise<string> {
+  const errorData = await response.json().catch(() => ({})) as { error?: { message?: string } | string }
+  if (typeof errorData.error === 'string') return errorData.error
+  return errorData.error?.message || `HTTP ${response.status}`
+}
+
+/**
+ * Extract a JSON object from model output.
+ * Handles markdown code blocks and leading/trailing prose.
+ * Returns null if no object is found; throws SyntaxError if it is malformed.
+ */
+export function extractJSON<T = unknown>(text: string): T | null {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/)
+  const candidate = fenced ? fenced[1] : text
+  const objectMatch = candidate.match(/\{[\s\S]*\}/)
+  if (!objectMatch) return null
+  return JSON.parse(objectMatch[0]) as T
+}
+
+/**
+ * Convert to Gemini's OpenAPI-style schema (upper-case types, nullable flag)
+ */
+function toGeminiSchema(schema: LLMSchema): Record<string, unknown> {
+  return {
+    type: schema.type.toUpperCase(),
+    ...(schema.nullable ? { nullable: true } : {}),
+    ...(schema.enum ? { enum: schema.enum } : {}),
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+    ...(schema.properties ? {
+      properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+    } : {}),
+    ...(schema.required ? { required: schema.required } : {}),
+  }
+}
+
+/**
+ * Convert to plain JSON Schema (nullable becomes a ["type", "null"] union)
+ */
+function toJSONSchema(schema: LLMSchema): Record<string, unknown> {
+  return {
+    type: schema.nullable ? [schema.type, 'null'] : schema.type,
+    ...(schema.enum ? { enum: schema.nullable ? [...schema.enum, null] : schema.enum } : {}),
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.items ? { items: toJSONSchema(schema.items) } : {}),
+    ...(schema.properties ? {
+      properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJSONSchema(value)])),
+    } : {}),
+    ...(schema.required ? { required: schema.required } : {}),
+  }
+}
+
+/**
+ * Stable key for a request, used to name fixture files
+ */
+export function getRequestKey(request: LLMRequest): string {
+  const canonical = JSON.stringify({
+    system: request.system || '',
+    messages: request.messages.map(m => ({
+      role: m.role,
+      content: m.content,
+      images: (m.images || []).map(i => ({ mimeType: i.mimeType, data: i.data })),
+    })),
+  })
+  return createHash('sha256').update(canonical).digest('hex').slice(0, 32)
+}
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+/**
+ * Google Gemini (generateContent REST API)
+ */
+export function createGeminiProvider(apiKey: string, model = 'gemini-2.0-flash'): LLMProvider {
+  const name = 'gemini'
+  return {
+    name,
+    generate: (request) => safeGenerate(name, async () => {
+      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': apiKey,
+        },
+        body: JSON.stringify({
+          ...(request.system ? { systemInstruction: { parts: [{ text: request.system }] } } : {}),
+          contents: request.messages.map(m => ({
+            role: m.role === 'assistant' ? 'model' : 'user',
+            parts: [
+              { text: m.content },
+              ...(m.images || []).map(i => ({ inline_data: { mime_type: i.mimeType, data: i.data } })),
+            ],
+          })),
+          generationConfig: {
+            temperature: request.temperature ?? 0.1,
+            maxOutputTokens: request.maxOutputTokens ?? 4000,
+            ...(request.responseSchema ? {
+              responseMimeType: 'application/json',
+              responseSchema: toGeminiSchema(request.responseSchema),
+            } : {}),
+          },
+        }),
+      })
+
+      if (!response.ok) {
+        return { ok: false, status: response.status, error: await readErrorMessage(response), provider: name }
+      }
+
+      const data = await response.json() as { candidates?: { content?: { parts?: { text?: string }[] } }[] }
+      const text = data.candidates?.[0]?.content?.parts?.map(p => p.text || '').join('') || ''
+      return { ok: true, text, provider: name }
+    }),
+  }
+}
+
+/**
+ * OpenAI-compatible chat completions (OpenAI, llama.cpp server, vLLM, LM Studio...)
+ */
+export function createOpenAICompatibleProvider(
+  baseUrl: string,
+  apiKey: string | undefined,
+  model: string
+): LLMProvider {
+  const name = 'openai'
+  return {
+    name,
+    generate: (request) => safeGenerate(name, async () => {
+      const messages = [
+        ...(request.system ? [{ role: 'system', content: request.system }] : []),
+        ...request.messages.map(m => ({
+          role: m.role,
+          content: m.images?.length
+            ? [
+                { type: 'text', text: m.content },
+                ...m.images.map(i => ({ type: 'image_url', image_url: { url: `data:${i.mimeType};base64,${i.data}` } })),
+              ]
+            : m.content,
+        })),
+      ]
+
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: request.temperature ?? 0.1,
+          max_tokens: request.maxOutputTokens ?? 4000,
+          ...(request.responseSchema ? {
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: 'response', schema: toJSONSchema(request.responseSchema) },
+            },
+          } : {}),
+        }),
+      })
+
+      if (!response.ok) {
+        return { ok: false, status: response.status, error: await readErrorMessage(response), provider: name }
+      }
+
+      const data = await response.json() as { choices?: { message?: { content?: string } }[] }
+      return { ok: true, text: data.choices?.[0]?.message?.content || '', provider: name }
+    }),
+  }
+}
+
+/**
+ * Local model server speaking the Ollama /api/chat protocol
+ */
+export function createLocalProvider(baseUrl: string, model: string): LLMProvider {
+  const name = 'local'
+  return {
+    name,
+    generate: (request) => safeGenerate(name, async () => {
+      const messages = [
+        ...(request.system ? [{ role: 'system', content: request.system }] : []),
+        ...request.messages.map(m => ({
+          role: m.role,
+          content: m.content,
+          ...(m.images?.length ? { images: m.images.map(i => i.data) } : {}),
+        })),
+      ]
+
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          messages,
+          stream: false,
+          ...(request.responseSchema ? { format: toJSONSchema(request.responseSchema) } : {}),
+          options: {
+            temperature: request.temperature ?? 0.1,
+            num_predict: request.maxOutputTokens ?? 4000,
+          },
+        }),
+      })
+
+      if (!response.ok) {
+        return { ok: false, status: response.status, error: await readErrorMessage(response), provider: name }
+      }
+
+      const data = await response.json() as { message?: { content?: string } }
+      return { ok: true, text: data.message?.content || '', provider: name }
+    }),
+  }
+}
+
+/**
+ * Deterministic replay of recorded responses.
+ * Looks up <dir>/<request key>.json, then <dir>/default.json.
+ * Fixture files are { "text": "<model output>" }.
+ */
+export function createFixtureProvider(dir: string): LLMProvider {
+  const name = 'fixture'
+  return {
+    name,
+    generate: async (request) => {
+      const key = getRequestKey(request)
+      for (const file of [`${key}.json`, 'default.json']) {
+        try {
+          const fixture = JSON.parse(await readFile(join(dir, file), 'utf-8')) as { text?: string }
+          return { ok: true, text: fixture.text || '', provider: name }
+        } catch {
+          // Try the next candidate
+        }
+      }
+      return { ok: false, status: 500, error: `No fixture found for request ${key} in ${dir}`, provider: name }
+    },
+  }
+}
+
+/**
+ * Wrap a provider so successful responses are saved as fixtures
+ */
+function withRecording(provider: LLMProvider, dir: string): LLMProvider {
+  return {
+    name: provider.name,
+    generate: async (request) => {
+      const result = await provider.generate(request)
+      if (result.ok) {
+        const key = getRequestKey(request)
+        // A failed recording (read-only filesystem...) never fails the call
+        try {
+          await mkdir(dir, { recursive: true })
+          await writeFile(join(dir, `${key}.json`), JSON.stringify({ provider: result.provider, text: result.text }, null, 2))
+        } catch (error) {
+          console.error('Failed to record LLM fixture:', error)
+        }
+      }
+      return result
+    },
+  }
+}
+
+/**
+ * Try the primary provider, and the fallback if it errors
+ */
+function withFallback(primary: LLMProvider, fallback: LLMProvider): LLMProvider {
+  return {
+    name: `${primary.name}+${fallback.name}`,
+    generate: async (request) => {
+      const result = await primary.generate(request)
+      if (result.ok) return result
+      console.warn(`LLM provider "${primary.name}" errored (${result.error}), falling back to "${fallback.name}"`)
+      return fallback.generate(request)
+    },
+  }
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/**
+ * Build a provider from environment variables.
+ * Returns an error string instead when required settings are missing.
+ */
+function createProviderFromEnv(name: string): LLMProvider | string {
+  const env = process.env
+
+  switch (name) {
+    case 'gemini':
+      if (!env.GOOGLE_AI_API_KEY) return 'Server-side GOOGLE_AI_API_KEY is missing'
+      return createGeminiProvider(env.GOOGLE_AI_API_KEY, env.GEMINI_MODEL || undefined)
+    case 'openai':
+      if (!env.OPENAI_API_KEY && !env.OPENAI_BASE_URL) return 'Server-side OPENAI_API_KEY or OPENAI_BASE_URL is missing'
+      return createOpenAICompatibleProvider(
+        env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        env.OPENAI_API_KEY,
+        env.OPENAI_MODEL || 'gpt-4o-mini'
+      )
+    case 'local':
+      return createLocalProvider(env.LOCAL_LLM_URL || 'http://localhost:11434', env.LOCAL_LLM_MODEL || 'llama3.1')
+    case 'fixture':
+      if (!env.LLM_FIXTURE_DIR) return 'Server-side LLM_FIXTURE_DIR is missing'
+      return createFixtureProvider(env.LLM_FIXTURE_DIR)
+    default:
+      return `Unknown LLM_PROVIDER "${name}" (expected ${PROVIDER_NAMES.join(', ')})`
+  }
+}
+
+/**
+ * Get the configured LLM provider (with fallback and recording applied)
+ */
+export function getLLMProvider(): { provider: LLMProvider; error?: undefined } | { provider?: undefined; error: string } {
+  const primaryName = (process.env.LLM_PROVIDER || 'gemini').toLowerCase()
+  const fallbackName = process.env.LLM_FALLBACK_PROVIDER?.toLowerCase()
+
+  const primary = createProviderFromEnv(primaryName)
+  const fallback = fallbackName ? createProviderFromEnv(fallbackName) : null
+
+  if (typeof fallback === 'string') {
+    console.warn(`LLM fallback provider not available: ${fallback}`)
+  }
+
+  let provider: LLMProvider
+  if (typeof primary === 'string') {
+    // Primary misconfigured - use the fallback alone if it works
+    if (!fallback || typeof fallback === 'string') return { error: primary }
+    provider = fallback
+  } else {
+    provider = fallback && typeof fallback !== 'string' ? withFallback(primary, fallback) : primary
+  }
+
+  const recordDir = process.env.LLM_FIXTURE_DIR
+  if (process.env.LLM_RECORD_FIXTURES === 'true' && recordDir && primaryName !== 'fixture') {
+    provider = withRecording(provider, recordDir)
+  }
+
+  return { provider }
+}
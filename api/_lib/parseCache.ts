@@ -0,0 +1,138 @@
+/**
+ * Parse cache
+ *
+ * Users re-paste the same SMS batch and retry failed saves, which would
+ * otherwise pay for the same model call again. Validated results are stored
+ * per user, keyed by a hash of the normalized input plus everything else
+ * that shapes the output (custom categories, reference date, hint, the
+ * redaction level, since masking changes what the model saw, and the past
+ * corrections picked as examples, so a new or deleted correction is a miss).
+ *
+ * Rows keep the verbatim source quotes rather than offsets, so a hit for
+ * text that differs only in whitespace still gets correct spans.
+ */
+
+import { createHash } from 'node:crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { RejectedRow, ValidTransaction } from './transactionSchema.js'
+import type { RedactionLevel } from './redaction.js'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CachedParse {
+  transactions: ValidTransaction[]
+  rejected: RejectedRow[]
+  repaired: boolean
+}
+
+export interface ParseCacheInput {
+  text: string
+  customCategories: { name: string; description?: string | null }[]
+  referenceDate: string // YYYY-MM-DD - relative dates ("yesterday") depend on it
+  hint: string
+  redactionLevel: RedactionLevel
+  correctionIds: string[]
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// How long a parse stays reusable
+const CACHE_TTL_HOURS = 72
+
+// ============================================
+// KEYS
+// ============================================
+
+/**
+ * Whitespace-insensitive form of the input: line endings unified, lines
+ * trimmed, runs of spaces collapsed. Blank lines are kept (as one) because
+ * they separate messages.
+ */
+export function normalizeParseInput(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+export function getParseCacheKey({ text, customCategories, referenceDate, hint, redactionLevel, correctionIds }: ParseCacheInput): string {
+  const categories = customCategories
+    .map(c => `${c.name}:${c.description || ''}`)
+    .sort()
+
+  return createHash('sha256')
+    .update(JSON.stringify([normalizeParseInput(text), categories, referenceDate, hint.trim(), redactionLevel, [...correctionIds].sort()]))
+    .digest('hex')
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+/**
+ * Unexpired cached parse for this user and key, or null
+ */
+export async function getCachedParse(
+  client: SupabaseClient,
+  userId: string,
+  cacheKey: string
+): Promise<CachedParse | null> {
+  const { data, error } = await client
+    .from('parse_cache')
+    .select('response')
+    .eq('user_id', userId)
+    .eq('cache_key', cacheKey)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error reading parse cache:', error)
+    return null
+  }
+
+  return data ? (data.response as CachedParse) : null
+}
+
+/**
+ * Store a parse for reuse, replacing any older entry with the same key
+ */
+export async function saveCachedParse(
+  client: SupabaseClient,
+  userId: string,
+  cacheKey: string,
+  response: CachedParse
+): Promise<void> {
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + CACHE_TTL_HOURS * 60 * 60 * 1000)
+
+  const { error } = await client
+    .from('parse_cache')
+    .upsert({
+      user_id: userId,
+      cache_key: cacheKey,
+      response,
+      created_at: now.toISOString(),
+      expires_at: expiresAt.toISOString(),
+    }, { onConflict: 'user_id,cache_key' })
+
+  if (error) {
+    console.error('Error writing parse cache:', error)
+    return
+  }
+
+  // Expired rows are never read again - clear them out while we're here
+  const { error: cleanupError } = await client
+    .from('parse_cache')
+    .delete()
+    .eq('user_id', userId)
+    .lt('expires_at', now.toISOString())
+
+  if (cleanupError) console.error('Error clearing expired parse cache:', cleanupError)
+}
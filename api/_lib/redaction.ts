@@ -0,0 +1,188 @@
+/**
+ * PII redaction
+ *
+ * Bank SMS and statements carry full account numbers, IBANs, phone numbers,
+ * national IDs and names. Text is masked before it goes to the model and the
+ * original values are put back into what the model returns. Fields that get
+ * saved only get a number's last 4 digits back ("*7519"); quotes used to
+ * locate source highlights get the full value, to match the user's own text.
+ *
+ * Every masked value becomes a numbered token, so two values can never share
+ * a mask: numbers keep their last 4 digits for card matching
+ * ("[CARD_1 *7519]"), names and emails are replaced whole ("[NAME_1]").
+ *
+ * Levels (profiles.ai_redaction):
+ * - off:      nothing is masked
+ * - standard: IBANs, card/account numbers, national IDs, phone numbers
+ * - strict:   standard + names after salutations/transfer cues + emails
+ */
+
+import type { UserClient } from './supabase.js'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RedactionLevel = 'off' | 'standard' | 'strict'
+
+export interface Redactor {
+  level: RedactionLevel
+  // Mask the text; every call shares one table, so repeated values get the same mask
+  redact: (text: string) => string
+  // Put the original values back into a model response string
+  restore: (text: string) => string
+  // restore() applied to every string inside an object/array
+  restoreDeep: <T>(value: T) => T
+  // restoreDeep() for values that get saved: numbers come back as their
+  // visible last digits only, names and emails in full
+  restoreForStorage: <T>(value: T) => T
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const REDACTION_LEVELS: RedactionLevel[] = ['off', 'standard', 'strict']
+
+const DEFAULT_REDACTION_LEVEL: RedactionLevel = 'standard'
+
+// Digits left visible at the end of a masked number
+const VISIBLE_DIGITS = 4
+
+type TokenKind = 'IBAN' | 'CARD' | 'PHONE' | 'NUMBER' | 'NAME' | 'EMAIL'
+
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){3,7}(?: ?[A-Z0-9]{1,3})?\b/g
+
+// Card numbers written in groups: "4847 1234 5678 9012"
+const GROUPED_NUMBER_PATTERN = /(?<![\d*])\d{4}(?:[ -]\d{4}){2,3}(?![\d*])/g
+
+// International phone numbers: "+966 50 123 4567"
+const PHONE_PATTERN = /\+\d{1,3}(?:[ -]?\d){7,12}(?!\d)/g
+
+// Long digit runs: account numbers, national IDs, local phone numbers.
+// Amounts ("1234567890.50") and already-masked numbers are left alone, and
+// 8-digit runs are skipped because they are usually compact dates.
+const DIGIT_RUN_PATTERN = /(?<![\d.,*])\d{9,19}(?![\d*]|[.,]\d)/g
+
+// Names following a salutation or a transfer/beneficiary label (strict only)
+const ENGLISH_NAME_PATTERN = /\b((?:Dear|DEAR|Mr\.?|MR\.?|Mrs\.?|MRS\.?|Ms\.?|MS\.?|[Bb]eneficiary(?: [Nn]ame)?|BENEFICIARY(?: NAME)?|[Tt]ransfer(?:red)? (?:to|from)|TRANSFER(?:RED)? (?:TO|FROM))\s*:?\s+)([A-Z][A-Za-z'-]+(?: [A-Z][A-Za-z'-]+){0,3})/g
+const ARABIC_NAME_PATTERN = /((?:عزيزي|عزيزتي|السيد|السيدة|المستفيد|اسم المستفيد)\s*:?\s*)([ء-ي]+(?: [ء-ي]+)?)/g
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g
+
+// ============================================
+// MASKING
+// ============================================
+
+// "*7519" - the part of a number the model still gets to see
+function lastDigits(value: string): string {
+  return `*${value.replace(/\D/g, '').slice(-VISIBLE_DIGITS)}`
+}
+
+function countDigits(value: string): number {
+  return (value.match(/\d/g) || []).length
+}
+
+// ============================================
+// REDACTOR
+// ============================================
+
+export function createRedactor(level: RedactionLevel): Redactor {
+  // token -> original
+  const originals = new Map<string, string>()
+  // original -> token, so a repeated value gets the same token
+  const tokens = new Map<string, string>()
+  // token -> what saved fields get back: the visible digits for numbers
+  const stored = new Map<string, string>()
+  const tokenCounts: Record<TokenKind, number> = { IBAN: 0, CARD: 0, PHONE: 0, NUMBER: 0, NAME: 0, EMAIL: 0 }
+
+  const tokenFor = (original: string, kind: TokenKind, visible?: string): string => {
+    const existing = tokens.get(original)
+    if (existing) return existing
+    tokenCounts[kind]++
+    const token = visible ? `[${kind}_${tokenCounts[kind]} ${visible}]` : `[${kind}_${tokenCounts[kind]}]`
+    tokens.set(original, token)
+    originals.set(token, original)
+    stored.set(token, visible ?? original)
+    return token
+  }
+
+  const numberToken = (original: string, kind: TokenKind): string => tokenFor(original, kind, lastDigits(original))
+
+  const redact = (text: string): string => {
+    if (level === 'off' || !text) return text
+
+    let result = text
+      .replace(IBAN_PATTERN, match => countDigits(match) >= 10 ? numberToken(match, 'IBAN') : match)
+      .replace(GROUPED_NUMBER_PATTERN, match => numberToken(match, 'CARD'))
+      .replace(PHONE_PATTERN, match => numberToken(match, 'PHONE'))
+      .replace(DIGIT_RUN_PATTERN, match => numberToken(match, 'NUMBER'))
+
+    if (level === 'strict') {
+      result = result
+        .replace(EMAIL_PATTERN, match => tokenFor(match, 'EMAIL'))
+        .replace(ENGLISH_NAME_PATTERN, (_match, cue: string, name: string) => `${cue}${tokenFor(name, 'NAME')}`)
+        .replace(ARABIC_NAME_PATTERN, (_match, cue: string, name: string) => `${cue}${tokenFor(name, 'NAME')}`)
+    }
+
+    return result
+  }
+
+  const replaceTokens = (text: string, replacements: Map<string, string>): string => {
+    if (replacements.size === 0 || !text) return text
+
+    let result = text
+    for (const [token, replacement] of replacements) {
+      result = result.split(token).join(replacement)
+    }
+    return result
+  }
+
+  const replaceTokensDeep = <T>(value: T, replacements: Map<string, string>): T => {
+    if (replacements.size === 0) return value
+    if (typeof value === 'string') return replaceTokens(value, replacements) as T
+    if (Array.isArray(value)) return value.map(item => replaceTokensDeep(item, replacements)) as T
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, replaceTokensDeep(item, replacements)])
+      ) as T
+    }
+    return value
+  }
+
+  return {
+    level,
+    redact,
+    restore: text => replaceTokens(text, originals),
+    restoreDeep: value => replaceTokensDeep(value, originals),
+    restoreForStorage: value => replaceTokensDeep(value, stored),
+  }
+}
+
+// ============================================
+// SETTINGS
+// ============================================
+
+export function isRedactionLevel(value: unknown): value is RedactionLevel {
+  return typeof value === 'string' && (REDACTION_LEVELS as string[]).includes(value)
+}
+
+/**
+ * The user's redaction setting. Falls back to standard when the profile
+ * can't be read, so a lookup failure never sends unmasked text.
+ */
+export async function getRedactionLevel(user: UserClient): Promise<RedactionLevel> {
+  const { data, error } = await user.client
+    .from('profiles')
+    .select('ai_redaction')
+    .eq('id', user.userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading redaction setting:', error)
+    return DEFAULT_REDACTION_LEVEL
+  }
+
+  const level = (data as { ai_redaction?: unknown } | null)?.ai_redaction
+  return isRedactionLevel(level) ? level : DEFAULT_REDACTION_LEVEL
+}
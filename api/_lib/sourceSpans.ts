@@ -0,0 +1,93 @@
+/**
+ * Source Spans
+ *
+ * Models are bad at counting characters, so the parser asks for verbatim
+ * quotes instead and this module finds them in the input to produce
+ * character offsets for each transaction and its key fields.
+ */
+
+import type { SourceQuotes, ValidTransaction } from './transactionSchema.js'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SourceSpan {
+  start: number // Inclusive
+  end: number // Exclusive
+}
+
+export type SpanField = 'amount' | 'merchant' | 'transaction_datetime' | 'payment_hint'
+
+export interface LocatedTransaction extends Omit<ValidTransaction, 'source'> {
+  source_span: SourceSpan | null
+  field_spans: Partial<Record<SpanField, SourceSpan>>
+}
+
+// Quote key for each span field
+const FIELD_QUOTES: Record<SpanField, keyof SourceQuotes> = {
+  amount: 'amount',
+  merchant: 'merchant',
+  transaction_datetime: 'date',
+  payment_hint: 'payment_hint',
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Find a quote in text[from, to). Tries an exact match first, then one
+ * that ignores whitespace differences and case (models often reflow lines).
+ */
+function findQuote(text: string, quote: string, from: number, to: number): SourceSpan | null {
+  const needle = quote.trim()
+  if (!needle) return null
+
+  const window = text.slice(from, to)
+  const exact = window.indexOf(needle)
+  if (exact !== -1) {
+    return { start: from + exact, end: from + exact + needle.length }
+  }
+
+  const pattern = new RegExp(needle.split(/\s+/).map(escapeRegExp).join('\\s+'), 'i')
+  const loose = window.match(pattern)
+  if (loose && loose.index !== undefined) {
+    return { start: from + loose.index, end: from + loose.index + loose[0].length }
+  }
+
+  return null
+}
+
+/**
+ * Replace each transaction's quotes with offsets into `text`.
+ * Rows are assumed to be in input order, so each segment is searched for
+ * after the previous one first - identical messages map to successive copies.
+ */
+export function locateSourceSpans(transactions: ValidTransaction[], text: string): LocatedTransaction[] {
+  let cursor = 0
+
+  return transactions.map(({ source, ...tx }) => {
+    let sourceSpan: SourceSpan | null = null
+    if (source?.segment) {
+      sourceSpan = findQuote(text, source.segment, cursor, text.length) || findQuote(text, source.segment, 0, text.length)
+      if (sourceSpan) cursor = sourceSpan.end
+    }
+
+    // Field quotes are looked up inside the row's own segment when we have it
+    const from = sourceSpan?.start ?? 0
+    const to = sourceSpan?.end ?? text.length
+    const fieldSpans: LocatedTransaction['field_spans'] = {}
+    for (const [field, key] of Object.entries(FIELD_QUOTES) as [SpanField, keyof SourceQuotes][]) {
+      const quote = source?.[key]
+      const span = quote ? findQuote(text, quote, from, to) : null
+      if (span) fieldSpans[field] = span
+    }
+
+    return { ...tx, source_span: sourceSpan, field_spans: fieldSpans }
+  })
+}
@@ -0,0 +1,66 @@
+/**
+ * Supabase access for serverless functions
+ *
+ * Builds a client that acts as the signed-in user (their access token is
+ * forwarded in the Authorization header), so Row Level Security applies
+ * exactly as it does in the browser.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL
+const supabaseAnonKey = process.env.VITE_SUPABASE_ANON_KEY || process.env.SUPABASE_ANON_KEY
+
+export interface UserClient {
+  client: SupabaseClient
+  userId: string
+}
+
+/**
+ * Read the bearer token from the request
+ */
+export function getAccessToken(req: VercelRequest): string | null {
+  const header = req.headers.authorization
+  if (!header || !header.startsWith('Bearer ')) return null
+  return header.slice('Bearer '.length).trim() || null
+}
+
+/**
+ * Client scoped to the user who made the request, or null if the request
+ * has no valid session (or Supabase isn't configured on the server)
+ */
+export async function getUserClient(req: VercelRequest): Promise<UserClient | null> {
+  const token = getAccessToken(req)
+  if (!token || !supabaseUrl || !supabaseAnonKey) return null
+
+  const client = createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+
+  const { data, error } = await client.auth.getUser(token)
+  if (error || !data.user) return null
+
+  return { client, userId: data.user.id }
+}
+
+/**
+ * The signed-in user, or null after answering 401 - every AI endpoint
+ * requires a session so anonymous callers can't spend the model quota
+ */
+export async function requireUser(req: VercelRequest, res: VercelResponse): Promise<UserClient | null> {
+  let user: UserClient | null = null
+  try {
+    user = await getUserClient(req)
+  } catch (error) {
+    console.error('Error verifying session:', error)
+  }
+
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized', reason: 'Sign in to use this feature' })
+    return null
+  }
+
+  return user
+}
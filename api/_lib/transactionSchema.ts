@@ -0,0 +1,361 @@
+/**
+ * Transaction Schema
+ *
+ * Typed validator for the { transactions: [...] } payload the parser
+ * prompts ask the model for, plus a one-shot repair re-ask that feeds
+ * the validation errors back to the model.
+ */
+
+import type { LLMMessage, LLMProvider, LLMRequest, LLMSchema } from './llm.js'
+import { extractJSON } from './llm.js'
+// Shared with the app, which reads the same confidence maps back
+import { CONFIDENCE_FIELDS, normalizeConfidenceMap, type FieldConfidenceMap } from '../../src/lib/confidence.js'
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Verbatim quotes from the input the model says each value came from.
+ * Turned into character offsets by sourceSpans.ts.
+ */
+export interface SourceQuotes {
+  segment: string | null
+  amount: string | null
+  merchant: string | null
+  date: string | null
+  payment_hint: string | null
+}
+
+export interface ValidTransaction {
+  amount: number
+  currency: string
+  category: string
+  merchant: string | null
+  transaction_datetime: string
+  direction: 'in' | 'out' | 'transfer'
+  payment_hint: string | null
+  transfer_to_hint: string | null // Destination account/card of a transfer
+  notes: string | null
+  description: string | null
+  confidence: FieldConfidenceMap
+  source: SourceQuotes | null
+}
+
+export interface FieldError {
+  field: string
+  message: string
+}
+
+/**
+ * A row the model returned that failed validation
+ */
+export interface RejectedRow {
+  index: number
+  errors: FieldError[]
+  raw: unknown
+}
+
+export interface ValidationResult {
+  transactions: ValidTransaction[]
+  rejected: RejectedRow[]
+  // Problems with the payload as a whole (not JSON, no transactions array)
+  errors: FieldError[]
+  // The model's own "could not parse" answer, passed through as-is
+  error?: string
+  reason?: string
+}
+
+// ============================================
+// SCHEMA
+// ============================================
+
+const FIELD_CONFIDENCE_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'number', description: '0 to 1' },
+    source: { type: 'string', enum: ['extracted', 'inferred', 'defaulted'] },
+  },
+  required: ['score', 'source'],
+}
+
+const SOURCE_QUOTE_FIELDS = ['segment', 'amount', 'merchant', 'date', 'payment_hint'] as const
+
+const SOURCE_SCHEMA: LLMSchema = {
+  type: 'object',
+  description: 'Exact substrings copied from the input',
+  properties: Object.fromEntries(SOURCE_QUOTE_FIELDS.map(field => [field, { type: 'string', nullable: true } as LLMSchema])),
+}
+
+const TRANSACTION_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    amount: { type: 'number', description: 'Positive amount' },
+    currency: { type: 'string', description: 'ISO 4217 code, default SAR' },
+    category: { type: 'string' },
+    merchant: { type: 'string', nullable: true },
+    transaction_datetime: { type: 'string', description: 'ISO 8601, e.g. 2026-01-04T13:52:00' },
+    direction: { type: 'string', enum: ['in', 'out', 'transfer'] },
+    payment_hint: { type: 'string', nullable: true },
+    transfer_to_hint: { type: 'string', nullable: true, description: 'Destination account/card, transfers only' },
+    notes: { type: 'string', nullable: true },
+    description: { type: 'string', nullable: true },
+    confidence: {
+      type: 'object',
+      properties: Object.fromEntries(CONFIDENCE_FIELDS.map(field => [field, FIELD_CONFIDENCE_SCHEMA])),
+    },
+    source: SOURCE_SCHEMA,
+  },
+  required: ['amount', 'currency', 'category', 'merchant', 'transaction_datetime', 'direction', 'payment_hint', 'notes', 'description'],
+}
+
+/**
+ * Structured-output schema for providers that support it
+ */
+export const TRANSACTIONS_RESPONSE_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    transactions: { type: 'array', items: TRANSACTION_SCHEMA },
+    error: { type: 'string', nullable: true },
+    reason: { type: 'string', nullable: true },
+  },
+  required: ['transactions'],
+}
+
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/
+
+// ============================================
+// VALIDATION
+// ============================================
+
+function optionalString(
+  row: Record<string, unknown>,
+  key: string,
+  errors: FieldError[]
+): string | null {
+  const value = row[key]
+  if (value === undefined || value === null || value === '') return null
+  if (typeof value !== 'string') {
+    errors.push({ field: key, message: 'must be a string or null' })
+    return null
+  }
+  return value.trim() || null
+}
+
+/**
+ * Keep string quotes only; like confidence, bad quotes never reject the row
+ */
+function parseSourceQuotes(raw: unknown): SourceQuotes | null {
+  if (!raw || typeof raw !== 'object') return null
+  const quotes = {} as SourceQuotes
+  for (const field of SOURCE_QUOTE_FIELDS) {
+    const value = (raw as Record<string, unknown>)[field]
+    quotes[field] = typeof value === 'string' && value.trim() ? value : null
+  }
+  return quotes
+}
+
+/**
+ * Validate one transaction row, collecting every field error
+ */
+export function validateTransaction(raw: unknown): { transaction: ValidTransaction | null; errors: FieldError[] } {
+  const errors: FieldError[] = []
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { transaction: null, errors: [{ field: '(row)', message: 'must be an object' }] }
+  }
+  const row = raw as Record<string, unknown>
+
+  const amount = row.amount
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+    errors.push({ field: 'amount', message: `must be a positive number (got ${JSON.stringify(amount)})` })
+  }
+
+  const currency = row.currency ?? 'SAR'
+  if (typeof currency !== 'string' || !/^[A-Za-z]{3}$/.test(currency.trim())) {
+    errors.push({ field: 'currency', message: `must be a 3-letter ISO code (got ${JSON.stringify(currency)})` })
+  }
+
+  const category = row.category
+  if (typeof category !== 'string' || !category.trim()) {
+    errors.push({ field: 'category', message: 'must be a non-empty string' })
+  }
+
+  const datetime = row.transaction_datetime
+  if (typeof datetime !== 'string' || !ISO_DATETIME.test(datetime.trim()) || isNaN(new Date(datetime).getTime())) {
+    errors.push({ field: 'transaction_datetime', message: `must be an ISO 8601 date/time (got ${JSON.stringify(datetime)})` })
+  }
+
+  const direction = row.direction
+  if (direction !== 'in' && direction !== 'out' && direction !== 'transfer') {
+    errors.push({ field: 'direction', message: `must be "in", "out" or "transfer" (got ${JSON.stringify(direction)})` })
+  }
+
+  const merchant = optionalString(row, 'merchant', errors)
+  const paymentHint = optionalString(row, 'payment_hint', errors)
+  const transferToHint = optionalString(row, 'transfer_to_hint', errors)
+  const notes = optionalString(row, 'notes', errors)
+  const description = optionalString(row, 'description', errors)
+
+  if (errors.length > 0) {
+    return { transaction: null, errors }
+  }
+
+  return {
+    transaction: {
+      amount: amount as number,
+      currency: (currency as string).trim().toUpperCase(),
+      category: (category as string).trim(),
+      merchant,
+      transaction_datetime: (datetime as string).trim(),
+      direction: direction as ValidTransaction['direction'],
+      payment_hint: paymentHint,
+      transfer_to_hint: direction === 'transfer' ? transferToHint : null,
+      notes,
+      description,
+      // A bad or missing confidence entry never rejects the row
+      confidence: normalizeConfidenceMap(row.confidence),
+      source: parseSourceQuotes(row.source),
+    },
+    errors,
+  }
+}
+
+/**
+ * Validate raw model output text against the transactions schema
+ */
+export function validateTransactionsResponse(text: string): ValidationResult {
+  const result: ValidationResult = { transactions: [], rejected: [], errors: [] }
+
+  let payload: unknown
+  try {
+    payload = extractJSON(text)
+  } catch {
+    result.errors.push({ field: '(response)', message: 'is not valid JSON' })
+    return result
+  }
+
+  if (!payload || typeof payload !== 'object') {
+    result.errors.push({ field: '(response)', message: 'must be a JSON object with a "transactions" array' })
+    return result
+  }
+
+  const body = payload as { transactions?: unknown; error?: unknown; reason?: unknown }
+  if (!Array.isArray(body.transactions)) {
+    result.errors.push({ field: 'transactions', message: 'must be an array' })
+    return result
+  }
+
+  // An empty list with an explanation is a valid "nothing to parse" answer
+  if (body.transactions.length === 0 && typeof body.error === 'string') {
+    result.error = body.error
+    result.reason = typeof body.reason === 'string' ? body.reason : undefined
+    return result
+  }
+
+  body.transactions.forEach((raw, index) => {
+    const { transaction, errors } = validateTransaction(raw)
+    if (transaction) {
+      result.transactions.push(transaction)
+    } else {
+      result.rejected.push({ index, errors, raw })
+    }
+  })
+
+  return result
+}
+
+/**
+ * Whether two rows (raw or validated) look like the same transaction: the
+ * same amount or the same merchant. Used to match rows across the repair,
+ * which may reorder or drop them.
+ */
+function describesSameRow(a: unknown, b: unknown): boolean {
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false
+  const left = a as Record<string, unknown>
+  const right = b as Record<string, unknown>
+
+  const amount = (value: unknown) => {
+    const number = typeof value === 'string' ? parseFloat(value.replace(/,/g, '')) : value
+    return typeof number === 'number' && Number.isFinite(number) && number !== 0 ? Math.abs(number) : null
+  }
+  const merchant = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : null
+
+  const leftAmount = amount(left.amount)
+  const leftMerchant = merchant(left.merchant)
+  return (leftAmount !== null && leftAmount === amount(right.amount)) ||
+    (leftMerchant !== null && leftMerchant === merchant(right.merchant))
+}
+
+/**
+ * Human-readable list of validation errors for the repair prompt
+ */
+function describeErrors(result: ValidationResult): string {
+  const lines = result.errors.map(e => `- ${e.field} ${e.message}`)
+  for (const row of result.rejected) {
+    for (const e of row.errors) {
+      lines.push(`- transactions[${row.index}].${e.field} ${e.message}`)
+    }
+  }
+  return lines.join('\n')
+}
+
+// ============================================
+// GENERATE + REPAIR
+// ============================================
+
+export type ParseAttempt =
+  | { ok: true; result: ValidationResult; repaired: boolean }
+  | { ok: false; status: number; error: string }
+
+/**
+ * Ask the model for transactions using structured output, validate the
+ * answer, and re-ask once with the validation errors if anything failed.
+ */
+export async function generateValidatedTransactions(
+  provider: LLMProvider,
+  request: Omit<LLMRequest, 'responseSchema'>
+): Promise<ParseAttempt> {
+  const first = await provider.generate({ ...request, responseSchema: TRANSACTIONS_RESPONSE_SCHEMA })
+  if (!first.ok) {
+    return { ok: false, status: first.status, error: first.error }
+  }
+
+  const firstResult = validateTransactionsResponse(first.text)
+  if (firstResult.errors.length === 0 && firstResult.rejected.length === 0) {
+    return { ok: true, result: firstResult, repaired: false }
+  }
+
+  console.warn('AI output failed validation, asking for a repair:\n' + describeErrors(firstResult))
+
+  const repairMessages: LLMMessage[] = [
+    ...request.messages,
+    { role: 'assistant', content: first.text },
+    {
+      role: 'user',
+      content: `Your previous response failed validation:\n${describeErrors(firstResult)}\n\nReturn the COMPLETE corrected JSON (all transactions, not only the fixed ones). If a row really cannot be parsed, return it unchanged.`,
+    },
+  ]
+
+  const second = await provider.generate({ ...request, messages: repairMessages, responseSchema: TRANSACTIONS_RESPONSE_SCHEMA })
+  if (!second.ok) {
+    // Keep whatever passed the first time
+    return { ok: true, result: firstResult, repaired: false }
+  }
+
+  const secondResult = validateTransactionsResponse(second.text)
+  // Only trust the repair if it didn't make things worse
+  if (secondResult.errors.length > 0 || secondResult.transactions.length < firstResult.transactions.length) {
+    return { ok: true, result: firstResult, repaired: false }
+  }
+
+  // Rows the repair dropped instead of fixing still belong in the "could not parse" list
+  const repairedRows: unknown[] = [...secondResult.transactions, ...secondResult.rejected.map(row => row.raw)]
+  const dropped = firstResult.rejected.filter(row => !repairedRows.some(other => describesSameRow(row.raw, other)))
+
+  return {
+    ok: true,
+    result: { ...secondResult, rejected: [...secondResult.rejected, ...dropped] },
+    repaired: true,
+  }
+}
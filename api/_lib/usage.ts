@@ -0,0 +1,181 @@
+/**
+ * AI usage quotas
+ *
+ * Every model call is recorded in api_usage and checked against a per-user
+ * daily limit and a per-minute limit. The check and the insert happen in one
+ * database call (consume_api_quota) so parallel requests can't overshoot.
+ * Limits can be tuned with AI_DAILY_LIMIT / AI_PER_MINUTE_LIMIT.
+ */
+
+import type { VercelResponse } from '@vercel/node'
+import type { LLMProvider } from './llm.js'
+import type { UserClient } from './supabase.js'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type UsageEndpoint = 'analyze' | 'analyze-receipt' | 'analyze-csv' | 'chat'
+
+export interface UsageLimits {
+  daily: number
+  perMinute: number
+}
+
+export interface UsageSummary {
+  usedToday: number
+  dailyLimit: number
+  perMinuteLimit: number
+  remaining: number
+  resetsAt: string // ISO - next UTC midnight
+}
+
+interface QuotaResult {
+  allowed: boolean
+  limit?: 'daily' | 'minute'
+  used_today: number
+  retry_after: number // Seconds
+}
+
+type QuotaCheck =
+  | { allowed: true }
+  | { allowed: false; status: number; error: string; reason: string; limit?: 'daily' | 'minute'; retryAfter?: number }
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DEFAULT_DAILY_LIMIT = 200
+const DEFAULT_PER_MINUTE_LIMIT = 20
+
+// ============================================
+// LIMITS
+// ============================================
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback
+}
+
+export function getUsageLimits(): UsageLimits {
+  return {
+    daily: readLimit(process.env.AI_DAILY_LIMIT, DEFAULT_DAILY_LIMIT),
+    perMinute: readLimit(process.env.AI_PER_MINUTE_LIMIT, DEFAULT_PER_MINUTE_LIMIT),
+  }
+}
+
+function getDayStart(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+}
+
+// ============================================
+// QUOTA
+// ============================================
+
+/**
+ * Record one model call for the user. A call is refused when they are over
+ * a limit, and also when the quota can't be checked (missing migration,
+ * database outage) - otherwise an outage would switch the limits off.
+ */
+async function chargeAIQuota(user: UserClient, endpoint: UsageEndpoint): Promise<QuotaCheck> {
+  const limits = getUsageLimits()
+
+  const { data, error } = await user.client.rpc('consume_api_quota', {
+    p_endpoint: endpoint,
+    p_daily_limit: limits.daily,
+    p_minute_limit: limits.perMinute,
+  })
+
+  if (error || !data) {
+    console.error('Error checking AI quota:', error)
+    return {
+      allowed: false,
+      status: 503,
+      error: 'Usage check unavailable',
+      reason: 'Could not check your AI usage - please try again shortly',
+    }
+  }
+
+  const result = data as QuotaResult
+  if (result.allowed) return { allowed: true }
+
+  return {
+    allowed: false,
+    status: 429,
+    error: 'Rate limit exceeded',
+    reason: result.limit === 'daily'
+      ? `Daily limit of ${limits.daily} AI requests reached - it resets at midnight UTC`
+      : `Too many requests - try again in ${result.retry_after} seconds`,
+    limit: result.limit,
+    retryAfter: result.retry_after,
+  }
+}
+
+/**
+ * Charge the first model call of a request. Answers 429 (over a limit) or
+ * 503 (quota unavailable) and returns false when the call may not run.
+ */
+export async function consumeAIQuota(
+  user: UserClient,
+  endpoint: UsageEndpoint,
+  res: VercelResponse
+): Promise<boolean> {
+  const check = await chargeAIQuota(user, endpoint)
+  if (check.allowed) return true
+
+  if (check.retryAfter !== undefined) res.setHeader('Retry-After', String(check.retryAfter))
+  res.status(check.status).json({
+    transactions: [],
+    error: check.error,
+    reason: check.reason,
+    limit: check.limit,
+    retryAfter: check.retryAfter,
+  })
+  return false
+}
+
+/**
+ * Charge every further model call of the same request (the parser's repair
+ * re-ask, chat tool rounds). The first call is paid by consumeAIQuota; a
+ * refused call comes back as a provider error with the quota's status.
+ */
+export function withQuota(provider: LLMProvider, user: UserClient, endpoint: UsageEndpoint): LLMProvider {
+  let calls = 0
+  return {
+    name: provider.name,
+    generate: async (request) => {
+      if (calls++ > 0) {
+        const check = await chargeAIQuota(user, endpoint)
+        if (!check.allowed) {
+          return { ok: false, status: check.status, error: check.reason, provider: provider.name }
+        }
+      }
+      return provider.generate(request)
+    },
+  }
+}
+
+/**
+ * How much of today's quota the user has used
+ */
+export async function getUsageSummary(user: UserClient): Promise<UsageSummary> {
+  const limits = getUsageLimits()
+  const dayStart = getDayStart(new Date())
+
+  const { count, error } = await user.client
+    .from('api_usage')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', user.userId)
+    .gte('created_at', dayStart.toISOString())
+
+  if (error) throw error
+
+  const usedToday = count || 0
+  return {
+    usedToday,
+    dailyLimit: limits.daily,
+    perMinuteLimit: limits.perMinute,
+    remaining: Math.max(0, limits.daily - usedToday),
+    resetsAt: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000).toISOString(),
+  }
+}
@@ -6,8 +6,11 @@
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node'
-
-const GOOGLE_AI_API_KEY = process.env.GOOGLE_AI_API_KEY
+import { getLLMProvider, extractJSON } from './_lib/llm.js'
+import { requireUser } from './_lib/supabase.js'
+import { consumeAIQuota } from './_lib/usage.js'
+import { createRedactor, getRedactionLevel } from './_lib/redaction.js'
+import { normalizeConfidenceMap, type FieldConfidenceMap } from '../src/lib/confidence.js'
 
 // System prompt for CSV analysis
 const SYSTEM_PROMPT = `You are an intelligent CSV parser for a personal finance app. Your job is to analyze bank statement CSV files and extract transactions.
@@ -55,7 +58,8 @@ Format 1 - Parsed Transactions (when everything is clear):
       "merchant": "<string or null>",
       "transaction_datetime": "<ISO 8601>",
       "direction": "<in or out>",
-      "description": "<string or null>"
+      "description": "<string or null>",
+      "confidence": {"amount": {"score": <0-1>, "source": "<extracted|inferred|defaulted>"}, "currency": {...}, "category": {...}, "merchant": {...}, "transaction_datetime": {...}, "direction": {...}}
     }
   ],
   "skipped": {
@@ -73,6 +77,12 @@ Format 2 - Clarifying Question (when something is unclear):
   "allowCustom": true
 }
 
+FIELD CONFIDENCE:
+For every transaction, report how sure you are of each field in "confidence":
+- "extracted": read from a column as-is, e.g. amount, date (score 0.9-1)
+- "inferred": worked out, e.g. category from the description, direction from a negative amount, a DD/MM vs MM/DD guess (score 0.4-0.8)
+- "defaulted": no column for it, a default was used, e.g. SAR currency (score 0.1-0.4)
+
 CATEGORIZATION:
 Use these categories: Food & Dining, Transportation, Shopping, Bills & Utilities, Groceries, Health, Transfer, Entertainment, Income, Travel, Education, Advertising, Subscription, Other
 
@@ -101,6 +111,7 @@ interface Transaction {
   transaction_datetime: string
   direction: 'in' | 'out'
   description: string | null
+  confidence?: FieldConfidenceMap
 }
 
 interface TransactionsResponse {
@@ -124,22 +135,18 @@ interface QuestionResponse {
 type AIResponse = TransactionsResponse | QuestionResponse
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Credentials', 'true')
-  res.setHeader('Access-Control-Allow-Origin', '*')
-  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,PATCH,DELETE,POST,PUT')
-  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version')
-
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end()
-  }
-
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' })
   }
 
-  if (!GOOGLE_AI_API_KEY) {
-    return res.status(500).json({ error: 'API key not configured' })
+  const user = await requireUser(req, res)
+  if (!user) return
+
+  const llm = getLLMProvider()
+
+  if (!llm.provider) {
+    console.error('LLM provider not configured on server:', llm.error)
+    return res.status(500).json({ error: 'AI not configured', details: llm.error })
   }
 
   try {
@@ -193,53 +200,26 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
 Return your response as JSON.`
 
-    // Call Gemini API
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${GOOGLE_AI_API_KEY}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [
-            {
-              role: 'user',
-              parts: [{ text: SYSTEM_PROMPT }]
-            },
-            {
-              role: 'model',
-              parts: [{ text: 'I understand. I will analyze CSV bank statements, apply user context, and either return parsed transactions or ask clarifying questions. I will return JSON responses.' }]
-            },
-            {
-              role: 'user',
-              parts: [{ text: userPrompt }]
-            }
-          ],
-          generationConfig: {
-            temperature: 0.1,
-            maxOutputTokens: 8192,
-          }
-        })
-      }
-    )
+    if (!(await consumeAIQuota(user, 'analyze-csv', res))) return
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({})) as { error?: { message?: string } }
-      console.error('Gemini API error:', errorData)
+    const redactor = createRedactor(await getRedactionLevel(user))
+
+    const result = await llm.provider.generate({
+      system: SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: redactor.redact(userPrompt) }],
+      temperature: 0.1,
+      maxOutputTokens: 8192,
+    })
+
+    if (!result.ok) {
+      console.error('LLM provider error:', result.provider, result.status, result.error)
       return res.status(500).json({ 
         error: 'AI service error',
-        details: errorData.error?.message 
+        details: result.error
       })
     }
-
-    const data = await response.json() as {
-      candidates?: Array<{
-        content?: {
-          parts?: Array<{ text?: string }>
-        }
-      }>
-    }
     
-    const aiResponse = data.candidates?.[0]?.content?.parts?.[0]?.text
+    const aiResponse = result.text
     
     if (!aiResponse) {
       return res.status(500).json({ error: 'No response from AI' })
@@ -247,13 +227,9 @@ Return your response as JSON.`
 
     // Parse the JSON response
     try {
-      // Extract JSON from response (handle markdown code blocks)
-      const jsonMatch = aiResponse.match(/```json\s*([\s\S]*?)\s*```/) || 
-                        aiResponse.match(/```\s*([\s\S]*?)\s*```/) ||
-                        [null, aiResponse]
-      const jsonString = jsonMatch[1] || aiResponse
-      
-      const parsed = JSON.parse(jsonString) as AIResponse
+      // Extract JSON from response (handles markdown code blocks)
+      const parsed = extractJSON<AIResponse>(aiResponse)
+      if (!parsed) throw new SyntaxError('No JSON object in AI response')
       
       // Validate response structure
       if (parsed.type === 'transactions') {
@@ -261,6 +237,8 @@ Return your response as JSON.`
         if (!Array.isArray(parsed.transactions)) {
           parsed.transactions = []
         }
+        // Keep only well-formed confidence entries for the review highlights
+        parsed.transactions = parsed.transactions.map(tx => ({ ...tx, confidence: normalizeConfidenceMap(tx.confidence) }))
         // Ensure skipped object exists
         if (!parsed.skipped) {
           parsed.skipped = { count: 0, reasons: [] }
@@ -275,7 +253,9 @@ Return your response as JSON.`
         }
       }
       
-      return res.status(200).json(parsed)
+      // Parsed rows get saved, so numbers come back as their last digits;
+      // a question is only shown, and may quote them in full
+      return res.status(200).json(parsed.type === 'transactions' ? redactor.restoreForStorage(parsed) : redactor.restoreDeep(parsed))
     } catch {
       // If JSON parsing fails, try to extract useful info
       console.error('Failed to parse AI response:', aiResponse)
@@ -284,7 +264,7 @@ Return your response as JSON.`
       if (aiResponse.toLowerCase().includes('?') && aiResponse.length < 500) {
         return res.status(200).json({
           type: 'question',
-          question: aiResponse.trim(),
+          question: redactor.restore(aiResponse.trim()),
           context: 'The AI needs clarification',
           options: [],
           allowCustom: true
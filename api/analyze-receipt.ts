@@ -0,0 +1,203 @@
+/**
+ * Vercel Serverless Function: Receipt Analyzer
+ *
+ * Accepts a photo of a receipt (JPEG/PNG/HEIC) as base64 and asks the
+ * configured vision-capable LLM provider to read it. Returns the same
+ * { transactions, error?, reason? } shape as /api/analyze so the client
+ * can reuse the review flow.
+ *
+ * Use LLM_PROVIDER=fixture to replay recorded replies without a live model.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { getLLMProvider } from './_lib/llm.js'
+import { generateValidatedTransactions } from './_lib/transactionSchema.js'
+import { requireUser } from './_lib/supabase.js'
+import { createRedactor, getRedactionLevel } from './_lib/redaction.js'
+import { consumeAIQuota, withQuota } from './_lib/usage.js'
+
+// Image MIME types accepted for receipts (all supported by vision models)
+const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/heic', 'image/heif', 'image/webp']
+
+// Vercel caps request bodies at 4.5MB, base64 adds a third: a 3MB image
+// is 4MB of base64
+const MAX_IMAGE_BYTES = 3 * 1024 * 1024
+const MAX_IMAGE_BASE64_LENGTH = Math.ceil(MAX_IMAGE_BYTES / 3) * 4
+
+const SYSTEM_PROMPT = `You are a receipt reader for a Saudi Arabian personal finance app. You will be given a photo of a receipt, invoice, or payment slip (printed or on a screen). Extract the purchase as structured data.
+
+CRITICAL RULES:
+1. Return ONLY valid JSON
+2. A receipt is normally ONE transaction - use the final TOTAL (after VAT and discounts), not subtotals or line items
+3. Only return multiple transactions if the image clearly shows several separate receipts
+4. Receipts may be in Arabic, English, or both - read both
+
+FIELDS:
+- amount: the grand total paid, as a positive number
+- currency: ISO 4217 code of any currency (default SAR). Recognize: SAR, ر.س, ريال, USD, $, EUR, €, GBP, £, AED, د.إ, KWD, د.ك, دينار, EGP, جنيه; keep 3 decimals for KWD, BHD, OMR and JOD
+- merchant: the store/brand name printed at the top, not the legal company name if both exist
+- transaction_datetime: the date/time printed on the receipt in ISO 8601 "YYYY-MM-DDTHH:MM:SS". If no time is printed use "T00:00:00". If no date is printed use the current date/time given below
+- direction: "out" for purchases, "in" only for refunds/returns
+- payment_hint: card network and last 4 digits if printed (e.g. "Mada *1234", "Visa 8844"), "cash" if paid in cash, otherwise null
+- category: Food & Dining, Transportation, Shopping, Bills & Utilities, Groceries, Health, Transfer, Entertainment, Income, Travel, Education, Advertising, Subscription, Other. ALWAYS prefer the user's custom categories when they match
+- notes: null
+- description: auxiliary info as "Key1: Value1 | Key2: Value2" - VAT amount, VAT number, invoice/receipt number, branch, and a short summary of the main items (e.g. "Items: 2x Latte, Croissant")
+
+FIELD CONFIDENCE:
+For every transaction, report how sure you are of each field in "confidence" as {"score": 0-1, "source": "..."}:
+- "extracted": the value is written explicitly in the input (score 0.9-1)
+- "inferred": the value is guessed from context, e.g. category from merchant name, year of a date without one (score 0.4-0.8)
+- "defaulted": the value is missing and you used a default, e.g. SAR currency, current date/time, "Other" category (score 0.1-0.4)
+Report amount, currency, category, merchant, transaction_datetime, direction and payment_hint.
+
+ALWAYS return this exact JSON structure:
+{
+  "transactions": [
+    {
+      "amount": <number>,
+      "currency": "<string, default SAR>",
+      "category": "<string>",
+      "merchant": "<string or null>",
+      "transaction_datetime": "<ISO 8601 string>",
+      "direction": "<in or out>",
+      "payment_hint": "<string or null>",
+      "notes": null,
+      "description": "<string or null>",
+      "confidence": {"amount": {"score": <0-1>, "source": "<extracted|inferred|defaulted>"}, "currency": {...}, "category": {...}, "merchant": {...}, "transaction_datetime": {...}, "direction": {...}, "payment_hint": {...}}
+    }
+  ]
+}
+
+If the image is not a receipt or is unreadable, return:
+{"transactions": [], "error": "Could not read receipt", "reason": "<brief explanation>"}`
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const user = await requireUser(req, res)
+  if (!user) return
+
+  const llm = getLLMProvider()
+
+  if (!llm.provider) {
+    console.error('LLM provider not configured on server:', llm.error)
+    return res.status(500).json({
+      transactions: [],
+      error: 'AI not configured',
+      reason: llm.error,
+    })
+  }
+
+  const { image, mimeType, currentDateTime, customCategories } = req.body
+
+  if (!image || typeof image !== 'string') {
+    return res.status(400).json({
+      transactions: [],
+      error: 'Invalid request',
+      reason: 'Missing or invalid "image" field in request body',
+    })
+  }
+
+  if (!SUPPORTED_MIME_TYPES.includes(mimeType)) {
+    return res.status(400).json({
+      transactions: [],
+      error: 'Unsupported image',
+      reason: 'Receipt must be a JPEG, PNG or HEIC image',
+    })
+  }
+
+  // Accept both raw base64 and data URLs
+  const imageBase64 = image.replace(/^data:[^;]+;base64,/, '')
+
+  if (imageBase64.length > MAX_IMAGE_BASE64_LENGTH) {
+    return res.status(413).json({
+      transactions: [],
+      error: 'Image too large',
+      reason: `Receipt image must be under ${MAX_IMAGE_BYTES / (1024 * 1024)}MB`,
+    })
+  }
+
+  // Build custom categories prompt section
+  let customCategoriesPrompt = ''
+  if (customCategories && Array.isArray(customCategories) && customCategories.length > 0) {
+    const categoryLines = customCategories
+      .filter((c: { name: string; description?: string | null }) => c.name)
+      .map((c: { name: string; description?: string | null }) => {
+        if (c.description) {
+          return `- "${c.name}": ${c.description}`
+        }
+        return `- "${c.name}"`
+      })
+      .join('\n')
+
+    if (categoryLines) {
+      customCategoriesPrompt = `\n\nUSER'S CUSTOM CATEGORIES (prefer these when applicable):\n${categoryLines}`
+    }
+  }
+
+  // The image goes as it is; the category descriptions the user wrote are
+  // masked like any other text, and the masks put back in the answer
+  const redactor = createRedactor(await getRedactionLevel(user))
+
+  if (!(await consumeAIQuota(user, 'analyze-receipt', res))) return
+
+  try {
+    const attempt = await generateValidatedTransactions(withQuota(llm.provider, user, 'analyze-receipt'), {
+      system: `${SYSTEM_PROMPT}${redactor.redact(customCategoriesPrompt)}`,
+      messages: [{
+        role: 'user',
+        content: `Current date/time: ${currentDateTime || new Date().toISOString()}\n\nRead the attached receipt:`,
+        images: [{ mimeType, data: imageBase64 }],
+      }],
+      temperature: 0.1,
+      maxOutputTokens: 2000,
+    })
+
+    if (!attempt.ok) {
+      console.error('LLM provider error:', attempt.status, attempt.error)
+      return res.status(attempt.status).json({
+        transactions: [],
+        error: 'AI service error',
+        reason: attempt.error,
+      })
+    }
+
+    const { repaired } = attempt
+    const result = redactor.restoreForStorage(attempt.result)
+
+    // The model explicitly said there was nothing to parse
+    if (result.error) {
+      return res.status(200).json({ transactions: [], error: result.error, reason: result.reason })
+    }
+
+    if (result.errors.length > 0) {
+      return res.status(200).json({
+        transactions: [],
+        error: 'Invalid response format',
+        reason: result.errors.map(e => `${e.field} ${e.message}`).join('; '),
+      })
+    }
+
+    // Valid rows plus a per-row list of what could not be parsed
+    return res.status(200).json({
+      transactions: result.transactions,
+      rejected: result.rejected,
+      repaired,
+      ...(result.transactions.length === 0 ? {
+        error: 'No valid transactions',
+        reason: `${result.rejected.length} row(s) failed validation`,
+      } : {}),
+    })
+  } catch (error) {
+    console.error('Serverless function error:', error)
+
+    return res.status(500).json({
+      transactions: [],
+      error: 'Server error',
+      reason: 'Could not process receipt',
+    })
+  }
+}
@@ -1,13 +1,25 @@
 /**
  * Vercel Serverless Function: Transaction Analyzer
  * 
- * This function securely calls Google Gemini from the server side,
- * keeping the API key hidden from the browser.
+ * This function securely calls the configured LLM provider (Gemini by
+ * default, see _lib/llm.ts) from the server side, keeping API keys hidden
+ * from the browser.
  * 
  * Supports BULK processing of up to 50 transactions at once.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { getLLMProvider } from './_lib/llm.js'
+import { generateValidatedTransactions } from './_lib/transactionSchema.js'
+import { locateSourceSpans } from './_lib/sourceSpans.js'
+import { requireUser } from './_lib/supabase.js'
+import { findSimilarCorrections, formatCorrectionExamples, markCorrectionsUsed, type ParseCorrection } from './_lib/corrections.js'
+import { getParseCacheKey, getCachedParse, saveCachedParse } from './_lib/parseCache.js'
+import { consumeAIQuota, withQuota } from './_lib/usage.js'
+import { createRedactor, getRedactionLevel } from './_lib/redaction.js'
+
+// Longest retry hint passed on to the model
+const MAX_HINT_LENGTH = 500
 
 // System prompt for bulk financial parsing with RICH DATA extraction
 const SYSTEM_PROMPT = `You are a financial transaction parser for a Saudi Arabian personal finance app. Your job is to extract structured data from text messages (like bank SMS, receipts, or manual notes).
@@ -32,12 +44,20 @@ AMOUNT RULES:
 - Extract each transaction amount as a positive number
 - Determine if money is coming IN (income/received/deposit/salary/credit) or going OUT (expense/payment/purchase/spent/debit)
 
+TRANSFERS BETWEEN THE USER'S OWN ACCOUNTS:
+- Money moved between the user's own accounts, wallets or cards is direction "transfer" - it is neither income nor expense
+- Examples: "transfer 2000 to my savings", "moved 500 from AlRajhi to STC Pay", "paid off my Visa credit card 3000", "topped up my wallet"
+- payment_hint is the SOURCE account/card, transfer_to_hint the DESTINATION (e.g. "savings", "STC Pay", "Visa")
+- Category "Transfer", merchant null unless a name is given
+- Money sent to another person or a business is NOT a transfer - use "out"
+
 CATEGORIZATION:
 - Identify the merchant/source if mentioned
 - Look for payment method hints - any mention of card name, bank name, last 4 digits (like *552), or wallet type
 - Default categories: Food & Dining, Transportation, Shopping, Bills & Utilities, Groceries, Health, Transfer, Entertainment, Income, Travel, Education, Advertising, Subscription, Other
 - USER'S CUSTOM CATEGORIES will be provided below - ALWAYS prefer custom categories when they match!
-- Default currency to SAR if not specified. Recognize: SAR, USD, EUR, GBP, AED, ريال, $, €, £
+- Default currency to SAR if not specified. Return the ISO 4217 code of any currency (KWD, JOD, EGP, JPY...). Recognize symbols and Arabic names: ريال/ر.س = SAR, دينار كويتي/د.ك = KWD, جنيه مصري = EGP, درهم = AED, $, €, £
+- Keep the currency's decimals: KWD, BHD, OMR and JOD amounts can have 3 (e.g. 3.250)
 
 RICH DATA EXTRACTION (CRITICAL - DO NOT DISCARD):
 Bank SMS messages contain valuable auxiliary information. You MUST extract ALL of the following into the "description" field:
@@ -60,6 +80,19 @@ PAYMENT METHOD HINT EXAMPLES:
 - "from wallet" → payment_hint: "wallet"
 - "debited from your a/c *552" → payment_hint: "*552"
 
+FIELD CONFIDENCE:
+For every transaction, report how sure you are of each field in "confidence" as {"score": 0-1, "source": "..."}:
+- "extracted": the value is written explicitly in the input (score 0.9-1)
+- "inferred": the value is guessed from context, e.g. category from merchant name, year of a date without one (score 0.4-0.8)
+- "defaulted": the value is missing and you used a default, e.g. SAR currency, current date/time, "Other" category (score 0.1-0.4)
+Report amount, currency, category, merchant, transaction_datetime, direction and payment_hint.
+
+SOURCE QUOTES:
+For every transaction, copy the exact input text it came from into "source" - character for character, do not translate, reformat or fix typos:
+- segment: the whole message/line that produced this transaction
+- amount, merchant, date, payment_hint: the shortest substring of that segment each value was read from (e.g. "SAR 45.00", "Starbucks", "04/01/26 13:52", "*1234"), or null if the value is not in the text
+Keep transactions in the same order as they appear in the input.
+
 ALWAYS return this exact JSON structure (an array):
 {
   "transactions": [
@@ -69,10 +102,13 @@ ALWAYS return this exact JSON structure (an array):
       "category": "<string>",
       "merchant": "<string or null>",
       "transaction_datetime": "<ISO 8601 string, e.g. 2026-01-04T13:52:00>",
-      "direction": "<in or out>",
+      "direction": "<in, out or transfer>",
       "payment_hint": "<string or null>",
+      "transfer_to_hint": "<destination account/card for transfers, otherwise null>",
       "notes": "<user notes or null>",
-      "description": "<auxiliary info: balance, refs, campaign, account details | null>"
+      "description": "<auxiliary info: balance, refs, campaign, account details | null>",
+      "source": {"segment": "<exact input text>", "amount": "<exact substring or null>", "merchant": "<...>", "date": "<...>", "payment_hint": "<...>"},
+      "confidence": {"amount": {"score": <0-1>, "source": "<extracted|inferred|defaulted>"}, "currency": {...}, "category": {...}, "merchant": {...}, "transaction_datetime": {...}, "direction": {...}, "payment_hint": {...}}
     }
   ]
 }
@@ -105,6 +141,11 @@ Example 4 - Salary/Income:
 Input: "Salary received 8000 SAR on Jan 1st"
 Output: {"transactions": [{"amount": 8000, "currency": "SAR", "category": "Income", "merchant": "Salary", "transaction_datetime": "2026-01-01T00:00:00", "direction": "in", "payment_hint": null, "notes": null, "description": null}]}
 
+Example 5 - Transfer between own accounts:
+Input: "Transferred 1500 from AlRajhi to my savings today"
+(If today is 2026-01-10)
+Output: {"transactions": [{"amount": 1500, "currency": "SAR", "category": "Transfer", "merchant": null, "transaction_datetime": "2026-01-10T00:00:00", "direction": "transfer", "payment_hint": "AlRajhi", "transfer_to_hint": "savings", "notes": null, "description": null}]}
+
 If you cannot parse ANY valid financial data, return:
 {"transactions": [], "error": "Could not parse transactions", "reason": "<brief explanation>"}`
 
@@ -114,19 +155,22 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method not allowed' })
   }
 
-  // Get API key from server environment (NOT exposed to browser)
-  const GOOGLE_AI_API_KEY = process.env.GOOGLE_AI_API_KEY
+  const user = await requireUser(req, res)
+  if (!user) return
 
-  if (!GOOGLE_AI_API_KEY) {
-    console.error('Google AI API key not configured on server')
+  // Resolve the model provider from server environment (keys are NOT exposed to browser)
+  const llm = getLLMProvider()
+
+  if (!llm.provider) {
+    console.error('LLM provider not configured on server:', llm.error)
     return res.status(500).json({
       transactions: [],
       error: 'AI not configured',
-      reason: 'Server-side GOOGLE_AI_API_KEY is missing',
+      reason: llm.error,
     })
   }
 
-  const { text, currentDateTime, customCategories } = req.body
+  const { text, currentDateTime, customCategories, hint } = req.body
 
   if (!text || typeof text !== 'string') {
     return res.status(400).json({
@@ -154,72 +198,120 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
   }
 
+  // Extra context from the user when re-trying an input that failed to parse
+  const hintPrompt = typeof hint === 'string' && hint.trim()
+    ? `\n\nNote from the user about this text: ${hint.trim().slice(0, MAX_HINT_LENGTH)}`
+    : ''
+
+  // Account numbers, IDs etc. are masked for the model and put back in its output
+  const redactionLevel = await getRedactionLevel(user)
+  const redactor = createRedactor(redactionLevel)
+
+  // Past review corrections for similar messages - looked up before the
+  // cache, since the examples shape the answer. Examples only improve
+  // accuracy, so a lookup failure never blocks parsing.
+  let corrections: ParseCorrection[] = []
   try {
-    // Call Google Gemini API
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${GOOGLE_AI_API_KEY}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: `${SYSTEM_PROMPT}${customCategoriesPrompt}\n\nCurrent date/time: ${currentDateTime || new Date().toISOString()}\n\nParse these financial transactions (there may be multiple):\n\n${text}`
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.1,
-          maxOutputTokens: 8000,
-        }
-      }),
+    corrections = await findSimilarCorrections(user.client, user.userId, text)
+  } catch (error) {
+    console.error('Error loading parse corrections:', error)
+  }
+
+  // Same input parsed recently: answer from the cache without calling the model
+  // (cache hits don't count against the quota)
+  const cacheKey = getParseCacheKey({
+    text,
+    customCategories: Array.isArray(customCategories) ? customCategories.filter((c: { name?: string }) => c?.name) : [],
+    referenceDate: (currentDateTime || new Date().toISOString()).slice(0, 10),
+    hint: typeof hint === 'string' ? hint : '',
+    redactionLevel,
+    correctionIds: corrections.map(c => c.id),
+  })
+  const cached = await getCachedParse(user.client, user.userId, cacheKey)
+  if (cached) {
+    return res.status(200).json({
+      transactions: locateSourceSpans(cached.transactions, text),
+      rejected: cached.rejected,
+      repaired: cached.repaired,
+      cached: true,
+      cache_key: cacheKey,
     })
+  }
+
+  if (!(await consumeAIQuota(user, 'analyze', res))) return
+
+  const correctionsPrompt = redactor.redact(formatCorrectionExamples(corrections))
+  await markCorrectionsUsed(user.client, corrections)
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}))
-      console.error('Google Gemini API error:', response.status, errorData)
-      return res.status(response.status).json({
+  try {
+    const attempt = await generateValidatedTransactions(withQuota(llm.provider, user, 'analyze'), {
+      system: `${SYSTEM_PROMPT}${redactor.redact(customCategoriesPrompt)}${correctionsPrompt}`,
+      messages: [{
+        role: 'user',
+        content: `Current date/time: ${currentDateTime || new Date().toISOString()}${redactor.redact(hintPrompt)}\n\nParse these financial transactions (there may be multiple):\n\n${redactor.redact(text)}`,
+      }],
+      temperature: 0.1,
+      maxOutputTokens: 8000,
+    })
+
+    if (!attempt.ok) {
+      console.error('LLM provider error:', attempt.status, attempt.error)
+      return res.status(attempt.status).json({
         transactions: [],
         error: 'AI service error',
-        reason: (errorData as { error?: { message?: string } }).error?.message || `HTTP ${response.status}`,
+        reason: attempt.error,
       })
     }
 
-    const data = await response.json() as { candidates?: { content?: { parts?: { text?: string }[] } }[] }
-    const content = data.candidates?.[0]?.content?.parts?.[0]?.text
+    // Saved fields get masked numbers back as their last digits only; the
+    // source quotes get them whole, to be found in the text (they are
+    // dropped once the spans are located)
+    const { repaired } = attempt
+    const result = {
+      ...redactor.restoreForStorage(attempt.result),
+      transactions: attempt.result.transactions.map(({ source, ...tx }) => ({
+        ...redactor.restoreForStorage(tx),
+        source: redactor.restoreDeep(source),
+      })),
+    }
 
-    if (!content) {
-      return res.status(200).json({
-        transactions: [],
-        error: 'Empty response',
-        reason: 'AI returned no content',
-      })
+    // The model explicitly said there was nothing to parse
+    if (result.error) {
+      return res.status(200).json({ transactions: [], error: result.error, reason: result.reason })
     }
 
-    // Try to extract JSON from the response
-    const jsonMatch = content.match(/\{[\s\S]*\}/)
-    if (!jsonMatch) {
+    if (result.errors.length > 0) {
       return res.status(200).json({
         transactions: [],
         error: 'Invalid response format',
-        reason: 'Could not find JSON in AI response',
+        reason: result.errors.map(e => `${e.field} ${e.message}`).join('; '),
       })
     }
 
-    const parsed = JSON.parse(jsonMatch[0])
+    // Stored before responding - the function may be frozen once the response is sent
+    if (result.transactions.length > 0) {
+      await saveCachedParse(user.client, user.userId, cacheKey, {
+        transactions: result.transactions,
+        rejected: result.rejected,
+        repaired,
+      })
+    }
 
-    // Return the parsed result directly
-    return res.status(200).json(parsed)
+    // Valid rows (with offsets back into the input) plus a per-row list of what could not be parsed
+    return res.status(200).json({
+      transactions: locateSourceSpans(result.transactions, text),
+      rejected: result.rejected,
+      repaired,
+      // Lets a correction in the review screen clear just this entry
+      ...(result.transactions.length > 0 ? { cache_key: cacheKey } : {}),
+      ...(result.transactions.length === 0 ? {
+        error: 'No valid transactions',
+        reason: `${result.rejected.length} row(s) failed validation`,
+      } : {}),
+    })
   } catch (error) {
     console.error('Serverless function error:', error)
 
-    if (error instanceof SyntaxError) {
-      return res.status(200).json({
-        transactions: [],
-        error: 'Parse error',
-        reason: 'AI response was not valid JSON',
-      })
-    }
-
     return res.status(500).json({
       transactions: [],
       error: 'Server error',
@@ -1,35 +1,58 @@
 /**
  * Conversational AI Chat Endpoint
- * 
+ *
  * Handles questions about spending, budgets, and financial insights.
- * Uses Gemini to analyze transaction data and provide natural language responses.
+ * The model answers by calling query tools (_lib/chatTools.ts) that run
+ * against the user's full history in Supabase, so answers don't depend on
+ * what the browser happens to have loaded. The tool results it used are
+ * returned as citations.
+ *
+ * Answers can carry chart/table blocks (_lib/chatVisuals.ts), drawn from
+ * the tool results rather than from numbers the model writes out.
+ *
+ * Each question belongs to a stored session (_lib/chatHistory.ts); earlier
+ * turns are sent along so follow-ups keep their context.
+ *
+ * Requests to change transactions come back as proposals (_lib/chatActions.ts)
+ * that the app applies only after the user confirms them.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { getLLMProvider, extractJSON, type LLMMessage } from './_lib/llm.js'
+import { requireUser } from './_lib/supabase.js'
+import { consumeAIQuota, withQuota } from './_lib/usage.js'
+import { createRedactor, getRedactionLevel } from './_lib/redaction.js'
+import { describeChatTools, roundAmount, runChatTool, type ChatCitation, type ToolArgs } from './_lib/chatTools.js'
+import { ensureChatSession, loadChatHistory, saveChatTurn, buildChatContext } from './_lib/chatHistory.js'
+import { buildChatVisuals, type ChatVisual } from './_lib/chatVisuals.js'
+import {
+  PROPOSE_EDIT_TOOL,
+  describeChatActions,
+  proposeChatAction,
+  summarizeChatAction,
+  type ChatActionProposal,
+} from './_lib/chatActions.js'
+
+// Tool rounds before the model must answer with what it has
+const MAX_TOOL_ROUNDS = 4
+
+// Tool calls accepted per round
+const MAX_CALLS_PER_ROUND = 4
+
+const buildSystemPrompt = (currency: string) => `You are a helpful financial assistant for the Rqeeb expense tracking app.
+Your role is to answer questions about the user's spending habits, provide insights, and offer financial advice.
 
-const GOOGLE_AI_API_KEY = process.env.GOOGLE_AI_API_KEY
+You do NOT see the user's data directly. Get it by calling these tools:
+${describeChatTools()}
+${describeChatActions()}
 
-const SYSTEM_PROMPT = `You are a helpful financial assistant for the Rqeeb expense tracking app. 
-Your role is to answer questions about the user's spending habits, provide insights, and offer financial advice.
+To call tools, reply with ONLY this JSON (up to ${MAX_CALLS_PER_ROUND} calls at once):
+{ "type": "tool_calls", "calls": [{ "tool": "<name>", "args": { ... } }] }
 
-When answering questions:
-1. Be specific and cite actual numbers from the provided transaction data
-2. Format currency values properly (e.g., "AED 150.00" or "SAR 500.00")
-3. Provide bullet points for detailed breakdowns
-4. Be friendly but professional
-5. If the data doesn't contain enough information to answer accurately, say so
-6. When giving advice, be practical and actionable
-7. Always respond in the same language as the user's question
-
-For spending questions, analyze:
-- Total amounts by category
-- Trends over time
-- Comparison periods
-- Top merchants/vendors
-- Average transaction sizes
-
-Response format (JSON):
+Results come back labelled R1, R2, ... You may call tools again after seeing them.
+When you have what you need, reply with ONLY this JSON:
 {
+  "type": "answer",
   "text": "Your main answer as a paragraph",
   "bullets": ["Bullet point 1", "Bullet point 2"],
   "data": {
@@ -37,25 +60,45 @@ Response format (JSON):
     "transactionCount": 0,
     "topCategory": "string",
     "period": "string"
-  }
+  },
+  "citations": ["R1"],
+  "visuals": [{ "type": "time_series", "source": "R1", "chart": "bar", "title": "Food spending by month" }]
 }
 
-Current date: ${new Date().toISOString().split('T')[0]}`
+VISUALS (optional, at most 3) - charts and tables shown under the answer, drawn from a tool result:
+- time_series ("chart": "bar" or "line"): from a sum_transactions result grouped by month, week or day
+- category_pie: from a sum_transactions result grouped by category, merchant or direction
+- transaction_table: from a list_transactions result
+Add one when the user asks to "show" or chart something, or when a trend or breakdown reads better as a chart.
+Set "currency" on a chart if the result has more than one currency and the user cares about a specific one.
 
-interface Transaction {
-  amount: number
-  currency: string
-  category: string
-  merchant: string | null
-  transaction_date: string
-  direction: 'in' | 'out'
-  description: string | null
-}
+EDITS - when the user asks to change transactions (recategorize, set a beneficiary, mark reimbursable, set the account/card, delete):
+- Call ${PROPOSE_EDIT_TOOL}; use one call per kind of change
+- Proposals (A1, A2, ...) are shown to the user with the matching transactions; nothing changes until they confirm
+- Never say an edit is done - say what will change and ask the user to review and confirm below
+- If a proposal fails (unknown name, ambiguous match, nothing matches), explain and ask how to proceed
+
+When answering questions:
+1. Use ONLY numbers that appear in tool results, and list the results you used in "citations"
+2. Totals are per currency - never add amounts in different currencies together
+   Spending is direction "out" and income "in"; transfers between the user's own accounts are neither
+3. Only fill data.totalAmount when the answer is a single total in ${currency}
+4. Format currency values with the currency's own decimals, as in the tool results (e.g., "SAR 500.00", "KWD 12.500", "JPY 1,200")
+5. Provide bullet points for detailed breakdowns
+6. Be friendly but professional
+7. If the results don't contain enough information to answer accurately, say so
+8. When giving advice, be practical and actionable
+9. Always respond in the same language as the user's question
+10. Resolve relative periods ("last month", "this year") to exact dates before calling tools
+11. Follow-up questions ("and last month?", "only Careem") refer to the earlier conversation - reuse its filters and periods
+
+The user's default currency is ${currency}.
+Current date: ${new Date().toISOString().split('T')[0]}`
 
 interface ChatRequest {
   message: string
-  transactions: Transaction[]
   currency?: string
+  sessionId?: string
 }
 
 interface ChatResponse {
@@ -70,220 +113,194 @@ interface ChatResponse {
     averageAmount?: number
     [key: string]: unknown
   }
+  citations: ChatCitation[]
+  visuals: ChatVisual[]
+  actions: ChatActionProposal[]
+  sessionId: string | null
 }
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Credentials', 'true')
-  res.setHeader('Access-Control-Allow-Origin', '*')
-  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,PATCH,DELETE,POST,PUT')
-  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version')
-
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end()
-  }
+interface ModelReply {
+  type?: 'tool_calls' | 'answer'
+  calls?: { tool?: string; args?: ToolArgs }[]
+  text?: string
+  bullets?: string[]
+  data?: ChatResponse['data']
+  citations?: string[]
+  visuals?: unknown[]
+}
 
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Same-origin only: no CORS headers, so other sites can't call this with a user's session
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' })
   }
 
-  if (!GOOGLE_AI_API_KEY) {
-    return res.status(500).json({ error: 'API key not configured' })
+  const user = await requireUser(req, res)
+  if (!user) return
+
+  const llm = getLLMProvider()
+
+  if (!llm.provider) {
+    console.error('LLM provider not configured on server:', llm.error)
+    return res.status(500).json({ error: 'AI not configured', details: llm.error })
   }
 
   try {
-    const { message, transactions, currency = 'SAR' } = req.body as ChatRequest
+    const { message, currency = 'SAR', sessionId: requestedSessionId } = req.body as ChatRequest
 
     if (!message) {
       return res.status(400).json({ error: 'Message is required' })
     }
 
-    // Prepare transaction summary for the AI
-    const transactionSummary = prepareTransactionSummary(transactions, currency)
-
-    const userPrompt = `User's question: "${message}"
-
-Transaction Data Summary:
-${transactionSummary}
-
-Raw transactions (last 100):
-${JSON.stringify(transactions.slice(0, 100), null, 2)}
-
-Please analyze the data and answer the user's question. Return a JSON response.`
-
-    // Call Gemini API
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${GOOGLE_AI_API_KEY}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [
-            {
-              role: 'user',
-              parts: [{ text: SYSTEM_PROMPT }]
-            },
-            {
-              role: 'model',
-              parts: [{ text: 'Understood. I will analyze transaction data and respond with helpful financial insights in JSON format.' }]
-            },
-            {
-              role: 'user',
-              parts: [{ text: userPrompt }]
-            }
-          ],
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 1024,
-          }
+    if (!(await consumeAIQuota(user, 'chat', res))) return
+
+    const redactor = createRedactor(await getRedactionLevel(user))
+    // Each tool round is another model call
+    const provider = withQuota(llm.provider, user, 'chat')
+
+    // Earlier turns of this conversation (none for a new one)
+    const sessionId = await ensureChatSession(user, requestedSessionId, message)
+    const history = sessionId && sessionId === requestedSessionId ? await loadChatHistory(user, sessionId) : []
+    const context = buildChatContext(history)
+
+    const system = context.summary
+      ? `${buildSystemPrompt(currency)}\n\nEARLIER IN THIS CONVERSATION (summarized):\n${redactor.redact(context.summary)}`
+      : buildSystemPrompt(currency)
+    const messages: LLMMessage[] = [
+      ...context.messages.map(m => ({ ...m, content: redactor.redact(m.content) })),
+      { role: 'user', content: redactor.redact(`User's question: "${message}"`) },
+    ]
+    const citations: ChatCitation[] = []
+    const actions: ChatActionProposal[] = []
+    let reply: ModelReply | null = null
+    let rawReply = ''
+
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const result = await provider.generate({
+        system,
+        messages,
+        temperature: 0.2,
+        maxOutputTokens: 1024,
+      })
+
+      if (!result.ok) {
+        console.error('LLM provider error:', result.provider, result.status, result.error)
+        // Out of quota part-way through the tool rounds
+        if (result.status === 429 || result.status === 503) {
+          return res.status(result.status).json({ error: 'Rate limit exceeded', reason: result.error })
+        }
+        return res.status(500).json({
+          error: 'AI service error',
+          details: result.error
         })
       }
-    )
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({})) as { error?: { message?: string } }
-      console.error('Gemini API error:', errorData)
-      return res.status(500).json({ 
-        error: 'AI service error',
-        details: errorData.error?.message 
-      })
-    }
 
-    const data = await response.json() as {
-      candidates?: Array<{
-        content?: {
-          parts?: Array<{ text?: string }>
+      rawReply = result.text
+      if (!rawReply) {
+        return res.status(500).json({ error: 'No response from AI' })
+      }
+
+      try {
+        // Extract JSON from response (handles markdown code blocks)
+        reply = extractJSON<ModelReply>(rawReply)
+      } catch {
+        reply = null
+      }
+
+      const calls = reply?.type === 'tool_calls' && Array.isArray(reply.calls)
+        ? reply.calls.filter(c => typeof c?.tool === 'string').slice(0, MAX_CALLS_PER_ROUND)
+        : []
+      if (calls.length === 0 || round === MAX_TOOL_ROUNDS) break
+
+      // Arguments may quote masked names ("[NAME_1]") - the queries need the real ones
+      const queryCalls = calls.filter(c => c.tool !== PROPOSE_EDIT_TOOL)
+      const editCalls = calls.filter(c => c.tool === PROPOSE_EDIT_TOOL)
+      const [results, proposals] = await Promise.all([
+        Promise.all(queryCalls.map((call, i) =>
+          runChatTool(user, `R${citations.length + i + 1}`, call.tool as string, redactor.restoreDeep(call.args || {}))
+        )),
+        Promise.all(editCalls.map((call, i) =>
+          proposeChatAction(user, `A${actions.length + i + 1}`, redactor.restoreDeep(call.args || {}))
+        )),
+      ])
+
+      const resultLines: string[] = []
+      for (const toolResult of results) {
+        if ('error' in toolResult) {
+          resultLines.push(`${toolResult.id} ${toolResult.tool}: ERROR ${toolResult.error}`)
+        } else {
+          citations.push(toolResult)
+          resultLines.push(`${toolResult.id} ${toolResult.tool} (${toolResult.label}):\n${JSON.stringify(toolResult.result)}`)
         }
-      }>
-    }
-    
-    const aiResponse = data.candidates?.[0]?.content?.parts?.[0]?.text
-    
-    if (!aiResponse) {
-      return res.status(500).json({ error: 'No response from AI' })
-    }
+      }
+      for (const proposal of proposals) {
+        if ('error' in proposal) {
+          resultLines.push(`${proposal.id} ${PROPOSE_EDIT_TOOL}: ERROR ${proposal.error}`)
+        } else {
+          actions.push(proposal)
+          resultLines.push(`${proposal.id} ${PROPOSE_EDIT_TOOL}: ${summarizeChatAction(proposal)}`)
+        }
+      }
 
-    // Parse the JSON response
-    let parsedResponse: ChatResponse
-    try {
-      // Extract JSON from response (handle markdown code blocks)
-      const jsonMatch = aiResponse.match(/```json\s*([\s\S]*?)\s*```/) || 
-                        aiResponse.match(/```\s*([\s\S]*?)\s*```/) ||
-                        [null, aiResponse]
-      const jsonString = jsonMatch[1] || aiResponse
-      
-      const parsed = JSON.parse(jsonString)
-      parsedResponse = {
-        type: 'answer',
-        text: parsed.text || 'Unable to generate response',
-        bullets: parsed.bullets || [],
-        data: parsed.data || {}
+      // Out of rounds after this one: ask for an answer from the results so far
+      if (round === MAX_TOOL_ROUNDS - 1) {
+        resultLines.push('No more tool calls are available. Answer now with the results you have.')
       }
-    } catch {
+
+      messages.push(
+        { role: 'assistant', content: rawReply },
+        { role: 'user', content: redactor.redact(`TOOL RESULTS:\n${resultLines.join('\n\n')}`) }
+      )
+    }
+
+    // Only the results the model says it used; all of them if it named none
+    const citedIds = Array.isArray(reply?.citations) ? reply.citations : []
+    const cited = citations.filter(c => citedIds.includes(c.id))
+
+    let answer: Omit<ChatResponse, 'citations' | 'visuals' | 'actions' | 'sessionId'>
+    if (!reply) {
       // If JSON parsing fails, return the raw text
-      parsedResponse = {
+      answer = { type: 'answer', text: rawReply, bullets: [], data: {} }
+    } else if (reply.type === 'tool_calls') {
+      answer = {
         type: 'answer',
-        text: aiResponse,
+        text: "I couldn't finish looking that up. Try asking about a shorter period or a single category.",
         bullets: [],
-        data: {}
+        data: {},
       }
+    } else {
+      answer = {
+        type: 'answer',
+        text: reply.text || 'Unable to generate response',
+        bullets: reply.bullets || [],
+        // The model's own arithmetic, rounded like the tool results
+        data: typeof reply.data?.totalAmount === 'number'
+          ? { ...reply.data, totalAmount: roundAmount(reply.data.totalAmount, currency) }
+          : reply.data || {},
+      }
+    }
+
+    // Citations hold the user's own data, unmasked - only the model's words need restoring
+    const parsedResponse: ChatResponse = {
+      ...redactor.restoreDeep(answer),
+      citations: cited.length > 0 ? cited : citations,
+      visuals: buildChatVisuals(redactor.restoreDeep(reply?.visuals), citations),
+      actions,
+      sessionId,
+    }
+
+    // Stored before responding - the function may be frozen once the response is sent
+    if (sessionId) {
+      await saveChatTurn(user, sessionId, message, parsedResponse)
     }
 
     return res.status(200).json(parsedResponse)
 
   } catch (error) {
     console.error('Chat API error:', error)
-    return res.status(500).json({ 
+    return res.status(500).json({
       error: 'Internal server error',
       message: error instanceof Error ? error.message : 'Unknown error'
     })
   }
 }
-
-/**
- * Prepare a summary of transactions for the AI
- */
-function prepareTransactionSummary(transactions: Transaction[], currency: string): string {
-  if (!transactions || transactions.length === 0) {
-    return 'No transaction data available.'
-  }
-
-  // Calculate summary statistics
-  const expenses = transactions.filter(t => t.direction === 'out')
-  const income = transactions.filter(t => t.direction === 'in')
-  
-  const totalExpenses = expenses.reduce((sum, t) => sum + t.amount, 0)
-  const totalIncome = income.reduce((sum, t) => sum + t.amount, 0)
-  
-  // Group by category
-  const byCategory: Record<string, { count: number; total: number }> = {}
-  for (const tx of expenses) {
-    const cat = tx.category || 'Other'
-    if (!byCategory[cat]) {
-      byCategory[cat] = { count: 0, total: 0 }
-    }
-    byCategory[cat].count++
-    byCategory[cat].total += tx.amount
-  }
-  
-  // Group by month
-  const byMonth: Record<string, { expenses: number; income: number }> = {}
-  for (const tx of transactions) {
-    const month = tx.transaction_date?.slice(0, 7) || 'Unknown'
-    if (!byMonth[month]) {
-      byMonth[month] = { expenses: 0, income: 0 }
-    }
-    if (tx.direction === 'out') {
-      byMonth[month].expenses += tx.amount
-    } else {
-      byMonth[month].income += tx.amount
-    }
-  }
-  
-  // Top merchants
-  const merchantSpend: Record<string, number> = {}
-  for (const tx of expenses) {
-    const merchant = tx.merchant || 'Unknown'
-    merchantSpend[merchant] = (merchantSpend[merchant] || 0) + tx.amount
-  }
-  const topMerchants = Object.entries(merchantSpend)
-    .sort(([, a], [, b]) => b - a)
-    .slice(0, 10)
-  
-  // Date range
-  const dates = transactions
-    .map(t => t.transaction_date)
-    .filter(Boolean)
-    .sort()
-  const dateRange = dates.length > 0 
-    ? `${dates[0]} to ${dates[dates.length - 1]}`
-    : 'Unknown'
-  
-  return `
-Currency: ${currency}
-Date Range: ${dateRange}
-Total Transactions: ${transactions.length}
-Total Expenses: ${currency} ${totalExpenses.toFixed(2)} (${expenses.length} transactions)
-Total Income: ${currency} ${totalIncome.toFixed(2)} (${income.length} transactions)
-Net: ${currency} ${(totalIncome - totalExpenses).toFixed(2)}
-
-Spending by Category:
-${Object.entries(byCategory)
-  .sort(([, a], [, b]) => b.total - a.total)
-  .map(([cat, { count, total }]) => `  - ${cat}: ${currency} ${total.toFixed(2)} (${count} transactions)`)
-  .join('\n')}
-
-Monthly Breakdown:
-${Object.entries(byMonth)
-  .sort(([a], [b]) => b.localeCompare(a))
-  .slice(0, 6)
-  .map(([month, { expenses, income }]) => 
-    `  - ${month}: Expenses ${currency} ${expenses.toFixed(2)}, Income ${currency} ${income.toFixed(2)}`)
-  .join('\n')}
-
-Top 10 Merchants:
-${topMerchants
-  .map(([merchant, amount]) => `  - ${merchant}: ${currency} ${amount.toFixed(2)}`)
-  .join('\n')}
-`
-}
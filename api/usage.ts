@@ -0,0 +1,26 @@
+/**
+ * Vercel Serverless Function: AI Usage
+ *
+ * Returns how many AI requests the signed-in user has made today and how
+ * many are left, for the usage card in Settings.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { requireUser } from './_lib/supabase.js'
+import { getUsageSummary } from './_lib/usage.js'
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const user = await requireUser(req, res)
+  if (!user) return
+
+  try {
+    return res.status(200).json(await getUsageSummary(user))
+  } catch (error) {
+    console.error('Error fetching AI usage:', error)
+    return res.status(500).json({ error: 'Server error', reason: 'Could not load usage' })
+  }
+}
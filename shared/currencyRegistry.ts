@@ -0,0 +1,185 @@
+/**
+ * Currency Registry
+ *
+ * ISO 4217 circulating currencies with their minor units (decimal places),
+ * display symbol, Arabic name and the extra words people and bank SMS use for
+ * them. Funds, precious metals and testing codes are left out.
+ *
+ * The code, English name and Arabic name always resolve to the currency;
+ * aliases are only for other spellings. An alias shared by several
+ * currencies (ريال, دينار, جنيه, $) belongs to the one users here most likely
+ * mean - the longer "ريال قطري" still picks QAR.
+ */
+
+export interface CurrencyDefinition {
+  name: string
+  nameAr: string
+  symbol: string
+  minorUnits: 0 | 2 | 3
+  aliases?: string[]
+  flag?: string // When the code doesn't start with a country code
+}
+
+export const CURRENCY_REGISTRY = {
+  AED: { name: 'UAE Dirham', nameAr: 'درهم إماراتي', symbol: 'د.إ', minorUnits: 2, aliases: ['درهم', 'دراهم', 'Dirham', 'Dhs'] },
+  AFN: { name: 'Afghan Afghani', nameAr: 'أفغاني', symbol: '؋', minorUnits: 2 },
+  ALL: { name: 'Albanian Lek', nameAr: 'ليك ألباني', symbol: 'L', minorUnits: 2 },
+  AMD: { name: 'Armenian Dram', nameAr: 'درام أرميني', symbol: '֏', minorUnits: 2 },
+  ANG: { name: 'Netherlands Antillean Guilder', nameAr: 'غيلدر الأنتيل الهولندية', symbol: 'ƒ', minorUnits: 2, flag: '🇨🇼' },
+  AOA: { name: 'Angolan Kwanza', nameAr: 'كوانزا أنغولي', symbol: 'Kz', minorUnits: 2 },
+  ARS: { name: 'Argentine Peso', nameAr: 'بيزو أرجنتيني', symbol: '$', minorUnits: 2 },
+  AUD: { name: 'Australian Dollar', nameAr: 'دولار أسترالي', symbol: 'A$', minorUnits: 2 },
+  AWG: { name: 'Aruban Florin', nameAr: 'فلورن أروبي', symbol: 'ƒ', minorUnits: 2 },
+  AZN: { name: 'Azerbaijani Manat', nameAr: 'مانات أذربيجاني', symbol: '₼', minorUnits: 2 },
+  BAM: { name: 'Bosnia-Herzegovina Convertible Mark', nameAr: 'مارك بوسني', symbol: 'KM', minorUnits: 2 },
+  BBD: { name: 'Barbadian Dollar', nameAr: 'دولار بربادوسي', symbol: 'Bds$', minorUnits: 2 },
+  BDT: { name: 'Bangladeshi Taka', nameAr: 'تاكا بنغلاديشي', symbol: '৳', minorUnits: 2, aliases: ['تاكا', 'Taka'] },
+  BGN: { name: 'Bulgarian Lev', nameAr: 'ليف بلغاري', symbol: 'лв', minorUnits: 2 },
+  BHD: { name: 'Bahraini Dinar', nameAr: 'دينار بحريني', symbol: 'د.ب', minorUnits: 3, aliases: ['BD'] },
+  BIF: { name: 'Burundian Franc', nameAr: 'فرنك بوروندي', symbol: 'FBu', minorUnits: 0 },
+  BMD: { name: 'Bermudan Dollar', nameAr: 'دولار برمودي', symbol: '$', minorUnits: 2 },
+  BND: { name: 'Brunei Dollar', nameAr: 'دولار بروناي', symbol: 'B$', minorUnits: 2 },
+  BOB: { name: 'Bolivian Boliviano', nameAr: 'بوليفيانو بوليفي', symbol: 'Bs', minorUnits: 2 },
+  BRL: { name: 'Brazilian Real', nameAr: 'ريال برازيلي', symbol: 'R$', minorUnits: 2 },
+  BSD: { name: 'Bahamian Dollar', nameAr: 'دولار باهامي', symbol: 'B$', minorUnits: 2 },
+  BTN: { name: 'Bhutanese Ngultrum', nameAr: 'نغولترم بوتاني', symbol: 'Nu', minorUnits: 2 },
+  BWP: { name: 'Botswanan Pula', nameAr: 'بولا بوتسواني', symbol: 'P', minorUnits: 2 },
+  BYN: { name: 'Belarusian Ruble', nameAr: 'روبل بيلاروسي', symbol: 'Br', minorUnits: 2 },
+  BZD: { name: 'Belize Dollar', nameAr: 'دولار بليزي', symbol: 'BZ$', minorUnits: 2 },
+  CAD: { name: 'Canadian Dollar', nameAr: 'دولار كندي', symbol: 'C$', minorUnits: 2 },
+  CDF: { name: 'Congolese Franc', nameAr: 'فرنك كونغولي', symbol: 'FC', minorUnits: 2 },
+  CHF: { name: 'Swiss Franc', nameAr: 'فرنك سويسري', symbol: 'CHF', minorUnits: 2 },
+  CLP: { name: 'Chilean Peso', nameAr: 'بيزو تشيلي', symbol: '$', minorUnits: 0 },
+  CNY: { name: 'Chinese Yuan', nameAr: 'يوان صيني', symbol: '¥', minorUnits: 2, aliases: ['يوان', 'RMB', 'Yuan'] },
+  COP: { name: 'Colombian Peso', nameAr: 'بيزو كولومبي', symbol: '$', minorUnits: 2 },
+  CRC: { name: 'Costa Rican Colón', nameAr: 'كولون كوستاريكي', symbol: '₡', minorUnits: 2 },
+  CUP: { name: 'Cuban Peso', nameAr: 'بيزو كوبي', symbol: '$', minorUnits: 2 },
+  CVE: { name: 'Cape Verdean Escudo', nameAr: 'إسكودو الرأس الأخضر', symbol: 'Esc', minorUnits: 2 },
+  CZK: { name: 'Czech Koruna', nameAr: 'كرونة تشيكية', symbol: 'Kč', minorUnits: 2 },
+  DJF: { name: 'Djiboutian Franc', nameAr: 'فرنك جيبوتي', symbol: 'Fdj', minorUnits: 0 },
+  DKK: { name: 'Danish Krone', nameAr: 'كرونة دنماركية', symbol: 'kr', minorUnits: 2 },
+  DOP: { name: 'Dominican Peso', nameAr: 'بيزو دومينيكاني', symbol: 'RD$', minorUnits: 2 },
+  DZD: { name: 'Algerian Dinar', nameAr: 'دينار جزائري', symbol: 'د.ج', minorUnits: 2 },
+  EGP: { name: 'Egyptian Pound', nameAr: 'جنيه مصري', symbol: 'ج.م', minorUnits: 2, aliases: ['جنيه', 'جنيهات', 'LE', 'E£'] },
+  ERN: { name: 'Eritrean Nakfa', nameAr: 'ناكفا إريتري', symbol: 'Nfk', minorUnits: 2 },
+  ETB: { name: 'Ethiopian Birr', nameAr: 'بير إثيوبي', symbol: 'Br', minorUnits: 2 },
+  EUR: { name: 'Euro', nameAr: 'يورو', symbol: '€', minorUnits: 2 },
+  FJD: { name: 'Fijian Dollar', nameAr: 'دولار فيجي', symbol: 'FJ$', minorUnits: 2 },
+  FKP: { name: 'Falkland Islands Pound', nameAr: 'جنيه جزر فوكلاند', symbol: '£', minorUnits: 2 },
+  GBP: { name: 'British Pound', nameAr: 'جنيه إسترليني', symbol: '£', minorUnits: 2, aliases: ['£', 'جنيه استرليني', 'إسترليني', 'استرليني', 'Sterling'] },
+  GEL: { name: 'Georgian Lari', nameAr: 'لاري جورجي', symbol: '₾', minorUnits: 2 },
+  GHS: { name: 'Ghanaian Cedi', nameAr: 'سيدي غاني', symbol: '₵', minorUnits: 2 },
+  GIP: { name: 'Gibraltar Pound', nameAr: 'جنيه جبل طارق', symbol: '£', minorUnits: 2 },
+  GMD: { name: 'Gambian Dalasi', nameAr: 'دالاسي غامبي', symbol: 'D', minorUnits: 2 },
+  GNF: { name: 'Guinean Franc', nameAr: 'فرنك غيني', symbol: 'FG', minorUnits: 0 },
+  GTQ: { name: 'Guatemalan Quetzal', nameAr: 'كتزال غواتيمالي', symbol: 'Q', minorUnits: 2 },
+  GYD: { name: 'Guyanaese Dollar', nameAr: 'دولار غياني', symbol: 'G$', minorUnits: 2 },
+  HKD: { name: 'Hong Kong Dollar', nameAr: 'دولار هونغ كونغ', symbol: 'HK$', minorUnits: 2 },
+  HNL: { name: 'Honduran Lempira', nameAr: 'ليمبيرا هندوراسي', symbol: 'L', minorUnits: 2 },
+  HTG: { name: 'Haitian Gourde', nameAr: 'غورد هايتي', symbol: 'G', minorUnits: 2 },
+  HUF: { name: 'Hungarian Forint', nameAr: 'فورنت مجري', symbol: 'Ft', minorUnits: 2 },
+  IDR: { name: 'Indonesian Rupiah', nameAr: 'روبية إندونيسية', symbol: 'Rp', minorUnits: 2, aliases: ['Rupiah'] },
+  ILS: { name: 'Israeli New Shekel', nameAr: 'شيكل', symbol: '₪', minorUnits: 2 },
+  INR: { name: 'Indian Rupee', nameAr: 'روبية هندية', symbol: '₹', minorUnits: 2, aliases: ['₹', 'روبية', 'Rupee'] },
+  IQD: { name: 'Iraqi Dinar', nameAr: 'دينار عراقي', symbol: 'د.ع', minorUnits: 3 },
+  IRR: { name: 'Iranian Rial', nameAr: 'ريال إيراني', symbol: '﷼', minorUnits: 2 },
+  ISK: { name: 'Icelandic Króna', nameAr: 'كرونة آيسلندية', symbol: 'kr', minorUnits: 0 },
+  JMD: { name: 'Jamaican Dollar', nameAr: 'دولار جامايكي', symbol: 'J$', minorUnits: 2 },
+  JOD: { name: 'Jordanian Dinar', nameAr: 'دينار أردني', symbol: 'د.أ', minorUnits: 3, aliases: ['دينار اردني', 'JD'] },
+  JPY: { name: 'Japanese Yen', nameAr: 'ين ياباني', symbol: '¥', minorUnits: 0, aliases: ['¥', 'ين', 'Yen'] },
+  KES: { name: 'Kenyan Shilling', nameAr: 'شلن كيني', symbol: 'KSh', minorUnits: 2 },
+  KGS: { name: 'Kyrgystani Som', nameAr: 'سوم قيرغيزستاني', symbol: 'сом', minorUnits: 2 },
+  KHR: { name: 'Cambodian Riel', nameAr: 'رييل كمبودي', symbol: '៛', minorUnits: 2 },
+  KMF: { name: 'Comorian Franc', nameAr: 'فرنك جزر القمر', symbol: 'CF', minorUnits: 0 },
+  KPW: { name: 'North Korean Won', nameAr: 'وون كوري شمالي', symbol: '₩', minorUnits: 2 },
+  KRW: { name: 'South Korean Won', nameAr: 'وون كوري جنوبي', symbol: '₩', minorUnits: 0, aliases: ['₩', 'وون'] },
+  KWD: { name: 'Kuwaiti Dinar', nameAr: 'دينار كويتي', symbol: 'د.ك', minorUnits: 3, aliases: ['دينار', 'دنانير', 'KD'] },
+  KYD: { name: 'Cayman Islands Dollar', nameAr: 'دولار جزر كايمان', symbol: 'CI$', minorUnits: 2 },
+  KZT: { name: 'Kazakhstani Tenge', nameAr: 'تينغ كازاخستاني', symbol: '₸', minorUnits: 2 },
+  LAK: { name: 'Laotian Kip', nameAr: 'كيب لاوسي', symbol: '₭', minorUnits: 2 },
+  LBP: { name: 'Lebanese Pound', nameAr: 'ليرة لبنانية', symbol: 'ل.ل', minorUnits: 2 },
+  LKR: { name: 'Sri Lankan Rupee', nameAr: 'روبية سريلانكية', symbol: 'Rs', minorUnits: 2 },
+  LRD: { name: 'Liberian Dollar', nameAr: 'دولار ليبيري', symbol: 'L$', minorUnits: 2 },
+  LSL: { name: 'Lesotho Loti', nameAr: 'لوتي ليسوتو', symbol: 'L', minorUnits: 2 },
+  LYD: { name: 'Libyan Dinar', nameAr: 'دينار ليبي', symbol: 'ل.د', minorUnits: 3 },
+  MAD: { name: 'Moroccan Dirham', nameAr: 'درهم مغربي', symbol: 'د.م', minorUnits: 2 },
+  MDL: { name: 'Moldovan Leu', nameAr: 'ليو مولدوفي', symbol: 'L', minorUnits: 2 },
+  MGA: { name: 'Malagasy Ariary', nameAr: 'أرياري مدغشقري', symbol: 'Ar', minorUnits: 2 },
+  MKD: { name: 'Macedonian Denar', nameAr: 'دينار مقدوني', symbol: 'ден', minorUnits: 2 },
+  MMK: { name: 'Myanmar Kyat', nameAr: 'كيات ميانماري', symbol: 'K', minorUnits: 2 },
+  MNT: { name: 'Mongolian Tugrik', nameAr: 'توغروغ منغولي', symbol: '₮', minorUnits: 2 },
+  MOP: { name: 'Macanese Pataca', nameAr: 'باتاكا ماكاوي', symbol: 'MOP$', minorUnits: 2 },
+  MRU: { name: 'Mauritanian Ouguiya', nameAr: 'أوقية موريتانية', symbol: 'أ.م', minorUnits: 2 },
+  MUR: { name: 'Mauritian Rupee', nameAr: 'روبية موريشيوسية', symbol: 'Rs', minorUnits: 2 },
+  MVR: { name: 'Maldivian Rufiyaa', nameAr: 'روفيه مالديفية', symbol: 'Rf', minorUnits: 2 },
+  MWK: { name: 'Malawian Kwacha', nameAr: 'كواشا مالاوي', symbol: 'MK', minorUnits: 2 },
+  MXN: { name: 'Mexican Peso', nameAr: 'بيزو مكسيكي', symbol: '$', minorUnits: 2 },
+  MYR: { name: 'Malaysian Ringgit', nameAr: 'رينغيت ماليزي', symbol: 'RM', minorUnits: 2, aliases: ['رينغيت', 'Ringgit'] },
+  MZN: { name: 'Mozambican Metical', nameAr: 'متكال موزمبيقي', symbol: 'MT', minorUnits: 2 },
+  NAD: { name: 'Namibian Dollar', nameAr: 'دولار ناميبي', symbol: 'N$', minorUnits: 2 },
+  NGN: { name: 'Nigerian Naira', nameAr: 'نايرا نيجيري', symbol: '₦', minorUnits: 2 },
+  NIO: { name: 'Nicaraguan Córdoba', nameAr: 'كوردوبا نيكاراغوي', symbol: 'C$', minorUnits: 2 },
+  NOK: { name: 'Norwegian Krone', nameAr: 'كرونة نرويجية', symbol: 'kr', minorUnits: 2 },
+  NPR: { name: 'Nepalese Rupee', nameAr: 'روبية نيبالية', symbol: 'Rs', minorUnits: 2 },
+  NZD: { name: 'New Zealand Dollar', nameAr: 'دولار نيوزيلندي', symbol: 'NZ$', minorUnits: 2 },
+  OMR: { name: 'Omani Rial', nameAr: 'ريال عماني', symbol: 'ر.ع', minorUnits: 3, aliases: ['ريال عُماني', 'RO'] },
+  PAB: { name: 'Panamanian Balboa', nameAr: 'بالبوا بنمي', symbol: 'B/.', minorUnits: 2 },
+  PEN: { name: 'Peruvian Sol', nameAr: 'سول بيروفي', symbol: 'S/', minorUnits: 2 },
+  PGK: { name: 'Papua New Guinean Kina', nameAr: 'كينا بابوا غينيا الجديدة', symbol: 'K', minorUnits: 2 },
+  PHP: { name: 'Philippine Peso', nameAr: 'بيزو فلبيني', symbol: '₱', minorUnits: 2, aliases: ['₱', 'بيزو'] },
+  PKR: { name: 'Pakistani Rupee', nameAr: 'روبية باكستانية', symbol: 'Rs', minorUnits: 2 },
+  PLN: { name: 'Polish Zloty', nameAr: 'زلوتي بولندي', symbol: 'zł', minorUnits: 2 },
+  PYG: { name: 'Paraguayan Guarani', nameAr: 'غواراني باراغواي', symbol: '₲', minorUnits: 0 },
+  QAR: { name: 'Qatari Riyal', nameAr: 'ريال قطري', symbol: 'ر.ق', minorUnits: 2, aliases: ['QR'] },
+  RON: { name: 'Romanian Leu', nameAr: 'ليو روماني', symbol: 'lei', minorUnits: 2 },
+  RSD: { name: 'Serbian Dinar', nameAr: 'دينار صربي', symbol: 'дин', minorUnits: 2 },
+  RUB: { name: 'Russian Ruble', nameAr: 'روبل روسي', symbol: '₽', minorUnits: 2, aliases: ['₽', 'روبل', 'Ruble'] },
+  RWF: { name: 'Rwandan Franc', nameAr: 'فرنك رواندي', symbol: 'FRw', minorUnits: 0 },
+  SAR: { name: 'Saudi Riyal', nameAr: 'ريال سعودي', symbol: 'ر.س', minorUnits: 2, aliases: ['ريال', 'ريالات', 'رس', 'SR', 'Riyal'] },
+  SBD: { name: 'Solomon Islands Dollar', nameAr: 'دولار جزر سليمان', symbol: 'SI$', minorUnits: 2 },
+  SCR: { name: 'Seychellois Rupee', nameAr: 'روبية سيشلية', symbol: 'SRe', minorUnits: 2 },
+  SDG: { name: 'Sudanese Pound', nameAr: 'جنيه سوداني', symbol: 'ج.س', minorUnits: 2 },
+  SEK: { name: 'Swedish Krona', nameAr: 'كرونة سويدية', symbol: 'kr', minorUnits: 2 },
+  SGD: { name: 'Singapore Dollar', nameAr: 'دولار سنغافوري', symbol: 'S$', minorUnits: 2 },
+  SHP: { name: 'St. Helena Pound', nameAr: 'جنيه سانت هيلينا', symbol: '£', minorUnits: 2 },
+  SLE: { name: 'Sierra Leonean Leone', nameAr: 'ليون سيراليوني', symbol: 'Le', minorUnits: 2 },
+  SOS: { name: 'Somali Shilling', nameAr: 'شلن صومالي', symbol: 'Sh', minorUnits: 2 },
+  SRD: { name: 'Surinamese Dollar', nameAr: 'دولار سورينامي', symbol: '$', minorUnits: 2 },
+  SSP: { name: 'South Sudanese Pound', nameAr: 'جنيه جنوب السودان', symbol: '£', minorUnits: 2 },
+  STN: { name: 'São Tomé & Príncipe Dobra', nameAr: 'دوبرا ساو تومي وبرينسيب', symbol: 'Db', minorUnits: 2 },
+  SYP: { name: 'Syrian Pound', nameAr: 'ليرة سورية', symbol: 'ل.س', minorUnits: 2, aliases: ['ليرة', 'ليرات'] },
+  SZL: { name: 'Swazi Lilangeni', nameAr: 'ليلانجيني سوازيلندي', symbol: 'E', minorUnits: 2 },
+  THB: { name: 'Thai Baht', nameAr: 'بات تايلندي', symbol: '฿', minorUnits: 2, aliases: ['฿', 'Baht'] },
+  TJS: { name: 'Tajikistani Somoni', nameAr: 'ساماني طاجيكستاني', symbol: 'SM', minorUnits: 2 },
+  TMT: { name: 'Turkmenistani Manat', nameAr: 'مانات تركمانستاني', symbol: 'm', minorUnits: 2 },
+  TND: { name: 'Tunisian Dinar', nameAr: 'دينار تونسي', symbol: 'د.ت', minorUnits: 3 },
+  TOP: { name: 'Tongan Paʻanga', nameAr: 'بانغا تونغي', symbol: 'T$', minorUnits: 2 },
+  TRY: { name: 'Turkish Lira', nameAr: 'ليرة تركية', symbol: '₺', minorUnits: 2, aliases: ['₺', 'TL', 'Lira'] },
+  TTD: { name: 'Trinidad & Tobago Dollar', nameAr: 'دولار ترينيداد وتوباغو', symbol: 'TT$', minorUnits: 2 },
+  TWD: { name: 'New Taiwan Dollar', nameAr: 'دولار تايواني', symbol: 'NT$', minorUnits: 2 },
+  TZS: { name: 'Tanzanian Shilling', nameAr: 'شلن تنزاني', symbol: 'TSh', minorUnits: 2 },
+  UAH: { name: 'Ukrainian Hryvnia', nameAr: 'هريفنيا أوكرانية', symbol: '₴', minorUnits: 2 },
+  UGX: { name: 'Ugandan Shilling', nameAr: 'شلن أوغندي', symbol: 'USh', minorUnits: 0 },
+  USD: { name: 'US Dollar', nameAr: 'دولار أمريكي', symbol: '$', minorUnits: 2, aliases: ['$', 'US$', 'دولار', 'دولارات', 'Dollar'] },
+  UYU: { name: 'Uruguayan Peso', nameAr: 'بيزو أوروغواي', symbol: '$U', minorUnits: 2 },
+  UZS: { name: 'Uzbekistani Som', nameAr: 'سوم أوزبكستاني', symbol: 'soʻm', minorUnits: 2 },
+  VED: { name: 'Venezuelan Digital Bolívar', nameAr: 'بوليفار رقمي فنزويلي', symbol: 'Bs.D', minorUnits: 2 },
+  VES: { name: 'Venezuelan Bolívar', nameAr: 'بوليفار فنزويلي', symbol: 'Bs.S', minorUnits: 2 },
+  VND: { name: 'Vietnamese Dong', nameAr: 'دونغ فيتنامي', symbol: '₫', minorUnits: 0 },
+  VUV: { name: 'Vanuatu Vatu', nameAr: 'فاتو فانواتو', symbol: 'VT', minorUnits: 0 },
+  WST: { name: 'Samoan Tala', nameAr: 'تالا ساموي', symbol: 'WS$', minorUnits: 2 },
+  XAF: { name: 'Central African CFA Franc', nameAr: 'فرنك وسط أفريقي', symbol: 'FCFA', minorUnits: 0, flag: '🌍' },
+  XCD: { name: 'East Caribbean Dollar', nameAr: 'دولار شرق الكاريبي', symbol: 'EC$', minorUnits: 2, flag: '🌎' },
+  XCG: { name: 'Caribbean Guilder', nameAr: 'غيلدر كاريبي', symbol: 'Cg', minorUnits: 2, flag: '🇨🇼' },
+  XOF: { name: 'West African CFA Franc', nameAr: 'فرنك غرب أفريقي', symbol: 'CFA', minorUnits: 0, flag: '🌍' },
+  XPF: { name: 'CFP Franc', nameAr: 'فرنك سي إف بي', symbol: '₣', minorUnits: 0, flag: '🌏' },
+  YER: { name: 'Yemeni Rial', nameAr: 'ريال يمني', symbol: 'ر.ي', minorUnits: 2 },
+  ZAR: { name: 'South African Rand', nameAr: 'راند جنوب أفريقي', symbol: 'R', minorUnits: 2, aliases: ['راند'] },
+  ZMW: { name: 'Zambian Kwacha', nameAr: 'كواشا زامبي', symbol: 'ZK', minorUnits: 2 },
+  ZWG: { name: 'Zimbabwe Gold', nameAr: 'ذهب زيمبابوي', symbol: 'ZiG', minorUnits: 2 },
+} satisfies Record<string, CurrencyDefinition>
+
+// Listed first in pickers, in this order
+export const POPULAR_CURRENCIES = [
+  'SAR', 'USD', 'EUR', 'GBP', 'AED', 'KWD', 'BHD', 'QAR', 'OMR', 'EGP', 'JOD', 'TRY',
+] as const
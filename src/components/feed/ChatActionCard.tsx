@@ -0,0 +1,183 @@
+/**
+ * Chat Action Card Component
+ *
+ * An edit the assistant proposed ("move all Jahez orders to Food & Dining"):
+ * what will change, the transactions it applies to, and Apply / Dismiss.
+ * The server only proposes; the change is written when the user applies it.
+ */
+
+import { useState } from 'react'
+import {
+  Tag,
+  User,
+  Receipt,
+  Wallet,
+  Trash2,
+  Check,
+  X,
+  Loader2,
+  AlertCircle
+} from 'lucide-react'
+import { cn, formatCurrency } from '@/lib/utils'
+
+export type ChatActionType =
+  | 'recategorize'
+  | 'set_beneficiary'
+  | 'set_reimbursable'
+  | 'set_account'
+  | 'delete'
+
+export interface ChatActionProposal {
+  id: string
+  action: ChatActionType
+  label: string
+  filter_label: string
+  updates: {
+    category?: string
+    beneficiary_id?: string | null
+    is_reimbursable?: boolean
+    account_id?: string | null
+    card_id?: string | null
+  } | null // null = delete
+  transaction_ids: string[]
+  preview: {
+    id: string
+    date: string
+    merchant: string | null
+    category: string
+    amount: number
+    currency: string
+    direction: 'in' | 'out' | 'transfer'
+  }[]
+}
+
+type ActionStatus = 'pending' | 'applying' | 'applied' | 'dismissed'
+
+const ACTION_ICONS: Record<ChatActionType, typeof Tag> = {
+  recategorize: Tag,
+  set_beneficiary: User,
+  set_reimbursable: Receipt,
+  set_account: Wallet,
+  delete: Trash2,
+}
+
+interface ChatActionCardProps {
+  proposal: ChatActionProposal
+  onApply?: (proposal: ChatActionProposal) => Promise<{ success: boolean; error?: string }>
+}
+
+export function ChatActionCard({ proposal, onApply }: ChatActionCardProps) {
+  const [status, setStatus] = useState<ActionStatus>('pending')
+  const [error, setError] = useState<string | null>(null)
+  const Icon = ACTION_ICONS[proposal.action] || Tag
+  const isDelete = proposal.action === 'delete'
+  const count = proposal.transaction_ids.length
+  const hiddenCount = count - proposal.preview.length
+
+  const handleApply = async () => {
+    if (!onApply) return
+    setStatus('applying')
+    setError(null)
+    const result = await onApply(proposal)
+    if (result.success) {
+      setStatus('applied')
+    } else {
+      setStatus('pending')
+      setError(result.error || 'Could not apply the change')
+    }
+  }
+
+  return (
+    <div className={cn(
+      'p-3 rounded-xl border',
+      isDelete ? 'bg-rose-500/5 border-rose-500/20' : 'bg-white/[0.03] border-white/[0.06]',
+      status === 'dismissed' && 'opacity-50'
+    )}>
+      {/* What will change */}
+      <div className="flex items-start gap-2">
+        <div className={cn('p-1.5 rounded-lg shrink-0', isDelete ? 'bg-rose-500/20' : 'bg-emerald-500/20')}>
+          <Icon className={cn('h-3.5 w-3.5', isDelete ? 'text-rose-400' : 'text-emerald-400')} />
+        </div>
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-white">{proposal.label}</p>
+          <p className="text-xs text-slate-500">{proposal.filter_label}</p>
+        </div>
+      </div>
+
+      {/* Affected transactions */}
+      <div className="mt-2 max-h-40 overflow-y-auto -mx-1">
+        <table className="w-full text-xs">
+          <tbody>
+            {proposal.preview.map(row => (
+              <tr key={row.id} className="border-t border-white/[0.04]">
+                <td className="px-1 py-1 text-slate-400 whitespace-nowrap">{row.date.slice(0, 10)}</td>
+                <td className="px-1 py-1 text-slate-300">
+                  <span className="block truncate max-w-[10rem]">{row.merchant || '—'}</span>
+                </td>
+                <td className="px-1 py-1 text-slate-500">
+                  <span className="block truncate max-w-[7rem]">{row.category}</span>
+                </td>
+                <td className={cn(
+                  'px-1 py-1 text-right font-mono whitespace-nowrap',
+                  row.direction === 'in' ? 'text-emerald-400' : row.direction === 'transfer' ? 'text-cyan-400' : 'text-white'
+                )}>
+                  {row.direction === 'in' ? '+' : row.direction === 'out' ? '-' : ''}{formatCurrency(row.amount, row.currency)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {hiddenCount > 0 && (
+          <p className="px-1 pt-1 text-xs text-slate-500">and {hiddenCount} more</p>
+        )}
+      </div>
+
+      {error && (
+        <p className="mt-2 flex items-center gap-1.5 text-xs text-rose-400">
+          <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {/* Confirm */}
+      <div className="mt-3 flex items-center justify-end gap-2">
+        {status === 'applied' ? (
+          <span className="flex items-center gap-1.5 text-xs text-emerald-400">
+            <Check className="h-3.5 w-3.5" />
+            {isDelete ? 'Deleted' : 'Applied'}
+          </span>
+        ) : status === 'dismissed' ? (
+          <span className="text-xs text-slate-500">Dismissed</span>
+        ) : (
+          <>
+            <button
+              onClick={() => setStatus('dismissed')}
+              disabled={status === 'applying'}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs text-slate-400 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-50"
+            >
+              <X className="h-3.5 w-3.5" />
+              Dismiss
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={status === 'applying' || !onApply}
+              className={cn(
+                'flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-50',
+                isDelete
+                  ? 'bg-rose-500/20 text-rose-300 hover:bg-rose-500/30'
+                  : 'bg-emerald-500/20 text-emerald-300 hover:bg-emerald-500/30'
+              )}
+            >
+              {status === 'applying' ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Check className="h-3.5 w-3.5" />
+              )}
+              {isDelete ? `Delete ${count}` : `Apply to ${count}`}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
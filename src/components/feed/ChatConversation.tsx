@@ -0,0 +1,288 @@
+/**
+ * Chat Conversation Component
+ *
+ * The conversation with the spending assistant: questions and answers of the
+ * current session, plus a list of past sessions to reopen, rename or delete.
+ * New questions are typed into the input dock while the conversation is open.
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { motion } from 'framer-motion'
+import { formatDistanceToNow } from 'date-fns'
+import {
+  Bot,
+  X,
+  Plus,
+  History,
+  Pencil,
+  Trash2,
+  Check,
+  Loader2,
+  MessageSquare,
+  ArrowLeft
+} from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { Currency } from '@/lib/currency'
+import type { ChatSession } from '@/types/database'
+import { ChatAnswer, type ChatResponseData } from './ChatResponse'
+import type { ChatActionProposal } from './ChatActionCard'
+
+export interface ChatTurn {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  response: ChatResponseData | null // Assistant turns only
+}
+
+interface ChatConversationProps {
+  title: string | null // null = new, unsaved conversation
+  turns: ChatTurn[]
+  isLoading: boolean
+  currency: Currency
+  sessions: ChatSession[]
+  activeSessionId: string | null
+  onClose: () => void
+  onNewChat: () => void
+  onOpenSession: (sessionId: string) => void
+  onRenameSession: (sessionId: string, title: string) => Promise<void>
+  onDeleteSession: (sessionId: string) => Promise<void>
+  onApplyAction: (proposal: ChatActionProposal) => Promise<{ success: boolean; error?: string }>
+}
+
+export function ChatConversation({
+  title,
+  turns,
+  isLoading,
+  currency,
+  sessions,
+  activeSessionId,
+  onClose,
+  onNewChat,
+  onOpenSession,
+  onRenameSession,
+  onDeleteSession,
+  onApplyAction,
+}: ChatConversationProps) {
+  const [showHistory, setShowHistory] = useState(false)
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+  const [busySessionId, setBusySessionId] = useState<string | null>(null)
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  // Keep the latest turn in view
+  useEffect(() => {
+    if (!showHistory && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight
+    }
+  }, [turns.length, isLoading, showHistory])
+
+  const startRename = (session: ChatSession) => {
+    setRenamingId(session.id)
+    setRenameValue(session.title)
+  }
+
+  const submitRename = async () => {
+    if (!renamingId) return
+    setBusySessionId(renamingId)
+    try {
+      await onRenameSession(renamingId, renameValue)
+      setRenamingId(null)
+    } finally {
+      setBusySessionId(null)
+    }
+  }
+
+  const handleDelete = async (sessionId: string) => {
+    setBusySessionId(sessionId)
+    try {
+      await onDeleteSession(sessionId)
+    } finally {
+      setBusySessionId(null)
+    }
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20, scale: 0.95 }}
+      animate={{ opacity: 1, y: 0, scale: 1 }}
+      exit={{ opacity: 0, y: 20, scale: 0.95 }}
+      className="mx-4 mb-4"
+    >
+      <div className="max-w-2xl mx-auto">
+        <div className="relative bg-slate-900/95 backdrop-blur-xl rounded-2xl border border-emerald-500/30 shadow-xl overflow-hidden">
+          {/* Header */}
+          <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-white/[0.06] bg-emerald-500/10">
+            <div className="flex items-center gap-2 min-w-0">
+              {showHistory ? (
+                <button
+                  onClick={() => setShowHistory(false)}
+                  className="p-1.5 rounded-lg hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
+                  title="Back to conversation"
+                >
+                  <ArrowLeft className="h-4 w-4" />
+                </button>
+              ) : (
+                <div className="p-1.5 rounded-lg bg-emerald-500/20">
+                  <Bot className="h-4 w-4 text-emerald-400" />
+                </div>
+              )}
+              <span className="text-sm font-medium text-emerald-400 truncate">
+                {showHistory ? 'Past conversations' : title || 'New conversation'}
+              </span>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              {!showHistory && (
+                <button
+                  onClick={() => setShowHistory(true)}
+                  className="p-1.5 rounded-lg hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
+                  title="Past conversations"
+                >
+                  <History className="h-4 w-4" />
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  setShowHistory(false)
+                  onNewChat()
+                }}
+                className="p-1.5 rounded-lg hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
+                title="New conversation"
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+              <button
+                onClick={onClose}
+                className="p-1.5 rounded-lg hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
+                title="Close"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
+          {showHistory ? (
+            /* Session list */
+            <div className="max-h-[55vh] overflow-y-auto p-2">
+              {sessions.length === 0 ? (
+                <div className="py-8 text-center">
+                  <MessageSquare className="h-8 w-8 text-slate-600 mx-auto mb-2" />
+                  <p className="text-sm text-slate-500">No past conversations yet</p>
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  {sessions.map(session => (
+                    <div
+                      key={session.id}
+                      className={cn(
+                        'flex items-center gap-2 p-2.5 rounded-xl transition-colors',
+                        session.id === activeSessionId ? 'bg-emerald-500/10' : 'hover:bg-white/[0.04]'
+                      )}
+                    >
+                      {renamingId === session.id ? (
+                        <>
+                          <input
+                            value={renameValue}
+                            onChange={e => setRenameValue(e.target.value)}
+                            onKeyDown={e => {
+                              if (e.key === 'Enter') submitRename()
+                              if (e.key === 'Escape') setRenamingId(null)
+                            }}
+                            autoFocus
+                            className="flex-1 px-3 py-1.5 rounded-lg bg-white/[0.05] border border-white/[0.1] text-sm text-white focus:outline-none focus:border-emerald-500/50"
+                          />
+                          <button
+                            onClick={submitRename}
+                            disabled={busySessionId === session.id || !renameValue.trim()}
+                            className="p-1.5 rounded-lg text-emerald-400 hover:bg-emerald-500/10 disabled:opacity-50"
+                            title="Save"
+                          >
+                            {busySessionId === session.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                          </button>
+                          <button
+                            onClick={() => setRenamingId(null)}
+                            className="p-1.5 rounded-lg text-slate-400 hover:bg-white/10"
+                            title="Cancel"
+                          >
+                            <X className="h-4 w-4" />
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => {
+                              onOpenSession(session.id)
+                              setShowHistory(false)
+                            }}
+                            className="flex-1 min-w-0 text-left"
+                          >
+                            <p className="text-sm text-white truncate">{session.title}</p>
+                            <p className="text-xs text-slate-500">
+                              {formatDistanceToNow(new Date(session.updated_at), { addSuffix: true })}
+                            </p>
+                          </button>
+                          <button
+                            onClick={() => startRename(session)}
+                            className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/10 transition-colors"
+                            title="Rename"
+                          >
+                            <Pencil className="h-3.5 w-3.5" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(session.id)}
+                            disabled={busySessionId === session.id}
+                            className="p-1.5 rounded-lg text-slate-400 hover:text-rose-400 hover:bg-rose-500/10 transition-colors disabled:opacity-50"
+                            title="Delete"
+                          >
+                            {busySessionId === session.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Trash2 className="h-3.5 w-3.5" />}
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : (
+            /* Conversation */
+            <div ref={scrollRef} className="max-h-[55vh] overflow-y-auto p-4 space-y-4">
+              {turns.length === 0 && !isLoading && (
+                <p className="text-sm text-slate-500 text-center py-4">
+                  Ask about your spending – follow-up questions keep the context.
+                </p>
+              )}
+
+              {turns.map(turn => turn.role === 'user' ? (
+                <div key={turn.id} className="flex justify-end">
+                  <div className="max-w-[85%] px-3 py-2 rounded-2xl rounded-br-md bg-emerald-500/20 text-sm text-white">
+                    {turn.content}
+                  </div>
+                </div>
+              ) : (
+                <div key={turn.id}>
+                  {turn.response ? (
+                    <ChatAnswer response={turn.response} currency={currency} onApplyAction={onApplyAction} />
+                  ) : (
+                    <p className="text-white leading-relaxed">{turn.content}</p>
+                  )}
+                </div>
+              ))}
+
+              {isLoading && (
+                <div className="flex items-center gap-2 text-sm text-slate-400">
+                  <Loader2 className="h-4 w-4 animate-spin text-emerald-400" />
+                  Looking through your transactions…
+                </div>
+              )}
+            </div>
+          )}
+
+          {!showHistory && (
+            <p className="px-4 py-2 border-t border-white/[0.06] text-xs text-slate-500">
+              Questions you type now go to this conversation. Close it to log transactions.
+            </p>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  )
+}
@@ -1,14 +1,30 @@
 /**
  * Chat Response Component
  * 
- * Displays AI responses to user questions about spending
+ * Displays an AI answer to a question about spending, with the query
+ * results it was based on and any edits it proposes. Shown inside
+ * ChatConversation.
  */
 
-import { motion } from 'framer-motion'
-import { Bot, X, TrendingUp, TrendingDown, CheckCircle2 } from 'lucide-react'
+import { useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { TrendingUp, TrendingDown, CheckCircle2, Database, ChevronDown } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { formatCurrency } from '@/lib/utils'
 import type { Currency } from '@/lib/currency'
+import { ChatVisualBlock, type ChatVisual } from './ChatVisualBlock'
+import { ChatActionCard, type ChatActionProposal } from './ChatActionCard'
+
+/**
+ * One query the chat ran against the user's data
+ */
+export interface ChatCitation {
+  id: string
+  tool: string
+  label: string
+  lines: string[]
+  result: unknown
+}
 
 export interface ChatResponseData {
   type: 'answer'
@@ -23,137 +39,201 @@ export interface ChatResponseData {
     trend?: 'up' | 'down' | 'stable'
     [key: string]: unknown
   }
+  citations?: ChatCitation[]
+  visuals?: ChatVisual[] // Charts/tables built from the query results
+  actions?: ChatActionProposal[] // Edits waiting for the user's confirmation
+  sessionId?: string | null // The conversation this answer was stored in
 }
 
-interface ChatResponseProps {
+// Result lines shown per citation before "show more"
+const CITATION_PREVIEW_LINES = 6
+
+interface ChatAnswerProps {
   response: ChatResponseData
   currency: Currency
-  onDismiss: () => void
+  onApplyAction?: (proposal: ChatActionProposal) => Promise<{ success: boolean; error?: string }>
 }
 
-export function ChatResponse({ response, currency, onDismiss }: ChatResponseProps) {
-  const { text, bullets, data } = response
+/**
+ * One assistant answer: text, bullets, key figures and the queries behind it
+ */
+export function ChatAnswer({ response, currency, onApplyAction }: ChatAnswerProps) {
+  const { text, bullets, data, citations, visuals, actions } = response
+  const [showSources, setShowSources] = useState(false)
 
   return (
-    <motion.div
-      initial={{ opacity: 0, y: 20, scale: 0.95 }}
-      animate={{ opacity: 1, y: 0, scale: 1 }}
-      exit={{ opacity: 0, y: 20, scale: 0.95 }}
-      className="mx-4 mb-4"
-    >
-      <div className="max-w-2xl mx-auto">
-        <div className="relative bg-slate-900/95 backdrop-blur-xl rounded-2xl border border-emerald-500/30 shadow-xl overflow-hidden">
-          {/* Header */}
-          <div className="flex items-center justify-between px-4 py-3 border-b border-white/[0.06] bg-emerald-500/10">
-            <div className="flex items-center gap-2">
-              <div className="p-1.5 rounded-lg bg-emerald-500/20">
-                <Bot className="h-4 w-4 text-emerald-400" />
-              </div>
-              <span className="text-sm font-medium text-emerald-400">AI Insight</span>
-            </div>
-            <button
-              onClick={onDismiss}
-              className="p-1.5 rounded-lg hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
-            >
-              <X className="h-4 w-4" />
-            </button>
-          </div>
+    <div>
+      {/* Main Text */}
+      <p className="text-white leading-relaxed">{text}</p>
 
-          {/* Content */}
-          <div className="p-4">
-            {/* Main Text */}
-            <p className="text-white leading-relaxed">{text}</p>
-
-            {/* Bullet Points */}
-            {bullets && bullets.length > 0 && (
-              <ul className="mt-4 space-y-2">
-                {bullets.map((bullet, index) => (
-                  <li key={index} className="flex items-start gap-2 text-sm text-slate-300">
-                    <CheckCircle2 className="h-4 w-4 text-emerald-400 shrink-0 mt-0.5" />
-                    <span>{bullet}</span>
-                  </li>
-                ))}
-              </ul>
-            )}
+      {/* Bullet Points */}
+      {bullets && bullets.length > 0 && (
+        <ul className="mt-4 space-y-2">
+          {bullets.map((bullet, index) => (
+            <li key={index} className="flex items-start gap-2 text-sm text-slate-300">
+              <CheckCircle2 className="h-4 w-4 text-emerald-400 shrink-0 mt-0.5" />
+              <span>{bullet}</span>
+            </li>
+          ))}
+        </ul>
+      )}
 
-            {/* Data Summary */}
-            {data && (data.totalAmount !== undefined || data.transactionCount !== undefined) && (
-              <div className="mt-4 pt-4 border-t border-white/[0.06]">
-                <div className="flex flex-wrap gap-3">
-                  {data.totalAmount !== undefined && (
-                    <div className="px-3 py-2 rounded-xl bg-white/[0.05] border border-white/[0.06]">
-                      <p className="text-xs text-slate-500 uppercase tracking-wider">Total</p>
-                      <p className="text-lg font-mono font-semibold text-white">
-                        {formatCurrency(data.totalAmount, currency)}
-                      </p>
-                    </div>
-                  )}
-                  
-                  {data.transactionCount !== undefined && (
-                    <div className="px-3 py-2 rounded-xl bg-white/[0.05] border border-white/[0.06]">
-                      <p className="text-xs text-slate-500 uppercase tracking-wider">Transactions</p>
-                      <p className="text-lg font-semibold text-white">
-                        {data.transactionCount}
-                      </p>
-                    </div>
-                  )}
-                  
-                  {data.averageAmount !== undefined && (
-                    <div className="px-3 py-2 rounded-xl bg-white/[0.05] border border-white/[0.06]">
-                      <p className="text-xs text-slate-500 uppercase tracking-wider">Average</p>
-                      <p className="text-lg font-mono font-semibold text-white">
-                        {formatCurrency(data.averageAmount, currency)}
-                      </p>
-                    </div>
-                  )}
-                  
-                  {data.topCategory && (
-                    <div className="px-3 py-2 rounded-xl bg-white/[0.05] border border-white/[0.06]">
-                      <p className="text-xs text-slate-500 uppercase tracking-wider">Top Category</p>
-                      <p className="text-sm font-semibold text-white">
-                        {data.topCategory}
-                      </p>
-                    </div>
-                  )}
-                  
-                  {data.trend && (
-                    <div className={cn(
-                      'px-3 py-2 rounded-xl border',
-                      data.trend === 'up' && 'bg-rose-500/10 border-rose-500/30',
-                      data.trend === 'down' && 'bg-emerald-500/10 border-emerald-500/30',
-                      data.trend === 'stable' && 'bg-slate-500/10 border-slate-500/30'
-                    )}>
-                      <p className="text-xs text-slate-500 uppercase tracking-wider">Trend</p>
-                      <div className="flex items-center gap-1">
-                        {data.trend === 'up' ? (
-                          <>
-                            <TrendingUp className="h-4 w-4 text-rose-400" />
-                            <span className="text-sm font-semibold text-rose-400">Increasing</span>
-                          </>
-                        ) : data.trend === 'down' ? (
-                          <>
-                            <TrendingDown className="h-4 w-4 text-emerald-400" />
-                            <span className="text-sm font-semibold text-emerald-400">Decreasing</span>
-                          </>
-                        ) : (
-                          <span className="text-sm font-semibold text-slate-400">Stable</span>
-                        )}
-                      </div>
-                    </div>
+      {/* Charts and tables */}
+      {visuals && visuals.length > 0 && (
+        <div className="mt-4 space-y-3">
+          {visuals.map((visual, index) => (
+            <ChatVisualBlock key={index} visual={visual} />
+          ))}
+        </div>
+      )}
+
+      {/* Proposed edits */}
+      {actions && actions.length > 0 && (
+        <div className="mt-4 space-y-3">
+          {actions.map(proposal => (
+            <ChatActionCard key={proposal.id} proposal={proposal} onApply={onApplyAction} />
+          ))}
+        </div>
+      )}
+
+      {/* Data Summary */}
+      {data && (data.totalAmount !== undefined || data.transactionCount !== undefined) && (
+        <div className="mt-4 pt-4 border-t border-white/[0.06]">
+          <div className="flex flex-wrap gap-3">
+            {data.totalAmount !== undefined && (
+              <div className="px-3 py-2 rounded-xl bg-white/[0.05] border border-white/[0.06]">
+                <p className="text-xs text-slate-500 uppercase tracking-wider">Total</p>
+                <p className="text-lg font-mono font-semibold text-white">
+                  {formatCurrency(data.totalAmount, currency)}
+                </p>
+              </div>
+            )}
+            
+            {data.transactionCount !== undefined && (
+              <div className="px-3 py-2 rounded-xl bg-white/[0.05] border border-white/[0.06]">
+                <p className="text-xs text-slate-500 uppercase tracking-wider">Transactions</p>
+                <p className="text-lg font-semibold text-white">
+                  {data.transactionCount}
+                </p>
+              </div>
+            )}
+            
+            {data.averageAmount !== undefined && (
+              <div className="px-3 py-2 rounded-xl bg-white/[0.05] border border-white/[0.06]">
+                <p className="text-xs text-slate-500 uppercase tracking-wider">Average</p>
+                <p className="text-lg font-mono font-semibold text-white">
+                  {formatCurrency(data.averageAmount, currency)}
+                </p>
+              </div>
+            )}
+            
+            {data.topCategory && (
+              <div className="px-3 py-2 rounded-xl bg-white/[0.05] border border-white/[0.06]">
+                <p className="text-xs text-slate-500 uppercase tracking-wider">Top Category</p>
+                <p className="text-sm font-semibold text-white">
+                  {data.topCategory}
+                </p>
+              </div>
+            )}
+            
+            {data.trend && (
+              <div className={cn(
+                'px-3 py-2 rounded-xl border',
+                data.trend === 'up' && 'bg-rose-500/10 border-rose-500/30',
+                data.trend === 'down' && 'bg-emerald-500/10 border-emerald-500/30',
+                data.trend === 'stable' && 'bg-slate-500/10 border-slate-500/30'
+              )}>
+                <p className="text-xs text-slate-500 uppercase tracking-wider">Trend</p>
+                <div className="flex items-center gap-1">
+                  {data.trend === 'up' ? (
+                    <>
+                      <TrendingUp className="h-4 w-4 text-rose-400" />
+                      <span className="text-sm font-semibold text-rose-400">Increasing</span>
+                    </>
+                  ) : data.trend === 'down' ? (
+                    <>
+                      <TrendingDown className="h-4 w-4 text-emerald-400" />
+                      <span className="text-sm font-semibold text-emerald-400">Decreasing</span>
+                    </>
+                  ) : (
+                    <span className="text-sm font-semibold text-slate-400">Stable</span>
                   )}
                 </div>
               </div>
             )}
+          </div>
+        </div>
+      )}
 
-            {/* Period */}
-            {data?.period && (
-              <p className="mt-3 text-xs text-slate-500">
-                Based on data from: {data.period}
-              </p>
+      {/* Period */}
+      {data?.period && (
+        <p className="mt-3 text-xs text-slate-500">
+          Based on data from: {data.period}
+        </p>
+      )}
+
+      {/* Sources - the query results behind the answer */}
+      {citations && citations.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-white/[0.06]">
+          <button
+            onClick={() => setShowSources(prev => !prev)}
+            className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-white transition-colors"
+          >
+            <Database className="h-3.5 w-3.5" />
+            {citations.length === 1 ? 'Based on 1 query' : `Based on ${citations.length} queries`}
+            <ChevronDown className={cn('h-3.5 w-3.5 transition-transform', showSources && 'rotate-180')} />
+          </button>
+
+          <AnimatePresence>
+            {showSources && (
+              <motion.div
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: 'auto', opacity: 1 }}
+                exit={{ height: 0, opacity: 0 }}
+                className="overflow-hidden"
+              >
+                <div className="mt-2 space-y-2">
+                  {citations.map(citation => (
+                    <CitationCard key={citation.id} citation={citation} />
+                  ))}
+                </div>
+              </motion.div>
             )}
-          </div>
+          </AnimatePresence>
         </div>
-      </div>
-    </motion.div>
+      )}
+    </div>
+  )
+}
+
+function CitationCard({ citation }: { citation: ChatCitation }) {
+  const [expanded, setExpanded] = useState(false)
+  const lines = expanded ? citation.lines : citation.lines.slice(0, CITATION_PREVIEW_LINES)
+  const hiddenCount = citation.lines.length - lines.length
+
+  return (
+    <div className="p-2.5 rounded-xl bg-white/[0.03] border border-white/[0.06]">
+      <p className="text-xs font-medium text-slate-300">
+        <span className="text-emerald-400 font-mono mr-1.5">{citation.id}</span>
+        {citation.label}
+      </p>
+      {lines.length === 0 ? (
+        <p className="mt-1 text-xs text-slate-500">No matching data</p>
+      ) : (
+        <ul className="mt-1 space-y-0.5">
+          {lines.map((line, index) => (
+            <li key={index} className="text-xs text-slate-400 font-mono">{line}</li>
+          ))}
+        </ul>
+      )}
+      {hiddenCount > 0 && (
+        <button
+          onClick={() => setExpanded(true)}
+          className="mt-1 text-xs text-emerald-400 hover:text-emerald-300"
+        >
+          Show {hiddenCount} more
+        </button>
+      )}
+    </div>
   )
 }
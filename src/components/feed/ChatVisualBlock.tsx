@@ -0,0 +1,190 @@
+/**
+ * Chat Visual Block Component
+ *
+ * Charts and tables attached to a chat answer. The server builds the block
+ * data from the query results (api/_lib/chatVisuals.ts); this only draws it,
+ * with the same recharts setup as the Analytics page.
+ */
+
+import {
+  PieChart,
+  Pie,
+  Cell,
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip
+} from 'recharts'
+import { cn, formatCurrency } from '@/lib/utils'
+import { CATEGORY_CHART_COLORS, CHART_FALLBACK_COLORS } from '@/lib/constants'
+
+export interface TimeSeriesVisual {
+  type: 'time_series'
+  chart: 'bar' | 'line'
+  title: string
+  currency: string
+  points: { label: string; value: number }[]
+}
+
+export interface CategoryPieVisual {
+  type: 'category_pie'
+  title: string
+  currency: string
+  slices: { name: string; value: number }[]
+}
+
+export interface TransactionTableVisual {
+  type: 'transaction_table'
+  title: string
+  rows: {
+    date: string
+    merchant: string | null
+    category: string
+    amount: number
+    currency: string
+    direction: 'in' | 'out' | 'transfer'
+  }[]
+}
+
+export type ChatVisual = TimeSeriesVisual | CategoryPieVisual | TransactionTableVisual
+
+// Same tooltip look as the Analytics charts
+const TOOLTIP_PROPS = {
+  contentStyle: {
+    backgroundColor: 'rgba(15, 23, 42, 0.9)',
+    border: '1px solid rgba(255, 255, 255, 0.1)',
+    borderRadius: '12px',
+    boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
+  },
+  labelStyle: { color: '#fff' },
+  itemStyle: { color: '#94a3b8' },
+}
+
+const AXIS_TICK = { fill: '#64748b', fontSize: 11 }
+
+function sliceColor(name: string, index: number): string {
+  return CATEGORY_CHART_COLORS[name] || CHART_FALLBACK_COLORS[index % CHART_FALLBACK_COLORS.length]
+}
+
+function TimeSeriesChart({ visual }: { visual: TimeSeriesVisual }) {
+  const formatValue = (value: number) => formatCurrency(value, visual.currency)
+  const axisProps = {
+    dataKey: 'label',
+    axisLine: false,
+    tickLine: false,
+    tick: AXIS_TICK,
+  }
+
+  return (
+    <div className="h-44">
+      <ResponsiveContainer width="100%" height="100%">
+        {visual.chart === 'line' ? (
+          <LineChart data={visual.points}>
+            <XAxis {...axisProps} />
+            <YAxis hide />
+            <Tooltip {...TOOLTIP_PROPS} formatter={formatValue} />
+            <Line type="monotone" dataKey="value" stroke="#10b981" strokeWidth={2} dot={{ r: 3 }} name={visual.currency} />
+          </LineChart>
+        ) : (
+          <BarChart data={visual.points}>
+            <XAxis {...axisProps} />
+            <YAxis hide />
+            <Tooltip {...TOOLTIP_PROPS} formatter={formatValue} />
+            <Bar dataKey="value" fill="#10b981" radius={[4, 4, 0, 0]} name={visual.currency} />
+          </BarChart>
+        )}
+      </ResponsiveContainer>
+    </div>
+  )
+}
+
+function CategoryPie({ visual }: { visual: CategoryPieVisual }) {
+  return (
+    <div className="flex items-center gap-4">
+      <div className="w-28 h-28 shrink-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <PieChart>
+            <Pie
+              data={visual.slices}
+              cx="50%"
+              cy="50%"
+              innerRadius={30}
+              outerRadius={50}
+              paddingAngle={2}
+              dataKey="value"
+            >
+              {visual.slices.map((slice, index) => (
+                <Cell key={`cell-${index}`} fill={sliceColor(slice.name, index)} />
+              ))}
+            </Pie>
+          </PieChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Legend */}
+      <div className="flex-1 min-w-0 space-y-1.5">
+        {visual.slices.map((slice, index) => (
+          <div key={slice.name} className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 min-w-0">
+              <div
+                className="w-2.5 h-2.5 rounded-full shrink-0"
+                style={{ backgroundColor: sliceColor(slice.name, index) }}
+              />
+              <span className="text-xs text-slate-300 truncate">{slice.name}</span>
+            </div>
+            <span className="text-xs font-medium text-white font-mono shrink-0">
+              {formatCurrency(slice.value, visual.currency)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function TransactionTable({ visual }: { visual: TransactionTableVisual }) {
+  return (
+    <div className="max-h-64 overflow-y-auto -mx-1">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-slate-500 text-left">
+            <th className="font-medium px-1 pb-1.5">Date</th>
+            <th className="font-medium px-1 pb-1.5">Merchant</th>
+            <th className="font-medium px-1 pb-1.5 text-right">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {visual.rows.map((row, index) => (
+            <tr key={index} className="border-t border-white/[0.04]">
+              <td className="px-1 py-1.5 text-slate-400 whitespace-nowrap">{row.date.slice(0, 10)}</td>
+              <td className="px-1 py-1.5 text-slate-300">
+                <span className="block truncate max-w-[12rem]">{row.merchant || row.category}</span>
+              </td>
+              <td className={cn(
+                'px-1 py-1.5 text-right font-mono whitespace-nowrap',
+                row.direction === 'in' ? 'text-emerald-400' : row.direction === 'transfer' ? 'text-cyan-400' : 'text-white'
+              )}>
+                {row.direction === 'in' ? '+' : row.direction === 'out' ? '-' : ''}{formatCurrency(row.amount, row.currency)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export function ChatVisualBlock({ visual }: { visual: ChatVisual }) {
+  return (
+    <div className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.06]">
+      <p className="text-xs font-medium text-slate-400 uppercase tracking-wider mb-2">{visual.title}</p>
+      {visual.type === 'time_series' && <TimeSeriesChart visual={visual} />}
+      {visual.type === 'category_pie' && <CategoryPie visual={visual} />}
+      {visual.type === 'transaction_table' && <TransactionTable visual={visual} />}
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+/**
+ * Currency Picker Component
+ *
+ * Searchable list of every currency in the registry, popular ones first.
+ * Matches codes, English and Arabic names and aliases ("دينار" finds the
+ * dinars). Renders the list only - the caller positions the dropdown.
+ */
+
+import { useState } from 'react'
+import { Check, Search } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { CURRENCIES, searchCurrencies, type Currency } from '@/lib/currency'
+
+interface CurrencyPickerProps {
+  value: string
+  onSelect: (currency: Currency) => void
+}
+
+export function CurrencyPicker({ value, onSelect }: CurrencyPickerProps) {
+  const [query, setQuery] = useState('')
+  const matches = searchCurrencies(query)
+
+  return (
+    <>
+      {/* Search */}
+      <div className="sticky top-0 -mx-2 -mt-2 mb-1 p-2 bg-slate-900">
+        <div className="flex items-center gap-1.5 px-2 py-1.5 rounded-lg bg-white/[0.05] border border-white/[0.08]">
+          <Search className="h-3.5 w-3.5 text-slate-500 shrink-0" />
+          <input
+            type="text"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search currency"
+            className="w-full bg-transparent text-xs text-white placeholder:text-slate-600 outline-none"
+          />
+        </div>
+      </div>
+
+      {matches.length === 0 && (
+        <p className="px-3 py-2 text-xs text-slate-500">No currency found</p>
+      )}
+
+      {matches.map(code => (
+        <button
+          key={code}
+          onClick={() => onSelect(code)}
+          className={cn(
+            'w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm',
+            'hover:bg-white/[0.05] transition-colors',
+            value === code ? 'text-emerald-400' : 'text-slate-400'
+          )}
+        >
+          <span>{CURRENCIES[code].flag}</span>
+          <span>{code}</span>
+          <span className="flex-1 min-w-0 truncate text-[11px] text-slate-500">{CURRENCIES[code].name}</span>
+          {value === code && <Check className="h-4 w-4 shrink-0" />}
+        </button>
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,357 @@
+/**
+ * Needs Attention Modal
+ *
+ * Inbox of inputs that failed to parse (raw logs with status needs_attention).
+ * Each one can be re-parsed with an optional hint, entered manually with the
+ * original text pre-filled, or dismissed.
+ */
+
+import { useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import {
+  Inbox,
+  X,
+  RotateCcw,
+  PenLine,
+  Trash2,
+  Loader2,
+  CheckCircle2
+} from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { formatFeedDate, toISODateString } from '@/lib/dateUtils'
+import { getAllCategories } from '@/lib/constants'
+import { parseTransactionsOffline } from '@/lib/offlineParser'
+import type { RawLog, UserCategory } from '@/types/database'
+
+export interface ManualEntry {
+  amount: number
+  currency: string
+  direction: 'in' | 'out'
+  category: string
+  merchant: string | null
+  date: string  // YYYY-MM-DD
+  notes: string | null
+}
+
+interface NeedsAttentionModalProps {
+  isOpen: boolean
+  logs: RawLog[]
+  customCategories: UserCategory[]
+  defaultCurrency: string
+  onClose: () => void
+  onRetry: (log: RawLog, hint: string) => Promise<{ success: boolean; error?: string }>
+  onSaveManual: (log: RawLog, entry: ManualEntry) => Promise<{ success: boolean; error?: string }>
+  onDismiss: (log: RawLog) => Promise<void>
+}
+
+type ActionMode = 'retry' | 'manual'
+
+interface ManualForm {
+  amount: string
+  currency: string
+  direction: 'in' | 'out'
+  category: string
+  merchant: string
+  date: string
+  notes: string
+}
+
+const inputClass = cn(
+  'w-full px-3 py-2 rounded-lg text-sm',
+  'bg-white/[0.05] border border-white/[0.08]',
+  'text-white placeholder:text-slate-600',
+  'focus:outline-none focus:border-emerald-500/50'
+)
+
+/**
+ * Manual form pre-filled with a best guess from the text
+ */
+function getInitialForm(log: RawLog, defaultCurrency: string): ManualForm {
+  const [draft] = parseTransactionsOffline(log.content, [{ start: 0, end: log.content.length }])
+  return {
+    amount: draft ? String(draft.amount) : '',
+    currency: draft?.confidence?.currency?.source === 'defaulted' ? defaultCurrency : draft?.currency || defaultCurrency,
+    direction: draft?.direction === 'in' ? 'in' : 'out',
+    category: draft?.category || 'Other',
+    merchant: draft?.merchant || '',
+    date: toISODateString(new Date(log.created_at)),
+    notes: log.content,
+  }
+}
+
+export function NeedsAttentionModal({
+  isOpen,
+  logs,
+  customCategories,
+  defaultCurrency,
+  onClose,
+  onRetry,
+  onSaveManual,
+  onDismiss
+}: NeedsAttentionModalProps) {
+  const [active, setActive] = useState<{ id: string; mode: ActionMode } | null>(null)
+  const [hint, setHint] = useState('')
+  const [form, setForm] = useState<ManualForm | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const categories = getAllCategories(customCategories)
+
+  const openAction = (log: RawLog, mode: ActionMode) => {
+    if (active?.id === log.id && active.mode === mode) {
+      setActive(null)
+      return
+    }
+    setActive({ id: log.id, mode })
+    setHint('')
+    setForm(mode === 'manual' ? getInitialForm(log, defaultCurrency) : null)
+    setErrors(prev => ({ ...prev, [log.id]: '' }))
+  }
+
+  const runAction = async (log: RawLog, action: () => Promise<{ success: boolean; error?: string }>) => {
+    setBusyId(log.id)
+    try {
+      const result = await action()
+      if (result.success) {
+        setActive(null)
+      } else {
+        setErrors(prev => ({ ...prev, [log.id]: result.error || 'Something went wrong' }))
+      }
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRetry = (log: RawLog) => runAction(log, () => onRetry(log, hint.trim()))
+
+  const handleSaveManual = (log: RawLog) => {
+    if (!form) return
+    const amount = parseFloat(form.amount)
+    if (!amount || amount <= 0) {
+      setErrors(prev => ({ ...prev, [log.id]: 'Enter an amount' }))
+      return
+    }
+    runAction(log, () => onSaveManual(log, {
+      amount,
+      currency: form.currency.trim().toUpperCase() || defaultCurrency,
+      direction: form.direction,
+      category: form.category,
+      merchant: form.merchant.trim() || null,
+      date: form.date,
+      notes: form.notes.trim() || null,
+    }))
+  }
+
+  const handleDismiss = async (log: RawLog) => {
+    setBusyId(log.id)
+    try {
+      await onDismiss(log)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.95, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.95, opacity: 0 }}
+          className="w-full max-w-lg max-h-[85vh] flex flex-col bg-slate-900 rounded-2xl border border-white/10 overflow-hidden shadow-2xl"
+          onClick={e => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-4 border-b border-white/[0.06]">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-xl bg-amber-500/20">
+                <Inbox className="h-5 w-5 text-amber-400" />
+              </div>
+              <div>
+                <h2 className="text-lg font-bold text-white">Needs Attention ({logs.length})</h2>
+                <p className="text-xs text-slate-500">Inputs that couldn't be turned into transactions</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg hover:bg-white/10 text-slate-400 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            {logs.length === 0 ? (
+              <div className="flex flex-col items-center gap-2 py-10 text-slate-500">
+                <CheckCircle2 className="h-8 w-8 text-emerald-400" />
+                <p className="text-sm">All caught up</p>
+              </div>
+            ) : logs.map(log => {
+              const isBusy = busyId === log.id
+              const mode = active?.id === log.id ? active.mode : null
+
+              return (
+                <div key={log.id} className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.06]">
+                  <div className="flex items-center justify-between gap-2 mb-1.5 text-[11px] text-slate-500">
+                    <span>{formatFeedDate(log.created_at)}</span>
+                    <span>{log.source.replace('_', ' ')}</span>
+                  </div>
+                  <p className="text-sm text-slate-300 font-mono whitespace-pre-wrap break-words line-clamp-4" dir="auto">
+                    {log.content}
+                  </p>
+                  {log.parse_error && (
+                    <p className="mt-1 text-[11px] text-rose-300/80">{log.parse_error}</p>
+                  )}
+
+                  {/* Actions */}
+                  <div className="mt-2 flex items-center gap-2">
+                    <button
+                      onClick={() => openAction(log, 'retry')}
+                      disabled={isBusy}
+                      className={cn(
+                        'flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-50',
+                        mode === 'retry' ? 'bg-emerald-500/20 text-emerald-400' : 'bg-white/[0.05] text-slate-300 hover:bg-white/[0.08]'
+                      )}
+                    >
+                      <RotateCcw className="h-3.5 w-3.5" />
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => openAction(log, 'manual')}
+                      disabled={isBusy}
+                      className={cn(
+                        'flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-50',
+                        mode === 'manual' ? 'bg-emerald-500/20 text-emerald-400' : 'bg-white/[0.05] text-slate-300 hover:bg-white/[0.08]'
+                      )}
+                    >
+                      <PenLine className="h-3.5 w-3.5" />
+                      Enter manually
+                    </button>
+                    <button
+                      onClick={() => handleDismiss(log)}
+                      disabled={isBusy}
+                      className="ml-auto flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-white/[0.05] text-slate-400 hover:bg-rose-500/10 hover:text-rose-400 transition-colors disabled:opacity-50"
+                      title="Not a transaction - remove from the inbox"
+                    >
+                      {isBusy && !mode ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Trash2 className="h-3.5 w-3.5" />}
+                      Dismiss
+                    </button>
+                  </div>
+
+                  {/* Retry With Hint */}
+                  {mode === 'retry' && (
+                    <div className="mt-2 flex gap-2">
+                      <input
+                        type="text"
+                        value={hint}
+                        onChange={e => setHint(e.target.value)}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') handleRetry(log)
+                        }}
+                        placeholder='Optional hint, e.g. "refund from Noon"'
+                        disabled={isBusy}
+                        className={inputClass}
+                      />
+                      <button
+                        onClick={() => handleRetry(log)}
+                        disabled={isBusy}
+                        className="shrink-0 px-3 py-2 rounded-lg text-sm font-medium bg-emerald-500 text-white hover:bg-emerald-600 transition-colors disabled:opacity-50"
+                      >
+                        {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Parse'}
+                      </button>
+                    </div>
+                  )}
+
+                  {/* Manual Entry */}
+                  {mode === 'manual' && form && (
+                    <div className="mt-2 space-y-2">
+                      <div className="grid grid-cols-3 gap-2">
+                        <input
+                          type="number"
+                          inputMode="decimal"
+                          value={form.amount}
+                          onChange={e => setForm({ ...form, amount: e.target.value })}
+                          placeholder="Amount"
+                          className={cn(inputClass, 'col-span-2')}
+                        />
+                        <input
+                          type="text"
+                          value={form.currency}
+                          onChange={e => setForm({ ...form, currency: e.target.value })}
+                          maxLength={3}
+                          className={cn(inputClass, 'uppercase')}
+                        />
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <select
+                          value={form.direction}
+                          onChange={e => setForm({ ...form, direction: e.target.value as 'in' | 'out' })}
+                          className={inputClass}
+                        >
+                          <option value="out">Expense</option>
+                          <option value="in">Income</option>
+                        </select>
+                        <select
+                          value={form.category}
+                          onChange={e => setForm({ ...form, category: e.target.value })}
+                          className={inputClass}
+                        >
+                          {categories.map(category => (
+                            <option key={category} value={category}>{category}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <input
+                          type="text"
+                          value={form.merchant}
+                          onChange={e => setForm({ ...form, merchant: e.target.value })}
+                          placeholder="Merchant"
+                          className={inputClass}
+                        />
+                        <input
+                          type="date"
+                          value={form.date}
+                          onChange={e => setForm({ ...form, date: e.target.value })}
+                          className={inputClass}
+                        />
+                      </div>
+                      <textarea
+                        value={form.notes}
+                        onChange={e => setForm({ ...form, notes: e.target.value })}
+                        rows={3}
+                        dir="auto"
+                        className={cn(inputClass, 'resize-none font-mono')}
+                      />
+                      <button
+                        onClick={() => handleSaveManual(log)}
+                        disabled={isBusy}
+                        className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-emerald-500 text-white hover:bg-emerald-600 transition-colors disabled:opacity-50"
+                      >
+                        {isBusy && <Loader2 className="h-4 w-4 animate-spin" />}
+                        Save Transaction
+                      </button>
+                    </div>
+                  )}
+
+                  {errors[log.id] && (
+                    <p className="mt-2 text-xs text-rose-400">{errors[log.id]}</p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  )
+}
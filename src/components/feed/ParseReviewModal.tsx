@@ -5,7 +5,7 @@
  * before they are saved to the database.
  */
 
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useEffect, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
   X,
@@ -16,14 +16,36 @@ import {
   ChevronDown,
   Sparkles,
   Trash2,
-  CheckCircle2
+  CheckCircle2,
+  XCircle,
+  HelpCircle,
+  FileText,
+  EyeOff,
+  RotateCcw
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { formatCurrency } from '@/lib/utils'
-import type { ParsedTransaction } from '@/lib/ai'
-import type { UserCategory, Transaction } from '@/types/database'
+import type { BulkParseResult, ParsedTransaction, RejectedRow } from '@/lib/ai'
+import type { SkippedMessage } from '@/lib/transactionFilter'
+import type { UserCategory, Transaction, TransactionDirection } from '@/types/database'
 import { supabase } from '@/services/supabase'
-import { normalizeMerchantName } from '@/lib/reconciliation'
+import {
+  normalizeMerchantName,
+  getCategoryRules,
+  applyCategoryRules,
+  learnCategoryRule,
+  recordCategoryRuleResults
+} from '@/lib/reconciliation'
+import {
+  CONFIDENCE_FIELD_LABELS,
+  describeConfidence,
+  getLowConfidenceFields,
+  isLowConfidence,
+  markFieldsReviewed,
+  type ConfidenceField
+} from '@/lib/confidence'
+import { findUncoveredSpans, type FieldSpanMap, type SourceSpan, type SpanField } from '@/lib/sourceSpans'
+import { pickCorrectionFields, saveParseCorrection, type ParseCorrectionFields } from '@/lib/corrections'
 
 // ============================================
 // TYPES
@@ -33,6 +55,11 @@ interface ParseReviewModalProps {
   isOpen: boolean
   onClose: () => void
   parsedTransactions: ParsedTransaction[]
+  rejectedRows?: RejectedRow[]  // Rows the parser could not validate
+  skippedMessages?: SkippedMessage[]  // Messages the pre-filter left out as noise
+  onRestoreSkipped?: (message: SkippedMessage) => Promise<BulkParseResult>  // Parse a skipped message after all
+  alreadyParsed?: boolean  // The result came from the parse cache
+  sourceText?: string  // The pasted text, shown beside each row when rows carry source spans
   customCategories: UserCategory[]
   userId: string
   onConfirm: (transactions: ReviewedTransaction[]) => Promise<void>
@@ -42,6 +69,7 @@ interface ParseReviewModalProps {
 export interface ReviewedTransaction extends ParsedTransaction {
   approved: boolean
   edited: boolean
+  original: ParseCorrectionFields  // Fields as parsed (after rules), to detect corrections
   editedDate?: string  // Override for transaction_datetime
   duplicateWarning?: {
     existingTransaction: Transaction
@@ -55,7 +83,7 @@ interface EditingState {
   merchant: string
   category: string
   amount: number
-  direction: 'in' | 'out'
+  direction: TransactionDirection
   date: string  // Local editing state for date
 }
 
@@ -77,6 +105,61 @@ const DEFAULT_CATEGORIES = [
   'Other'
 ]
 
+// Dotted amber underline for values the parser guessed or defaulted
+const LOW_CONFIDENCE_CLASS = 'text-amber-300 underline decoration-dotted decoration-amber-400/70 underline-offset-4'
+
+// Highlight colour per field in the source text
+const SPAN_STYLES: Record<SpanField, { label: string; className: string }> = {
+  amount: { label: 'Amount', className: 'bg-emerald-500/25 text-emerald-200' },
+  merchant: { label: 'Merchant', className: 'bg-sky-500/25 text-sky-200' },
+  transaction_datetime: { label: 'Date', className: 'bg-violet-500/25 text-violet-200' },
+  payment_hint: { label: 'Payment', className: 'bg-amber-500/25 text-amber-200' }
+}
+
+// ============================================
+// SOURCE HIGHLIGHT
+// ============================================
+
+/**
+ * The slice of the pasted text a row came from, with its fields highlighted
+ */
+function SourceHighlight({ text, span, fieldSpans }: {
+  text: string
+  span: SourceSpan
+  fieldSpans?: FieldSpanMap
+}) {
+  // Field spans inside this row's segment, in order, skipping overlaps
+  const marks = (Object.entries(fieldSpans || {}) as [SpanField, SourceSpan][])
+    .filter(([, s]) => s.start >= span.start && s.end <= span.end)
+    .sort((a, b) => a[1].start - b[1].start)
+
+  const pieces: { text: string; field?: SpanField }[] = []
+  let cursor = span.start
+  for (const [field, s] of marks) {
+    if (s.start < cursor) continue
+    if (s.start > cursor) pieces.push({ text: text.slice(cursor, s.start) })
+    pieces.push({ text: text.slice(s.start, s.end), field })
+    cursor = s.end
+  }
+  if (cursor < span.end) pieces.push({ text: text.slice(cursor, span.end) })
+
+  return (
+    <p className="text-xs text-slate-400 font-mono whitespace-pre-wrap break-words" dir="auto">
+      {pieces.map((piece, i) => piece.field ? (
+        <mark
+          key={i}
+          className={cn('rounded px-0.5', SPAN_STYLES[piece.field].className)}
+          title={SPAN_STYLES[piece.field].label}
+        >
+          {piece.text}
+        </mark>
+      ) : (
+        <span key={i}>{piece.text}</span>
+      ))}
+    </p>
+  )
+}
+
 // ============================================
 // COMPONENT
 // ============================================
@@ -85,6 +168,11 @@ export function ParseReviewModal({
   isOpen,
   onClose,
   parsedTransactions,
+  rejectedRows = [],
+  skippedMessages = [],
+  onRestoreSkipped,
+  alreadyParsed = false,
+  sourceText,
   customCategories,
   userId,
   onConfirm,
@@ -95,6 +183,27 @@ export function ParseReviewModal({
   const [isConfirming, setIsConfirming] = useState(false)
   const [editingState, setEditingState] = useState<EditingState | null>(null)
   const [showCategoryDropdown, setShowCategoryDropdown] = useState<number | null>(null)
+  const [showRejected, setShowRejected] = useState(false)
+  const [showUncovered, setShowUncovered] = useState(false)
+  const [showSkipped, setShowSkipped] = useState(false)
+  const [restoredSkipped, setRestoredSkipped] = useState<number[]>([])  // Start offsets of restored messages
+  const [restoringSkipped, setRestoringSkipped] = useState<number | null>(null)
+  const [restoreErrors, setRestoreErrors] = useState<Record<number, string>>({})
+  
+  const remainingSkipped = skippedMessages.filter(m => !restoredSkipped.includes(m.start))
+
+  // Side-by-side source view only when the parser linked rows to the paste
+  const showSource = !!sourceText && parsedTransactions.some(tx => tx.source_span)
+
+  // Parts of the paste no parsed row came from - messages the parser passed over
+  // (the pre-filter's skipped messages are listed separately)
+  const uncoveredSpans = useMemo(() => {
+    if (!sourceText || !showSource) return []
+    return findUncoveredSpans(sourceText, [
+      ...parsedTransactions.map(tx => tx.source_span).filter((s): s is SourceSpan => !!s),
+      ...skippedMessages
+    ])
+  }, [sourceText, showSource, parsedTransactions, skippedMessages])
 
   // Combine default and custom categories
   const allCategories = [
@@ -113,7 +222,8 @@ export function ParseReviewModal({
       const reviewedTx: ReviewedTransaction = {
         ...tx,
         approved: true,
-        edited: false
+        edited: false,
+        original: pickCorrectionFields(tx)
       }
       
       // Check for potential duplicates
@@ -190,27 +300,38 @@ export function ParseReviewModal({
     return reviewed
   }, [userId])
 
-  // Initialize reviewed transactions
+  // Initialize reviewed transactions: apply learned category rules, then check duplicates
   useEffect(() => {
-    if (isOpen && parsedTransactions.length > 0) {
-      setIsLoading(true)
-      checkForDuplicates(parsedTransactions)
-        .then(reviewed => {
-          setReviewedTxs(reviewed)
-          setIsLoading(false)
-        })
-        .catch(err => {
-          console.error('Error checking duplicates:', err)
-          // Fall back to no duplicate checking
-          setReviewedTxs(parsedTransactions.map(tx => ({
-            ...tx,
-            approved: true,
-            edited: false
-          })))
-          setIsLoading(false)
-        })
+    if (!isOpen) return
+    setRestoredSkipped([])
+    setRestoreErrors({})
+    
+    // Everything was skipped by the pre-filter - nothing to check
+    if (parsedTransactions.length === 0) {
+      setReviewedTxs([])
+      setIsLoading(false)
+      return
     }
-  }, [isOpen, parsedTransactions, checkForDuplicates])
+    
+    setIsLoading(true)
+    getCategoryRules(userId, true)
+      .then(rules => checkForDuplicates(applyCategoryRules(parsedTransactions, rules)))
+      .then(reviewed => {
+        setReviewedTxs(reviewed)
+        setIsLoading(false)
+      })
+      .catch(err => {
+        console.error('Error checking duplicates:', err)
+        // Fall back to no duplicate checking
+        setReviewedTxs(parsedTransactions.map(tx => ({
+          ...tx,
+          approved: true,
+          edited: false,
+          original: pickCorrectionFields(tx)
+        })))
+        setIsLoading(false)
+      })
+  }, [isOpen, parsedTransactions, userId, checkForDuplicates])
 
   // ============================================
   // HANDLERS
@@ -247,7 +368,9 @@ export function ParseReviewModal({
         amount: editingState.amount,
         direction: editingState.direction,
         editedDate: editingState.date,
-        edited: true
+        edited: true,
+        // The user has now seen every field in the edit form
+        confidence: markFieldsReviewed(tx.confidence, ['merchant', 'category', 'amount', 'direction', 'transaction_datetime'])
       } : tx
     ))
     setEditingState(null)
@@ -259,7 +382,7 @@ export function ParseReviewModal({
 
   const handleCategorySelect = (index: number, category: string) => {
     setReviewedTxs(prev => prev.map((tx, i) => 
-      i === index ? { ...tx, category, edited: true } : tx
+      i === index ? { ...tx, category, edited: true, confidence: markFieldsReviewed(tx.confidence, ['category']) } : tx
     ))
     setShowCategoryDropdown(null)
   }
@@ -268,6 +391,72 @@ export function ParseReviewModal({
     setReviewedTxs(prev => prev.filter((_, i) => i !== index))
   }
 
+  const handleRestoreSkipped = async (message: SkippedMessage) => {
+    if (!onRestoreSkipped) return
+    setRestoringSkipped(message.start)
+    
+    try {
+      const result = await onRestoreSkipped(message)
+      if (result.transactions.length === 0) {
+        setRestoreErrors(prev => ({ ...prev, [message.start]: result.reason || 'No transaction found in this message' }))
+        return
+      }
+      
+      const rules = await getCategoryRules(userId, true)
+      const restored = await checkForDuplicates(applyCategoryRules(result.transactions, rules))
+      setReviewedTxs(prev => [...prev, ...restored])
+      setRestoredSkipped(prev => [...prev, message.start])
+    } catch (error) {
+      console.error('Error restoring skipped message:', error)
+      setRestoreErrors(prev => ({ ...prev, [message.start]: 'Could not parse this message' }))
+    } finally {
+      setRestoringSkipped(null)
+    }
+  }
+
+  // The text a row was parsed from: its own segment, or the whole paste when it is the only row
+  const getRawInput = (tx: ReviewedTransaction): string | null => {
+    if (!sourceText) return null
+    if (tx.source_span) return sourceText.slice(tx.source_span.start, tx.source_span.end)
+    return parsedTransactions.length === 1 ? sourceText : null
+  }
+
+  // Turn corrections into category rules and parsing examples, and score the rules that were applied
+  const learnFromReview = async (approved: ReviewedTransaction[]) => {
+    const keptRuleIds: string[] = []
+    const overriddenRuleIds: string[] = []
+    
+    try {
+      for (const tx of approved) {
+        // Offline drafts aren't what the AI produced, so they make poor examples
+        const rawInput = tx.edited && !tx.offline_draft ? getRawInput(tx) : null
+        if (rawInput) {
+          // editedDate only carries the day; keep the parsed time
+          const datetime = tx.editedDate
+            ? `${tx.editedDate}T${tx.transaction_datetime.split('T')[1] || '00:00:00'}`
+            : tx.transaction_datetime
+          const result = await saveParseCorrection(userId, rawInput, tx.original, {
+            ...pickCorrectionFields(tx),
+            transaction_datetime: datetime
+          }, tx.cache_key)
+          if (!result.success) console.error('Error saving parse correction:', result.error)
+        }
+        
+        const corrected = tx.category !== tx.original.category
+        if (corrected && tx.merchant) {
+          await learnCategoryRule(userId, tx.merchant, tx.category)
+        }
+        if (tx.category_rule_id) {
+          (corrected ? overriddenRuleIds : keptRuleIds).push(tx.category_rule_id)
+        }
+      }
+      await recordCategoryRuleResults(keptRuleIds, overriddenRuleIds)
+    } catch (error) {
+      // Learning is best-effort; the transactions are already saved
+      console.error('Error learning from review:', error)
+    }
+  }
+
   const handleConfirmAll = async () => {
     const approved = reviewedTxs.filter(tx => tx.approved)
     if (approved.length === 0) {
@@ -278,6 +467,7 @@ export function ParseReviewModal({
     setIsConfirming(true)
     try {
       await onConfirm(approved)
+      await learnFromReview(approved)
       onClose()
     } finally {
       setIsConfirming(false)
@@ -286,6 +476,13 @@ export function ParseReviewModal({
 
   const approvedCount = reviewedTxs.filter(tx => tx.approved).length
   const duplicateCount = reviewedTxs.filter(tx => tx.duplicateWarning).length
+  const needsReviewCount = reviewedTxs.filter(tx => getLowConfidenceFields(tx.confidence).length > 0).length
+  const offlineDraftCount = reviewedTxs.filter(tx => tx.offline_draft).length
+
+  const confidenceProps = (tx: ReviewedTransaction, field: ConfidenceField) => ({
+    className: cn(isLowConfidence(tx.confidence, field) && LOW_CONFIDENCE_CLASS),
+    title: describeConfidence(tx.confidence?.[field])
+  })
 
   if (!isOpen) return null
 
@@ -301,7 +498,10 @@ export function ParseReviewModal({
         initial={{ scale: 0.95, opacity: 0 }}
         animate={{ scale: 1, opacity: 1 }}
         exit={{ scale: 0.95, opacity: 0 }}
-        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-slate-900 rounded-2xl border border-white/10 overflow-hidden"
+        className={cn(
+          'w-full max-h-[85vh] flex flex-col bg-slate-900 rounded-2xl border border-white/10 overflow-hidden',
+          showSource ? 'max-w-5xl' : 'max-w-2xl'
+        )}
         onClick={e => e.stopPropagation()}
       >
         {/* Header */}
@@ -319,6 +519,31 @@ export function ParseReviewModal({
                   {duplicateCount} potential duplicate{duplicateCount !== 1 ? 's' : ''} found
                 </p>
               )}
+              {alreadyParsed && (
+                <p className="text-xs text-slate-400">
+                  Already parsed – loaded instantly from your recent paste
+                </p>
+              )}
+              {offlineDraftCount > 0 && (
+                <p className="text-xs text-sky-300">
+                  Offline – {offlineDraftCount} rough draft{offlineDraftCount !== 1 ? 's' : ''}, re-parsed once you're back online
+                </p>
+              )}
+              {needsReviewCount > 0 && (
+                <p className="text-xs text-amber-300">
+                  {needsReviewCount} with guessed fields – check the underlined values
+                </p>
+              )}
+              {rejectedRows.length > 0 && (
+                <p className="text-xs text-rose-400">
+                  {rejectedRows.length} row{rejectedRows.length !== 1 ? 's' : ''} could not be parsed
+                </p>
+              )}
+              {remainingSkipped.length > 0 && (
+                <p className="text-xs text-slate-400">
+                  Skipped {remainingSkipped.length} message{remainingSkipped.length !== 1 ? 's' : ''} that didn't look like transactions
+                </p>
+              )}
             </div>
           </div>
           <button
@@ -331,6 +556,118 @@ export function ParseReviewModal({
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-4">
+          {/* Could Not Parse */}
+          {rejectedRows.length > 0 && (
+            <div className="mb-3 rounded-xl bg-rose-500/10 border border-rose-500/20">
+              <button
+                onClick={() => setShowRejected(!showRejected)}
+                className="w-full flex items-center gap-2 p-3 text-sm text-rose-400"
+              >
+                <XCircle className="h-4 w-4 shrink-0" />
+                <span className="flex-1 text-left">
+                  Could not parse {rejectedRows.length} row{rejectedRows.length !== 1 ? 's' : ''} – add them manually or paste again
+                </span>
+                <ChevronDown className={cn('h-4 w-4 transition-transform', showRejected && 'rotate-180')} />
+              </button>
+              {showRejected && (
+                <div className="px-3 pb-3 space-y-2">
+                  {rejectedRows.map(row => (
+                    <div key={row.index} className="p-2 rounded-lg bg-black/20">
+                      <p className="text-sm text-slate-300 truncate">{row.preview}</p>
+                      <p className="text-[11px] text-rose-300/80">{row.reason}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Skipped By The Pre-filter */}
+          {remainingSkipped.length > 0 && (
+            <div className="mb-3 rounded-xl bg-white/[0.03] border border-white/[0.06]">
+              <button
+                onClick={() => setShowSkipped(!showSkipped)}
+                className="w-full flex items-center gap-2 p-3 text-sm text-slate-400"
+              >
+                <EyeOff className="h-4 w-4 shrink-0" />
+                <span className="flex-1 text-left">
+                  Skipped {remainingSkipped.length} message{remainingSkipped.length !== 1 ? 's' : ''} (codes, offers, balance alerts) – restore any that are transactions
+                </span>
+                <ChevronDown className={cn('h-4 w-4 transition-transform', showSkipped && 'rotate-180')} />
+              </button>
+              {showSkipped && (
+                <div className="px-3 pb-3 space-y-2">
+                  {remainingSkipped.map(message => (
+                    <div key={message.start} className="flex items-start gap-2 p-2 rounded-lg bg-black/20">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs text-slate-300 font-mono whitespace-pre-wrap break-words line-clamp-3" dir="auto">
+                          {message.text}
+                        </p>
+                        <p className={cn('text-[11px] mt-0.5', restoreErrors[message.start] ? 'text-rose-300/80' : 'text-slate-500')}>
+                          {restoreErrors[message.start] || message.reason}
+                        </p>
+                      </div>
+                      {onRestoreSkipped && (
+                        <button
+                          onClick={() => handleRestoreSkipped(message)}
+                          disabled={restoringSkipped !== null}
+                          className="shrink-0 flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30 transition-colors disabled:opacity-50"
+                        >
+                          {restoringSkipped === message.start ? (
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                          ) : (
+                            <RotateCcw className="h-3 w-3" />
+                          )}
+                          Restore
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Text Not Used By Any Row */}
+          {uncoveredSpans.length > 0 && sourceText && (
+            <div className="mb-3 rounded-xl bg-amber-500/10 border border-amber-500/20">
+              <button
+                onClick={() => setShowUncovered(!showUncovered)}
+                className="w-full flex items-center gap-2 p-3 text-sm text-amber-400"
+              >
+                <FileText className="h-4 w-4 shrink-0" />
+                <span className="flex-1 text-left">
+                  {uncoveredSpans.length} part{uncoveredSpans.length !== 1 ? 's' : ''} of your text didn't produce a transaction
+                </span>
+                <ChevronDown className={cn('h-4 w-4 transition-transform', showUncovered && 'rotate-180')} />
+              </button>
+              {showUncovered && (
+                <div className="px-3 pb-3 space-y-2">
+                  {uncoveredSpans.map(span => (
+                    <p
+                      key={span.start}
+                      className="p-2 rounded-lg bg-black/20 text-xs text-slate-300 font-mono whitespace-pre-wrap break-words"
+                      dir="auto"
+                    >
+                      {sourceText.slice(span.start, span.end)}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Highlight Legend */}
+          {showSource && !isLoading && reviewedTxs.length > 0 && (
+            <div className="flex items-center justify-end gap-2 mb-2 text-[10px]">
+              {Object.values(SPAN_STYLES).map(style => (
+                <span key={style.label} className={cn('px-1.5 py-0.5 rounded', style.className)}>
+                  {style.label}
+                </span>
+              ))}
+            </div>
+          )}
+
           {isLoading ? (
             <div className="flex items-center justify-center py-12">
               <Loader2 className="h-8 w-8 text-emerald-400 animate-spin" />
@@ -345,6 +682,7 @@ export function ParseReviewModal({
               {reviewedTxs.map((tx, index) => {
                 const isEditing = editingState?.index === index
                 const isDuplicate = !!tx.duplicateWarning
+                const lowFields = getLowConfidenceFields(tx.confidence)
                 
                 return (
                   <div
@@ -357,190 +695,234 @@ export function ParseReviewModal({
                         : 'bg-white/[0.03] border-white/[0.06]'
                     )}
                   >
-                    {/* Transaction Row */}
-                    <div className="p-4">
-                      <div className="flex items-center gap-3">
-                        {/* Approval Checkbox */}
-                        <button
-                          onClick={() => handleToggleApproval(index)}
-                          className={cn(
-                            'shrink-0 w-6 h-6 rounded-lg border-2 flex items-center justify-center transition-all',
-                            tx.approved
-                              ? 'bg-emerald-500 border-emerald-500'
-                              : 'border-slate-600 hover:border-slate-500'
-                          )}
-                        >
-                          {tx.approved && <Check className="h-4 w-4 text-white" />}
-                        </button>
+                    <div className={cn(showSource && 'md:grid md:grid-cols-2')}>
+                      <div>
+                        {/* Transaction Row */}
+                        <div className="p-4">
+                          <div className="flex items-center gap-3">
+                            {/* Approval Checkbox */}
+                            <button
+                              onClick={() => handleToggleApproval(index)}
+                              className={cn(
+                                'shrink-0 w-6 h-6 rounded-lg border-2 flex items-center justify-center transition-all',
+                                tx.approved
+                                  ? 'bg-emerald-500 border-emerald-500'
+                                  : 'border-slate-600 hover:border-slate-500'
+                              )}
+                            >
+                              {tx.approved && <Check className="h-4 w-4 text-white" />}
+                            </button>
 
-                        {/* Duplicate Warning */}
-                        {isDuplicate && (
-                          <AlertTriangle className="h-5 w-5 text-amber-400 shrink-0" />
-                        )}
+                            {/* Duplicate Warning */}
+                            {isDuplicate && (
+                              <AlertTriangle className="h-5 w-5 text-amber-400 shrink-0" />
+                            )}
 
-                        {/* Transaction Info */}
-                        <div className="flex-1 min-w-0">
-                          {isEditing ? (
-                            // Edit Mode
-                            <div className="space-y-2">
-                              <input
-                                type="text"
-                                value={editingState.merchant}
-                                onChange={e => setEditingState(prev => prev ? {...prev, merchant: e.target.value} : null)}
-                                placeholder="Merchant name"
-                                className="w-full bg-white/[0.05] border border-white/10 rounded-lg px-3 py-2 text-white text-sm"
-                              />
-                              <div className="flex gap-2">
-                                <input
-                                  type="number"
-                                  value={editingState.amount}
-                                  onChange={e => setEditingState(prev => prev ? {...prev, amount: parseFloat(e.target.value) || 0} : null)}
-                                  className="w-24 bg-white/[0.05] border border-white/10 rounded-lg px-3 py-2 text-white text-sm"
-                                />
-                                <input
-                                  type="date"
-                                  value={editingState.date}
-                                  onChange={e => setEditingState(prev => prev ? {...prev, date: e.target.value} : null)}
-                                  className="flex-1 bg-white/[0.05] border border-white/10 rounded-lg px-3 py-2 text-white text-sm"
-                                />
-                                <select
-                                  value={editingState.direction}
-                                  onChange={e => setEditingState(prev => prev ? {...prev, direction: e.target.value as 'in' | 'out'} : null)}
-                                  className="bg-white/[0.05] border border-white/10 rounded-lg px-3 py-2 text-white text-sm"
+                            {/* Transaction Info */}
+                            <div className="flex-1 min-w-0">
+                              {isEditing ? (
+                                // Edit Mode
+                                <div className="space-y-2">
+                                  <input
+                                    type="text"
+                                    value={editingState.merchant}
+                                    onChange={e => setEditingState(prev => prev ? {...prev, merchant: e.target.value} : null)}
+                                    placeholder="Merchant name"
+                                    className="w-full bg-white/[0.05] border border-white/10 rounded-lg px-3 py-2 text-white text-sm"
+                                  />
+                                  <div className="flex gap-2">
+                                    <input
+                                      type="number"
+                                      value={editingState.amount}
+                                      onChange={e => setEditingState(prev => prev ? {...prev, amount: parseFloat(e.target.value) || 0} : null)}
+                                      className="w-24 bg-white/[0.05] border border-white/10 rounded-lg px-3 py-2 text-white text-sm"
+                                    />
+                                    <input
+                                      type="date"
+                                      value={editingState.date}
+                                      onChange={e => setEditingState(prev => prev ? {...prev, date: e.target.value} : null)}
+                                      className="flex-1 bg-white/[0.05] border border-white/10 rounded-lg px-3 py-2 text-white text-sm"
+                                    />
+                                    <select
+                                      value={editingState.direction}
+                                      onChange={e => setEditingState(prev => prev ? {...prev, direction: e.target.value as TransactionDirection} : null)}
+                                      className="bg-white/[0.05] border border-white/10 rounded-lg px-3 py-2 text-white text-sm"
+                                    >
+                                      <option value="out">Expense</option>
+                                      <option value="in">Income</option>
+                                      <option value="transfer">Transfer</option>
+                                    </select>
+                                  </div>
+                                  <div className="flex gap-2">
+                                    <button
+                                      onClick={handleSaveEdit}
+                                      className="px-3 py-1.5 rounded-lg bg-emerald-500/20 text-emerald-400 text-sm hover:bg-emerald-500/30"
+                                    >
+                                      Save
+                                    </button>
+                                    <button
+                                      onClick={handleCancelEdit}
+                                      className="px-3 py-1.5 rounded-lg bg-white/[0.05] text-slate-400 text-sm hover:bg-white/[0.08]"
+                                    >
+                                      Cancel
+                                    </button>
+                                  </div>
+                                </div>
+                              ) : (
+                                // View Mode
+                                <>
+                                  <div className="flex items-center gap-2">
+                                    <span className="font-medium text-white truncate">
+                                      <span {...confidenceProps(tx, tx.merchant ? 'merchant' : 'category')}>
+                                        {tx.merchant || tx.category}
+                                      </span>
+                                    </span>
+                                    {lowFields.length > 0 && (
+                                      <span
+                                        className="flex items-center gap-0.5 px-1.5 py-0.5 rounded text-[10px] bg-amber-500/20 text-amber-300"
+                                        title={lowFields.map(f => `${CONFIDENCE_FIELD_LABELS[f]}: ${describeConfidence(tx.confidence?.[f])}`).join('\n')}
+                                      >
+                                        <HelpCircle className="h-3 w-3" />
+                                        Check {lowFields.length}
+                                      </span>
+                                    )}
+                                    {tx.edited && (
+                                      <span className="px-1.5 py-0.5 rounded text-[10px] bg-blue-500/20 text-blue-400">
+                                        Edited
+                                      </span>
+                                    )}
+                                  </div>
+                                  <div className="flex items-center gap-2 text-sm text-slate-400 mt-0.5">
+                                    <span {...confidenceProps(tx, 'transaction_datetime')}>
+                                      {tx.editedDate || tx.transaction_datetime.split('T')[0]}
+                                    </span>
+                                    <span>•</span>
+                                    {/* Category Dropdown */}
+                                    <div className="relative">
+                                      <button
+                                        onClick={() => setShowCategoryDropdown(showCategoryDropdown === index ? null : index)}
+                                        className="flex items-center gap-1 hover:text-white transition-colors"
+                                      >
+                                        <span {...confidenceProps(tx, 'category')}>{tx.category}</span>
+                                        <ChevronDown className="h-3 w-3" />
+                                      </button>
+                                      
+                                      <AnimatePresence>
+                                        {showCategoryDropdown === index && (
+                                          <motion.div
+                                            initial={{ opacity: 0, y: 5 }}
+                                            animate={{ opacity: 1, y: 0 }}
+                                            exit={{ opacity: 0, y: 5 }}
+                                            className="absolute left-0 top-full mt-1 w-48 max-h-60 overflow-y-auto bg-slate-800 border border-white/10 rounded-xl shadow-xl z-50"
+                                          >
+                                            {allCategories.map(cat => (
+                                              <button
+                                                key={cat}
+                                                onClick={() => handleCategorySelect(index, cat)}
+                                                className={cn(
+                                                  'w-full px-3 py-2 text-left text-sm hover:bg-white/[0.05] transition-colors',
+                                                  cat === tx.category ? 'text-emerald-400' : 'text-slate-300'
+                                                )}
+                                              >
+                                                {cat}
+                                                {cat === tx.category && <Check className="h-3 w-3 inline ml-2" />}
+                                              </button>
+                                            ))}
+                                          </motion.div>
+                                        )}
+                                      </AnimatePresence>
+                                    </div>
+                                  </div>
+                                </>
+                              )}
+                            </div>
+
+                            {/* Amount */}
+                            {!isEditing && (
+                              <div className={cn(
+                                'text-lg font-mono font-medium shrink-0 text-right',
+                                tx.direction === 'in' ? 'text-emerald-400' : tx.direction === 'transfer' ? 'text-cyan-400' : 'text-rose-400'
+                              )}>
+                                <span {...confidenceProps(tx, 'direction')}>
+                                  {tx.direction === 'in' ? '+' : tx.direction === 'transfer' ? '⇄ ' : '-'}
+                                </span>
+                                <span
+                                  className={cn(
+                                    (isLowConfidence(tx.confidence, 'amount') || isLowConfidence(tx.confidence, 'currency')) && LOW_CONFIDENCE_CLASS
+                                  )}
+                                  title={[describeConfidence(tx.confidence?.amount), describeConfidence(tx.confidence?.currency) && `Currency: ${describeConfidence(tx.confidence?.currency)}`].filter(Boolean).join(' • ') || undefined}
                                 >
-                                  <option value="out">Expense</option>
-                                  <option value="in">Income</option>
-                                </select>
+                                  {formatCurrency(tx.amount, tx.currency as 'SAR' | 'AED' | 'USD' | 'EUR' | 'GBP')}
+                                </span>
+                                {/* Transfer accounts as written in the text */}
+                                {tx.direction === 'transfer' && (
+                                  <p className="text-xs font-sans font-normal text-slate-500">
+                                    {tx.payment_hint || 'Account'} → {tx.transfer_to_hint || 'Account'}
+                                  </p>
+                                )}
                               </div>
-                              <div className="flex gap-2">
+                            )}
+
+                            {/* Actions */}
+                            {!isEditing && (
+                              <div className="flex items-center gap-1 shrink-0">
                                 <button
-                                  onClick={handleSaveEdit}
-                                  className="px-3 py-1.5 rounded-lg bg-emerald-500/20 text-emerald-400 text-sm hover:bg-emerald-500/30"
+                                  onClick={() => handleStartEdit(index)}
+                                  className="p-2 rounded-lg hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
+                                  title="Edit"
                                 >
-                                  Save
+                                  <Edit3 className="h-4 w-4" />
                                 </button>
                                 <button
-                                  onClick={handleCancelEdit}
-                                  className="px-3 py-1.5 rounded-lg bg-white/[0.05] text-slate-400 text-sm hover:bg-white/[0.08]"
+                                  onClick={() => handleRemove(index)}
+                                  className="p-2 rounded-lg hover:bg-rose-500/10 text-slate-400 hover:text-rose-400 transition-colors"
+                                  title="Remove"
                                 >
-                                  Cancel
+                                  <Trash2 className="h-4 w-4" />
                                 </button>
                               </div>
-                            </div>
-                          ) : (
-                            // View Mode
-                            <>
-                              <div className="flex items-center gap-2">
-                                <span className="font-medium text-white truncate">
-                                  {tx.merchant || tx.category}
+                            )}
+                          </div>
+                        </div>
+
+                        {/* Duplicate Warning Details */}
+                        {isDuplicate && tx.duplicateWarning && (
+                          <div className="px-4 pb-4">
+                            <div className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/20">
+                              <div className="flex items-center justify-between mb-2">
+                                <p className="text-xs text-amber-400 font-medium">Similar transaction exists</p>
+                                <span className="px-2 py-0.5 rounded-full bg-amber-500/30 text-amber-300 text-[10px]">
+                                  {tx.duplicateWarning.matchScore}% match
                                 </span>
-                                {tx.edited && (
-                                  <span className="px-1.5 py-0.5 rounded text-[10px] bg-blue-500/20 text-blue-400">
-                                    Edited
-                                  </span>
-                                )}
                               </div>
-                              <div className="flex items-center gap-2 text-sm text-slate-400 mt-0.5">
-                                <span>{tx.editedDate || tx.transaction_datetime.split('T')[0]}</span>
-                                <span>•</span>
-                                {/* Category Dropdown */}
-                                <div className="relative">
-                                  <button
-                                    onClick={() => setShowCategoryDropdown(showCategoryDropdown === index ? null : index)}
-                                    className="flex items-center gap-1 hover:text-white transition-colors"
-                                  >
-                                    <span>{tx.category}</span>
-                                    <ChevronDown className="h-3 w-3" />
-                                  </button>
-                                  
-                                  <AnimatePresence>
-                                    {showCategoryDropdown === index && (
-                                      <motion.div
-                                        initial={{ opacity: 0, y: 5 }}
-                                        animate={{ opacity: 1, y: 0 }}
-                                        exit={{ opacity: 0, y: 5 }}
-                                        className="absolute left-0 top-full mt-1 w-48 max-h-60 overflow-y-auto bg-slate-800 border border-white/10 rounded-xl shadow-xl z-50"
-                                      >
-                                        {allCategories.map(cat => (
-                                          <button
-                                            key={cat}
-                                            onClick={() => handleCategorySelect(index, cat)}
-                                            className={cn(
-                                              'w-full px-3 py-2 text-left text-sm hover:bg-white/[0.05] transition-colors',
-                                              cat === tx.category ? 'text-emerald-400' : 'text-slate-300'
-                                            )}
-                                          >
-                                            {cat}
-                                            {cat === tx.category && <Check className="h-3 w-3 inline ml-2" />}
-                                          </button>
-                                        ))}
-                                      </motion.div>
-                                    )}
-                                  </AnimatePresence>
-                                </div>
+                              <div className="text-sm text-slate-300">
+                                <p>{tx.duplicateWarning.existingTransaction.merchant || tx.duplicateWarning.existingTransaction.category}</p>
+                                <p className="text-slate-400">
+                                  {tx.duplicateWarning.existingTransaction.transaction_date} • {formatCurrency(
+                                    tx.duplicateWarning.existingTransaction.amount,
+                                    tx.duplicateWarning.existingTransaction.currency as 'SAR' | 'AED' | 'USD' | 'EUR' | 'GBP'
+                                  )}
+                                </p>
                               </div>
-                            </>
-                          )}
-                        </div>
-
-                        {/* Amount */}
-                        {!isEditing && (
-                          <div className={cn(
-                            'text-lg font-mono font-medium shrink-0',
-                            tx.direction === 'in' ? 'text-emerald-400' : 'text-rose-400'
-                          )}>
-                            {tx.direction === 'in' ? '+' : '-'}
-                            {formatCurrency(tx.amount, tx.currency as 'SAR' | 'AED' | 'USD' | 'EUR' | 'GBP')}
-                          </div>
-                        )}
-
-                        {/* Actions */}
-                        {!isEditing && (
-                          <div className="flex items-center gap-1 shrink-0">
-                            <button
-                              onClick={() => handleStartEdit(index)}
-                              className="p-2 rounded-lg hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
-                              title="Edit"
-                            >
-                              <Edit3 className="h-4 w-4" />
-                            </button>
-                            <button
-                              onClick={() => handleRemove(index)}
-                              className="p-2 rounded-lg hover:bg-rose-500/10 text-slate-400 hover:text-rose-400 transition-colors"
-                              title="Remove"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </button>
+                              <p className="text-[10px] text-slate-500 mt-1">
+                                {tx.duplicateWarning.reasons.join(' • ')}
+                              </p>
+                            </div>
                           </div>
                         )}
                       </div>
-                    </div>
 
-                    {/* Duplicate Warning Details */}
-                    {isDuplicate && tx.duplicateWarning && (
-                      <div className="px-4 pb-4">
-                        <div className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/20">
-                          <div className="flex items-center justify-between mb-2">
-                            <p className="text-xs text-amber-400 font-medium">Similar transaction exists</p>
-                            <span className="px-2 py-0.5 rounded-full bg-amber-500/30 text-amber-300 text-[10px]">
-                              {tx.duplicateWarning.matchScore}% match
-                            </span>
-                          </div>
-                          <div className="text-sm text-slate-300">
-                            <p>{tx.duplicateWarning.existingTransaction.merchant || tx.duplicateWarning.existingTransaction.category}</p>
-                            <p className="text-slate-400">
-                              {tx.duplicateWarning.existingTransaction.transaction_date} • {formatCurrency(
-                                tx.duplicateWarning.existingTransaction.amount,
-                                tx.duplicateWarning.existingTransaction.currency as 'SAR' | 'AED' | 'USD' | 'EUR' | 'GBP'
-                              )}
-                            </p>
-                          </div>
-                          <p className="text-[10px] text-slate-500 mt-1">
-                            {tx.duplicateWarning.reasons.join(' • ')}
-                          </p>
+                      {/* Original Text */}
+                      {showSource && sourceText && (
+                        <div className="p-4 border-t md:border-t-0 md:border-l border-white/[0.06] max-h-48 overflow-y-auto">
+                          {tx.source_span ? (
+                            <SourceHighlight text={sourceText} span={tx.source_span} fieldSpans={tx.field_spans} />
+                          ) : (
+                            <p className="text-xs text-slate-500 italic">Couldn't find this row in your text</p>
+                          )}
                         </div>
-                      </div>
-                    )}
+                      )}
+                    </div>
                   </div>
                 )
               })}
@@ -19,7 +19,8 @@ import {
   CheckCircle2,
   FileSpreadsheet,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  HelpCircle
 } from 'lucide-react'
 import { GlassCard } from '@/components/ui'
 import { cn } from '@/lib/utils'
@@ -32,9 +33,19 @@ import {
   mergeWithExisting,
   rejectStaging,
   bulkApproveNonDuplicates,
-  learnCategoryRule
+  learnCategoryRule,
+  recordCategoryRuleResults
 } from '@/lib/reconciliation'
 import { supabase } from '@/services/supabase'
+import {
+  CONFIDENCE_FIELD_LABELS,
+  describeConfidence,
+  getLowConfidenceFields,
+  isLowConfidence,
+  normalizeConfidenceMap,
+  type ConfidenceField,
+  type FieldConfidenceMap
+} from '@/lib/confidence'
 
 // ============================================
 // TYPES
@@ -58,6 +69,8 @@ interface ExtractedData {
   category?: string
   direction?: 'in' | 'out'
   original_row_index?: number
+  confidence?: FieldConfidenceMap
+  category_rule_id?: string
 }
 
 interface EditingState {
@@ -68,6 +81,9 @@ interface EditingState {
   date: string
 }
 
+// Dotted amber underline for values the import guessed or defaulted
+const LOW_CONFIDENCE_CLASS = 'text-amber-300 underline decoration-dotted decoration-amber-400/70 underline-offset-4'
+
 // ============================================
 // COMPONENT
 // ============================================
@@ -155,6 +171,15 @@ export function StagingReviewModal({
         await learnCategoryRule(userId, editing.merchant, editing.category)
       }
 
+      // Strengthen or weaken the rule that pre-filled the category
+      if (extracted.category_rule_id) {
+        const kept = !editing || editing.category === extracted.category
+        await recordCategoryRuleResults(
+          kept ? [extracted.category_rule_id] : [],
+          kept ? [] : [extracted.category_rule_id]
+        )
+      }
+
       const result = await approveStaging(staging.id, userId, {
         amount: editing?.amount ?? extracted.amount ?? 0,
         currency: extracted.currency || 'SAR',
@@ -195,6 +220,15 @@ export function StagingReviewModal({
         await learnCategoryRule(userId, editing.merchant, editing.category)
       }
 
+      // Strengthen or weaken the rule that pre-filled the category
+      if (extracted.category_rule_id) {
+        const kept = !editing || editing.category === extracted.category
+        await recordCategoryRuleResults(
+          kept ? [extracted.category_rule_id] : [],
+          kept ? [] : [extracted.category_rule_id]
+        )
+      }
+
       const result = await mergeWithExisting(staging.id, staging.potential_match_id, {
         merchant: editing?.merchant ?? extracted.description ?? undefined,
         category: editing?.category ?? extracted.category ?? undefined
@@ -289,6 +323,14 @@ export function StagingReviewModal({
 
   const nonDuplicateCount = stagingTxs.filter(tx => !tx.potential_match_id).length
   const duplicateCount = stagingTxs.filter(tx => tx.potential_match_id).length
+  const needsReviewCount = stagingTxs.filter(tx =>
+    getLowConfidenceFields(normalizeConfidenceMap((tx.extracted_data as ExtractedData).confidence)).length > 0
+  ).length
+
+  const confidenceProps = (confidence: FieldConfidenceMap, field: ConfidenceField) => ({
+    className: cn(isLowConfidence(confidence, field) && LOW_CONFIDENCE_CLASS),
+    title: describeConfidence(confidence[field])
+  })
 
   return (
     <motion.div
@@ -316,6 +358,9 @@ export function StagingReviewModal({
                 <h2 className="text-xl font-bold text-white">Review Staged Transactions</h2>
                 <p className="text-sm text-slate-400">
                   {stagingTxs.length} pending • {duplicateCount} potential duplicates
+                  {needsReviewCount > 0 && (
+                    <span className="text-amber-300"> • {needsReviewCount} with guessed fields</span>
+                  )}
                 </p>
               </div>
             </div>
@@ -347,6 +392,8 @@ export function StagingReviewModal({
                   const isProcessing = processingIds.has(staging.id)
                   const isExpanded = expandedIds.has(staging.id)
                   const isEditing = editingId === staging.id
+                  const confidence = normalizeConfidenceMap(extracted.confidence)
+                  const lowFields = getLowConfidenceFields(confidence)
 
                   return (
                     <div
@@ -372,18 +419,29 @@ export function StagingReviewModal({
                           <div className="flex-1 min-w-0">
                             <div className="flex items-center gap-2">
                               <span className="font-medium text-white truncate">
-                                {extracted.description || 'Unknown'}
+                                <span {...confidenceProps(confidence, 'merchant')}>
+                                  {extracted.description || 'Unknown'}
+                                </span>
                               </span>
                               {match && (
                                 <span className="px-2 py-0.5 rounded-full bg-amber-500/20 text-amber-400 text-xs">
                                   Potential Duplicate
                                 </span>
                               )}
+                              {lowFields.length > 0 && (
+                                <span
+                                  className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-500/20 text-amber-300 text-xs shrink-0"
+                                  title={lowFields.map(f => `${CONFIDENCE_FIELD_LABELS[f]}: ${describeConfidence(confidence[f])}`).join('\n')}
+                                >
+                                  <HelpCircle className="h-3 w-3" />
+                                  Check {lowFields.length}
+                                </span>
+                              )}
                             </div>
                             <div className="flex items-center gap-3 text-sm text-slate-400 mt-1">
-                              <span>{extracted.date}</span>
+                              <span {...confidenceProps(confidence, 'transaction_datetime')}>{extracted.date}</span>
                               <span>•</span>
-                              <span>{extracted.category || 'Uncategorized'}</span>
+                              <span {...confidenceProps(confidence, 'category')}>{extracted.category || 'Uncategorized'}</span>
                               {staging.csv_source && (
                                 <>
                                   <span>•</span>
@@ -398,8 +456,12 @@ export function StagingReviewModal({
                             'text-lg font-mono font-medium shrink-0',
                             extracted.direction === 'in' ? 'text-emerald-400' : 'text-rose-400'
                           )}>
-                            {extracted.direction === 'in' ? '+' : '-'}
-                            {formatCurrency(extracted.amount || 0, (extracted.currency || 'SAR') as 'SAR' | 'AED' | 'USD' | 'EUR' | 'GBP')}
+                            <span {...confidenceProps(confidence, 'direction')}>
+                              {extracted.direction === 'in' ? '+' : '-'}
+                            </span>
+                            <span {...confidenceProps(confidence, 'currency')}>
+                              {formatCurrency(extracted.amount || 0, (extracted.currency || 'SAR') as 'SAR' | 'AED' | 'USD' | 'EUR' | 'GBP')}
+                            </span>
                           </div>
 
                           {/* Expand Button */}
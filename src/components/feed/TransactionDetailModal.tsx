@@ -25,21 +25,25 @@ import {
   ChevronDown,
   TrendingUp,
   TrendingDown,
+  ArrowLeftRight,
   Star,
   Check,
   Upload,
   RefreshCw,
   Paperclip,
   Plus,
-  Loader2
+  Loader2,
+  MessageSquareText
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { formatCurrency } from '@/lib/utils'
-import { CURRENCIES, type Currency } from '@/lib/currency'
+import { CURRENCIES, getExchangeRate, roundToMinorUnits, type Currency } from '@/lib/currency'
 import { getAllCategories } from '@/lib/constants'
-import type { Account, AccountCard, Transaction, BillingCycle, NewSubscription, TransactionAttachment, UserCategory } from '@/types/database'
+import type { Account, AccountCard, Transaction, TransactionDirection, BillingCycle, NewSubscription, TransactionAttachment, UserCategory, RawLog } from '@/types/database'
 import { BILLING_CYCLES } from '@/types/database'
 import { AttachmentListItem } from './AttachmentItem'
+import { CurrencyPicker } from './CurrencyPicker'
+import { learnCategoryRule } from '@/lib/reconciliation'
 
 // Common emoji options for transactions
 const EMOJI_OPTIONS = [
@@ -56,6 +60,19 @@ const accountIcons: Record<string, React.ElementType> = {
   'credit-card': CreditCard,
 }
 
+// Direction toggle order and look
+const NEXT_DIRECTION: Record<TransactionDirection, TransactionDirection> = {
+  out: 'in',
+  in: 'transfer',
+  transfer: 'out',
+}
+
+const DIRECTION_STYLES: Record<TransactionDirection, { icon: React.ElementType; badge: string; text: string; sign: string }> = {
+  in: { icon: TrendingUp, badge: 'bg-emerald-500/20 text-emerald-400', text: 'text-emerald-400', sign: '+' },
+  out: { icon: TrendingDown, badge: 'bg-rose-500/20 text-rose-400', text: 'text-rose-400', sign: '-' },
+  transfer: { icon: ArrowLeftRight, badge: 'bg-cyan-500/20 text-cyan-400', text: 'text-cyan-400', sign: '' },
+}
+
 interface TransactionDetailModalProps {
   isOpen: boolean
   transaction: Transaction | null
@@ -63,6 +80,7 @@ interface TransactionDetailModalProps {
   cards: AccountCard[]
   allTransactions?: Transaction[] // For bulk edit detection
   attachments?: TransactionAttachment[]
+  rawLog?: RawLog | null // The message this transaction was parsed from
   customCategories?: UserCategory[] // User-defined custom categories
   onClose: () => void
   onSave: (updates: Partial<Transaction>) => Promise<void>
@@ -73,6 +91,163 @@ interface TransactionDetailModalProps {
   onDeleteAttachment?: (attachmentId: string) => Promise<void>
 }
 
+// ============================================
+// ACCOUNT / CARD FIELD
+// ============================================
+
+interface AccountCardFieldProps {
+  label: string
+  accounts: Account[]
+  cards: AccountCard[]
+  accountId: string | null
+  cardId: string | null
+  isEditing: boolean
+  isOpen: boolean
+  onToggle: () => void
+  onSelect: (accountId: string | null, cardId: string | null) => void
+}
+
+/**
+ * An account (and optionally one of its cards) with a picker when editing.
+ * Used for the transaction's account and, for transfers, the destination.
+ */
+function AccountCardField({
+  label,
+  accounts,
+  cards,
+  accountId,
+  cardId,
+  isEditing,
+  isOpen,
+  onToggle,
+  onSelect
+}: AccountCardFieldProps) {
+  const selectedAccount = accounts.find(a => a.id === accountId)
+  const selectedCard = cards.find(c => c.id === cardId)
+  const AccountIcon = selectedAccount ? (accountIcons[selectedAccount.icon] || CreditCard) : CreditCard
+
+  return (
+    <div className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.06] relative">
+      <label className="text-xs text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1">
+        <CreditCard className="h-3 w-3" />
+        {label}
+      </label>
+      
+      <button
+        onClick={() => isEditing && onToggle()}
+        disabled={!isEditing}
+        className={cn(
+          'w-full flex items-center gap-3 text-left',
+          isEditing && 'cursor-pointer'
+        )}
+      >
+        {selectedAccount ? (
+          <>
+            <div 
+              className="p-2 rounded-lg"
+              style={{ backgroundColor: `${selectedAccount.color}20` }}
+            >
+              <AccountIcon className="h-4 w-4" style={{ color: selectedAccount.color }} />
+            </div>
+            <div className="flex-1">
+              <div className="flex items-center gap-2">
+                <span className="text-white text-sm">{selectedAccount.name}</span>
+                {selectedAccount.is_default && (
+                  <Star className="h-3 w-3 text-amber-400 fill-amber-400" />
+                )}
+              </div>
+              {selectedCard && (
+                <span className="text-xs text-slate-500">
+                  {selectedCard.name} ****{selectedCard.last_4_digits}
+                </span>
+              )}
+            </div>
+            {isEditing && <ChevronDown className="h-4 w-4 text-slate-500" />}
+          </>
+        ) : (
+          <>
+            <div className="p-2 rounded-lg bg-white/[0.05]">
+              <CreditCard className="h-4 w-4 text-slate-500" />
+            </div>
+            <span className="text-slate-500 text-sm">No account assigned</span>
+            {isEditing && <ChevronDown className="h-4 w-4 text-slate-500 ml-auto" />}
+          </>
+        )}
+      </button>
+
+      {/* Account Picker */}
+      {isOpen && (
+        <div className="absolute left-0 right-0 top-full mt-2 p-2 rounded-xl bg-slate-900 border border-white/10 shadow-xl z-10 max-h-60 overflow-y-auto">
+          {/* None option */}
+          <button
+            onClick={() => onSelect(null, null)}
+            className={cn(
+              'w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left',
+              'hover:bg-white/[0.05] transition-colors text-slate-400'
+            )}
+          >
+            <div className="p-2 rounded-lg bg-white/[0.05]">
+              <X className="h-4 w-4" />
+            </div>
+            <span className="text-sm">No account</span>
+          </button>
+
+          {accounts.map(account => {
+            const Icon = accountIcons[account.icon] || CreditCard
+            const accountCards = cards.filter(c => c.account_id === account.id)
+            
+            return (
+              <div key={account.id}>
+                <button
+                  onClick={() => onSelect(account.id, null)}
+                  className={cn(
+                    'w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left',
+                    'hover:bg-white/[0.05] transition-colors',
+                    accountId === account.id && !cardId ? 'text-emerald-400' : 'text-slate-400'
+                  )}
+                >
+                  <div 
+                    className="p-2 rounded-lg"
+                    style={{ backgroundColor: `${account.color}20` }}
+                  >
+                    <Icon className="h-4 w-4" style={{ color: account.color }} />
+                  </div>
+                  <span className="text-sm flex-1">{account.name}</span>
+                  {accountId === account.id && !cardId && <Check className="h-4 w-4" />}
+                </button>
+                
+                {/* Cards under this account */}
+                {accountCards.map(card => (
+                  <button
+                    key={card.id}
+                    onClick={() => onSelect(account.id, card.id)}
+                    className={cn(
+                      'w-full flex items-center gap-3 px-3 py-2 pl-8 rounded-lg text-left',
+                      'hover:bg-white/[0.05] transition-colors',
+                      cardId === card.id ? 'text-emerald-400' : 'text-slate-500'
+                    )}
+                  >
+                    <div 
+                      className="w-8 h-5 rounded flex items-center justify-center text-[8px] font-bold"
+                      style={{ backgroundColor: card.color }}
+                    >
+                      {card.type === 'credit' ? 'CR' : 'DB'}
+                    </div>
+                    <span className="text-sm flex-1">
+                      {card.name} ****{card.last_4_digits}
+                    </span>
+                    {cardId === card.id && <Check className="h-4 w-4" />}
+                  </button>
+                ))}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
 export function TransactionDetailModal({
   isOpen,
   transaction,
@@ -80,6 +255,7 @@ export function TransactionDetailModal({
   cards,
   allTransactions = [],
   attachments = [],
+  rawLog = null,
   customCategories = [],
   onClose,
   onSave,
@@ -94,6 +270,7 @@ export function TransactionDetailModal({
   const [isDeleting, setIsDeleting] = useState(false)
   const [showEmojiPicker, setShowEmojiPicker] = useState(false)
   const [showAccountPicker, setShowAccountPicker] = useState(false)
+  const [showToAccountPicker, setShowToAccountPicker] = useState(false)
   const [showConversionForm, setShowConversionForm] = useState(false)
   const [showCurrencyPicker, setShowCurrencyPicker] = useState(false)
   const [showCategoryPicker, setShowCategoryPicker] = useState(false)
@@ -106,7 +283,7 @@ export function TransactionDetailModal({
   
   // Form state
   const [amount, setAmount] = useState(0)
-  const [direction, setDirection] = useState<'in' | 'out'>('out')
+  const [direction, setDirection] = useState<TransactionDirection>('out')
   const [currency, setCurrency] = useState<Currency>('SAR')
   const [category, setCategory] = useState('Other')
   const [merchant, setMerchant] = useState('')
@@ -114,8 +291,13 @@ export function TransactionDetailModal({
   const [logoUrl, setLogoUrl] = useState('')
   const [accountId, setAccountId] = useState<string | null>(null)
   const [cardId, setCardId] = useState<string | null>(null)
+  const [toAccountId, setToAccountId] = useState<string | null>(null)
+  const [toCardId, setToCardId] = useState<string | null>(null)
   const [transactionDate, setTransactionDate] = useState('')
   const [transactionTime, setTransactionTime] = useState('')
+  const [conversionRate, setConversionRate] = useState<number | null>(null)
+  const [rateInput, setRateInput] = useState('') // As typed, so an empty field isn't read as 0
+  const [isRateOverride, setIsRateOverride] = useState(false)
 
   // Subscription conversion form state
   const [subName, setSubName] = useState('')
@@ -138,6 +320,11 @@ export function TransactionDetailModal({
       setLogoUrl(transaction.logo_url || '')
       setAccountId(transaction.account_id)
       setCardId(transaction.card_id)
+      setToAccountId(transaction.to_account_id)
+      setToCardId(transaction.to_card_id)
+      setConversionRate(transaction.conversion_rate)
+      setRateInput(transaction.conversion_rate != null ? String(transaction.conversion_rate) : '')
+      setIsRateOverride(transaction.is_rate_override)
       
       // Parse date and time from transaction_time or transaction_date
       if (transaction.transaction_time) {
@@ -159,6 +346,7 @@ export function TransactionDetailModal({
       setIsEditing(false)
       setShowEmojiPicker(false)
       setShowAccountPicker(false)
+      setShowToAccountPicker(false)
       setShowCurrencyPicker(false)
       setShowCategoryPicker(false)
     }
@@ -182,8 +370,36 @@ export function TransactionDetailModal({
     )
   }
 
+  // A rate typed in for this transaction, kept over the stored rates.
+  // Only positive rates are applied; anything else blocks saving.
+  const handleRateChange = (rate: number) => {
+    if (!(rate > 0)) return
+    setConversionRate(rate)
+    setIsRateOverride(true)
+    if (transaction?.original_amount != null) {
+      setAmount(roundToMinorUnits(transaction.original_amount * rate, currency))
+    }
+  }
+
+  const handleRateInput = (value: string) => {
+    setRateInput(value)
+    handleRateChange(parseFloat(value))
+  }
+
+  const isRateInvalid = !!transaction?.original_currency && !(parseFloat(rateInput) > 0)
+
+  // Back to the stored rate for the transaction's date
+  const handleUseDateRate = () => {
+    if (!transaction?.original_currency) return
+    const rate = getExchangeRate(transaction.original_currency as Currency, currency, transactionDate || undefined)
+    if (rate === null) return
+    handleRateChange(rate)
+    setRateInput(String(rate))
+    setIsRateOverride(false)
+  }
+
   const handleSave = async () => {
-    if (!transaction) return
+    if (!transaction || isRateInvalid) return
     
     // Combine date and time into ISO string
     let transactionTimeISO: string | null = null
@@ -206,8 +422,14 @@ export function TransactionDetailModal({
       logo_url: logoUrl || null,
       account_id: accountId,
       card_id: cardId,
+      to_account_id: direction === 'transfer' ? toAccountId : null,
+      to_card_id: direction === 'transfer' ? toCardId : null,
       transaction_date: transactionDate,
       transaction_time: transactionTimeISO,
+      ...(transaction.original_currency && {
+        conversion_rate: conversionRate,
+        is_rate_override: isRateOverride,
+      }),
     }
 
     // Check if we should offer bulk edit
@@ -222,10 +444,23 @@ export function TransactionDetailModal({
     await doSave(updates)
   }
 
+  // Remember category corrections so future parses of this merchant get them
+  const learnCategoryChange = async (updates: Partial<Transaction>) => {
+    if (!transaction || !updates.category || updates.category === transaction.category) return
+    const merchantName = updates.merchant ?? transaction.merchant
+    if (!merchantName) return
+    
+    const result = await learnCategoryRule(transaction.user_id, merchantName, updates.category)
+    if (!result.success) {
+      console.error('Error learning category rule:', result.error)
+    }
+  }
+
   const doSave = async (updates: Partial<Transaction>) => {
     setIsSaving(true)
     try {
       await onSave(updates)
+      await learnCategoryChange(updates)
       setIsEditing(false)
     } catch (error) {
       console.error('Error saving transaction:', error)
@@ -241,6 +476,7 @@ export function TransactionDetailModal({
     try {
       // First save the current transaction
       await onSave(pendingUpdates)
+      await learnCategoryChange(pendingUpdates)
       
       // Then bulk update similar transactions (only category, logo_url)
       const bulkUpdates: Partial<Transaction> = {}
@@ -347,12 +583,18 @@ export function TransactionDetailModal({
     }
   }
 
-  const handleAccountSelect = (accId: string, cId: string | null) => {
+  const handleAccountSelect = (accId: string | null, cId: string | null) => {
     setAccountId(accId)
     setCardId(cId)
     setShowAccountPicker(false)
   }
 
+  const handleToAccountSelect = (accId: string | null, cId: string | null) => {
+    setToAccountId(accId)
+    setToCardId(cId)
+    setShowToAccountPicker(false)
+  }
+
   // Handle attachment file selection
   const handleAttachmentSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files
@@ -389,9 +631,8 @@ export function TransactionDetailModal({
     }
   }
 
-  const selectedAccount = accounts.find(a => a.id === accountId)
-  const selectedCard = cards.find(c => c.id === cardId)
-  const AccountIcon = selectedAccount ? (accountIcons[selectedAccount.icon] || CreditCard) : CreditCard
+  const directionStyle = DIRECTION_STYLES[direction]
+  const DirectionIcon = directionStyle.icon
 
   if (!isOpen || !transaction) return null
 
@@ -484,22 +725,15 @@ export function TransactionDetailModal({
                   {/* Direction Toggle */}
                   {isEditing ? (
                     <button
-                      onClick={() => setDirection(d => d === 'in' ? 'out' : 'in')}
-                      className={cn(
-                        'p-2 rounded-xl transition-colors',
-                        direction === 'in' 
-                          ? 'bg-emerald-500/20 text-emerald-400' 
-                          : 'bg-rose-500/20 text-rose-400'
-                      )}
+                      onClick={() => setDirection(d => NEXT_DIRECTION[d])}
+                      className={cn('p-2 rounded-xl transition-colors', directionStyle.badge)}
+                      title={direction === 'transfer' ? 'Transfer between your accounts' : undefined}
                     >
-                      {direction === 'in' ? <TrendingUp className="h-5 w-5" /> : <TrendingDown className="h-5 w-5" />}
+                      <DirectionIcon className="h-5 w-5" />
                     </button>
                   ) : (
-                    <div className={cn(
-                      'p-2 rounded-xl',
-                      direction === 'in' ? 'bg-emerald-500/20 text-emerald-400' : 'bg-rose-500/20 text-rose-400'
-                    )}>
-                      {direction === 'in' ? <TrendingUp className="h-5 w-5" /> : <TrendingDown className="h-5 w-5" />}
+                    <div className={cn('p-2 rounded-xl', directionStyle.badge)}>
+                      <DirectionIcon className="h-5 w-5" />
                     </div>
                   )}
 
@@ -514,11 +748,8 @@ export function TransactionDetailModal({
                       step="0.01"
                     />
                   ) : (
-                    <span className={cn(
-                      'text-3xl font-bold font-mono',
-                      direction === 'in' ? 'text-emerald-400' : 'text-rose-400'
-                    )}>
-                      {direction === 'in' ? '+' : '-'}{formatCurrency(amount, currency)}
+                    <span className={cn('text-3xl font-bold font-mono', directionStyle.text)}>
+                      {directionStyle.sign}{formatCurrency(amount, currency)}
                     </span>
                   )}
 
@@ -540,28 +771,62 @@ export function TransactionDetailModal({
 
                     {/* Currency Picker */}
                     {showCurrencyPicker && (
-                      <div className="absolute right-0 top-full mt-2 w-48 p-2 rounded-xl bg-slate-900 border border-white/10 shadow-xl z-10 max-h-60 overflow-y-auto">
-                        {Object.entries(CURRENCIES).map(([code, { flag }]) => (
-                          <button
-                            key={code}
-                            onClick={() => { setCurrency(code as Currency); setShowCurrencyPicker(false) }}
-                            className={cn(
-                              'w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm',
-                              'hover:bg-white/[0.05] transition-colors',
-                              currency === code ? 'text-emerald-400' : 'text-slate-400'
-                            )}
-                          >
-                            <span>{flag}</span>
-                            <span>{code}</span>
-                            {currency === code && <Check className="h-4 w-4 ml-auto" />}
-                          </button>
-                        ))}
+                      <div className="absolute right-0 top-full mt-2 w-60 p-2 rounded-xl bg-slate-900 border border-white/10 shadow-xl z-10 max-h-72 overflow-y-auto">
+                        <CurrencyPicker
+                          value={currency}
+                          onSelect={code => { setCurrency(code); setShowCurrencyPicker(false) }}
+                        />
                       </div>
                     )}
                   </div>
                 </div>
               </div>
 
+              {/* Conversion */}
+              {transaction.original_currency && transaction.original_amount != null && (
+                <div className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.06]">
+                  <label className="text-xs text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1">
+                    <RefreshCw className="h-3 w-3" />
+                    Converted from {formatCurrency(transaction.original_amount, transaction.original_currency)}
+                  </label>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-slate-400 shrink-0">
+                      1 {transaction.original_currency} =
+                    </span>
+                    {isEditing ? (
+                      <input
+                        type="number"
+                        value={rateInput}
+                        onChange={e => handleRateInput(e.target.value)}
+                        className={cn(
+                          'w-28 px-2 py-1 rounded-lg bg-white/[0.05] border text-white font-mono outline-none focus:border-emerald-500/50',
+                          isRateInvalid ? 'border-rose-500/60' : 'border-white/[0.08]'
+                        )}
+                        step="0.0001"
+                        min="0"
+                        title={isRateInvalid ? 'Enter a rate above 0' : undefined}
+                      />
+                    ) : (
+                      <span className="text-white font-mono">{conversionRate ?? '—'}</span>
+                    )}
+                    <span className="text-slate-400">{currency}</span>
+                    {isRateOverride && (
+                      <span className="px-1.5 py-0.5 rounded bg-amber-500/10 text-[10px] font-medium text-amber-300">
+                        Your rate
+                      </span>
+                    )}
+                    {isEditing && (
+                      <button
+                        onClick={handleUseDateRate}
+                        className="ml-auto text-xs text-emerald-400 hover:text-emerald-300 transition-colors"
+                      >
+                        Use rate for {transactionDate || 'date'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* Date & Time */}
               <div className="grid grid-cols-2 gap-3">
                 <div className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.06]">
@@ -652,125 +917,33 @@ export function TransactionDetailModal({
                 </div>
               </div>
 
-              {/* Account/Card Selection */}
-              <div className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.06] relative">
-                <label className="text-xs text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1">
-                  <CreditCard className="h-3 w-3" />
-                  Account / Card
-                </label>
-                
-                <button
-                  onClick={() => isEditing && setShowAccountPicker(!showAccountPicker)}
-                  disabled={!isEditing}
-                  className={cn(
-                    'w-full flex items-center gap-3 text-left',
-                    isEditing && 'cursor-pointer'
-                  )}
-                >
-                  {selectedAccount ? (
-                    <>
-                      <div 
-                        className="p-2 rounded-lg"
-                        style={{ backgroundColor: `${selectedAccount.color}20` }}
-                      >
-                        <AccountIcon className="h-4 w-4" style={{ color: selectedAccount.color }} />
-                      </div>
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2">
-                          <span className="text-white text-sm">{selectedAccount.name}</span>
-                          {selectedAccount.is_default && (
-                            <Star className="h-3 w-3 text-amber-400 fill-amber-400" />
-                          )}
-                        </div>
-                        {selectedCard && (
-                          <span className="text-xs text-slate-500">
-                            {selectedCard.name} ****{selectedCard.last_4_digits}
-                          </span>
-                        )}
-                      </div>
-                      {isEditing && <ChevronDown className="h-4 w-4 text-slate-500" />}
-                    </>
-                  ) : (
-                    <>
-                      <div className="p-2 rounded-lg bg-white/[0.05]">
-                        <CreditCard className="h-4 w-4 text-slate-500" />
-                      </div>
-                      <span className="text-slate-500 text-sm">No account assigned</span>
-                      {isEditing && <ChevronDown className="h-4 w-4 text-slate-500 ml-auto" />}
-                    </>
-                  )}
-                </button>
-
-                {/* Account Picker */}
-                {showAccountPicker && (
-                  <div className="absolute left-0 right-0 top-full mt-2 p-2 rounded-xl bg-slate-900 border border-white/10 shadow-xl z-10 max-h-60 overflow-y-auto">
-                    {/* None option */}
-                    <button
-                      onClick={() => handleAccountSelect('', null)}
-                      className={cn(
-                        'w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left',
-                        'hover:bg-white/[0.05] transition-colors text-slate-400'
-                      )}
-                    >
-                      <div className="p-2 rounded-lg bg-white/[0.05]">
-                        <X className="h-4 w-4" />
-                      </div>
-                      <span className="text-sm">No account</span>
-                    </button>
+              {/* Account/Card Selection - the source of a transfer */}
+              <AccountCardField
+                label={direction === 'transfer' ? 'From Account / Card' : 'Account / Card'}
+                accounts={accounts}
+                cards={cards}
+                accountId={accountId}
+                cardId={cardId}
+                isEditing={isEditing}
+                isOpen={showAccountPicker}
+                onToggle={() => setShowAccountPicker(!showAccountPicker)}
+                onSelect={handleAccountSelect}
+              />
 
-                    {accounts.map(account => {
-                      const Icon = accountIcons[account.icon] || CreditCard
-                      const accountCards = cards.filter(c => c.account_id === account.id)
-                      
-                      return (
-                        <div key={account.id}>
-                          <button
-                            onClick={() => handleAccountSelect(account.id, null)}
-                            className={cn(
-                              'w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left',
-                              'hover:bg-white/[0.05] transition-colors',
-                              accountId === account.id && !cardId ? 'text-emerald-400' : 'text-slate-400'
-                            )}
-                          >
-                            <div 
-                              className="p-2 rounded-lg"
-                              style={{ backgroundColor: `${account.color}20` }}
-                            >
-                              <Icon className="h-4 w-4" style={{ color: account.color }} />
-                            </div>
-                            <span className="text-sm flex-1">{account.name}</span>
-                            {accountId === account.id && !cardId && <Check className="h-4 w-4" />}
-                          </button>
-                          
-                          {/* Cards under this account */}
-                          {accountCards.map(card => (
-                            <button
-                              key={card.id}
-                              onClick={() => handleAccountSelect(account.id, card.id)}
-                              className={cn(
-                                'w-full flex items-center gap-3 px-3 py-2 pl-8 rounded-lg text-left',
-                                'hover:bg-white/[0.05] transition-colors',
-                                cardId === card.id ? 'text-emerald-400' : 'text-slate-500'
-                              )}
-                            >
-                              <div 
-                                className="w-8 h-5 rounded flex items-center justify-center text-[8px] font-bold"
-                                style={{ backgroundColor: card.color }}
-                              >
-                                {card.type === 'credit' ? 'CR' : 'DB'}
-                              </div>
-                              <span className="text-sm flex-1">
-                                {card.name} ****{card.last_4_digits}
-                              </span>
-                              {cardId === card.id && <Check className="h-4 w-4" />}
-                            </button>
-                          ))}
-                        </div>
-                      )
-                    })}
-                  </div>
-                )}
-              </div>
+              {/* Transfer destination */}
+              {direction === 'transfer' && (
+                <AccountCardField
+                  label="To Account / Card"
+                  accounts={accounts}
+                  cards={cards}
+                  accountId={toAccountId}
+                  cardId={toCardId}
+                  isEditing={isEditing}
+                  isOpen={showToAccountPicker}
+                  onToggle={() => setShowToAccountPicker(!showToAccountPicker)}
+                  onSelect={handleToAccountSelect}
+                />
+              )}
 
               {/* Description */}
               <div className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.06]">
@@ -792,6 +965,29 @@ export function TransactionDetailModal({
                 )}
               </div>
 
+              {/* Original Message */}
+              {rawLog && (
+                <div className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.06]">
+                  <label className="text-xs text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1">
+                    <MessageSquareText className="h-3 w-3" />
+                    Original Message
+                  </label>
+                  <p className="text-slate-300 text-xs font-mono whitespace-pre-wrap break-words max-h-40 overflow-y-auto">
+                    {rawLog.content}
+                  </p>
+                  {rawLog.image_url && (
+                    <a
+                      href={rawLog.image_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-block mt-2 text-xs text-emerald-400 hover:text-emerald-300"
+                    >
+                      View photo
+                    </a>
+                  )}
+                </div>
+              )}
+
               {/* Logo/Icon Section (Edit Mode Only) */}
               {isEditing && (
                 <div className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.06]">
@@ -955,7 +1151,7 @@ export function TransactionDetailModal({
                   
                   <button
                     onClick={handleSave}
-                    disabled={isSaving}
+                    disabled={isSaving || isRateInvalid}
                     className={cn(
                       'flex items-center gap-2 px-4 py-2 rounded-xl',
                       'bg-emerald-500 text-white hover:bg-emerald-600',
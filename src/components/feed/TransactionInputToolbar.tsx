@@ -24,6 +24,7 @@ import {
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { CURRENCIES, type Currency } from '@/lib/currency'
+import { CurrencyPicker } from './CurrencyPicker'
 import type { Account, AccountCard, Beneficiary } from '@/types/database'
 
 // Account icon mapping
@@ -358,23 +359,9 @@ export function TransactionInputToolbar({
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: 10 }}
             onClick={(e) => e.stopPropagation()}
-            className="absolute left-1/2 -translate-x-1/2 bottom-full mb-1 w-44 p-2 rounded-xl bg-slate-900 border border-white/10 shadow-xl z-50 max-h-60 overflow-y-auto"
+            className="absolute left-1/2 -translate-x-1/2 bottom-full mb-1 w-60 p-2 rounded-xl bg-slate-900 border border-white/10 shadow-xl z-50 max-h-72 overflow-y-auto"
           >
-            {Object.entries(CURRENCIES).map(([code, { flag }]) => (
-              <button
-                key={code}
-                onClick={() => handleCurrencySelect(code as Currency)}
-                className={cn(
-                  'w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm',
-                  'hover:bg-white/[0.05] transition-colors',
-                  value.currency === code ? 'text-emerald-400' : 'text-slate-400'
-                )}
-              >
-                <span>{flag}</span>
-                <span className="flex-1">{code}</span>
-                {value.currency === code && <Check className="h-4 w-4" />}
-              </button>
-            ))}
+            <CurrencyPicker value={value.currency} onSelect={handleCurrencySelect} />
           </motion.div>
         )}
       </AnimatePresence>
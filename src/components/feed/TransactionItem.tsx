@@ -52,6 +52,7 @@ export const TransactionItem = forwardRef<HTMLDivElement, TransactionItemProps>(
     const Icon = categoryIcons[transaction.category] || HelpCircle
     const colorClass = categoryColors[transaction.category] || categoryColors['Other']
     const isIncome = transaction.direction === 'in'
+    const isTransfer = transaction.direction === 'transfer'
 
     return (
       <motion.div
@@ -109,9 +110,9 @@ export const TransactionItem = forwardRef<HTMLDivElement, TransactionItemProps>(
           <div className="shrink-0 text-right">
             <div className={cn(
               'font-semibold font-mono text-lg',
-              isIncome ? 'text-emerald-400' : 'text-rose-400'
+              isTransfer ? 'text-cyan-400' : isIncome ? 'text-emerald-400' : 'text-rose-400'
             )}>
-              {isIncome ? '+' : '-'}{formatCurrency(transaction.amount, transaction.currency)}
+              {isTransfer ? '' : isIncome ? '+' : '-'}{formatCurrency(transaction.amount, transaction.currency)}
             </div>
           </div>
 
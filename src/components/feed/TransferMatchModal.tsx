@@ -0,0 +1,192 @@
+/**
+ * Transfer Match Modal
+ *
+ * Suggested pairs of a debit and a credit on two of the user's accounts that
+ * look like one move between them (bank SMS for the debit, wallet SMS for the
+ * top-up). Linking turns the pair into a single transfer; dismissed pairs
+ * aren't suggested again.
+ */
+
+import { useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import {
+  ArrowLeftRight,
+  ArrowRight,
+  X,
+  Link2,
+  Loader2,
+  CheckCircle2
+} from 'lucide-react'
+import { cn, formatCurrency } from '@/lib/utils'
+import { formatFeedDate } from '@/lib/dateUtils'
+import { getTransferMatchKey, type TransferMatch } from '@/lib/reconciliation'
+import type { Account, AccountCard, Transaction } from '@/types/database'
+
+interface TransferMatchModalProps {
+  isOpen: boolean
+  matches: TransferMatch<Transaction>[]
+  accounts: Account[]
+  cards: AccountCard[]
+  onClose: () => void
+  onLink: (match: TransferMatch<Transaction>) => Promise<{ success: boolean; error?: string }>
+  onDismiss: (match: TransferMatch<Transaction>) => void
+}
+
+function TransferLeg({
+  label,
+  transaction,
+  accounts,
+  cards
+}: {
+  label: string
+  transaction: Transaction
+  accounts: Account[]
+  cards: AccountCard[]
+}) {
+  const account = accounts.find(a => a.id === transaction.account_id)
+  const card = cards.find(c => c.id === transaction.card_id)
+  const isIncoming = transaction.direction === 'in'
+
+  return (
+    <div className="flex-1 min-w-0 p-2.5 rounded-lg bg-white/[0.03]">
+      <p className="text-[10px] text-slate-500 uppercase tracking-wider">{label}</p>
+      <p className="text-sm text-white truncate">
+        {account?.name || 'Unknown account'}
+        {card && <span className="text-slate-500"> · ****{card.last_4_digits}</span>}
+      </p>
+      <p className={cn('text-sm font-mono', isIncoming ? 'text-emerald-400' : 'text-rose-400')}>
+        {isIncoming ? '+' : '-'}{formatCurrency(transaction.amount, transaction.currency)}
+      </p>
+      <p className="text-[11px] text-slate-500 truncate">
+        {transaction.merchant || transaction.category} · {formatFeedDate(transaction.transaction_time || transaction.transaction_date)}
+      </p>
+    </div>
+  )
+}
+
+export function TransferMatchModal({
+  isOpen,
+  matches,
+  accounts,
+  cards,
+  onClose,
+  onLink,
+  onDismiss
+}: TransferMatchModalProps) {
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const handleLink = async (match: TransferMatch<Transaction>) => {
+    const key = getTransferMatchKey(match)
+    setBusyKey(key)
+    setErrors(prev => ({ ...prev, [key]: '' }))
+    try {
+      const result = await onLink(match)
+      if (!result.success) {
+        setErrors(prev => ({ ...prev, [key]: result.error || 'Could not link these transactions' }))
+      }
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.95, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.95, opacity: 0 }}
+          className="w-full max-w-lg max-h-[85vh] flex flex-col bg-slate-900 rounded-2xl border border-white/10 overflow-hidden shadow-2xl"
+          onClick={e => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-4 border-b border-white/[0.06]">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-xl bg-cyan-500/20">
+                <ArrowLeftRight className="h-5 w-5 text-cyan-400" />
+              </div>
+              <div>
+                <h2 className="text-lg font-bold text-white">Possible Transfers ({matches.length})</h2>
+                <p className="text-xs text-slate-500">Both sides of a move between your accounts, logged separately</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg hover:bg-white/10 text-slate-400 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            {matches.length === 0 ? (
+              <div className="flex flex-col items-center gap-2 py-10 text-slate-500">
+                <CheckCircle2 className="h-8 w-8 text-emerald-400" />
+                <p className="text-sm">No unlinked transfers found</p>
+              </div>
+            ) : matches.map(match => {
+              const key = getTransferMatchKey(match)
+              const isBusy = busyKey === key
+
+              return (
+                <div key={key} className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.06]">
+                  <div className="flex items-center gap-2">
+                    <TransferLeg label="From" transaction={match.outgoing} accounts={accounts} cards={cards} />
+                    <ArrowRight className="h-4 w-4 text-cyan-400 shrink-0" />
+                    <TransferLeg label="To" transaction={match.incoming} accounts={accounts} cards={cards} />
+                  </div>
+
+                  <div className="mt-2 flex flex-wrap items-center gap-1.5">
+                    <span className="px-1.5 py-0.5 rounded bg-cyan-500/10 text-[10px] font-medium text-cyan-300">
+                      {match.matchScore}% match
+                    </span>
+                    {match.reasons.map(reason => (
+                      <span key={reason} className="px-1.5 py-0.5 rounded bg-white/[0.05] text-[10px] text-slate-400">
+                        {reason}
+                      </span>
+                    ))}
+                  </div>
+
+                  {errors[key] && (
+                    <p className="mt-2 text-[11px] text-rose-400">{errors[key]}</p>
+                  )}
+
+                  {/* Actions */}
+                  <div className="mt-2 flex items-center justify-end gap-2">
+                    <button
+                      onClick={() => onDismiss(match)}
+                      disabled={isBusy}
+                      className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-white/[0.05] text-slate-400 hover:bg-white/[0.08] transition-colors disabled:opacity-50"
+                      title="Not a transfer - stop suggesting this pair"
+                    >
+                      <X className="h-3.5 w-3.5" />
+                      Not a transfer
+                    </button>
+                    <button
+                      onClick={() => handleLink(match)}
+                      disabled={isBusy}
+                      className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-cyan-500/20 text-cyan-300 hover:bg-cyan-500/30 transition-colors disabled:opacity-50"
+                    >
+                      {isBusy ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Link2 className="h-3.5 w-3.5" />}
+                      Link as transfer
+                    </button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  )
+}
@@ -3,11 +3,17 @@ export { TransactionItem } from './TransactionItem'
 export { TransactionList } from './TransactionList'
 export { InputDock } from './InputDock'
 export { TransactionDetailModal } from './TransactionDetailModal'
+export { CurrencyPicker } from './CurrencyPicker'
 export { TransactionInputToolbar, getDefaultToolbarState, type ToolbarState } from './TransactionInputToolbar'
 export { ConflictModal, type ConflictData } from './ConflictModal'
 export { AttachmentItem, AttachmentListItem } from './AttachmentItem'
 export { StagingReviewModal } from './StagingReviewModal'
 export { CSVUpload, CSVUploadButton } from './CSVUpload'
 export { ParseReviewModal, type ReviewedTransaction } from './ParseReviewModal'
-export { ChatResponse, type ChatResponseData } from './ChatResponse'
+export { ChatAnswer, type ChatResponseData, type ChatCitation } from './ChatResponse'
+export { ChatConversation, type ChatTurn } from './ChatConversation'
+export { ChatVisualBlock, type ChatVisual } from './ChatVisualBlock'
+export { ChatActionCard, type ChatActionProposal } from './ChatActionCard'
 export { CSVQuestionModal, type CSVQuestion } from './CSVQuestionModal'
+export { NeedsAttentionModal, type ManualEntry } from './NeedsAttentionModal'
+export { TransferMatchModal } from './TransferMatchModal'
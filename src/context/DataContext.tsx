@@ -11,8 +11,10 @@ import { useAuth } from './AuthContext'
 import { parseTransaction, isParseError, matchPaymentHint, getDefaultAccount } from '@/lib/ai'
 import { generateId } from '@/lib/utils'
 import { toISODateString } from '@/lib/dateUtils'
+import { logFailedInput } from '@/lib/rawLogs'
 import type { 
   Account, 
+  TransactionDirection,
   AccountCard, 
   NewAccount, 
   NewAccountCard,
@@ -25,7 +27,7 @@ export interface Transaction {
   user_id: string
   amount: number
   currency: string
-  direction: 'in' | 'out'
+  direction: TransactionDirection
   category: string
   merchant: string | null
   transaction_date: string
@@ -67,7 +69,7 @@ export interface ParsedTransactionResult {
   category: string
   merchant: string | null
   transaction_datetime: string // ISO 8601 format
-  direction: 'in' | 'out'
+  direction: TransactionDirection
   payment_hint: string | null
   notes: string | null
   // Matched references
@@ -106,6 +108,7 @@ interface DataContextType {
   addAccount: (data: NewAccount) => Promise<{ success: boolean; error?: string; account?: Account }>
   updateAccount: (id: string, data: Partial<NewAccount>) => Promise<{ success: boolean; error?: string }>
   deleteAccount: (id: string) => Promise<{ success: boolean; error?: string }>
+  recomputeAccountBalances: () => Promise<{ success: boolean; error?: string; changed?: number; estimated?: string[] }>
   
   // Cards
   cards: AccountCard[]
@@ -244,16 +247,8 @@ export function DataProvider({ children }: { children: ReactNode }) {
       const result = await parseTransaction(text)
 
       if (isParseError(result)) {
-        // Try to save to raw_logs for manual review (ignore errors)
-        try {
-          await supabase.from('raw_logs').insert({
-            user_id: user.id,
-            content: text,
-            source: 'web_manual',
-          } as never)
-        } catch {
-          // Ignore raw_logs errors
-        }
+        // Keep the text in the "Needs attention" inbox
+        await logFailedInput(user.id, text, result.reason, 'web_manual')
 
         // Remove processing entry
         setTransactions(prev => prev.filter(t => t.id !== tempId))
@@ -518,6 +513,36 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }
   }, [user])
 
+  // Rebuild balances from each account's opening balance and its transactions
+  // Also names the accounts whose opening balance is still an estimate
+  const recomputeAccountBalances = useCallback(async (): Promise<{ success: boolean; error?: string; changed?: number; estimated?: string[] }> => {
+    if (!user) return { success: false, error: 'Not authenticated' }
+
+    try {
+      const { data, error: dbError } = await supabase.rpc('recompute_account_balances' as never)
+
+      if (dbError) throw dbError
+
+      const rows = (data || []) as {
+        account_id: string
+        old_balance: number
+        new_balance: number
+        opening_balance_confirmed: boolean
+      }[]
+      await refreshAccounts()
+      return {
+        success: true,
+        changed: rows.filter(r => Number(r.old_balance) !== Number(r.new_balance)).length,
+        estimated: rows
+          .filter(r => !r.opening_balance_confirmed)
+          .map(r => accounts.find(a => a.id === r.account_id)?.name || 'An account'),
+      }
+    } catch (err) {
+      console.error('Error recomputing account balances:', err)
+      return { success: false, error: 'Failed to recalculate balances' }
+    }
+  }, [user, accounts, refreshAccounts])
+
   // ===========================
   // CARDS
   // ===========================
@@ -634,6 +659,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
         addAccount,
         updateAccount,
         deleteAccount,
+        recomputeAccountBalances,
         
         // Cards
         cards,
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import { chunkSegments, splitLongSegment, runWithConcurrency, MAX_CHUNK_MESSAGES, MAX_CHUNK_CHARS } from '../chunking'
+import { SEGMENT_JOINER, type SourceSpan } from '../sourceSpans'
+
+// `count` messages of `length` characters, separated by blank lines
+function paste(count: number, length: number): { text: string; segments: SourceSpan[] } {
+  const messages = Array.from({ length: count }, (_, i) => `${i}`.padEnd(length, 'x'))
+  const segments: SourceSpan[] = []
+  let offset = 0
+  for (const message of messages) {
+    segments.push({ start: offset, end: offset + message.length })
+    offset += message.length + SEGMENT_JOINER.length
+  }
+  return { text: messages.join(SEGMENT_JOINER), segments }
+}
+
+describe('chunkSegments', () => {
+  it('keeps a small paste in one chunk', () => {
+    const { text, segments } = paste(3, 10)
+
+    const chunks = chunkSegments(text, segments)
+
+    expect(chunks).toHaveLength(1)
+    expect(chunks[0].text).toBe(text)
+    expect(chunks[0].segments).toEqual(segments)
+  })
+
+  it('caps the number of messages per chunk', () => {
+    const { text, segments } = paste(MAX_CHUNK_MESSAGES * 2 + 1, 10)
+
+    const chunks = chunkSegments(text, segments)
+
+    expect(chunks.map(c => c.segments.length)).toEqual([MAX_CHUNK_MESSAGES, MAX_CHUNK_MESSAGES, 1])
+  })
+
+  it('caps the characters per chunk', () => {
+    const { text, segments } = paste(10, 1000)
+
+    const chunks = chunkSegments(text, segments)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(MAX_CHUNK_CHARS)
+    }
+  })
+
+  it('keeps messages in paste order across chunks', () => {
+    const { text, segments } = paste(MAX_CHUNK_MESSAGES + 5, 10)
+
+    const chunks = chunkSegments(text, segments)
+
+    expect(chunks.map(c => c.index)).toEqual([0, 1])
+    expect(chunks.flatMap(c => c.segments)).toEqual(segments)
+  })
+
+  it('splits a segment over the limit on its lines', () => {
+    const lines = Array.from({ length: 100 }, (_, i) => `${i}`.padEnd(60, 'x'))
+    const text = lines.join('\n')
+
+    const chunks = chunkSegments(text, [{ start: 0, end: text.length }])
+
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks.flatMap(c => c.segments).map(s => text.slice(s.start, s.end))).toEqual(lines)
+  })
+
+  it('gives a single unsplittable segment a chunk of its own', () => {
+    const long = 'x'.repeat(MAX_CHUNK_CHARS + 10)
+    const text = `short${SEGMENT_JOINER}${long}`
+    const segments = [{ start: 0, end: 5 }, { start: 7, end: text.length }]
+
+    const chunks = chunkSegments(text, segments)
+
+    expect(chunks.map(c => c.text)).toEqual(['short', long])
+  })
+})
+
+describe('splitLongSegment', () => {
+  it('returns trimmed lines with their offsets in the pasted text', () => {
+    const text = 'before\n\n  first line \nsecond\n\n   \nthird'
+    const start = text.indexOf('  first')
+
+    const lines = splitLongSegment(text, { start, end: text.length })
+
+    expect(lines.map(s => text.slice(s.start, s.end))).toEqual(['first line', 'second', 'third'])
+  })
+})
+
+describe('runWithConcurrency', () => {
+  it('returns results in input order whatever order they finish in', async () => {
+    const delays = [30, 0, 20, 10]
+
+    const results = await runWithConcurrency(delays, 2, async (delay, index) => {
+      await new Promise(resolve => setTimeout(resolve, delay))
+      return index
+    })
+
+    expect(results).toEqual([0, 1, 2, 3])
+  })
+
+  it('never runs more than the limit at once', async () => {
+    let running = 0
+    let peak = 0
+
+    await runWithConcurrency(Array.from({ length: 8 }, (_, i) => i), 3, async () => {
+      running++
+      peak = Math.max(peak, running)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      running--
+    })
+
+    expect(peak).toBe(3)
+  })
+
+  it('handles fewer items than the limit', async () => {
+    expect(await runWithConcurrency([1], 3, async n => n * 2)).toEqual([2])
+    expect(await runWithConcurrency([], 3, async n => n)).toEqual([])
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import migration from '../../../supabase/migrations/022_currency_minor_units.sql?raw'
+import { CURRENCY_REGISTRY } from '../../../shared/currencyRegistry'
+import { formatCurrencyWithSymbol, getMinorUnits, resolveCurrency, roundToMinorUnits } from '../currency'
+import { formatCurrency } from '../utils'
+
+const ENTRIES = Object.entries(CURRENCY_REGISTRY).map(([code, info]) => ({ code, minorUnits: info.minorUnits }))
+
+// Codes listed for a given number of decimals in currency_minor_units()
+function sqlCodesWith(units: number): string[] {
+  const body = migration.slice(migration.indexOf('FUNCTION currency_minor_units'))
+  const list = body.match(new RegExp(`IN \\(([^)]*)\\) THEN ${units}`))?.[1] || ''
+  return Array.from(list.matchAll(/'([A-Z]{3})'/g), m => m[1]).sort()
+}
+
+// Digits after the decimal point of an en-US formatted amount
+function fractionDigits(formatted: string): number {
+  return formatted.match(/\.(\d+)\D*$/)?.[1].length ?? 0
+}
+
+describe('currency minor units', () => {
+  it('lists VED and XCG', () => {
+    expect(getMinorUnits('VED')).toBe(2)
+    expect(getMinorUnits('XCG')).toBe(2)
+  })
+
+  it.each(ENTRIES)('$code rounds, formats and resolves with $minorUnits decimals', ({ code, minorUnits }) => {
+    expect(getMinorUnits(code)).toBe(minorUnits)
+    expect(roundToMinorUnits(1234.56789, code)).toBe(Number((1234.56789).toFixed(minorUnits)))
+    expect(fractionDigits(formatCurrency(1234.5, code, 'en-US'))).toBe(minorUnits)
+    expect(fractionDigits(formatCurrencyWithSymbol(1234.5, code))).toBe(minorUnits)
+    expect(resolveCurrency(code)).toBe(code)
+    expect(resolveCurrency(code.toLowerCase())).toBe(code)
+  })
+
+  it('matches the database table', () => {
+    const withUnits = (units: number) => ENTRIES.filter(e => e.minorUnits === units).map(e => e.code).sort()
+
+    expect(sqlCodesWith(0)).toEqual(withUnits(0))
+    expect(sqlCodesWith(3)).toEqual(withUnits(3))
+  })
+})
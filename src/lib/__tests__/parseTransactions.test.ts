@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { parseTransactions, retryParseChunk } from '../ai'
+import { MAX_CHUNK_MESSAGES } from '../chunking'
+
+vi.mock('@/services/supabase', () => ({
+  getAuthHeaders: async () => ({}),
+}))
+
+const RIYAD_SMS = `Riyad Bank
+POS Purchase
+Card: **3321
+Amount: 75.00 SAR
+Merchant: JARIR BOOKSTORE
+Date: 15/01/2025 18:05`
+
+const FREE_TEXT = 'Paid 30 for lunch with Omar'
+
+// What /api/analyze returns for FREE_TEXT
+function analyzeReply(sourceSpan?: { start: number; end: number }) {
+  return new Response(JSON.stringify({
+    transactions: [{
+      amount: 30,
+      currency: 'SAR',
+      category: 'Food & Dining',
+      merchant: 'Lunch',
+      transaction_datetime: '2025-01-15T13:00:00',
+      direction: 'out',
+      payment_hint: null,
+      notes: null,
+      description: null,
+      ...(sourceSpan ? { source_span: sourceSpan } : {}),
+    }],
+  }), { status: 200 })
+}
+
+describe('parseTransactions', () => {
+  beforeEach(() => {
+    vi.stubGlobal('navigator', { onLine: true })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('keeps template and AI rows in the order they were pasted', async () => {
+    const fetchMock = vi.fn(async () => analyzeReply({ start: 0, end: FREE_TEXT.length }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await parseTransactions(`${FREE_TEXT}\n\n${RIYAD_SMS}`)
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(result.transactions.map(tx => tx.merchant)).toEqual(['Lunch', 'JARIR BOOKSTORE'])
+  })
+
+  it('places AI rows without a source span at their message', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => analyzeReply()))
+
+    const result = await parseTransactions(`${RIYAD_SMS}\n\n${FREE_TEXT}`)
+
+    expect(result.transactions.map(tx => tx.merchant)).toEqual(['JARIR BOOKSTORE', 'Lunch'])
+  })
+
+  it('applies custom categories to template rows', async () => {
+    const fetchMock = vi.fn()
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await parseTransactions(RIYAD_SMS, [{ name: 'Books', description: 'Jarir, Virgin' }])
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(result.transactions[0].category).toBe('Books')
+  })
+
+  it('retries only the failed chunk, with the hint the paste was parsed with', async () => {
+    const text = Array.from({ length: MAX_CHUNK_MESSAGES + 1 }, (_, i) => `Paid ${i + 1} for lunch`).join('\n\n')
+    const bodies: { text: string; hint?: string }[] = []
+    let failLastChunk = true
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string)
+      bodies.push(body)
+      if (failLastChunk && body.text === `Paid ${MAX_CHUNK_MESSAGES + 1} for lunch`) {
+        return new Response(JSON.stringify({ error: 'Parse failed' }), { status: 422 })
+      }
+      return analyzeReply()
+    }))
+
+    const first = await parseTransactions(text, undefined, { hint: 'these were refunds' })
+    expect(first.chunked?.chunks.map(c => c.status)).toEqual(['done', 'failed'])
+
+    failLastChunk = false
+    bodies.length = 0
+    const retried = await retryParseChunk(first.chunked!, 1)
+
+    expect(bodies).toHaveLength(1)
+    expect(bodies[0].hint).toBe('these were refunds')
+    expect(retried.chunked?.chunks.map(c => c.status)).toEqual(['done', 'done'])
+    expect(retried.transactions).toHaveLength(2)
+    expect(retried.error).toBeUndefined()
+  })
+})
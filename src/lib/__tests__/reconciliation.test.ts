@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { Account, AccountCard } from '@/types/database'
+import { findTransferMatches, type TransferCandidate } from '../reconciliation'
+import { setHistoricalRates } from '../currency'
+
+vi.mock('@/services/supabase', () => ({ supabase: {} }))
+
+const ACCOUNTS = [
+  { id: 'bank', name: 'Rajhi Current' },
+  { id: 'wallet', name: 'STC Pay' },
+] as Account[]
+
+const CARDS: AccountCard[] = []
+
+function leg(id: string, direction: 'in' | 'out', fields: Partial<TransferCandidate> = {}): TransferCandidate {
+  return {
+    id,
+    amount: 100,
+    currency: 'SAR',
+    direction,
+    category: 'Other',
+    merchant: null,
+    description: null,
+    transaction_date: '2025-01-15',
+    transaction_time: null,
+    account_id: direction === 'out' ? 'bank' : 'wallet',
+    card_id: null,
+    ...fields,
+  }
+}
+
+const pairs = (transactions: TransferCandidate[]) =>
+  findTransferMatches(transactions, ACCOUNTS, CARDS).map(m => [m.outgoing.id, m.incoming.id])
+
+describe('findTransferMatches', () => {
+  afterEach(() => {
+    setHistoricalRates([])
+  })
+
+  it('pairs a debit and a credit of the same amount on the same date', () => {
+    const [match] = findTransferMatches([leg('out', 'out'), leg('in', 'in')], ACCOUNTS, CARDS)
+
+    expect(match.outgoing.id).toBe('out')
+    expect(match.incoming.id).toBe('in')
+    expect(match.reasons).toEqual(['Same date', 'Exact amount'])
+  })
+
+  it('never pairs two legs on the same account', () => {
+    expect(pairs([leg('out', 'out'), leg('in', 'in', { account_id: 'bank' })])).toEqual([])
+  })
+
+  it('allows a small amount difference, such as a fee', () => {
+    const transactions = [leg('out', 'out', { description: 'Transfer to wallet' }), leg('in', 'in', { amount: 99.5 })]
+
+    const [match] = findTransferMatches(transactions, ACCOUNTS, CARDS)
+
+    expect(match.reasons).toContain('Amount within ±0.50')
+  })
+
+  it('rejects amounts further apart than the tolerance', () => {
+    const transactions = [leg('out', 'out', { description: 'Transfer to wallet' }), leg('in', 'in', { amount: 98.5 })]
+
+    expect(pairs(transactions)).toEqual([])
+  })
+
+  it('allows the legs up to two days apart', () => {
+    const [match] = findTransferMatches([leg('out', 'out'), leg('in', 'in', { transaction_date: '2025-01-17' })], ACCOUNTS, CARDS)
+
+    expect(match.reasons).toContain('±2 days')
+    expect(pairs([leg('out', 'out'), leg('in', 'in', { transaction_date: '2025-01-18' })])).toEqual([])
+  })
+
+  it('compares times when both legs have one', () => {
+    const transactions = [
+      leg('out', 'out', { transaction_time: '2025-01-15T10:00:00Z' }),
+      leg('in', 'in', { transaction_time: '2025-01-15T10:20:00Z' }),
+    ]
+
+    const [match] = findTransferMatches(transactions, ACCOUNTS, CARDS)
+
+    expect(match.reasons).toContain('Within an hour')
+    expect(match.matchScore).toBe(80)
+  })
+
+  it('gives a debit matching two credits the closer one', () => {
+    const transactions = [
+      leg('out', 'out'),
+      leg('in-later', 'in', { transaction_date: '2025-01-16' }),
+      leg('in-same-day', 'in'),
+    ]
+
+    expect(pairs(transactions)).toEqual([['out', 'in-same-day']])
+  })
+
+  it('uses each leg in one pair only', () => {
+    const transactions = [
+      leg('out-1', 'out'),
+      leg('out-2', 'out', { transaction_date: '2025-01-16' }),
+      leg('in-1', 'in'),
+      leg('in-2', 'in', { transaction_date: '2025-01-16' }),
+    ]
+
+    expect(pairs(transactions)).toEqual([['out-1', 'in-1'], ['out-2', 'in-2']])
+  })
+
+  it('pairs legs in different currencies after converting the credit', () => {
+    setHistoricalRates([{ date: '2025-01-01', base: 'USD', quote: 'SAR', rate: 3.75 }])
+
+    const [match] = findTransferMatches([leg('out', 'out'), leg('in', 'in', { amount: 26.6, currency: 'USD' })], ACCOUNTS, CARDS)
+
+    expect(match.reasons).toContain('Amount matches after USD → SAR conversion')
+  })
+
+  it('rejects converted amounts outside the FX tolerance', () => {
+    setHistoricalRates([{ date: '2025-01-01', base: 'USD', quote: 'SAR', rate: 3.75 }])
+
+    expect(pairs([leg('out', 'out'), leg('in', 'in', { amount: 25, currency: 'USD' })])).toEqual([])
+  })
+
+  it('skips a pair whose currency it cannot convert', () => {
+    expect(pairs([leg('out', 'out'), leg('in', 'in', { currency: 'XYZ' })])).toEqual([])
+  })
+})
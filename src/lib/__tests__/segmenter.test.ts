@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import { segmentMessages, findSegmentIndex } from '../segmenter'
+
+const texts = (text: string) => segmentMessages(text).map(s => s.text)
+
+describe('segmentMessages', () => {
+  it('returns a single message as one segment', () => {
+    const text = 'Purchase 25.00 SAR at JARIR\nCard **1234\nBalance 900.00 SAR'
+
+    expect(segmentMessages(text)).toEqual([{ start: 0, end: text.length, text }])
+  })
+
+  it('trims the surrounding whitespace of a single message', () => {
+    const text = '\n\n  Paid 30 for lunch  \n'
+
+    const [segment] = segmentMessages(text)
+
+    expect(segment.text).toBe('Paid 30 for lunch')
+    expect(text.slice(segment.start, segment.end)).toBe('Paid 30 for lunch')
+  })
+
+  it('returns nothing for blank input', () => {
+    expect(segmentMessages('')).toEqual([])
+    expect(segmentMessages('  \n\n  ')).toEqual([])
+  })
+
+  it('splits on blank lines', () => {
+    expect(texts('Paid 30 for lunch\n\nTaxi 45 SAR\n\n\n\nCoffee 18')).toEqual([
+      'Paid 30 for lunch',
+      'Taxi 45 SAR',
+      'Coffee 18',
+    ])
+  })
+
+  it('treats whitespace-only lines as blank', () => {
+    expect(texts('Paid 30 for lunch\n   \nTaxi 45 SAR')).toEqual(['Paid 30 for lunch', 'Taxi 45 SAR'])
+  })
+
+  it('starts a message at each sender header', () => {
+    const text = [
+      'AlRajhi:',
+      'Purchase 25.00 SAR',
+      'At: JARIR',
+      'From: SNB',
+      'Transfer 500 SAR to Omar',
+      'Riyad Bank - 12/01/2026 13:52',
+      'POS 75.00 SAR',
+    ].join('\n')
+
+    expect(texts(text)).toEqual([
+      'AlRajhi:\nPurchase 25.00 SAR\nAt: JARIR',
+      'From: SNB\nTransfer 500 SAR to Omar',
+      'Riyad Bank - 12/01/2026 13:52\nPOS 75.00 SAR',
+    ])
+  })
+
+  it('keeps the date stamp under a header with its message', () => {
+    const text = 'SNB\n12/01/2026\nPurchase 25.00 SAR\nSNB\n13/01/2026\nPurchase 40.00 SAR'
+
+    expect(texts(text)).toEqual([
+      'SNB\n12/01/2026\nPurchase 25.00 SAR',
+      'SNB\n13/01/2026\nPurchase 40.00 SAR',
+    ])
+  })
+
+  it('starts a message at each date stamp when the block opens with one', () => {
+    const text = [
+      '[12/01/26, 13:52] Paid 30 for lunch',
+      'with Omar',
+      '[13/01/26, 09:10] Taxi 45',
+      '2026-01-14 Coffee 18',
+      '14 Jan 2026 Groceries 210',
+    ].join('\n')
+
+    expect(texts(text)).toEqual([
+      '[12/01/26, 13:52] Paid 30 for lunch\nwith Omar',
+      '[13/01/26, 09:10] Taxi 45',
+      '2026-01-14 Coffee 18',
+      '14 Jan 2026 Groceries 210',
+    ])
+  })
+
+  it('does not split on a date inside a message that did not open with one', () => {
+    const text = 'Purchase of 25.00 SAR at JARIR\n12/01/2026 13:52'
+
+    expect(texts(text)).toEqual([text])
+  })
+
+  it('starts a message where the first message\'s template repeats', () => {
+    const text = 'Purchase 25.00 SAR at JARIR\nCard **1234\nPurchase 40.00 SAR at PANDA\nCard **1234'
+
+    expect(texts(text)).toEqual([
+      'Purchase 25.00 SAR at JARIR\nCard **1234',
+      'Purchase 40.00 SAR at PANDA\nCard **1234',
+    ])
+  })
+
+  it('gives offsets that slice back to each message', () => {
+    const text = 'Paid 30 for lunch\n\n  AlRajhi:\n  Purchase 25.00 SAR\nSNB\nPOS 10 SAR'
+
+    for (const segment of segmentMessages(text)) {
+      expect(text.slice(segment.start, segment.end)).toBe(segment.text)
+    }
+  })
+})
+
+describe('findSegmentIndex', () => {
+  it('finds the segment a span starts in', () => {
+    const segments = segmentMessages('Paid 30 for lunch\n\nTaxi 45 SAR')
+
+    expect(findSegmentIndex(segments, { start: 20, end: 24 })).toBe(1)
+    expect(findSegmentIndex(segments, { start: 17, end: 19 })).toBe(-1)
+  })
+})
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest'
+import { parseKnownSmsTemplates, parseSmsMessage, SMS_TEMPLATES } from '../smsTemplates'
+
+// Relative dates ("Yesterday, 9:14 PM") resolve against this
+const NOW = new Date(2025, 0, 16, 10, 0, 0)
+
+const SAMPLES = [
+  {
+    template: 'alrajhi',
+    sms: `شراء عبر نقاط البيع
+بطاقة: 4589;مدى-أبل باي
+مبلغ: 120.75 ريال
+لدى: بنده
+في: 25-1-15 20:41`,
+    expected: {
+      amount: 120.75,
+      currency: 'SAR',
+      direction: 'out',
+      merchant: 'بنده',
+      payment_hint: '*4589',
+      transaction_datetime: '2025-01-15T20:41:00',
+    },
+  },
+  {
+    template: 'snb',
+    sms: `Purchase via POS
+Card: mada **7710
+Amount: SAR 1,120.00
+At: EXTRA STORES
+On: 14/01/25 19:03
+Balance: SAR 3,210.75`,
+    expected: {
+      amount: 1120,
+      currency: 'SAR',
+      direction: 'out',
+      merchant: 'EXTRA STORES',
+      payment_hint: '*7710',
+      transaction_datetime: '2025-01-14T19:03:00',
+    },
+  },
+  {
+    template: 'riyad',
+    sms: `Riyad Bank
+POS Purchase
+Card: **3321
+Amount: 75.00 SAR
+Merchant: JARIR BOOKSTORE
+Date: 15/01/2025 18:05
+Available balance: 2,980.40 SAR
+Ref: 502315678901`,
+    expected: {
+      amount: 75,
+      currency: 'SAR',
+      direction: 'out',
+      merchant: 'JARIR BOOKSTORE',
+      payment_hint: '*3321',
+      transaction_datetime: '2025-01-15T18:05:00',
+    },
+  },
+  {
+    template: 'stcpay',
+    sms: 'STC Pay: You have received 100.00 SAR from Ahmed Ali. Your balance is 350.00 SAR',
+    expected: {
+      amount: 100,
+      currency: 'SAR',
+      direction: 'in',
+      merchant: 'Ahmed Ali',
+      payment_hint: null,
+      transaction_datetime: '2025-01-16T10:00:00',
+    },
+  },
+  {
+    template: 'adib',
+    sms: `ADIB Transaction
+Transaction of AED 244.20 debited from your a/c *552
+at TIKTOK ADS – AD S.TIKTOK.CO IE
+Time: Yesterday, 9:14 PM
+Available Balance: AED 67471.11
+For : Ajdel CFL03 Campaign`,
+    expected: {
+      amount: 244.2,
+      currency: 'AED',
+      direction: 'out',
+      merchant: 'TIKTOK ADS',
+      payment_hint: '*552',
+      transaction_datetime: '2025-01-15T21:14:00',
+    },
+  },
+  {
+    template: 'emiratesnbd',
+    sms: 'Your Credit Card ending 1234 was used for AED 89.00 on 15/01/2025 14:30:12 at TALABAT,DUBAI. Avl Cr. Limit is AED 10,500.00.',
+    expected: {
+      amount: 89,
+      currency: 'AED',
+      direction: 'out',
+      merchant: 'TALABAT,DUBAI',
+      payment_hint: '*1234',
+      transaction_datetime: '2025-01-15T14:30:12',
+    },
+  },
+]
+
+describe('parseSmsMessage', () => {
+  it.each(SAMPLES)('parses a $template message', ({ template, sms, expected }) => {
+    const result = parseSmsMessage(sms, NOW)
+
+    expect(result?.template.id).toBe(template)
+    expect(result?.transaction).toMatchObject(expected)
+  })
+
+  it.each(SMS_TEMPLATES)('parses the $id example with its own template', (template) => {
+    expect(parseSmsMessage(template.example, NOW)?.template.id).toBe(template.id)
+  })
+
+  it('leaves messages no template knows to the AI', () => {
+    expect(parseSmsMessage('Paid 30 for lunch with Omar', NOW)).toBeNull()
+  })
+
+  it('prefers a custom category that names the merchant', () => {
+    const result = parseSmsMessage(SAMPLES[2].sms, NOW, [
+      { name: 'Books', description: 'Jarir bookstore, Virgin Megastore' },
+    ])
+
+    expect(result?.transaction.category).toBe('Books')
+    expect(result?.transaction.confidence?.category?.source).toBe('inferred')
+  })
+})
+
+describe('parseKnownSmsTemplates', () => {
+  it('keeps unrecognized messages, with their positions, for the AI', () => {
+    const text = `${SAMPLES[4].sms}\n\nPaid 30 for lunch with Omar\n\n${SAMPLES[2].sms}`
+
+    const result = parseKnownSmsTemplates(text, NOW)
+
+    expect(result.templateIds).toEqual(['adib', 'riyad'])
+    expect(result.remaining).toBe('Paid 30 for lunch with Omar')
+    expect(text.slice(result.remainingSegments[0].start, result.remainingSegments[0].end)).toBe(result.remaining)
+  })
+})
@@ -5,7 +5,22 @@
  * The OpenAI API key is now safely stored server-side.
  */
 
-import type { Account, AccountCard } from '@/types/database'
+import type { Account, AccountCard, TransactionDirection } from '@/types/database'
+import { getAuthHeaders } from '@/services/supabase'
+import { parseKnownSmsTemplates } from './smsTemplates'
+import { fieldConfidence, normalizeConfidenceMap, type FieldConfidenceMap } from './confidence'
+import {
+  mapJoinedSpan,
+  normalizeFieldSpans,
+  normalizeSpan,
+  SEGMENT_JOINER,
+  SPAN_FIELDS,
+  type FieldSpanMap,
+  type SourceSpan
+} from './sourceSpans'
+import { parseTransactionsOffline } from './offlineParser'
+import { chunkSegments, runWithConcurrency, CHUNK_CONCURRENCY, type ParseChunk } from './chunking'
+import { resolveCurrency } from './currency'
 
 /**
  * Get current date/time in ISO format for the system prompt
@@ -20,16 +35,60 @@ export interface ParsedTransaction {
   category: string
   merchant: string | null
   transaction_datetime: string // ISO 8601 format
-  direction: 'in' | 'out'
+  direction: TransactionDirection
   payment_hint: string | null
+  transfer_to_hint?: string | null // Destination account/card when direction is 'transfer'
   notes: string | null
   description: string | null // Rich data: Available Balance, Ref Numbers, Campaign info, etc.
+  confidence?: FieldConfidenceMap // Per-field score + source, used to highlight fields for review
+  source_span?: SourceSpan // Offsets of the message this row came from, in the pasted text
+  field_spans?: FieldSpanMap // Offsets of amount, merchant, date and payment hint
+  category_rule_id?: string // Set when the category came from one of the user's learned rules
+  offline_draft?: boolean // Drafted locally because the AI was unreachable - re-parsed later
+  cache_key?: string // Server parse cache entry the row came from, cleared when the row is corrected
+}
+
+/**
+ * A row the parser returned that failed validation
+ */
+export interface RejectedRow {
+  index: number
+  reason: string // e.g. "amount must be a positive number; direction must be in or out"
+  preview: string // Whatever identifies the row (merchant, description, raw JSON)
 }
 
 export interface BulkParseResult {
   transactions: ParsedTransaction[]
+  rejected?: RejectedRow[]
   error?: string
   reason?: string
+  chunked?: ChunkedParse // Set when the paste was too large for one request
+  offline?: boolean // The AI was unreachable; transactions are local drafts
+  cached?: boolean // Served from the server's parse cache - this text was parsed recently
+}
+
+export type ChunkStatus = 'pending' | 'parsing' | 'done' | 'failed'
+
+/**
+ * One parse request of a chunked paste and what it returned
+ */
+export interface ParseChunkResult {
+  chunk: ParseChunk
+  status: ChunkStatus
+  transactions: ParsedTransaction[] // Spans already mapped onto the pasted text
+  rejected: RejectedRow[]
+  error?: string
+  cached?: boolean
+}
+
+/**
+ * State of a paste parsed in chunks - kept so failed chunks can be retried
+ * on their own and merged back in
+ */
+export interface ChunkedParse {
+  templateTransactions: ParsedTransaction[] // Rows parsed locally from known SMS templates
+  chunks: ParseChunkResult[]
+  hint?: string // The user's hint, sent again when a chunk is retried
 }
 
 export interface ParseError {
@@ -77,6 +136,137 @@ function normalizeDateTime(dateInput: string | null | undefined, fallback: strin
   }
 }
 
+/**
+ * Short description of a raw row for the "could not parse" list
+ */
+function previewRawRow(raw: unknown): string {
+  if (raw && typeof raw === 'object') {
+    const row = raw as Record<string, unknown>
+    const label = [row.merchant, row.amount, row.currency, row.description]
+      .filter(v => typeof v === 'string' || typeof v === 'number')
+      .join(' ')
+    if (label) return label
+  }
+  return JSON.stringify(raw)?.slice(0, 120) || 'Empty row'
+}
+
+/**
+ * A non-empty string field of a raw row, or null
+ */
+function textField(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null
+}
+
+/**
+ * Validate and normalize a raw /api response into a BulkParseResult
+ * Rows without a positive amount are reported in `rejected`, not dropped silently
+ */
+function normalizeBulkResponse(parsed: unknown, fallbackDateTime: string, sourceText?: string): BulkParseResult {
+  const body = (parsed && typeof parsed === 'object' ? parsed : {}) as Record<string, unknown>
+
+  // Rows the server's schema validator already rejected
+  const rejected: RejectedRow[] = Array.isArray(body.rejected)
+    ? body.rejected.map((row: { index: number; errors?: { field: string; message: string }[]; raw?: unknown }) => ({
+        index: row.index,
+        reason: (row.errors || []).map(e => `${e.field} ${e.message}`).join('; ') || 'Invalid row',
+        preview: previewRawRow(row.raw),
+      }))
+    : []
+
+  const rawTransactions: unknown[] = Array.isArray(body.transactions)
+    ? body.transactions
+    : Array.isArray(parsed) ? parsed : [parsed]
+  const cacheKey = textField(body.cache_key)
+
+  // Check if it's an error response
+  const error = textField(body.error)
+  if (error && (!Array.isArray(body.transactions) || body.transactions.length === 0)) {
+    return {
+      transactions: [],
+      rejected,
+      error,
+      reason: textField(body.reason) || 'Unknown error',
+    }
+  }
+
+  // Validate and normalize transactions array
+  const transactions: ParsedTransaction[] = []
+
+  for (const [index, raw] of rawTransactions.entries()) {
+    const tx = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+
+    // Validate required fields
+    if (typeof tx.amount !== 'number' || tx.amount <= 0) {
+      rejected.push({
+        index,
+        reason: `amount must be a positive number (got ${JSON.stringify(tx.amount)})`,
+        preview: previewRawRow(raw),
+      })
+      continue
+    }
+
+    // Extract datetime - check multiple possible field names
+    const rawDateTime = textField(tx.transaction_datetime) || textField(tx.transaction_date) || textField(tx.date) || textField(tx.datetime)
+    const transactionDateTime = normalizeDateTime(rawDateTime, fallbackDateTime)
+
+    // Values we filled in ourselves are defaults, whatever the model claimed
+    const confidence = normalizeConfidenceMap(tx.confidence)
+    // The model may answer with a symbol or word ("ريال") or a code we don't know
+    const currency = resolveCurrency(textField(tx.currency))
+    const category = textField(tx.category)
+    if (!currency) confidence.currency = fieldConfidence('defaulted')
+    if (!category) confidence.category = fieldConfidence('defaulted')
+    if (transactionDateTime === fallbackDateTime) confidence.transaction_datetime = fieldConfidence('defaulted')
+
+    // Source offsets only make sense against the text we sent
+    const sourceSpan = sourceText ? normalizeSpan(tx.source_span, sourceText.length) : null
+
+    // Normalize and add to array
+    transactions.push({
+      amount: Math.abs(tx.amount),
+      currency: currency || 'SAR',
+      category: category || 'Other',
+      merchant: textField(tx.merchant),
+      transaction_datetime: transactionDateTime,
+      direction: tx.direction === 'in' || tx.direction === 'transfer' ? tx.direction : 'out',
+      payment_hint: textField(tx.payment_hint) || textField(tx.account_hint),
+      ...(tx.direction === 'transfer' ? { transfer_to_hint: textField(tx.transfer_to_hint) } : {}),
+      notes: textField(tx.notes),
+      description: textField(tx.description), // Rich data: balance, refs, campaign info
+      confidence,
+      ...(sourceSpan ? {
+        source_span: sourceSpan,
+        field_spans: normalizeFieldSpans(tx.field_spans, sourceText!.length),
+      } : {}),
+      ...(cacheKey ? { cache_key: cacheKey } : {}),
+    })
+  }
+
+  if (transactions.length === 0) {
+    return {
+      transactions: [],
+      rejected,
+      error: 'No valid transactions',
+      reason: rejected.length > 0
+        ? `${rejected.length} row(s) could not be parsed: ${rejected[0].reason}`
+        : 'Could not extract any valid transactions from the text',
+    }
+  }
+
+  return { transactions, rejected, ...(body.cached ? { cached: true } : {}) }
+}
+
+/**
+ * Rows from /api/analyze-csv in the review modal's shape, with the same
+ * checks and confidence defaults as parsed messages. The CSV description
+ * doubles as the note.
+ */
+export function normalizeCSVTransactions(rows: unknown[]): ParsedTransaction[] {
+  const fallbackDateTime = getCurrentISODateTime().slice(0, 19)
+  return normalizeBulkResponse({ transactions: rows }, fallbackDateTime).transactions
+    .map(tx => ({ ...tx, notes: tx.notes || tx.description }))
+}
+
 /**
  * Custom category with description for AI parsing
  */
@@ -85,28 +275,245 @@ export interface CustomCategory {
   description: string | null
 }
 
+export interface ParseOptions {
+  segments?: SourceSpan[] // Only parse these messages of the text (default: every message)
+  onChunkProgress?: (chunked: ChunkedParse) => void // Called as chunks of a large paste finish
+  hint?: string // Extra context from the user, e.g. "this was a refund"
+}
+
 /**
- * Parse transactions from text using secure backend API
- * Always returns an array of transactions with proper ISO 8601 dates
+ * Parse transactions from text
+ * Known bank SMS templates are parsed locally; everything else goes to the
+ * secure backend API. Always returns an array of transactions with proper ISO 8601 dates
  */
 export async function parseTransactions(
   text: string,
-  customCategories?: CustomCategory[]
+  customCategories?: CustomCategory[],
+  { segments, onChunkProgress, hint }: ParseOptions = {}
+): Promise<BulkParseResult> {
+  const local = parseKnownSmsTemplates(text, new Date(), segments, customCategories)
+
+  // Too much for one request: parse in chunks and merge
+  const chunks = chunkSegments(text, local.remainingSegments)
+  if (chunks.length > 1) {
+    let chunked: ChunkedParse = {
+      templateTransactions: local.transactions,
+      chunks: chunks.map(chunk => ({ chunk, status: 'pending', transactions: [], rejected: [] })),
+      ...(hint ? { hint } : {}),
+    }
+    onChunkProgress?.(chunked)
+
+    await runWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk) => {
+      chunked = replaceChunk(chunked, { ...chunked.chunks[chunk.index], status: 'parsing' })
+      onChunkProgress?.(chunked)
+      // Read `chunked` only after the await - other workers update it meanwhile
+      const result = await parseChunk(chunk, customCategories, hint)
+      chunked = replaceChunk(chunked, result)
+      onChunkProgress?.(chunked)
+    })
+
+    return mergeChunkedParse(chunked)
+  }
+
+  // Every message matched a template - no API call needed
+  if (!local.remaining) {
+    return local.transactions.length > 0
+      ? { transactions: local.transactions }
+      : { transactions: [], error: 'Nothing to parse', reason: 'No messages found in the text' }
+  }
+
+  // The AI gets the segmented messages one per paragraph, so it doesn't
+  // have to decide where each message starts and ends
+  const aiResult = await parseTransactionsWithAI(local.remaining, customCategories, hint)
+
+  // Degraded mode: draft the rest locally rather than lose the entry
+  if (aiResult.offline) {
+    const drafts = parseTransactionsOffline(text, local.remainingSegments)
+    return {
+      transactions: inPasteOrder([...local.transactions, ...drafts], local.remainingSegments[0].start),
+      error: local.transactions.length + drafts.length === 0 ? aiResult.error : undefined,
+      reason: aiResult.reason,
+      offline: true,
+    }
+  }
+
+  return {
+    transactions: inPasteOrder(
+      [...local.transactions, ...aiResult.transactions.map(tx => remapSpans(tx, local.remainingSegments))],
+      local.remainingSegments[0].start
+    ),
+    rejected: aiResult.rejected,
+    ...(aiResult.error ? { error: aiResult.error, reason: aiResult.reason } : {}),
+    ...(aiResult.cached ? { cached: true } : {}),
+  }
+}
+
+// ============================================
+// CHUNKED PARSING
+// ============================================
+
+/**
+ * Send one chunk to the AI and map its rows back onto the pasted text
+ */
+async function parseChunk(
+  chunk: ParseChunk,
+  customCategories?: CustomCategory[],
+  hint?: string
+): Promise<ParseChunkResult> {
+  const result = await parseTransactionsWithAI(chunk.text, customCategories, hint)
+
+  // Degraded mode: draft against the chunk text, then map back like AI rows
+  if (result.offline) {
+    let offset = 0
+    const joinedSegments = chunk.segments.map(segment => {
+      const span = { start: offset, end: offset + segment.end - segment.start }
+      offset = span.end + SEGMENT_JOINER.length
+      return span
+    })
+    return {
+      chunk,
+      status: 'done',
+      transactions: parseTransactionsOffline(chunk.text, joinedSegments).map(tx => remapSpans(tx, chunk.segments)),
+      rejected: [],
+    }
+  }
+
+  if (isBulkParseError(result)) {
+    return {
+      chunk,
+      status: 'failed',
+      transactions: [],
+      rejected: result.rejected || [],
+      error: result.reason || result.error,
+    }
+  }
+
+  return {
+    chunk,
+    status: 'done',
+    transactions: result.transactions.map(tx => remapSpans(tx, chunk.segments)),
+    rejected: result.rejected || [],
+    cached: result.cached,
+  }
+}
+
+function replaceChunk(chunked: ChunkedParse, result: ParseChunkResult): ChunkedParse {
+  return {
+    ...chunked,
+    chunks: chunked.chunks.map(c => c.chunk.index === result.chunk.index ? result : c),
+  }
+}
+
+/**
+ * Order rows by where their message starts in the pasted text. Rows the AI
+ * couldn't place sort at `fallbackStart`, keeping their own order.
+ */
+function inPasteOrder(transactions: ParsedTransaction[], fallbackStart: number): ParsedTransaction[] {
+  return transactions
+    .map(tx => ({ tx, position: tx.source_span?.start ?? fallbackStart }))
+    .sort((a, b) => a.position - b.position)
+    .map(({ tx }) => tx)
+}
+
+/**
+ * Combine template rows and chunk rows into one result, ordered by where
+ * each row's message appears in the pasted text
+ */
+export function mergeChunkedParse(chunked: ChunkedParse): BulkParseResult {
+  const positioned = [
+    ...chunked.templateTransactions.map(tx => ({ tx, position: tx.source_span?.start ?? 0 })),
+    // Rows the AI couldn't place sort with the start of their chunk
+    ...chunked.chunks.flatMap(c => c.transactions.map(tx => ({
+      tx,
+      position: tx.source_span?.start ?? c.chunk.segments[0].start,
+    }))),
+  ]
+  const transactions = positioned
+    .sort((a, b) => a.position - b.position)
+    .map(({ tx }) => tx)
+  const rejected = chunked.chunks.flatMap(c => c.rejected)
+  const failed = chunked.chunks.filter(c => c.status === 'failed')
+
+  return {
+    transactions,
+    rejected,
+    chunked,
+    ...(chunked.chunks.every(c => c.cached) ? { cached: true } : {}),
+    ...(failed.length > 0 ? {
+      error: 'Some chunks failed',
+      reason: `${failed.length} of ${chunked.chunks.length} parts could not be parsed`,
+    } : {}),
+  }
+}
+
+/**
+ * Parse a failed chunk again, with the hint the first attempt had, and merge
+ * its rows into the existing result
+ */
+export async function retryParseChunk(
+  chunked: ChunkedParse,
+  chunkIndex: number,
+  customCategories?: CustomCategory[],
+  onChunkProgress?: (chunked: ChunkedParse) => void
+): Promise<BulkParseResult> {
+  const target = chunked.chunks.find(c => c.chunk.index === chunkIndex)
+  if (!target) return mergeChunkedParse(chunked)
+
+  let updated = replaceChunk(chunked, { ...target, status: 'parsing', error: undefined })
+  onChunkProgress?.(updated)
+  const result = await parseChunk(target.chunk, customCategories, chunked.hint)
+  updated = replaceChunk(updated, result)
+  onChunkProgress?.(updated)
+
+  return mergeChunkedParse(updated)
+}
+
+/**
+ * Move a row's spans from the AI's input (unrecognized segments joined
+ * together) back onto the text the user pasted
+ */
+function remapSpans(tx: ParsedTransaction, segments: SourceSpan[]): ParsedTransaction {
+  const { source_span, field_spans, ...rest } = tx
+  const sourceSpan = source_span ? mapJoinedSpan(source_span, segments) : null
+  if (!sourceSpan) return rest
+
+  const fieldSpans: FieldSpanMap = {}
+  for (const field of SPAN_FIELDS) {
+    const span = field_spans?.[field] ? mapJoinedSpan(field_spans[field]!, segments) : null
+    if (span) fieldSpans[field] = span
+  }
+  return { ...rest, source_span: sourceSpan, field_spans: fieldSpans }
+}
+
+/**
+ * Parse transactions from text using secure backend API
+ */
+async function parseTransactionsWithAI(
+  text: string,
+  customCategories?: CustomCategory[],
+  hint?: string
 ): Promise<BulkParseResult> {
   const currentDateTime = getCurrentISODateTime()
   const fallbackDateTime = currentDateTime.slice(0, 19)
 
+  // Don't wait for a request that can't succeed
+  if (!navigator.onLine) {
+    return { transactions: [], error: 'Network error', reason: 'You are offline', offline: true }
+  }
+
   try {
     // Call our secure serverless function instead of OpenAI directly
     const response = await fetch('/api/analyze', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(await getAuthHeaders()),
       },
       body: JSON.stringify({
         text,
         currentDateTime,
         customCategories: customCategories || [],
+        hint,
       }),
     })
 
@@ -117,61 +524,156 @@ export async function parseTransactions(
         transactions: [],
         error: errorData.error || 'API error',
         reason: errorData.reason || `HTTP ${response.status}`,
+        // Server-side failures (down, misconfigured, model unavailable) get the offline fallback
+        offline: response.status >= 500,
       }
     }
 
     const parsed = await response.json()
 
-    // Check if it's an error response
-    if (parsed.error && (!parsed.transactions || parsed.transactions.length === 0)) {
+    return normalizeBulkResponse(parsed, fallbackDateTime, text)
+
+  } catch (error) {
+    console.error('Parse transactions error:', error)
+    
+    if (error instanceof SyntaxError) {
       return {
         transactions: [],
-        error: parsed.error,
-        reason: parsed.reason || 'Unknown error',
+        error: 'Parse error',
+        reason: 'API response was not valid JSON',
       }
     }
 
-    // Validate and normalize transactions array
-    const transactions: ParsedTransaction[] = []
-    const rawTransactions = parsed.transactions || (Array.isArray(parsed) ? parsed : [parsed])
+    return {
+      transactions: [],
+      error: 'Network error',
+      reason: 'Could not connect to API',
+      offline: true,
+    }
+  }
+}
 
-    for (const tx of rawTransactions) {
-      // Validate required fields
-      if (typeof tx.amount !== 'number' || tx.amount <= 0) {
-        console.warn('Skipping transaction with invalid amount:', tx)
-        continue
-      }
+// Receipt images the backend accepts (HEIC often arrives with an empty MIME type)
+const RECEIPT_MIME_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  webp: 'image/webp',
+}
 
-      // Extract datetime - check multiple possible field names
-      const rawDateTime = tx.transaction_datetime || tx.transaction_date || tx.date || tx.datetime
-
-      // Normalize and add to array
-      transactions.push({
-        amount: Math.abs(tx.amount),
-        currency: (tx.currency || 'SAR').toUpperCase(),
-        category: tx.category || 'Other',
-        merchant: tx.merchant || null,
-        transaction_datetime: normalizeDateTime(rawDateTime, fallbackDateTime),
-        direction: tx.direction === 'in' ? 'in' : 'out',
-        payment_hint: tx.payment_hint || tx.account_hint || null,
-        notes: tx.notes || null,
-        description: tx.description || null, // Rich data: balance, refs, campaign info
-      })
+// Keep uploads under the serverless body limit once base64-encoded
+const MAX_RECEIPT_BYTES = 3 * 1024 * 1024
+const RECEIPT_MAX_DIMENSION = 2000
+
+/**
+ * Resolve the MIME type of a receipt image, or null if unsupported
+ */
+export function getReceiptMimeType(file: File): string | null {
+  if (Object.values(RECEIPT_MIME_BY_EXTENSION).includes(file.type)) {
+    return file.type
+  }
+  const ext = file.name.split('.').pop()?.toLowerCase() || ''
+  return RECEIPT_MIME_BY_EXTENSION[ext] || null
+}
+
+/**
+ * Read a Blob as base64 (without the data URL prefix)
+ */
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve((reader.result as string).split(',')[1] || '')
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+/**
+ * Downscale a large JPEG/PNG photo to a JPEG that fits the upload limit.
+ * HEIC can't be drawn to a canvas in most browsers, so it is sent as-is.
+ */
+async function shrinkReceiptImage(file: File): Promise<Blob | null> {
+  const bitmap = await createImageBitmap(file).catch(() => null)
+  if (!bitmap) return null
+
+  const scale = Math.min(1, RECEIPT_MAX_DIMENSION / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(bitmap.width * scale)
+  canvas.height = Math.round(bitmap.height * scale)
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85))
+}
+
+/**
+ * Parse a receipt photo using the secure backend API
+ * Returns the same shape as parseTransactions() so it can feed the review flow
+ */
+export async function parseReceipt(
+  file: File,
+  customCategories?: CustomCategory[]
+): Promise<BulkParseResult> {
+  const currentDateTime = getCurrentISODateTime()
+  const fallbackDateTime = currentDateTime.slice(0, 19)
+
+  let mimeType = getReceiptMimeType(file)
+  if (!mimeType) {
+    return {
+      transactions: [],
+      error: 'Unsupported image',
+      reason: 'Receipt must be a JPEG, PNG or HEIC image',
+    }
+  }
+
+  try {
+    let image: Blob = file
+    if (file.size > MAX_RECEIPT_BYTES) {
+      const shrunk = await shrinkReceiptImage(file)
+      if (!shrunk || shrunk.size > MAX_RECEIPT_BYTES) {
+        return {
+          transactions: [],
+          error: 'Image too large',
+          reason: `Receipt image must be under ${MAX_RECEIPT_BYTES / (1024 * 1024)}MB`,
+        }
+      }
+      image = shrunk
+      mimeType = 'image/jpeg'
     }
 
-    if (transactions.length === 0) {
+    const response = await fetch('/api/analyze-receipt', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({
+        image: await blobToBase64(image),
+        mimeType,
+        currentDateTime,
+        customCategories: customCategories || [],
+      }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      console.error('API error:', response.status)
       return {
         transactions: [],
-        error: 'No valid transactions',
-        reason: 'Could not extract any valid transactions from the text',
+        error: errorData.error || 'API error',
+        reason: errorData.reason || `HTTP ${response.status}`,
       }
     }
 
-    return { transactions }
+    const parsed = await response.json()
+
+    return normalizeBulkResponse(parsed, fallbackDateTime)
 
   } catch (error) {
-    console.error('Parse transactions error:', error)
-    
+    console.error('Parse receipt error:', error)
+
     if (error instanceof SyntaxError) {
       return {
         transactions: [],
@@ -214,6 +716,28 @@ export function isAIConfigured(): boolean {
   return true
 }
 
+export interface AIUsage {
+  usedToday: number
+  dailyLimit: number
+  perMinuteLimit: number
+  remaining: number
+  resetsAt: string // ISO - limits reset at midnight UTC
+}
+
+/**
+ * Today's AI request count and limits for the signed-in user
+ */
+export async function getAIUsage(): Promise<AIUsage | null> {
+  try {
+    const response = await fetch('/api/usage', { headers: await getAuthHeaders() })
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    return (await response.json()) as AIUsage
+  } catch (error) {
+    console.error('Error fetching AI usage:', error)
+    return null
+  }
+}
+
 /**
  * Result of matching payment hint to user's accounts/cards
  */
@@ -6,6 +6,7 @@
  */
 
 import type { Transaction, Beneficiary } from '@/types/database'
+import { formatCurrency } from './utils'
 
 // ============================================
 // TYPES
@@ -285,13 +286,14 @@ export function calculateMonthlyTrends(
 // ============================================
 
 /**
- * Filter transactions based on options
+ * Filter transactions based on options. Transfers between the user's own
+ * accounts are never income or expense, so they are always left out.
  */
 function filterTransactions(
   transactions: Transaction[],
   options: AnalyticsOptions
 ): Transaction[] {
-  let result = [...transactions]
+  let result = transactions.filter(tx => tx.direction !== 'transfer')
   
   if (options.startDate) {
     const start = options.startDate.toISOString().split('T')[0]
@@ -318,12 +320,7 @@ function filterTransactions(
  * Format currency amount
  */
 export function formatAmount(amount: number, currency = 'SAR'): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency,
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2
-  }).format(amount)
+  return formatCurrency(amount, currency, 'en-US')
 }
 
 /**
@@ -0,0 +1,78 @@
+/**
+ * Chat Sessions
+ *
+ * Stored conversations with the spending assistant. /api/chat creates
+ * sessions and appends the messages; the app lists, reopens, renames and
+ * deletes them here.
+ */
+
+import { supabase } from '@/services/supabase'
+import type { ChatSession, ChatMessage } from '@/types/database'
+
+/**
+ * A user's conversations, most recently active first
+ */
+export async function getChatSessions(userId: string): Promise<ChatSession[]> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching chat sessions:', error)
+    return []
+  }
+
+  return (data || []) as ChatSession[]
+}
+
+/**
+ * Messages of one conversation, oldest first
+ */
+export async function getChatMessages(sessionId: string): Promise<ChatMessage[]> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching chat messages:', error)
+    return []
+  }
+
+  return (data || []) as ChatMessage[]
+}
+
+export async function renameChatSession(sessionId: string, title: string): Promise<{ success: boolean; error?: string }> {
+  const trimmed = title.trim()
+  if (!trimmed) return { success: false, error: 'Title is required' }
+
+  const { error } = await supabase
+    .from('chat_sessions')
+    .update({ title: trimmed } as never)
+    .eq('id', sessionId)
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Delete a conversation and its messages
+ */
+export async function deleteChatSession(sessionId: string): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase
+    .from('chat_sessions')
+    .delete()
+    .eq('id', sessionId)
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  return { success: true }
+}
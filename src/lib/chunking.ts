@@ -0,0 +1,121 @@
+/**
+ * Chunking
+ *
+ * Large pastes (a month of bank SMS) overflow a single parse request - the
+ * model's output gets cut off mid-JSON. This module splits the messages into
+ * request-sized chunks without cutting any message in half, and runs the
+ * chunk requests through a small worker pool.
+ */
+
+import type { SourceSpan } from './sourceSpans'
+import { SEGMENT_JOINER } from './sourceSpans'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ParseChunk {
+  index: number
+  text: string // Segments joined with SEGMENT_JOINER, as sent to the parser
+  segments: SourceSpan[] // Where each segment sits in the pasted text
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Per-request budget - well under what /api/analyze can answer in one response
+export const MAX_CHUNK_MESSAGES = 20
+export const MAX_CHUNK_CHARS = 4000
+
+// Parse requests in flight at once
+export const CHUNK_CONCURRENCY = 3
+
+// ============================================
+// SPLITTING
+// ============================================
+
+/**
+ * Split an oversized segment on line breaks, for dumps that put one message
+ * per line with no blank lines between them
+ */
+export function splitLongSegment(text: string, segment: SourceSpan): SourceSpan[] {
+  const lines: SourceSpan[] = []
+  let cursor = segment.start
+
+  for (const line of text.slice(segment.start, segment.end).split('\n')) {
+    const leading = line.length - line.trimStart().length
+    const trimmed = line.trim()
+    if (trimmed) {
+      lines.push({ start: cursor + leading, end: cursor + leading + trimmed.length })
+    }
+    cursor += line.length + 1
+  }
+
+  return lines
+}
+
+/**
+ * Group segments of `text` into chunks of at most MAX_CHUNK_MESSAGES
+ * segments / MAX_CHUNK_CHARS characters, keeping their order. A single
+ * segment longer than the limit still gets a chunk of its own.
+ */
+export function chunkSegments(text: string, segments: SourceSpan[]): ParseChunk[] {
+  const pieces = segments.flatMap(segment =>
+    segment.end - segment.start > MAX_CHUNK_CHARS ? splitLongSegment(text, segment) : [segment]
+  )
+
+  const chunks: ParseChunk[] = []
+  let current: SourceSpan[] = []
+  let currentLength = 0
+
+  const flush = () => {
+    if (current.length === 0) return
+    chunks.push({
+      index: chunks.length,
+      text: current.map(s => text.slice(s.start, s.end)).join(SEGMENT_JOINER),
+      segments: current,
+    })
+    current = []
+    currentLength = 0
+  }
+
+  for (const piece of pieces) {
+    const length = piece.end - piece.start + SEGMENT_JOINER.length
+    if (current.length >= MAX_CHUNK_MESSAGES || (current.length > 0 && currentLength + length > MAX_CHUNK_CHARS)) {
+      flush()
+    }
+    current.push(piece)
+    currentLength += length
+  }
+  flush()
+
+  return chunks
+}
+
+// ============================================
+// WORKER POOL
+// ============================================
+
+/**
+ * Run `worker` over every item with at most `limit` running at once.
+ * Results come back in input order regardless of completion order.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+
+  const runWorker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await worker(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runWorker))
+  return results
+}
@@ -0,0 +1,154 @@
+/**
+ * Field Confidence
+ *
+ * Per-field certainty for parsed transactions. Every field carries a score
+ * (0-1) and where the value came from, so review screens can point the
+ * user at guessed values instead of making them re-check everything.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Where a parsed value came from
+ * - extracted: read explicitly from the source text
+ * - inferred:  guessed from context (e.g. category from merchant name)
+ * - defaulted: not present, a default was filled in (SAR, "today", Other)
+ * - rule:      applied from one of the user's learned category rules
+ */
+export type FieldSource = 'extracted' | 'inferred' | 'defaulted' | 'rule'
+
+export interface FieldConfidence {
+  score: number // 0-1
+  source: FieldSource
+}
+
+export type ConfidenceField =
+  | 'amount'
+  | 'currency'
+  | 'category'
+  | 'merchant'
+  | 'transaction_datetime'
+  | 'direction'
+  | 'payment_hint'
+
+export type FieldConfidenceMap = Partial<Record<ConfidenceField, FieldConfidence>>
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const CONFIDENCE_FIELDS: ConfidenceField[] = [
+  'amount',
+  'currency',
+  'category',
+  'merchant',
+  'transaction_datetime',
+  'direction',
+  'payment_hint',
+]
+
+export const CONFIDENCE_FIELD_LABELS: Record<ConfidenceField, string> = {
+  amount: 'Amount',
+  currency: 'Currency',
+  category: 'Category',
+  merchant: 'Merchant',
+  transaction_datetime: 'Date',
+  direction: 'Direction',
+  payment_hint: 'Payment method',
+}
+
+// Scores below this are highlighted for review
+export const LOW_CONFIDENCE_THRESHOLD = 0.7
+
+// Score used when only the source is known
+const DEFAULT_SCORES: Record<FieldSource, number> = {
+  extracted: 0.95,
+  rule: 0.9,
+  inferred: 0.6,
+  defaulted: 0.3,
+}
+
+const FIELD_SOURCES: FieldSource[] = ['extracted', 'inferred', 'defaulted', 'rule']
+
+export const FIELD_SOURCE_LABELS: Record<FieldSource, string> = {
+  extracted: 'Read from message',
+  inferred: 'Guessed',
+  defaulted: 'Default value',
+  rule: 'Your rule',
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Build a field confidence, using the source's default score when none is given
+ */
+export function fieldConfidence(source: FieldSource, score?: number): FieldConfidence {
+  return { score: score ?? DEFAULT_SCORES[source], source }
+}
+
+/**
+ * Sanitize a confidence map from an untrusted source (API response, JSONB column).
+ * Unknown fields and malformed entries are dropped.
+ */
+export function normalizeConfidenceMap(raw: unknown): FieldConfidenceMap {
+  const map: FieldConfidenceMap = {}
+  if (!raw || typeof raw !== 'object') return map
+
+  for (const field of CONFIDENCE_FIELDS) {
+    const entry = (raw as Record<string, unknown>)[field]
+    if (!entry || typeof entry !== 'object') continue
+
+    const { score, source } = entry as { score?: unknown; source?: unknown }
+    if (!FIELD_SOURCES.includes(source as FieldSource)) continue
+
+    map[field] = fieldConfidence(
+      source as FieldSource,
+      typeof score === 'number' && Number.isFinite(score) ? Math.min(1, Math.max(0, score)) : undefined
+    )
+  }
+
+  return map
+}
+
+/**
+ * Whether a field should be highlighted for review. Fields without a
+ * confidence entry are treated as unknown, not low.
+ */
+export function isLowConfidence(map: FieldConfidenceMap | undefined, field: ConfidenceField): boolean {
+  const entry = map?.[field]
+  return !!entry && entry.score < LOW_CONFIDENCE_THRESHOLD
+}
+
+/**
+ * Fields of a row that should be highlighted for review
+ */
+export function getLowConfidenceFields(map: FieldConfidenceMap | undefined): ConfidenceField[] {
+  return CONFIDENCE_FIELDS.filter(field => isLowConfidence(map, field))
+}
+
+/**
+ * Tooltip text, e.g. "Guessed (60%)"
+ */
+export function describeConfidence(entry: FieldConfidence | undefined): string | undefined {
+  if (!entry) return undefined
+  return `${FIELD_SOURCE_LABELS[entry.source]} (${Math.round(entry.score * 100)}%)`
+}
+
+/**
+ * Mark fields as confirmed by the user (after an edit), clearing their highlight
+ */
+export function markFieldsReviewed(
+  map: FieldConfidenceMap | undefined,
+  fields: ConfidenceField[]
+): FieldConfidenceMap | undefined {
+  if (!map) return map
+  const next = { ...map }
+  for (const field of fields) {
+    delete next[field]
+  }
+  return next
+}
@@ -42,6 +42,21 @@ export const CATEGORY_COLORS: Record<string, string> = {
   'Other': 'bg-slate-500/20 border-slate-500/30 text-slate-400',
 }
 
+// Category colors for charts (hex - recharts can't use Tailwind classes)
+export const CATEGORY_CHART_COLORS: Record<string, string> = {
+  'Food & Dining': '#f59e0b',
+  'Transportation': '#3b82f6',
+  'Shopping': '#8b5cf6',
+  'Bills & Utilities': '#f97316',
+  'Groceries': '#22c55e',
+  'Health': '#ec4899',
+  'Transfer': '#06b6d4',
+  'Other': '#64748b',
+}
+
+// Chart colors for slices that aren't a known category (merchants, custom categories)
+export const CHART_FALLBACK_COLORS = ['#10b981', '#6366f1', '#eab308', '#14b8a6', '#a855f7', '#ef4444', '#0ea5e9', '#84cc16']
+
 // Default category when none is detected
 export const DEFAULT_CATEGORY = 'Other'
 
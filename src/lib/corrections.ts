@@ -0,0 +1,171 @@
+/**
+ * Parse Corrections
+ *
+ * When the user fixes a parsed row in the review screen, the raw message and
+ * the before/after values are stored. /api/analyze replays the most similar
+ * ones as examples, so the parser learns each user's banks and habits.
+ */
+
+import { supabase } from '@/services/supabase'
+import type { ParseCorrection, TransactionDirection } from '@/types/database'
+import type { ParsedTransaction } from './ai'
+
+// ============================================
+// TYPES
+// ============================================
+
+// Fields the user can correct, in the shape the parser returns them
+export interface ParseCorrectionFields {
+  amount: number
+  currency: string
+  category: string
+  merchant: string | null
+  transaction_datetime: string
+  direction: TransactionDirection
+  payment_hint: string | null
+}
+
+export type CorrectionField = keyof ParseCorrectionFields
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const CORRECTION_FIELDS: CorrectionField[] = [
+  'amount',
+  'currency',
+  'category',
+  'merchant',
+  'transaction_datetime',
+  'direction',
+  'payment_hint',
+]
+
+// Longer inputs are almost never a single message and make poor examples
+const MAX_RAW_INPUT_LENGTH = 1000
+
+// ============================================
+// DIFFING
+// ============================================
+
+/**
+ * Snapshot of the correctable fields of a parsed row
+ */
+export function pickCorrectionFields(tx: ParsedTransaction): ParseCorrectionFields {
+  return {
+    amount: tx.amount,
+    currency: tx.currency,
+    category: tx.category,
+    merchant: tx.merchant,
+    transaction_datetime: tx.transaction_datetime,
+    direction: tx.direction,
+    payment_hint: tx.payment_hint,
+  }
+}
+
+/**
+ * Fields whose value differs between the parser's output and the saved row
+ */
+export function diffCorrection(original: ParseCorrectionFields, corrected: ParseCorrectionFields): CorrectionField[] {
+  return CORRECTION_FIELDS.filter(field => (original[field] ?? null) !== (corrected[field] ?? null))
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+/**
+ * Store a correction. Does nothing if no field actually changed.
+ * cacheKey is the parse cache entry the corrected row came from.
+ */
+export async function saveParseCorrection(
+  userId: string,
+  rawInput: string,
+  original: ParseCorrectionFields,
+  corrected: ParseCorrectionFields,
+  cacheKey?: string
+): Promise<{ success: boolean; error?: string }> {
+  const fieldsChanged = diffCorrection(original, corrected)
+  const input = rawInput.trim()
+  if (fieldsChanged.length === 0 || !input || input.length > MAX_RAW_INPUT_LENGTH) {
+    return { success: true }
+  }
+
+  const { error } = await supabase
+    .from('parse_corrections')
+    .insert({
+      user_id: userId,
+      raw_input: input,
+      original,
+      corrected,
+      fields_changed: fieldsChanged,
+    } as never)
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  if (!cacheKey) return { success: true }
+
+  // The cached parse predates this correction - drop it so re-pasting the
+  // same text is parsed again with the correction as an example
+  const { error: cacheError } = await supabase
+    .from('parse_cache')
+    .delete()
+    .eq('user_id', userId)
+    .eq('cache_key', cacheKey)
+
+  if (cacheError) console.error('Error clearing parse cache entry:', cacheError)
+
+  return { success: true }
+}
+
+/**
+ * All stored corrections for a user, newest first
+ */
+export async function getParseCorrections(userId: string): Promise<ParseCorrection[]> {
+  const { data, error } = await supabase
+    .from('parse_corrections')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching parse corrections:', error)
+    return []
+  }
+
+  return (data || []) as ParseCorrection[]
+}
+
+/**
+ * Delete a single correction
+ */
+export async function deleteParseCorrection(correctionId: string): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase
+    .from('parse_corrections')
+    .delete()
+    .eq('id', correctionId)
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Delete every correction for a user
+ */
+export async function clearParseCorrections(userId: string): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase
+    .from('parse_corrections')
+    .delete()
+    .eq('user_id', userId)
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  return { success: true }
+}
@@ -1,30 +1,70 @@
 /**
  * Currency Conversion Utility
  * 
- * Handles currency conversion with hardcoded rates for MVP.
- * In production, integrate with a real-time forex API.
+ * Converts at the user's stored rate for a date (exchange_rates, loaded by
+ * lib/exchangeRates.ts), falling back to approximate reference rates for
+ * pairs and dates with no stored rate.
  */
 
-// Supported currencies
-export type Currency = 'SAR' | 'USD' | 'EUR' | 'GBP' | 'AED' | 'KWD' | 'BHD' | 'QAR' | 'OMR' | 'EGP'
+import { CURRENCY_REGISTRY, POPULAR_CURRENCIES, type CurrencyDefinition } from '../../shared/currencyRegistry'
+
+// ============================================
+// REGISTRY
+// ============================================
+
+// Any ISO 4217 code in the registry
+export type Currency = keyof typeof CURRENCY_REGISTRY
+
+export interface CurrencyInfo extends Omit<CurrencyDefinition, 'flag' | 'aliases'> {
+  flag: string
+  aliases: string[]
+}
+
+// Regional-indicator flag from the country part of the code (SAR → 🇸🇦)
+const countryFlag = (code: string) =>
+  String.fromCodePoint(...[...code.slice(0, 2)].map(c => 0x1f1a5 + c.charCodeAt(0)))
 
 // Currency metadata
-export const CURRENCIES: Record<Currency, { name: string; symbol: string; flag: string }> = {
-  SAR: { name: 'Saudi Riyal', symbol: 'ر.س', flag: '🇸🇦' },
-  USD: { name: 'US Dollar', symbol: '$', flag: '🇺🇸' },
-  EUR: { name: 'Euro', symbol: '€', flag: '🇪🇺' },
-  GBP: { name: 'British Pound', symbol: '£', flag: '🇬🇧' },
-  AED: { name: 'UAE Dirham', symbol: 'د.إ', flag: '🇦🇪' },
-  KWD: { name: 'Kuwaiti Dinar', symbol: 'د.ك', flag: '🇰🇼' },
-  BHD: { name: 'Bahraini Dinar', symbol: 'د.ب', flag: '🇧🇭' },
-  QAR: { name: 'Qatari Riyal', symbol: 'ر.ق', flag: '🇶🇦' },
-  OMR: { name: 'Omani Rial', symbol: 'ر.ع', flag: '🇴🇲' },
-  EGP: { name: 'Egyptian Pound', symbol: 'ج.م', flag: '🇪🇬' },
-}
-
-// Exchange rates to SAR (base currency)
-// These are approximate rates - in production, use a real-time API
-const RATES_TO_SAR: Record<Currency, number> = {
+export const CURRENCIES = Object.fromEntries(
+  Object.entries(CURRENCY_REGISTRY).map(([code, definition]: [string, CurrencyDefinition]) => [code, {
+    ...definition,
+    flag: definition.flag || countryFlag(code),
+    aliases: definition.aliases || [],
+  }])
+) as Record<Currency, CurrencyInfo>
+
+// Popular currencies first, then the rest by code
+const CURRENCY_ORDER: Currency[] = [
+  ...POPULAR_CURRENCIES,
+  ...(Object.keys(CURRENCIES) as Currency[]).filter(code => !(POPULAR_CURRENCIES as readonly string[]).includes(code)).sort(),
+]
+
+export function isCurrency(code: string | null | undefined): code is Currency {
+  return !!code && Object.prototype.hasOwnProperty.call(CURRENCIES, code)
+}
+
+/**
+ * Decimal places for a currency (KWD 3, JPY 0); 2 for unknown codes
+ */
+export function getMinorUnits(currency: string): number {
+  return isCurrency(currency) ? CURRENCIES[currency].minorUnits : 2
+}
+
+/**
+ * Round to the currency's smallest unit
+ */
+export function roundToMinorUnits(amount: number, currency: string): number {
+  const factor = 10 ** getMinorUnits(currency)
+  return Math.round(amount * factor) / factor
+}
+
+// ============================================
+// REFERENCE RATES
+// ============================================
+
+// Approximate reference rates to SAR - used when no stored rate applies.
+// Mirrored by reference_rate_to_sar() in the database.
+const RATES_TO_SAR: Partial<Record<Currency, number>> = {
   SAR: 1,
   USD: 3.75,
   EUR: 4.08,
@@ -35,76 +75,243 @@ const RATES_TO_SAR: Record<Currency, number> = {
   QAR: 1.03,
   OMR: 9.74,
   EGP: 0.077,
+  JOD: 5.29,
+  IQD: 0.00286,
+  LBP: 0.0000419,
+  MAD: 0.41,
+  TND: 1.27,
+  DZD: 0.0289,
+  LYD: 0.69,
+  YER: 0.015,
+  TRY: 0.0915,
+  INR: 0.0426,
+  PKR: 0.0133,
+  BDT: 0.0307,
+  LKR: 0.0124,
+  NPR: 0.0266,
+  PHP: 0.064,
+  IDR: 0.000226,
+  MYR: 0.89,
+  SGD: 2.89,
+  THB: 0.115,
+  CNY: 0.526,
+  HKD: 0.482,
+  JPY: 0.025,
+  KRW: 0.0027,
+  AUD: 2.45,
+  NZD: 2.17,
+  CAD: 2.69,
+  CHF: 4.69,
+  SEK: 0.395,
+  NOK: 0.37,
+  DKK: 0.547,
+  ZAR: 0.215,
+  RUB: 0.046,
+  BRL: 0.69,
+  MXN: 0.2,
+}
+
+// ============================================
+// HISTORICAL RATES
+// ============================================
+
+export interface HistoricalRate {
+  date: string  // YYYY-MM-DD
+  base: string  // 1 base...
+  quote: string // ...= rate quote
+  rate: number
+}
+
+// Stored rates by pair ("USD>SAR"), newest first
+const historicalRates = new Map<string, { date: string; rate: number }[]>()
+
+const pairKey = (base: string, quote: string) => `${base}>${quote}`
+
+/**
+ * Replace the stored rates used for conversions
+ */
+export function setHistoricalRates(rates: HistoricalRate[]): void {
+  historicalRates.clear()
+  for (const { date, base, quote, rate } of rates) {
+    if (!(rate > 0) || base === quote) continue
+    const key = pairKey(base, quote)
+    const list = historicalRates.get(key) || []
+    list.push({ date, rate })
+    historicalRates.set(key, list)
+  }
+  for (const list of historicalRates.values()) {
+    list.sort((a, b) => b.date.localeCompare(a.date))
+  }
 }
 
 /**
- * Convert amount from one currency to another
+ * Latest stored rate for a pair on or before the date, from the pair or its
+ * inverse, with the date it was quoted
+ */
+function findHistoricalRate(from: string, to: string, date: string): { date: string; rate: number } | null {
+  const direct = historicalRates.get(pairKey(from, to))?.find(r => r.date <= date)
+  const inverse = historicalRates.get(pairKey(to, from))?.find(r => r.date <= date)
+  if (direct && (!inverse || direct.date >= inverse.date)) return direct
+  if (inverse) return { date: inverse.date, rate: 1 / inverse.rate }
+  return null
+}
+
+// ============================================
+// CONVERSION
+// ============================================
+
+/**
+ * Get exchange rate between two currencies on a date (default: today).
+ * A stored rate for the pair wins; otherwise each side goes through SAR,
+ * stored rate first, reference rate second. Null when nothing links them.
+ */
+export function getExchangeRate(from: Currency, to: Currency, date?: string): number | null {
+  if (from === to) return 1
+  const day = (date || new Date().toISOString()).split('T')[0]
+
+  const stored = findHistoricalRate(from, to, day)
+  if (stored) return stored.rate
+
+  const fromReference = RATES_TO_SAR[from]
+  const toReference = RATES_TO_SAR[to]
+  const toSAR = from === 'SAR' ? 1 : findHistoricalRate(from, 'SAR', day)?.rate ?? fromReference
+  const fromSAR = to === 'SAR' ? 1 : findHistoricalRate('SAR', to, day)?.rate ?? (toReference && 1 / toReference)
+  if (!toSAR || !fromSAR) return null
+
+  return toSAR * fromSAR
+}
+
+/**
+ * Convert amount from one currency to another at the rate of a date
+ * (a transaction's transaction_date; default: today), rounded to the target
+ * currency's minor units. Null when there's no rate for the pair.
  */
 export function convertAmount(
   amount: number,
   from: Currency,
-  to: Currency
-): { convertedAmount: number; rate: number } {
+  to: Currency,
+  date?: string
+): { convertedAmount: number; rate: number } | null {
   if (from === to) {
     return { convertedAmount: amount, rate: 1 }
   }
 
-  // Convert to SAR first, then to target currency
-  const amountInSAR = amount * RATES_TO_SAR[from]
-  const convertedAmount = amountInSAR / RATES_TO_SAR[to]
-  const rate = RATES_TO_SAR[from] / RATES_TO_SAR[to]
+  const rate = getExchangeRate(from, to, date)
+  if (rate === null) return null
 
   return {
-    convertedAmount: Math.round(convertedAmount * 100) / 100,
+    convertedAmount: roundToMinorUnits(amount * rate, to),
     rate: Math.round(rate * 1000000) / 1000000,
   }
 }
 
 /**
- * Get exchange rate between two currencies
+ * Approximate reference rate, e.g. for a stubbed rate provider. Null for
+ * currencies without one.
  */
-export function getExchangeRate(from: Currency, to: Currency): number {
+export function getReferenceRate(from: Currency, to: Currency): number | null {
   if (from === to) return 1
-  return RATES_TO_SAR[from] / RATES_TO_SAR[to]
+  const fromReference = RATES_TO_SAR[from]
+  const toReference = RATES_TO_SAR[to]
+  return fromReference && toReference ? fromReference / toReference : null
 }
 
+// ============================================
+// FORMATTING
+// ============================================
+
 /**
- * Format currency amount with symbol
+ * Format currency amount with symbol, to the currency's minor units
  */
-export function formatCurrencyWithSymbol(amount: number, currency: Currency): string {
-  const { symbol } = CURRENCIES[currency] || { symbol: currency }
+export function formatCurrencyWithSymbol(amount: number, currency: string): string {
+  const symbol = isCurrency(currency) ? CURRENCIES[currency].symbol : currency
+  const digits = getMinorUnits(currency)
   const formattedAmount = new Intl.NumberFormat('en-US', {
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
   }).format(Math.abs(amount))
   
   return `${amount < 0 ? '-' : ''}${symbol}${formattedAmount}`
 }
 
+// ============================================
+// PARSING
+// ============================================
+
+// Every name a currency goes by besides its code (English and Arabic names,
+// aliases), longest first so "ريال قطري" is tried before "ريال"
+const CURRENCY_NAMES: [string, Currency][] = (Object.entries(CURRENCIES) as [Currency, CurrencyInfo][])
+  .flatMap(([code, info]) => [info.name, info.nameAr, ...info.aliases].map(name => [name, code] as [string, Currency]))
+  .sort((a, b) => b[0].length - a[0].length)
+
+const CURRENCY_BY_NAME = new Map(CURRENCY_NAMES.map(([name, code]) => [name.toLowerCase(), code]))
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// A name standing on its own: not inside another word, though Arabic
+// "ال" / "بال" / "و" may be attached ("بالريال"). Short Latin abbreviations
+// (SR, LE, KD) only match as written, so "le" or "ro" in a sentence don't.
+const NAME_PATTERNS: [RegExp, Currency][] = CURRENCY_NAMES.map(([name, code]) => [
+  new RegExp(
+    `(?<!\\p{L})(?:و?ب?ال)?${escapeRegExp(name)}(?!\\p{L})`,
+    /^[A-Za-z]{1,3}$/.test(name) ? 'u' : 'iu'
+  ),
+  code,
+])
+
+/**
+ * Currency for a code, name, symbol or alias ("kwd", "دينار", "£"),
+ * or null if it isn't one
+ */
+export function resolveCurrency(value: string | null | undefined): Currency | null {
+  if (!value) return null
+  const trimmed = value.trim()
+  if (isCurrency(trimmed.toUpperCase())) return trimmed.toUpperCase() as Currency
+  return CURRENCY_BY_NAME.get(trimmed.toLowerCase()) ?? null
+}
+
 /**
- * Parse currency from text (e.g., "$50", "50 USD", "٥٠ ريال")
+ * Every code, name and alias, longest first - for building parsers that
+ * look for a currency next to an amount
  */
-export function parseCurrencyFromText(text: string): Currency {
-  const upperText = text.toUpperCase()
-  
-  // Check for currency codes
-  for (const code of Object.keys(CURRENCIES) as Currency[]) {
-    if (upperText.includes(code)) {
-      return code
-    }
+export function getCurrencyTokens(): string[] {
+  return [...Object.keys(CURRENCIES), ...CURRENCY_NAMES.map(([name]) => name)]
+    .sort((a, b) => b.length - a.length)
+}
+
+/**
+ * Find the currency a text mentions (e.g., "$50", "50 USD", "٥٠ ريال"),
+ * or null if it names none
+ */
+export function findCurrencyInText(text: string): Currency | null {
+  // Codes next to an amount ("SAR45.00", "3.250 KWD", "18 usd"). A code on
+  // its own could be a word ("TOP UP"), and only popular codes are read in
+  // lower case ("2 cup coffee" isn't Cuban pesos).
+  for (const match of text.matchAll(/(?<![A-Za-z])([A-Za-z]{3}) ?[\d٠-٩]|[\d٠-٩] ?([A-Za-z]{3})(?![A-Za-z])/g)) {
+    const written = match[1] || match[2]
+    const code = written.toUpperCase()
+    if (isCurrency(code) && (written === code || (POPULAR_CURRENCIES as readonly string[]).includes(code))) return code
   }
-  
-  // Check for symbols
-  if (text.includes('$')) return 'USD'
-  if (text.includes('€')) return 'EUR'
-  if (text.includes('£')) return 'GBP'
-  if (text.includes('ر.س') || text.includes('ريال')) return 'SAR'
-  if (text.includes('د.إ') || text.includes('درهم')) return 'AED'
-  
-  // Default to SAR
-  return 'SAR'
+
+  // Names, symbols and aliases
+  for (const [pattern, code] of NAME_PATTERNS) {
+    if (pattern.test(text)) return code
+  }
+
+  return null
+}
+
+/**
+ * Parse currency from text, defaulting to SAR
+ */
+export function parseCurrencyFromText(text: string, fallback: Currency = 'SAR'): Currency {
+  return findCurrencyInText(text) ?? fallback
 }
 
+// ============================================
+// OPTIONS
+// ============================================
+
 /**
  * Check if currency conversion is needed
  */
@@ -112,13 +319,25 @@ export function needsConversion(transactionCurrency: Currency, accountCurrency:
   return transactionCurrency !== accountCurrency
 }
 
+/**
+ * Currencies matching a search by code, name or alias; popular ones first
+ */
+export function searchCurrencies(query: string): Currency[] {
+  const q = query.trim().toLowerCase()
+  if (!q) return CURRENCY_ORDER
+
+  return CURRENCY_ORDER.filter(code => {
+    const { name, nameAr, aliases } = CURRENCIES[code]
+    return [code, name, nameAr, ...aliases].some(value => value.toLowerCase().includes(q))
+  })
+}
+
 /**
  * Get all supported currencies as options
  */
 export function getCurrencyOptions(): { value: Currency; label: string }[] {
-  return Object.entries(CURRENCIES).map(([code, { name, flag }]) => ({
-    value: code as Currency,
-    label: `${flag} ${code} - ${name}`,
+  return CURRENCY_ORDER.map(code => ({
+    value: code,
+    label: `${CURRENCIES[code].flag} ${code} - ${CURRENCIES[code].name}`,
   }))
 }
-
@@ -0,0 +1,299 @@
+/**
+ * Exchange Rates
+ *
+ * Historical rates by date and currency pair, stored per user in
+ * exchange_rates. Rates come from a RateSource - typed in by hand, imported
+ * from a CSV, or fetched from an HTTP provider - and are handed to
+ * currency.ts once loaded, so convertAmount() converts at a transaction's
+ * own date.
+ */
+
+import Papa from 'papaparse'
+import { supabase } from '@/services/supabase'
+import type { ExchangeRate, ExchangeRateSource } from '@/types/database'
+import { CURRENCIES, getReferenceRate, setHistoricalRates, type Currency } from './currency'
+import { parseDate } from './reconciliation'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RateQuote {
+  date: string  // YYYY-MM-DD
+  base: string  // 1 base...
+  quote: string // ...= rate quote
+  rate: number
+}
+
+/**
+ * Somewhere rates come from. load() returns the quotes; storing them is up
+ * to importExchangeRates().
+ */
+export interface RateSource {
+  kind: ExchangeRateSource
+  label: string
+  load: () => Promise<RateQuote[]>
+}
+
+export interface HttpRateSourceOptions {
+  url?: string              // Template with {date}, {base} and {quotes}; "stub" for reference rates
+  fetchImpl?: typeof fetch  // Swap in a stub for local testing
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Free daily rates with history back to 2024, no API key
+const DEFAULT_PROVIDER_URL = 'https://cdn.jsdelivr.net/npm/@fawazahmed0/currency-api@{date}/v1/currencies/{base}.json'
+
+// CSV column name mappings, like the statement import
+const RATE_COLUMN_MAPPINGS: Record<keyof RateQuote, string[]> = {
+  date: ['date', 'rate date', 'day', 'التاريخ'],
+  base: ['base', 'from', 'base currency', 'currency from'],
+  quote: ['quote', 'to', 'quote currency', 'currency to'],
+  rate: ['rate', 'value', 'price', 'السعر'],
+}
+
+// Largest upsert per request
+const SAVE_CHUNK_SIZE = 500
+
+// ============================================
+// VALIDATION
+// ============================================
+
+const isCurrencyCode = (code: string) => /^[A-Z]{3}$/.test(code)
+
+/**
+ * A quote with a real date, two different currency codes and a positive
+ * rate, or null
+ */
+function normalizeQuote(quote: RateQuote): RateQuote | null {
+  const date = parseDate(quote.date)
+  const base = quote.base.trim().toUpperCase()
+  const symbol = quote.quote.trim().toUpperCase()
+  if (!date || !isCurrencyCode(base) || !isCurrencyCode(symbol) || base === symbol) return null
+  if (!(quote.rate > 0) || !isFinite(quote.rate)) return null
+  return { date, base, quote: symbol, rate: quote.rate }
+}
+
+// ============================================
+// RATE SOURCES
+// ============================================
+
+/**
+ * One rate typed in by the user
+ */
+export function manualRateSource(quote: RateQuote): RateSource {
+  return {
+    kind: 'manual',
+    label: 'Manual entry',
+    load: async () => {
+      const normalized = normalizeQuote(quote)
+      if (!normalized) throw new Error('Enter a date, two different currencies and a rate above 0')
+      return [normalized]
+    },
+  }
+}
+
+/**
+ * A CSV of rates with date, base, quote and rate columns
+ * (e.g. "2025-01-31,EUR,SAR,3.89")
+ */
+export function csvRateSource(file: File): RateSource {
+  return {
+    kind: 'csv',
+    label: file.name,
+    load: () => new Promise((resolve, reject) => {
+      Papa.parse(file, {
+        header: true,
+        skipEmptyLines: true,
+        transformHeader: (header) => header.toLowerCase().trim(),
+        complete: (results) => {
+          const headers = results.meta.fields || []
+          const column = (field: keyof RateQuote) =>
+            headers.find(h => RATE_COLUMN_MAPPINGS[field].includes(h)) || null
+
+          const columns = {
+            date: column('date'),
+            base: column('base'),
+            quote: column('quote'),
+            rate: column('rate'),
+          }
+          const missing = (Object.keys(columns) as (keyof RateQuote)[]).filter(field => !columns[field])
+          if (missing.length > 0) {
+            reject(new Error(`Could not find a ${missing.join(', ')} column`))
+            return
+          }
+
+          const quotes: RateQuote[] = []
+          for (const row of results.data as Record<string, string>[]) {
+            const quote = normalizeQuote({
+              date: row[columns.date!] || '',
+              base: row[columns.base!] || '',
+              quote: row[columns.quote!] || '',
+              rate: parseFloat((row[columns.rate!] || '').replace(/,/g, '')),
+            })
+            if (quote) quotes.push(quote)
+          }
+          resolve(quotes)
+        },
+        error: (error) => reject(error),
+      })
+    }),
+  }
+}
+
+/**
+ * Rates for one date from an HTTP provider. Understands the default
+ * provider's response ({ "sar": { "usd": 0.2667 } }) and the common
+ * { "rates": { "USD": 0.2667 } } shape. With url "stub" it returns the
+ * app's reference rates without going to the network.
+ */
+export function httpRateSource(
+  date: string,
+  base: Currency,
+  quotes: Currency[],
+  options: HttpRateSourceOptions = {}
+): RateSource {
+  const url = options.url || import.meta.env.VITE_EXCHANGE_RATE_URL || DEFAULT_PROVIDER_URL
+  const symbols = quotes.filter(q => q !== base)
+
+  if (url === 'stub') {
+    return {
+      kind: 'provider',
+      label: 'Reference rates (stub)',
+      load: async () => symbols.flatMap(quote => {
+        const rate = getReferenceRate(base, quote)
+        return rate === null ? [] : [{ date, base, quote, rate }]
+      }),
+    }
+  }
+
+  return {
+    kind: 'provider',
+    label: 'Rate provider',
+    load: async () => {
+      const fetchImpl = options.fetchImpl || fetch
+      const response = await fetchImpl(
+        url
+          .replace('{date}', date)
+          .replace('{base}', base.toLowerCase())
+          .replace('{quotes}', symbols.join(','))
+      )
+      if (!response.ok) throw new Error(`Rate provider returned ${response.status}`)
+
+      const body = await response.json() as Record<string, unknown>
+      const table = (body.rates || body[base.toLowerCase()] || {}) as Record<string, unknown>
+      const lookup = new Map(Object.entries(table).map(([code, rate]) => [code.toUpperCase(), Number(rate)]))
+
+      return symbols
+        .map(quote => normalizeQuote({ date, base, quote, rate: lookup.get(quote) ?? NaN }))
+        .filter((quote): quote is RateQuote => quote !== null)
+    },
+  }
+}
+
+/**
+ * Provider source for every supported currency against the base
+ */
+export function defaultRateProvider(date: string, base: Currency): RateSource {
+  return httpRateSource(date, base, Object.keys(CURRENCIES) as Currency[])
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+/**
+ * Get a user's stored rates, newest first
+ */
+export async function getExchangeRates(userId: string): Promise<ExchangeRate[]> {
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('*')
+    .eq('user_id', userId)
+    .order('rate_date', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching exchange rates:', error)
+    return []
+  }
+
+  return (data || []) as ExchangeRate[]
+}
+
+/**
+ * Load the user's rates into the converter. Returns them for display.
+ */
+export async function loadExchangeRates(userId: string): Promise<ExchangeRate[]> {
+  const rates = await getExchangeRates(userId)
+  setHistoricalRates(rates.map(r => ({
+    date: r.rate_date,
+    base: r.base_currency,
+    quote: r.quote_currency,
+    rate: Number(r.rate),
+  })))
+  return rates
+}
+
+/**
+ * Load a source's rates and store them. A rate for the same date and pair
+ * is replaced.
+ */
+export async function importExchangeRates(
+  userId: string,
+  source: RateSource
+): Promise<{ success: boolean; imported: number; error?: string }> {
+  let quotes: RateQuote[]
+  try {
+    quotes = await source.load()
+  } catch (error) {
+    console.error('Error loading exchange rates:', error)
+    return { success: false, imported: 0, error: error instanceof Error ? error.message : 'Could not load rates' }
+  }
+
+  if (quotes.length === 0) {
+    return { success: false, imported: 0, error: 'No rates found' }
+  }
+
+  const rows = quotes.map(q => ({
+    user_id: userId,
+    rate_date: q.date,
+    base_currency: q.base,
+    quote_currency: q.quote,
+    rate: q.rate,
+    source: source.kind,
+  }))
+
+  for (let i = 0; i < rows.length; i += SAVE_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from('exchange_rates')
+      .upsert(rows.slice(i, i + SAVE_CHUNK_SIZE) as never, {
+        onConflict: 'user_id,rate_date,base_currency,quote_currency'
+      })
+
+    if (error) {
+      console.error('Error saving exchange rates:', error)
+      return { success: false, imported: i, error: error.message }
+    }
+  }
+
+  return { success: true, imported: rows.length }
+}
+
+/**
+ * Delete a stored rate
+ */
+export async function deleteExchangeRate(rateId: string): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase
+    .from('exchange_rates')
+    .delete()
+    .eq('id', rateId)
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  return { success: true }
+}
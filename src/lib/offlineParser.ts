@@ -0,0 +1,132 @@
+/**
+ * Offline Parser
+ *
+ * Degraded-mode parsing for when /api/analyze can't be reached (no signal,
+ * server down). Builds a rough draft per message from the keyword helpers in
+ * transactionFilter plus the user's learned category rules, and marks every
+ * field low-confidence so the review screen asks the user to check it.
+ * Drafts are re-parsed by the AI once it is reachable again (reparseQueue).
+ */
+
+import { format } from 'date-fns'
+import type { CategoryRule } from '@/types/database'
+import type { ParsedTransaction } from './ai'
+import { fieldConfidence } from './confidence'
+import { findCurrencyInText } from './currency'
+import { findCategoryRule } from './reconciliation'
+import type { SourceSpan } from './sourceSpans'
+import { extractAmount, inferCategory, inferDirection } from './transactionFilter'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Learned rules cached on the device, so they still apply without a connection
+const RULES_STORAGE_KEY = 'rqeeb_category_rules'
+
+// Scores for drafted fields - all below LOW_CONFIDENCE_THRESHOLD
+const AMOUNT_SCORE = 0.6
+const GUESS_SCORE = 0.4
+
+// Words that say what happened rather than where - dropped from the merchant guess
+const FILLER_WORDS = new Set([
+  'sar', 'sr', 'usd', 'aed', 'eur', 'gbp', 'riyal', 'riyals',
+  'paid', 'spent', 'bought', 'purchase', 'purchased', 'payment', 'for', 'at', 'on', 'to', 'from', 'in',
+  'received', 'got', 'the', 'a', 'an', 'my',
+])
+
+const MAX_MERCHANT_WORDS = 4
+
+// ============================================
+// RULE CACHE
+// ============================================
+
+/**
+ * Keep a copy of the user's active rules for offline use
+ */
+export function cacheCategoryRules(rules: CategoryRule[]): void {
+  try {
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules))
+  } catch (error) {
+    console.error('Error caching category rules:', error)
+  }
+}
+
+function getCachedCategoryRules(): CategoryRule[] {
+  try {
+    const stored = localStorage.getItem(RULES_STORAGE_KEY)
+    return stored ? (JSON.parse(stored) as CategoryRule[]) : []
+  } catch {
+    return []
+  }
+}
+
+// ============================================
+// DRAFTING
+// ============================================
+
+/**
+ * Best guess at the merchant: the words left after removing numbers,
+ * currencies and verbs - "coffee 18" -> "Coffee", "paid 40 at Jarir" -> "Jarir"
+ */
+function guessMerchant(text: string): string | null {
+  const words = text
+    .replace(/[\d٠-٩][\d٠-٩,.]*/g, ' ')
+    .split(/[\s,.;:!?*/\\()-]+/)
+    .filter(word => word && !FILLER_WORDS.has(word.toLowerCase()))
+    .slice(0, MAX_MERCHANT_WORDS)
+
+  if (words.length === 0) return null
+  return words
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+/**
+ * Draft a transaction from one message, or null if it has no amount
+ */
+function draftTransaction(text: string, span: SourceSpan, rules: CategoryRule[], now: Date): ParsedTransaction | null {
+  const amount = extractAmount(text)
+  if (!amount) return null
+
+  const currency = findCurrencyInText(text)
+  const merchant = guessMerchant(text)
+  const rule = findCategoryRule(text, rules)
+
+  return {
+    amount,
+    currency: currency || 'SAR',
+    category: rule ? rule.category : inferCategory(text),
+    merchant,
+    transaction_datetime: format(now, "yyyy-MM-dd'T'HH:mm:ss"),
+    direction: inferDirection(text),
+    payment_hint: null,
+    notes: null,
+    description: null,
+    source_span: span,
+    category_rule_id: rule?.id,
+    offline_draft: true,
+    confidence: {
+      amount: fieldConfidence('inferred', AMOUNT_SCORE),
+      currency: currency ? fieldConfidence('inferred', GUESS_SCORE) : fieldConfidence('defaulted'),
+      category: rule ? fieldConfidence('rule', Math.min(rule.confidence, GUESS_SCORE)) : fieldConfidence('inferred', GUESS_SCORE),
+      merchant: fieldConfidence('inferred', GUESS_SCORE),
+      transaction_datetime: fieldConfidence('defaulted'),
+      direction: fieldConfidence('inferred', GUESS_SCORE),
+    },
+  }
+}
+
+/**
+ * Draft transactions for the given messages of `text` without the AI
+ */
+export function parseTransactionsOffline(
+  text: string,
+  segments: SourceSpan[],
+  now: Date = new Date()
+): ParsedTransaction[] {
+  const rules = getCachedCategoryRules()
+  return segments
+    .map(span => draftTransaction(text.slice(span.start, span.end), span, rules, now))
+    .filter((tx): tx is ParsedTransaction => tx !== null)
+}
@@ -0,0 +1,161 @@
+/**
+ * Raw Logs
+ *
+ * Every message the user pastes is kept as a raw_logs row, and transactions
+ * parsed from it point back to it through raw_log_id - so any transaction
+ * can show the exact text it came from. Inputs that fail to parse are kept
+ * too, as needs_attention, and listed in the "Needs attention" inbox.
+ */
+
+import { supabase } from '@/services/supabase'
+import type { RawLog, RawLogStatus } from '@/types/database'
+import { segmentMessages, findSegmentIndex, type MessageSegment } from './segmenter'
+import type { SourceSpan } from './sourceSpans'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SavedSegments {
+  segments: MessageSegment[]
+  rawLogIds: string[] // Parallel to segments
+}
+
+// ============================================
+// SAVING
+// ============================================
+
+/**
+ * Split pasted text into messages and store one raw_logs row per message
+ */
+export async function saveMessageSegments(
+  userId: string,
+  text: string,
+  source = 'web_paste'
+): Promise<SavedSegments> {
+  const segments = segmentMessages(text)
+  if (segments.length === 0) return { segments, rawLogIds: [] }
+
+  const { data, error } = await supabase
+    .from('raw_logs')
+    .insert(segments.map(segment => ({
+      user_id: userId,
+      content: segment.text,
+      source,
+    })) as never)
+    .select('id')
+
+  if (error) throw error
+
+  return { segments, rawLogIds: ((data || []) as Pick<RawLog, 'id'>[]).map(row => row.id) }
+}
+
+/**
+ * Raw log for the message a parsed row came from. Rows without a span can
+ * only be placed when the paste was a single message.
+ */
+export function getRawLogIdForSpan(saved: SavedSegments, span: SourceSpan | null | undefined): string | null {
+  if (!span) {
+    return saved.rawLogIds.length === 1 ? saved.rawLogIds[0] : null
+  }
+  const index = findSegmentIndex(saved.segments, span)
+  return index === -1 ? null : saved.rawLogIds[index] ?? null
+}
+
+/**
+ * Keep input that could not be parsed, so it shows up in the inbox
+ */
+export async function logFailedInput(
+  userId: string,
+  text: string,
+  parseError: string | null,
+  source = 'web_paste'
+): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('raw_logs')
+      .insert({
+        user_id: userId,
+        content: text,
+        source,
+        status: 'needs_attention',
+        parse_error: parseError,
+      } as never)
+
+    if (error) throw error
+  } catch (error) {
+    console.error('Error logging failed input:', error)
+  }
+}
+
+// ============================================
+// LOOKUP
+// ============================================
+
+/**
+ * Fetch a single raw log (e.g. the original message of a transaction)
+ */
+export async function getRawLog(rawLogId: string): Promise<RawLog | null> {
+  const { data, error } = await supabase
+    .from('raw_logs')
+    .select('*')
+    .eq('id', rawLogId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching raw log:', error)
+    return null
+  }
+
+  return data as RawLog | null
+}
+
+// ============================================
+// INBOX
+// ============================================
+
+/**
+ * Inputs that failed to parse and haven't been resolved or dismissed, newest first
+ */
+export async function getNeedsAttentionLogs(userId: string): Promise<RawLog[]> {
+  const { data, error } = await supabase
+    .from('raw_logs')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'needs_attention')
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching raw logs needing attention:', error)
+    return []
+  }
+
+  return (data || []) as RawLog[]
+}
+
+/**
+ * Move a raw log out of (or back into) the inbox
+ */
+export async function updateRawLogStatus(
+  rawLogId: string,
+  status: RawLogStatus,
+  parseError?: string | null
+): Promise<{ success: boolean; error?: string }> {
+  const updates: Partial<RawLog> = {
+    status,
+    resolved_at: status === 'resolved' || status === 'dismissed' ? new Date().toISOString() : null,
+  }
+  if (parseError !== undefined) updates.parse_error = parseError
+
+  const { error } = await supabase
+    .from('raw_logs')
+    .update(updates as never)
+    .eq('id', rawLogId)
+
+  if (error) {
+    console.error('Error updating raw log status:', error)
+    return { success: false, error: error.message }
+  }
+
+  return { success: true }
+}
@@ -1,12 +1,16 @@
 /**
  * CSV Reconciliation & Staging Utility
  * 
- * Handles CSV import, duplicate detection, and staging workflow
+ * Handles CSV import, duplicate detection, and staging workflow, plus
+ * pairing the two legs of a move between the user's own accounts
  */
 
 import Papa from 'papaparse'
 import { supabase } from '@/services/supabase'
-import type { Transaction, StagingTransaction, NewStagingTransaction } from '@/types/database'
+import type { Account, AccountCard, Transaction, StagingTransaction, NewStagingTransaction, CategoryRule } from '@/types/database'
+import type { ParsedTransaction } from './ai'
+import { fieldConfidence, type FieldConfidenceMap } from './confidence'
+import { convertAmount, isCurrency } from './currency'
 
 // ============================================
 // TYPES
@@ -18,6 +22,7 @@ export interface CSVRow {
   amount: number
   currency?: string
   category?: string
+  confidence?: FieldConfidenceMap
   [key: string]: unknown
 }
 
@@ -177,19 +182,29 @@ function mapCSVRow(row: Record<string, string>, columnMap: Record<string, string
     throw new Error(`Invalid amount: ${amountStr}`)
   }
   
+  const currency = columnMap.currency ? row[columnMap.currency]?.toUpperCase() : undefined
+  const category = columnMap.category ? row[columnMap.category] : undefined
+  
   return {
     date: parsedDate,
     description: description.trim(),
     amount: Math.abs(amount),
-    currency: columnMap.currency ? row[columnMap.currency]?.toUpperCase() || 'SAR' : 'SAR',
-    category: columnMap.category ? row[columnMap.category] : undefined
+    currency: currency || 'SAR',
+    category,
+    confidence: {
+      amount: fieldConfidence('extracted', 1),
+      transaction_datetime: fieldConfidence('extracted'),
+      merchant: fieldConfidence('extracted'),
+      currency: fieldConfidence(currency ? 'extracted' : 'defaulted'),
+      category: fieldConfidence(category ? 'extracted' : 'defaulted')
+    }
   }
 }
 
 /**
  * Parse date string to ISO format
  */
-function parseDate(dateStr: string): string | null {
+export function parseDate(dateStr: string): string | null {
   const cleaned = dateStr.trim()
   
   // Try native Date parsing first
@@ -478,6 +493,257 @@ function levenshteinDistance(str1: string, str2: string): number {
   return dp[m][n]
 }
 
+// ============================================
+// TRANSFER MATCHING
+// ============================================
+
+// Fields the transfer matcher reads
+export type TransferCandidate = Pick<
+  Transaction,
+  | 'id'
+  | 'amount'
+  | 'currency'
+  | 'direction'
+  | 'category'
+  | 'merchant'
+  | 'description'
+  | 'transaction_date'
+  | 'transaction_time'
+  | 'account_id'
+  | 'card_id'
+>
+
+export interface TransferMatch<T extends TransferCandidate = Transaction> {
+  outgoing: T  // Debit on the source account
+  incoming: T  // Credit on the destination account
+  matchScore: number
+  reasons: string[]
+}
+
+export interface TransferMatchConfig {
+  hourWindow: number      // Max hours between the two legs (default: 48)
+  amountTolerance: number // Amount ± for same-currency legs, e.g. a fee (default: 1.0)
+  fxTolerance: number     // Relative difference allowed after FX conversion (default: 0.03)
+  minMatchScore: number   // Minimum score to suggest a pair (default: 60)
+}
+
+const DEFAULT_TRANSFER_CONFIG: TransferMatchConfig = {
+  hourWindow: 48,
+  amountTolerance: 1.0,
+  fxTolerance: 0.03,
+  minMatchScore: 60
+}
+
+const TRANSFER_KEYWORDS = ['transfer', 'top up', 'top-up', 'topup', 'تحويل', 'حوالة', 'شحن']
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Pairs the user said aren't a transfer, kept on the device
+const DISMISSED_TRANSFERS_STORAGE_KEY = 'rqeeb_dismissed_transfer_matches'
+
+// Oldest dismissals are dropped past this many
+const MAX_DISMISSED_TRANSFERS = 500
+
+/**
+ * Hours between two transactions. Without a time on both sides only the
+ * dates can be compared, in whole days.
+ */
+function hoursBetween(a: TransferCandidate, b: TransferCandidate): number {
+  if (a.transaction_time && b.transaction_time) {
+    return Math.abs(new Date(a.transaction_time).getTime() - new Date(b.transaction_time).getTime()) / HOUR_MS
+  }
+  const dayA = new Date(a.transaction_date.split('T')[0]).getTime()
+  const dayB = new Date(b.transaction_date.split('T')[0]).getTime()
+  return Math.abs(dayA - dayB) / HOUR_MS
+}
+
+/**
+ * Whether a transaction's text names the given account or one of its cards
+ */
+function mentionsAccount(tx: TransferCandidate, account: Account, cards: AccountCard[]): boolean {
+  const text = `${tx.merchant || ''} ${tx.description || ''}`.toLowerCase()
+  if (!text.trim()) return false
+  if (account.name.length >= 3 && text.includes(account.name.toLowerCase())) return true
+  return cards.some(c => c.account_id === account.id && c.last_4_digits && text.includes(c.last_4_digits))
+}
+
+function looksLikeTransfer(tx: TransferCandidate): boolean {
+  if (tx.category === 'Transfer') return true
+  const text = `${tx.merchant || ''} ${tx.description || ''}`.toLowerCase()
+  return TRANSFER_KEYWORDS.some(k => text.includes(k))
+}
+
+/**
+ * Score an outflow/inflow pair as the two legs of one transfer.
+ * Returns null if the amounts or times are too far apart.
+ */
+function scoreTransferPair(
+  outgoing: TransferCandidate,
+  incoming: TransferCandidate,
+  accounts: Account[],
+  cards: AccountCard[],
+  config: TransferMatchConfig
+): { score: number; reasons: string[] } | null {
+  const reasons: string[] = []
+  let score = 0
+
+  // Time proximity score (max 40 points)
+  const hours = hoursBetween(outgoing, incoming)
+  if (hours > config.hourWindow) return null
+  const timed = Boolean(outgoing.transaction_time && incoming.transaction_time)
+  if (timed && hours <= 1) {
+    score += 40
+    reasons.push('Within an hour')
+  } else if (hours < 24) {
+    score += 30
+    reasons.push(timed ? `${Math.round(hours)}h apart` : 'Same date')
+  } else {
+    const days = Math.round(hours / 24)
+    score += 20
+    reasons.push(`±${days} day${days === 1 ? '' : 's'}`)
+  }
+
+  // Amount score (max 40 points) - the credit converted into the debit's currency
+  if (outgoing.currency === incoming.currency) {
+    const amountDiff = Math.abs(outgoing.amount - incoming.amount)
+    if (amountDiff > config.amountTolerance) return null
+    if (amountDiff === 0) {
+      score += 40
+      reasons.push('Exact amount')
+    } else {
+      score += 25
+      reasons.push(`Amount within ±${amountDiff.toFixed(2)}`)
+    }
+  } else {
+    if (!isCurrency(outgoing.currency) || !isCurrency(incoming.currency)) return null
+    const conversion = convertAmount(incoming.amount, incoming.currency, outgoing.currency, incoming.transaction_date)
+    if (!conversion) return null
+    const relativeDiff = Math.abs(conversion.convertedAmount - outgoing.amount) / outgoing.amount
+    if (relativeDiff > config.fxTolerance) return null
+    score += relativeDiff <= 0.01 ? 35 : 25
+    reasons.push(`Amount matches after ${incoming.currency} → ${outgoing.currency} conversion`)
+  }
+
+  // Description score (max 30 points)
+  const source = accounts.find(a => a.id === outgoing.account_id)
+  const destination = accounts.find(a => a.id === incoming.account_id)
+  if ((destination && mentionsAccount(outgoing, destination, cards)) ||
+      (source && mentionsAccount(incoming, source, cards))) {
+    score += 20
+    reasons.push('Mentions the other account')
+  } else if (looksLikeTransfer(outgoing) || looksLikeTransfer(incoming)) {
+    score += 10
+    reasons.push('Described as a transfer')
+  }
+
+  const similarity = calculateSimilarity(
+    normalizeMerchantName(outgoing.merchant || ''),
+    normalizeMerchantName(incoming.merchant || '')
+  )
+  if (similarity > 0.5) {
+    score += 10
+    reasons.push('Similar description')
+  }
+
+  return { score, reasons }
+}
+
+/**
+ * Find debit/credit pairs on two different accounts of the user that look
+ * like the two legs of one transfer (e.g. the bank SMS for the debit and the
+ * wallet SMS for the top-up). Each transaction is used in at most one pair,
+ * best scores first.
+ */
+export function findTransferMatches<T extends TransferCandidate>(
+  transactions: T[],
+  accounts: Account[],
+  cards: AccountCard[],
+  config: TransferMatchConfig = DEFAULT_TRANSFER_CONFIG
+): TransferMatch<T>[] {
+  const ownAccountIds = new Set(accounts.map(a => a.id))
+  const onOwnAccount = (tx: T) => tx.account_id !== null && ownAccountIds.has(tx.account_id) && tx.amount > 0
+  const outgoing = transactions.filter(tx => tx.direction === 'out' && onOwnAccount(tx))
+  const incoming = transactions.filter(tx => tx.direction === 'in' && onOwnAccount(tx))
+
+  const candidates: TransferMatch<T>[] = []
+  for (const out of outgoing) {
+    for (const inc of incoming) {
+      if (out.account_id === inc.account_id) continue
+      const scored = scoreTransferPair(out, inc, accounts, cards, config)
+      if (scored && scored.score >= config.minMatchScore) {
+        candidates.push({
+          outgoing: out,
+          incoming: inc,
+          matchScore: Math.min(scored.score, 100),
+          reasons: scored.reasons
+        })
+      }
+    }
+  }
+
+  // Greedy one-to-one assignment
+  const used = new Set<string>()
+  const matches: TransferMatch<T>[] = []
+  for (const match of candidates.sort((a, b) => b.matchScore - a.matchScore)) {
+    if (used.has(match.outgoing.id) || used.has(match.incoming.id)) continue
+    used.add(match.outgoing.id)
+    used.add(match.incoming.id)
+    matches.push(match)
+  }
+  return matches
+}
+
+/**
+ * Stable key for a pair, e.g. to remember dismissed suggestions
+ */
+export function getTransferMatchKey(match: TransferMatch<TransferCandidate>): string {
+  return `${match.outgoing.id}:${match.incoming.id}`
+}
+
+export function getDismissedTransferMatches(): Set<string> {
+  try {
+    const stored = localStorage.getItem(DISMISSED_TRANSFERS_STORAGE_KEY)
+    return new Set(stored ? (JSON.parse(stored) as string[]) : [])
+  } catch {
+    return new Set()
+  }
+}
+
+/**
+ * Stop suggesting a pair
+ */
+export function dismissTransferMatch(match: TransferMatch<TransferCandidate>): void {
+  const keys = [...getDismissedTransferMatches(), getTransferMatchKey(match)].slice(-MAX_DISMISSED_TRANSFERS)
+  try {
+    localStorage.setItem(DISMISSED_TRANSFERS_STORAGE_KEY, JSON.stringify(keys))
+  } catch (error) {
+    console.error('Error saving dismissed transfer matches:', error)
+  }
+}
+
+/**
+ * Link a matched pair as one transfer: the debit becomes the transfer (its
+ * account is the source, the credit's account the destination) and the
+ * credit is deleted, since the transfer already moves the money in. Done in
+ * one database call, so a failure leaves both legs as they were; the
+ * credit's attachments and source message move to the transfer.
+ */
+export async function linkTransferPair(
+  match: TransferMatch<TransferCandidate>
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('link_transfer_pair' as never, {
+    p_outgoing_id: match.outgoing.id,
+    p_incoming_id: match.incoming.id
+  } as never)
+
+  if (error) {
+    console.error('Error linking transfer:', error)
+    return { success: false, error: error.message }
+  }
+
+  return { success: true }
+}
+
 // ============================================
 // STAGING OPERATIONS
 // ============================================
@@ -505,9 +771,13 @@ export async function processCSVUpload(
     }
   }
   
+  // Learned rules fill in categories the CSV doesn't have
+  const rules = await getCategoryRules(userId, true)
+  
   // Process each row
   for (let i = 0; i < parseResult.rows.length; i++) {
     const row = parseResult.rows[i]
+    const rule = row.category ? null : findCategoryRule(row.description, rules)
     
     try {
       // Find potential matches
@@ -526,9 +796,16 @@ export async function processCSVUpload(
           description: row.description,
           amount: row.amount,
           currency: row.currency || 'SAR',
-          category: row.category || 'Other',
+          category: rule?.category || row.category || 'Other',
           direction,
-          original_row_index: i
+          original_row_index: i,
+          ...(rule ? { category_rule_id: rule.id } : {}),
+          confidence: {
+            ...row.confidence,
+            ...(rule ? { category: fieldConfidence('rule', rule.confidence) } : {}),
+            // determineDirection only says "in" on an income keyword
+            direction: fieldConfidence(direction === 'in' ? 'inferred' : 'defaulted')
+          }
         },
         status: 'pending',
         csv_source: file.name,
@@ -706,6 +983,7 @@ export async function bulkApproveNonDuplicates(
   defaultCardId?: string | null
 ): Promise<{ success: boolean; approved: number; errors: string[] }> {
   const errors: string[] = []
+  const keptRuleIds: string[] = []
   let approved = 0
   
   // Get all staging transactions
@@ -728,6 +1006,7 @@ export async function bulkApproveNonDuplicates(
       direction?: 'in' | 'out'
       category?: string
       description?: string
+      category_rule_id?: string
     }
     
     const result = await approveStaging(staging.id, userId, {
@@ -743,11 +1022,14 @@ export async function bulkApproveNonDuplicates(
     
     if (result.success) {
       approved++
+      if (extracted.category_rule_id) keptRuleIds.push(extracted.category_rule_id)
     } else {
       errors.push(`${staging.id}: ${result.error}`)
     }
   }
   
+  await recordCategoryRuleResults(keptRuleIds)
+  
   return { success: errors.length === 0, approved, errors }
 }
 
@@ -755,35 +1037,40 @@ export async function bulkApproveNonDuplicates(
 // CATEGORY LEARNING
 // ============================================
 
+// Rules below this confidence have been overridden too often to apply
+export const MIN_RULE_CONFIDENCE = 0.5
+
 /**
  * Save a category rule for AI learning
+ * Re-confirming a rule strengthens it; a different category replaces it.
  */
 export async function learnCategoryRule(
   userId: string,
   merchantKeyword: string,
   category: string
 ): Promise<{ success: boolean; error?: string }> {
-  const { error } = await supabase
-    .from('category_rules')
-    .upsert({
-      user_id: userId,
-      merchant_keyword: merchantKeyword.toLowerCase().trim(),
-      category,
-      updated_at: new Date().toISOString()
-    } as never, {
-      onConflict: 'user_id,merchant_keyword'
-    })
+  const { error } = await supabase.rpc('upsert_category_rule' as never, {
+    p_user_id: userId,
+    p_merchant_keyword: merchantKeyword,
+    p_category: category
+  } as never)
   
   if (error) {
-    // Try using the database function instead
-    const { error: fnError } = await supabase.rpc('upsert_category_rule' as never, {
-      p_user_id: userId,
-      p_merchant_keyword: merchantKeyword,
-      p_category: category
-    } as never)
+    // Fall back to a plain upsert if the function isn't deployed
+    const { error: upsertError } = await supabase
+      .from('category_rules')
+      .upsert({
+        user_id: userId,
+        merchant_keyword: merchantKeyword.toLowerCase().trim(),
+        category,
+        is_active: true,
+        updated_at: new Date().toISOString()
+      } as never, {
+        onConflict: 'user_id,merchant_keyword'
+      })
     
-    if (fnError) {
-      return { success: false, error: fnError.message }
+    if (upsertError) {
+      return { success: false, error: upsertError.message }
     }
   }
   
@@ -797,18 +1084,155 @@ export async function getLearnedCategory(
   userId: string,
   merchant: string
 ): Promise<string | null> {
-  const { data, error } = await supabase
-    .from('category_rules')
-    .select('category')
-    .eq('user_id', userId)
-    .ilike('merchant_keyword', `%${merchant.toLowerCase()}%`)
-    .order('times_applied', { ascending: false })
-    .limit(1)
-    .single()
+  const { data, error } = await supabase.rpc('find_category_for_merchant' as never, {
+    p_user_id: userId,
+    p_merchant: merchant
+  } as never)
   
   if (error || !data) {
     return null
   }
   
-  return (data as { category: string }).category
+  return data as string
+}
+
+/**
+ * Get a user's category rules, most used first
+ */
+export async function getCategoryRules(
+  userId: string,
+  activeOnly = false
+): Promise<CategoryRule[]> {
+  let query = supabase
+    .from('category_rules')
+    .select('*')
+    .eq('user_id', userId)
+  
+  if (activeOnly) {
+    query = query.eq('is_active', true).gte('confidence', MIN_RULE_CONFIDENCE)
+  }
+  
+  const { data, error } = await query.order('times_applied', { ascending: false })
+  
+  if (error) {
+    console.error('Error fetching category rules:', error)
+    return []
+  }
+  
+  return (data || []) as CategoryRule[]
+}
+
+/**
+ * Find the rule for a merchant - same ordering as find_category_for_merchant:
+ * most specific keyword, then most used, then most confident
+ */
+export function findCategoryRule(merchant: string | null | undefined, rules: CategoryRule[]): CategoryRule | null {
+  if (!merchant) return null
+  const name = merchant.toLowerCase()
+  
+  let best: CategoryRule | null = null
+  for (const rule of rules) {
+    if (!rule.is_active || rule.confidence < MIN_RULE_CONFIDENCE) continue
+    if (!name.includes(rule.merchant_keyword)) continue
+    if (
+      !best ||
+      rule.merchant_keyword.length > best.merchant_keyword.length ||
+      (rule.merchant_keyword.length === best.merchant_keyword.length &&
+        (rule.times_applied > best.times_applied ||
+          (rule.times_applied === best.times_applied && rule.confidence > best.confidence)))
+    ) {
+      best = rule
+    }
+  }
+  
+  return best
+}
+
+/**
+ * Override parsed categories with the user's rules.
+ * Categories read explicitly from the source (e.g. a CSV category column) are kept.
+ */
+export function applyCategoryRules(
+  transactions: ParsedTransaction[],
+  rules: CategoryRule[]
+): ParsedTransaction[] {
+  if (rules.length === 0) return transactions
+  
+  return transactions.map(tx => {
+    if (tx.confidence?.category?.source === 'extracted') return tx
+    
+    const rule = findCategoryRule(tx.merchant, rules)
+    if (!rule) return tx
+    
+    return {
+      ...tx,
+      category: rule.category,
+      category_rule_id: rule.id,
+      confidence: { ...tx.confidence, category: fieldConfidence('rule', rule.confidence) }
+    }
+  })
+}
+
+/**
+ * Update times_applied/confidence after the user saves rule-categorized rows:
+ * kept rules are strengthened, overridden ones weakened
+ */
+export async function recordCategoryRuleResults(
+  keptRuleIds: string[],
+  overriddenRuleIds: string[] = []
+): Promise<{ success: boolean; error?: string }> {
+  if (keptRuleIds.length === 0 && overriddenRuleIds.length === 0) {
+    return { success: true }
+  }
+  
+  const { error } = await supabase.rpc('record_category_rule_results' as never, {
+    p_kept_rule_ids: keptRuleIds,
+    p_overridden_rule_ids: overriddenRuleIds
+  } as never)
+  
+  if (error) {
+    console.error('Error recording category rule results:', error)
+    return { success: false, error: error.message }
+  }
+  
+  return { success: true }
+}
+
+/**
+ * Edit a rule from Settings
+ */
+export async function updateCategoryRule(
+  ruleId: string,
+  updates: { merchant_keyword?: string; category?: string; is_active?: boolean }
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase
+    .from('category_rules')
+    .update({
+      ...updates,
+      ...(updates.merchant_keyword !== undefined ? { merchant_keyword: updates.merchant_keyword.toLowerCase().trim() } : {}),
+      updated_at: new Date().toISOString()
+    } as never)
+    .eq('id', ruleId)
+  
+  if (error) {
+    return { success: false, error: error.message }
+  }
+  
+  return { success: true }
+}
+
+/**
+ * Delete a rule from Settings
+ */
+export async function deleteCategoryRule(ruleId: string): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase
+    .from('category_rules')
+    .delete()
+    .eq('id', ruleId)
+  
+  if (error) {
+    return { success: false, error: error.message }
+  }
+  
+  return { success: true }
 }
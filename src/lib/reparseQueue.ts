@@ -0,0 +1,184 @@
+/**
+ * Re-parse Queue
+ *
+ * Transactions saved from offline drafts are queued on the device with the
+ * message they came from. Once /api/analyze is reachable again each message
+ * is sent to the AI and the saved transaction is updated with the result -
+ * unless the user has edited it in the meantime.
+ */
+
+import { supabase } from '@/services/supabase'
+import type { Transaction } from '@/types/database'
+import { parseTransactions, type CustomCategory, type ParsedTransaction } from './ai'
+import { getCategoryRules, applyCategoryRules } from './reconciliation'
+import { convertAmount, type Currency } from './currency'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ReparseItem {
+  transactionId: string
+  text: string // The message the draft was made from
+  draft: Pick<ParsedTransaction, 'amount' | 'currency' | 'direction' | 'category' | 'merchant'>
+  queuedAt: string
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const QUEUE_STORAGE_KEY = 'rqeeb_reparse_queue'
+
+// The queue is processed by one caller at a time
+let inFlight: Promise<number> | null = null
+
+// ============================================
+// STORAGE
+// ============================================
+
+export function getReparseQueue(): ReparseItem[] {
+  try {
+    const stored = localStorage.getItem(QUEUE_STORAGE_KEY)
+    return stored ? (JSON.parse(stored) as ReparseItem[]) : []
+  } catch {
+    return []
+  }
+}
+
+function saveReparseQueue(queue: ReparseItem[]): void {
+  try {
+    if (queue.length === 0) {
+      localStorage.removeItem(QUEUE_STORAGE_KEY)
+    } else {
+      localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue))
+    }
+  } catch (error) {
+    console.error('Error saving re-parse queue:', error)
+  }
+}
+
+/**
+ * Queue saved offline drafts for an AI re-parse
+ */
+export function enqueueReparse(items: Omit<ReparseItem, 'queuedAt'>[]): void {
+  if (items.length === 0) return
+  const queuedAt = new Date().toISOString()
+  saveReparseQueue([...getReparseQueue(), ...items.map(item => ({ ...item, queuedAt }))])
+}
+
+// ============================================
+// PROCESSING
+// ============================================
+
+/**
+ * Whether the saved row still holds the draft values (i.e. nobody edited it).
+ * A draft converted into its account's currency is compared by its original.
+ */
+function isUntouched(saved: Transaction, draft: ReparseItem['draft']): boolean {
+  return (saved.original_amount ?? saved.amount) === draft.amount
+    && (saved.original_currency ?? saved.currency) === draft.currency
+    && saved.direction === draft.direction
+    && saved.category === draft.category
+    && saved.merchant === draft.merchant
+}
+
+/**
+ * Re-parse queued drafts with the AI and update their transactions.
+ * Stops (keeping the rest queued) as soon as the AI is unreachable again.
+ * Returns the number of transactions updated.
+ */
+export function processReparseQueue(
+  userId: string,
+  customCategories?: CustomCategory[]
+): Promise<number> {
+  if (!inFlight) {
+    inFlight = runReparseQueue(userId, customCategories).finally(() => {
+      inFlight = null
+    })
+  }
+  return inFlight
+}
+
+async function runReparseQueue(userId: string, customCategories?: CustomCategory[]): Promise<number> {
+  const queue = getReparseQueue()
+  if (queue.length === 0) return 0
+
+  const rules = await getCategoryRules(userId, true)
+  const processed = new Set<string>()
+  let updated = 0
+
+  for (const item of queue) {
+    const result = await parseTransactions(item.text, customCategories)
+    if (result.offline) break
+
+    processed.add(item.transactionId)
+
+    // Only a single, unambiguous result replaces the draft
+    if (result.transactions.length !== 1) continue
+    const [parsed] = applyCategoryRules(result.transactions, rules)
+
+    try {
+      const { data: saved, error: fetchError } = await supabase
+        .from('transactions')
+        .select('*')
+        .eq('id', item.transactionId)
+        .maybeSingle()
+
+      if (fetchError) throw fetchError
+      const current = saved as Transaction | null
+      if (!current || !isUntouched(current, item.draft)) continue
+
+      const updates: Partial<Transaction> = {
+        amount: parsed.amount,
+        currency: parsed.currency,
+        original_amount: null,
+        original_currency: null,
+        conversion_rate: null,
+        direction: parsed.direction,
+        category: parsed.category,
+        merchant: parsed.merchant,
+        description: parsed.description,
+      }
+      // The draft was dated when it was typed - keep that unless the message had a date
+      if (parsed.confidence?.transaction_datetime?.source === 'extracted') {
+        updates.transaction_date = parsed.transaction_datetime.split('T')[0]
+        updates.transaction_time = parsed.transaction_datetime
+      }
+
+      // A draft saved in its account's currency gets the new amount converted the same way
+      const accountCurrency = current.original_currency ? current.currency : null
+      if (accountCurrency && parsed.currency !== accountCurrency) {
+        const conversion = convertAmount(
+          parsed.amount,
+          parsed.currency as Currency,
+          accountCurrency as Currency,
+          updates.transaction_date || current.transaction_date
+        )
+        if (conversion) {
+          Object.assign(updates, {
+            amount: conversion.convertedAmount,
+            currency: accountCurrency,
+            original_amount: parsed.amount,
+            original_currency: parsed.currency,
+            conversion_rate: conversion.rate,
+          })
+        }
+      }
+
+      const { error } = await supabase
+        .from('transactions')
+        .update(updates as never)
+        .eq('id', item.transactionId)
+
+      if (error) throw error
+      updated++
+    } catch (error) {
+      console.error('Error applying re-parse:', error)
+    }
+  }
+
+  // Re-read, so drafts queued while this ran are kept
+  saveReparseQueue(getReparseQueue().filter(item => !processed.has(item.transactionId)))
+  return updated
+}
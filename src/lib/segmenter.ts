@@ -0,0 +1,172 @@
+/**
+ * Message Segmenter
+ *
+ * Splits a paste into the individual SMS / notes it contains, without the AI.
+ * Blank lines always separate messages; inside a block, a new message also
+ * starts at a sender header ("AlRajhi:", "From: SNB"), at a leading date
+ * stamp when the block's messages are date-prefixed, and at a line that
+ * repeats the opening words of the block's first message (the same bank
+ * template again).
+ */
+
+import { getSegmentSpans, type SourceSpan } from './sourceSpans'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface MessageSegment extends SourceSpan {
+  text: string
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// SMS sender names as they appear at the top of exported / forwarded messages
+const SENDER_NAMES = [
+  'al ?rajhi(?: bank)?',
+  'snb(?:alahli)?',
+  'alahli',
+  'riyad ?bank',
+  'sabb',
+  'alinma(?: bank)?',
+  'albilad',
+  'anb',
+  'bsf',
+  'stc ?pay',
+  'urpay',
+  'adib',
+  'adcb',
+  'fab',
+  'emirates ?nbd',
+  'enbd',
+  'mashreq',
+  'dib',
+  'kfh',
+  'nbk',
+  'qnb',
+  'مصرف الراجحي',
+  'الراجحي',
+  'البنك الأهلي',
+  'الأهلي',
+  'بنك الرياض',
+  'مصرف الإنماء',
+  'الإنماء',
+]
+
+// "12/01/2026", "2026-01-12", "[12/01/26, 13:52]", "12 Jan 2026", "Jan 12, 2026"
+const DATE_STAMP = String.raw`\[?(?:\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}|\d{1,2} [A-Za-z]{3,9},? \d{2,4}|[A-Za-z]{3,9} \d{1,2},? \d{2,4})`
+
+const SENDER_PATTERN = `(?:from:?\\s*)?(?:${SENDER_NAMES.join('|')})`
+
+// Sender alone on its line, or followed by a date stamp
+const HEADER_LINE = new RegExp(`^${SENDER_PATTERN}\\s*(?:[:\\-–]\\s*)?(?:${DATE_STAMP}.*)?$`, 'i')
+
+const DATE_STAMP_LINE = new RegExp(`^${DATE_STAMP}`)
+
+// Words compared to detect a repeated template
+const TEMPLATE_PREFIX_WORDS = 2
+
+// ============================================
+// HELPERS
+// ============================================
+
+interface Line extends SourceSpan {
+  text: string
+}
+
+/**
+ * Trimmed non-empty lines of a block, with offsets into the full text
+ */
+function getLines(text: string, block: SourceSpan): Line[] {
+  const lines: Line[] = []
+  let cursor = block.start
+
+  for (const raw of text.slice(block.start, block.end).split('\n')) {
+    const leading = raw.length - raw.trimStart().length
+    const trimmed = raw.trim()
+    if (trimmed) {
+      lines.push({ start: cursor + leading, end: cursor + leading + trimmed.length, text: trimmed })
+    }
+    cursor += raw.length + 1
+  }
+
+  return lines
+}
+
+/**
+ * Opening words of a line with numbers masked, e.g. "purchase #" for
+ * "Purchase 25.00 SAR at ..." - null when the line is too short to tell
+ */
+function templatePrefix(line: string): string | null {
+  const words = line
+    .toLowerCase()
+    .replace(/[0-9٠-٩]+([.,][0-9٠-٩]+)*/g, '#')
+    .split(/\s+/)
+    .filter(Boolean)
+  if (words.length < TEMPLATE_PREFIX_WORDS + 1) return null
+  return words.slice(0, TEMPLATE_PREFIX_WORDS).join(' ')
+}
+
+/**
+ * Indexes of the lines in a blank-line-free block that start a new message
+ */
+function findMessageStarts(lines: Line[]): number[] {
+  const starts = [0]
+  const first = lines[0].text
+  const dated = DATE_STAMP_LINE.test(first)
+  const headed = HEADER_LINE.test(first)
+  const prefix = templatePrefix(first)
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].text
+    if (HEADER_LINE.test(line)) {
+      starts.push(i)
+      continue
+    }
+    // Header lines own the date stamp that follows them
+    if (headed) continue
+    if (dated && DATE_STAMP_LINE.test(line)) {
+      starts.push(i)
+      continue
+    }
+    if (prefix && templatePrefix(line) === prefix) {
+      starts.push(i)
+    }
+  }
+
+  return starts
+}
+
+// ============================================
+// SEGMENTATION
+// ============================================
+
+/**
+ * Split pasted text into individual messages, with offsets into the text
+ */
+export function segmentMessages(text: string): MessageSegment[] {
+  const segments: MessageSegment[] = []
+
+  for (const block of getSegmentSpans(text)) {
+    const lines = getLines(text, block)
+    const starts = findMessageStarts(lines)
+
+    starts.forEach((startLine, i) => {
+      const endLine = (starts[i + 1] ?? lines.length) - 1
+      const start = lines[startLine].start
+      const end = lines[endLine].end
+      segments.push({ start, end, text: text.slice(start, end) })
+    })
+  }
+
+  return segments
+}
+
+/**
+ * Index of the segment a span falls in (by its start), or -1
+ */
+export function findSegmentIndex(segments: SourceSpan[], span: SourceSpan): number {
+  return segments.findIndex(segment => span.start >= segment.start && span.start < segment.end)
+}
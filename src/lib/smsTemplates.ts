@@ -0,0 +1,544 @@
+/**
+ * Bank SMS Template Parser
+ *
+ * Deterministic parsers for the fixed SMS formats sent by the major Gulf
+ * banks and wallets (Al Rajhi, SNB, Riyad Bank, ADIB, Emirates NBD, STC Pay).
+ * Messages that match a template are parsed instantly on the device -
+ * anything unrecognized falls back to the AI (/api/analyze).
+ */
+
+import type { CustomCategory, ParsedTransaction } from './ai'
+import { inferCategory, inferDirection } from './transactionFilter'
+import { fieldConfidence, type FieldConfidenceMap } from './confidence'
+import { locateFieldSpans, SEGMENT_JOINER, type SourceSpan } from './sourceSpans'
+import { segmentMessages } from './segmenter'
+import { getCurrencyTokens, resolveCurrency } from './currency'
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Fields extracted from a single bank SMS
+ */
+export interface SmsFields {
+  amount: number
+  currency: string
+  direction: 'in' | 'out'
+  merchant: string | null
+  cardDigits: string | null
+  balance: string | null // As printed, e.g. "SAR 1,234.56"
+  reference: string | null
+  datetime: string | null // ISO 8601 without timezone
+  extra?: string[] // Other "Key: Value" details worth keeping
+}
+
+export interface SmsTemplate {
+  id: string
+  bank: string
+  example: string // Sample message, kept in sync with the parser
+  matches: (text: string) => boolean
+  parse: (text: string, now: Date) => SmsFields | null
+}
+
+export interface SmsParseResult {
+  transactions: ParsedTransaction[]
+  templateIds: string[]
+  remaining: string // Segments no template recognized, for the AI
+  remainingSegments: SourceSpan[] // Where each of those segments sits in the original text
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+// Any currency code, name or alias from the registry
+const CURRENCY_TOKEN = `(${getCurrencyTokens().map(escapeRegExp).join('|')})`
+const NUMBER_TOKEN = '(\\d[\\d,]*(?:\\.\\d+)?)'
+
+// The token must start a word, so a word ending in "ين" isn't read as yen
+const MONEY_PREFIX = new RegExp(`(?<!\\p{L})${CURRENCY_TOKEN}\\s*${NUMBER_TOKEN}`, 'iu')
+const MONEY_SUFFIX = new RegExp(`${NUMBER_TOKEN}\\s*${CURRENCY_TOKEN}`, 'i')
+
+// Words that mark money coming in (Arabic messages don't hit inferDirection)
+const ARABIC_INCOME_WORDS = ['إيداع', 'ايداع', 'استلام', 'واردة', 'وارد', 'راتب', 'استرداد', 'إضافة']
+
+/**
+ * Convert Arabic-Indic digits and separators to ASCII
+ */
+export function normalizeDigits(text: string): string {
+  return text
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06f0))
+    .replace(/٫/g, '.')
+    .replace(/٬/g, ',')
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Read a "Label: value" line. Returns null if the label is missing
+ * or appears more than once (two messages pasted without a blank line).
+ */
+function field(text: string, labels: string[]): string | null {
+  const pattern = new RegExp(`^\\s*(?:${labels.map(escapeRegExp).join('|')})\\s*[:：]\\s*(.+?)\\s*$`, 'gim')
+  const matches = [...text.matchAll(pattern)]
+  if (matches.length !== 1) return null
+  return matches[0][1]
+}
+
+/**
+ * Parse "SAR 45.00", "45.00 SAR", "45 ريال" into amount + ISO currency
+ */
+function parseMoney(raw: string | null | undefined): { amount: number; currency: string } | null {
+  if (!raw) return null
+  const match = raw.match(MONEY_PREFIX)
+  const suffix = raw.match(MONEY_SUFFIX)
+  let currencyToken: string
+  let numberToken: string
+  if (match && (!suffix || (match.index ?? 0) <= (suffix.index ?? 0))) {
+    currencyToken = match[1]
+    numberToken = match[2]
+  } else if (suffix) {
+    numberToken = suffix[1]
+    currencyToken = suffix[2]
+  } else {
+    return null
+  }
+  const amount = parseFloat(numberToken.replace(/,/g, ''))
+  if (isNaN(amount) || amount <= 0) return null
+  return { amount, currency: resolveCurrency(currencyToken) || 'SAR' }
+}
+
+/**
+ * Extract the last 4 card/account digits from "*1234", "**1234", "ending 1234", "XXXX1234", "1234;mada"
+ */
+function parseCardDigits(raw: string | null | undefined): string | null {
+  if (!raw) return null
+  const match = raw.match(/(?:\*+|ending\s+|x{2,})(\d{3,4})\b/i) || raw.match(/^\s*(\d{4})\s*;/) || raw.match(/\b(\d{4})\b/)
+  return match ? match[1] : null
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0')
+}
+
+/**
+ * Parse the date formats used in bank SMS into ISO 8601:
+ * 2025-01-15 14:30, 25-1-15 14:30 (yy-m-d), 15/01/25 14:30, 15/01/2025 14:30:12,
+ * "Yesterday, 9:14 PM", "Today 10:02"
+ */
+function parseSmsDateTime(raw: string | null | undefined, now: Date): string | null {
+  if (!raw) return null
+  const text = raw.trim()
+
+  let year: number
+  let month: number
+  let day: number
+
+  const ymd = text.match(/\b(\d{2}|\d{4})-(\d{1,2})-(\d{1,2})\b/)
+  const dmy = text.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})\b/)
+  const relative = text.match(/\b(today|yesterday)\b|اليوم|أمس|امس/i)
+
+  if (ymd) {
+    year = Number(ymd[1])
+    month = Number(ymd[2])
+    day = Number(ymd[3])
+  } else if (dmy) {
+    day = Number(dmy[1])
+    month = Number(dmy[2])
+    year = Number(dmy[3])
+  } else if (relative) {
+    const base = new Date(now)
+    if (/yesterday|أمس|امس/i.test(relative[0])) base.setDate(base.getDate() - 1)
+    year = base.getFullYear()
+    month = base.getMonth() + 1
+    day = base.getDate()
+  } else {
+    return null
+  }
+
+  if (year < 100) year += 2000
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+
+  let hours = 0
+  let minutes = 0
+  let seconds = 0
+  const time = text.match(/\b(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM|ص|م)?/i)
+  if (time) {
+    hours = Number(time[1])
+    minutes = Number(time[2])
+    seconds = Number(time[3] || 0)
+    const meridiem = time[4]?.toUpperCase()
+    if ((meridiem === 'PM' || meridiem === 'م') && hours < 12) hours += 12
+    if ((meridiem === 'AM' || meridiem === 'ص') && hours === 12) hours = 0
+  }
+
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hours)}:${pad(minutes)}:${pad(seconds)}`
+}
+
+/**
+ * Direction from the message wording (English + Arabic)
+ */
+function parseDirection(text: string): 'in' | 'out' {
+  if (ARABIC_INCOME_WORDS.some(word => text.includes(word))) return 'in'
+  return inferDirection(text)
+}
+
+function cleanMerchant(raw: string | null | undefined): string | null {
+  if (!raw) return null
+  const merchant = raw.replace(/\s+/g, ' ').replace(/[.,]+$/, '').trim()
+  return merchant || null
+}
+
+// ============================================
+// TEMPLATES
+// ============================================
+
+/**
+ * Key/value style messages ("Amount: SAR 45.00" on its own line).
+ * Most Saudi banks and STC Pay use this layout with their own labels.
+ */
+function parseLabeledMessage(
+  text: string,
+  now: Date,
+  labels: {
+    amount: string[]
+    merchant: string[]
+    card: string[]
+    date: string[]
+    balance: string[]
+    reference: string[]
+  }
+): SmsFields | null {
+  const money = parseMoney(field(text, labels.amount))
+  if (!money) return null
+
+  const balanceRaw = field(text, labels.balance)
+  return {
+    ...money,
+    direction: parseDirection(text),
+    merchant: cleanMerchant(field(text, labels.merchant)),
+    cardDigits: parseCardDigits(field(text, labels.card)),
+    balance: balanceRaw && parseMoney(balanceRaw) ? balanceRaw : null,
+    reference: field(text, labels.reference),
+    datetime: parseSmsDateTime(field(text, labels.date), now),
+  }
+}
+
+const alRajhiTemplate: SmsTemplate = {
+  id: 'alrajhi',
+  bank: 'Al Rajhi',
+  example: `PoS Purchase
+By: 4589;mada-Apple Pay
+Amount: SAR 45.50
+At: STARBUCKS
+Date: 2025-01-15 14:30`,
+  // Al Rajhi doesn't sign its messages - the "1234;mada" card line is the tell
+  matches: (text) => /^\s*(?:By|Card|بطاقة)\s*:\s*\*?\d{4}\s*;/im.test(text) || /al\s?rajhi|الراجحي/i.test(text),
+  parse: (text, now) => parseLabeledMessage(text, now, {
+    amount: ['Amount', 'مبلغ', 'المبلغ'],
+    merchant: ['At', 'From', 'To', 'لدى', 'من', 'الى', 'إلى'],
+    card: ['By', 'Card', 'بطاقة'],
+    date: ['Date', 'On', 'في', 'التاريخ'],
+    balance: ['Balance', 'Available Balance', 'الرصيد'],
+    reference: ['Ref', 'Reference', 'المرجع'],
+  }),
+}
+
+const snbTemplate: SmsTemplate = {
+  id: 'snb',
+  bank: 'SNB',
+  example: `Purchase via POS
+Card: mada **4589
+Amount: SAR 120.00
+At: PANDA
+On: 15/01/25 20:12
+Balance: SAR 3,210.75`,
+  matches: (text) => /\b(?:SNB|AlAhli|Al Ahli)\b|الأهلي/i.test(text) ||
+    (/^\s*Card\s*:\s*(?:mada|visa|master\w*|credit)?\s*\*\*\d{4}/im.test(text) && /^\s*On\s*:/im.test(text)),
+  parse: (text, now) => parseLabeledMessage(text, now, {
+    amount: ['Amount', 'المبلغ', 'مبلغ'],
+    merchant: ['At', 'From', 'To', 'لدى', 'من', 'الى', 'إلى'],
+    card: ['Card', 'Account', 'بطاقة', 'حساب'],
+    date: ['On', 'Date', 'في', 'التاريخ'],
+    balance: ['Balance', 'Available Balance', 'الرصيد'],
+    reference: ['Ref', 'Reference', 'المرجع'],
+  }),
+}
+
+const riyadBankTemplate: SmsTemplate = {
+  id: 'riyad',
+  bank: 'Riyad Bank',
+  example: `Riyad Bank
+POS Purchase
+Card: **4589
+Amount: 75.00 SAR
+Merchant: JARIR BOOKSTORE
+Date: 15/01/2025 18:05
+Available balance: 2,980.40 SAR
+Ref: 502315678901`,
+  matches: (text) => /riyad\s*bank|بنك الرياض/i.test(text),
+  parse: (text, now) => parseLabeledMessage(text, now, {
+    amount: ['Amount', 'المبلغ', 'مبلغ'],
+    merchant: ['Merchant', 'At', 'From', 'To', 'التاجر', 'لدى', 'من', 'الى'],
+    card: ['Card', 'Account', 'بطاقة', 'حساب'],
+    date: ['Date', 'On', 'التاريخ', 'في'],
+    balance: ['Available balance', 'Balance', 'الرصيد المتاح', 'الرصيد'],
+    reference: ['Ref', 'Reference', 'الرقم المرجعي', 'المرجع'],
+  }),
+}
+
+const stcPayTemplate: SmsTemplate = {
+  id: 'stcpay',
+  bank: 'STC Pay',
+  example: `STC Pay
+Purchase
+Amount: 45.00 SAR
+Merchant: HungerStation
+Card: *4589
+Date: 2025-01-15 14:30:00`,
+  matches: (text) => /stc\s*pay|اس تي سي باي/i.test(text),
+  parse: (text, now) => {
+    const labeled = parseLabeledMessage(text, now, {
+      amount: ['Amount', 'المبلغ', 'مبلغ'],
+      merchant: ['Merchant', 'From', 'To', 'التاجر', 'من', 'إلى', 'الى'],
+      card: ['Card', 'بطاقة'],
+      date: ['Date', 'التاريخ'],
+      balance: ['Balance', 'Wallet Balance', 'الرصيد'],
+      reference: ['Ref', 'Reference', 'Transaction ID', 'المرجع'],
+    })
+    if (labeled) return labeled
+
+    // Sentence style: "You have received 100.00 SAR from Ahmed Ali. Your balance is 350.00 SAR"
+    const received = text.match(/(?:received|sent|transferred)\s+(.+?)\s+(?:from|to)\s+([^.\n]+)/i)
+    const money = parseMoney(received?.[1])
+    if (!received || !money) return null
+    return {
+      ...money,
+      direction: /received/i.test(received[0]) ? 'in' : 'out',
+      merchant: cleanMerchant(received[2]),
+      cardDigits: null,
+      balance: text.match(/balance is\s+([^\n]+?)\.?\s*$/im)?.[1] || null,
+      reference: null,
+      datetime: null,
+    }
+  },
+}
+
+const adibTemplate: SmsTemplate = {
+  id: 'adib',
+  bank: 'ADIB',
+  example: `ADIB Transaction
+Transaction of AED 244.20 debited from your a/c *552
+at TIKTOK ADS – AD S.TIKTOK.CO IE
+Time: Yesterday, 9:14 PM
+Available Balance: AED 67471.11
+For : Ajdel CFL03 Campaign`,
+  matches: (text) => /\bADIB\b|أبوظبي الإسلامي/i.test(text),
+  parse: (text, now) => {
+    const match = text.match(/Transaction of\s+(.+?)\s+(debited|credited)\s+(?:from|to)\s+your\s+a\/c\s+(\S+)/i)
+    const money = parseMoney(match?.[1])
+    if (!match || !money) return null
+
+    // Merchant is on its own "at ..." line - drop the "– AD S.TIKTOK.CO IE" descriptor tail
+    const merchantLine = text.match(/^\s*(?:at|from|to)\s+(.+)$/im)?.[1] || null
+    const purpose = field(text, ['For'])
+    return {
+      ...money,
+      direction: match[2].toLowerCase() === 'credited' ? 'in' : 'out',
+      merchant: cleanMerchant(merchantLine?.split(/\s+[–-]\s+/)[0]),
+      cardDigits: parseCardDigits(match[3]),
+      balance: field(text, ['Available Balance', 'Balance']),
+      reference: field(text, ['Ref', 'Reference']),
+      datetime: parseSmsDateTime(field(text, ['Time', 'Date']), now),
+      extra: purpose ? [`For: ${purpose}`] : undefined,
+    }
+  },
+}
+
+const emiratesNbdTemplate: SmsTemplate = {
+  id: 'emiratesnbd',
+  bank: 'Emirates NBD',
+  example: 'Purchase of AED 125.50 with Debit Card ending 1234 at CARREFOUR, DUBAI. Avl Balance is AED 5,432.10.',
+  matches: (text) => /emirates\s*nbd/i.test(text) ||
+    /(?:Card ending \d{4} was used for|with (?:Debit|Credit) Card ending \d{4} at|has been credited to your (?:account|a\/c))/i.test(text),
+  parse: (text, now) => {
+    const balance = text.match(/Avl\.?\s*(?:Cr\.?\s*Limit|Bal(?:ance)?)\s*is\s+([A-Z]{3}\s*[\d,.]+\d)/i)?.[1] || null
+
+    // "Purchase of AED 125.50 with Debit Card ending 1234 at CARREFOUR, DUBAI."
+    const purchase = text.match(/Purchase of\s+(.+?)\s+with\s+\w+\s+Card ending\s+(\d{4})\s+at\s+(.+?)\.(?:\s|$)/i)
+    // "Your Credit Card ending 1234 was used for AED 89.00 on 15/01/2025 14:30:12 at TALABAT,DUBAI."
+    const used = text.match(/Card ending\s+(\d{4})\s+was used for\s+(.+?)\s+on\s+(.+?)\s+at\s+(.+?)\.(?:\s|$)/i)
+    // "AED 15,000.00 has been credited to your account 101XXXXX1234 on 01/01/2025."
+    const credited = text.match(/(.+?)\s+has been credited to your (?:account|a\/c)\s+(\S+)(?:\s+on\s+([^.]+?))?\./i)
+
+    if (purchase) {
+      const money = parseMoney(purchase[1])
+      if (!money) return null
+      return { ...money, direction: 'out', merchant: cleanMerchant(purchase[3]), cardDigits: purchase[2], balance, reference: null, datetime: null }
+    }
+    if (used) {
+      const money = parseMoney(used[2])
+      if (!money) return null
+      return { ...money, direction: 'out', merchant: cleanMerchant(used[4]), cardDigits: used[1], balance, reference: null, datetime: parseSmsDateTime(used[3], now) }
+    }
+    if (credited) {
+      const money = parseMoney(credited[1])
+      if (!money) return null
+      return { ...money, direction: 'in', merchant: null, cardDigits: parseCardDigits(credited[2]), balance, reference: null, datetime: parseSmsDateTime(credited[3], now) }
+    }
+    return null
+  },
+}
+
+/**
+ * All known templates, most specific first (signed messages before
+ * the unsigned Al Rajhi/SNB layouts)
+ */
+export const SMS_TEMPLATES: SmsTemplate[] = [
+  adibTemplate,
+  emiratesNbdTemplate,
+  riyadBankTemplate,
+  stcPayTemplate,
+  snbTemplate,
+  alRajhiTemplate,
+]
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * The user's custom category for a merchant: one whose name is part of the
+ * merchant ("Jarir" for "JARIR BOOKSTORE") or whose description names it
+ * ("Coffee": "Starbucks, Barns, Dose"). The AI is told to prefer custom
+ * categories, so template rows do the same.
+ */
+function matchCustomCategory(merchant: string | null, customCategories: CustomCategory[]): string | null {
+  if (!merchant || merchant.length < 3) return null
+  const name = merchant.toLowerCase()
+  const match = customCategories.find(c =>
+    (c.name.length >= 3 && name.includes(c.name.toLowerCase())) ||
+    c.name.toLowerCase().includes(name) ||
+    (c.description || '').toLowerCase().includes(name)
+  )
+  return match?.name || null
+}
+
+/**
+ * Turn extracted SMS fields into the same shape the AI returns
+ */
+function toParsedTransaction(
+  fields: SmsFields,
+  template: SmsTemplate,
+  text: string,
+  fallbackDateTime: string,
+  customCategories: CustomCategory[]
+): ParsedTransaction {
+  let category = 'Other'
+  const custom = matchCustomCategory(fields.merchant, customCategories)
+  if (custom) {
+    category = custom
+  } else if (fields.direction === 'in') {
+    category = inferCategory(text) === 'Transfer' ? 'Transfer' : 'Income'
+  } else if (fields.merchant) {
+    category = inferCategory(fields.merchant)
+  }
+
+  const description = [
+    fields.balance ? `Available Balance: ${fields.balance}` : null,
+    fields.reference ? `Ref: ${fields.reference}` : null,
+    ...(fields.extra || []),
+    fields.cardDigits ? `Account: *${fields.cardDigits}` : null,
+    `Bank: ${template.bank}`,
+  ].filter(Boolean).join(' | ')
+
+  // Template fields are read verbatim; only the category is a guess
+  const confidence: FieldConfidenceMap = {
+    amount: fieldConfidence('extracted', 1),
+    currency: fieldConfidence('extracted'),
+    category: fieldConfidence(category === 'Other' ? 'defaulted' : 'inferred'),
+    transaction_datetime: fieldConfidence(fields.datetime ? 'extracted' : 'defaulted'),
+    direction: fieldConfidence('extracted'),
+  }
+  if (fields.merchant) confidence.merchant = fieldConfidence('extracted')
+  if (fields.cardDigits) confidence.payment_hint = fieldConfidence('extracted', 1)
+
+  return {
+    amount: fields.amount,
+    currency: fields.currency,
+    category,
+    merchant: fields.merchant,
+    transaction_datetime: fields.datetime || fallbackDateTime,
+    direction: fields.direction,
+    payment_hint: fields.cardDigits ? `*${fields.cardDigits}` : null,
+    notes: null,
+    description,
+    confidence,
+  }
+}
+
+/**
+ * Try every template against a single message
+ */
+export function parseSmsMessage(
+  text: string,
+  now: Date = new Date(),
+  customCategories: CustomCategory[] = []
+): { template: SmsTemplate; transaction: ParsedTransaction } | null {
+  const normalized = normalizeDigits(text).trim()
+  const fallbackDateTime = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}T${pad(now.getHours())}:${pad(now.getMinutes())}:${pad(now.getSeconds())}`
+
+  for (const template of SMS_TEMPLATES) {
+    if (!template.matches(normalized)) continue
+    const fields = template.parse(normalized, now)
+    if (fields) {
+      return { template, transaction: toParsedTransaction(fields, template, normalized, fallbackDateTime, customCategories) }
+    }
+  }
+  return null
+}
+
+/**
+ * Parse a paste of one or more messages (split by the segmenter, unless
+ * the caller already picked the segments to parse).
+ * Recognized messages are returned as transactions; the rest is joined
+ * back together in `remaining` for the AI.
+ */
+export function parseKnownSmsTemplates(
+  text: string,
+  now: Date = new Date(),
+  segments: SourceSpan[] = segmentMessages(text),
+  customCategories: CustomCategory[] = []
+): SmsParseResult {
+  const transactions: ParsedTransaction[] = []
+  const templateIds: string[] = []
+  const unknown: Array<SourceSpan & { text: string }> = []
+
+  for (const { start, end } of segments) {
+    const segment = { start, end, text: text.slice(start, end) }
+    const result = parseSmsMessage(segment.text, now, customCategories)
+    if (result) {
+      const sourceSpan = { start: segment.start, end: segment.end }
+      transactions.push({
+        ...result.transaction,
+        source_span: sourceSpan,
+        // Digit normalization keeps lengths, so offsets in the normalized text still line up
+        field_spans: locateFieldSpans(normalizeDigits(text), sourceSpan, result.transaction),
+      })
+      templateIds.push(result.template.id)
+    } else {
+      unknown.push(segment)
+    }
+  }
+
+  return {
+    transactions,
+    templateIds,
+    remaining: unknown.map(s => s.text).join(SEGMENT_JOINER),
+    remainingSegments: unknown.map(({ start, end }) => ({ start, end })),
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Source Spans
+ *
+ * Character offsets linking parsed transactions back to the text they came
+ * from. Every span is relative to the full text the user pasted, so the
+ * review screen can highlight exactly which message (and which part of it)
+ * produced each row.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SourceSpan {
+  start: number // Inclusive
+  end: number // Exclusive
+}
+
+export type SpanField = 'amount' | 'merchant' | 'transaction_datetime' | 'payment_hint'
+
+export type FieldSpanMap = Partial<Record<SpanField, SourceSpan>>
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const SPAN_FIELDS: SpanField[] = ['amount', 'merchant', 'transaction_datetime', 'payment_hint']
+
+// Messages in a paste are separated by blank lines
+const SEGMENT_SEPARATOR = /\n\s*\n/g
+
+// Joiner used when unrecognized segments are sent on to the AI
+export const SEGMENT_JOINER = '\n\n'
+
+// "2026-01-04", "04/01/2026", "4-1-26", optionally followed by a time
+const DATE_TOKEN = /\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}(?:[ T,]+\d{1,2}:\d{2}(?::\d{2})?)?/
+
+// Gaps shorter than this (after trimming) are not worth flagging as unused
+const MIN_UNCOVERED_LENGTH = 8
+
+// ============================================
+// SEGMENTS
+// ============================================
+
+/**
+ * Split text on blank lines, returning each trimmed segment with its offsets
+ */
+export function getSegmentSpans(text: string): Array<SourceSpan & { text: string }> {
+  const segments: Array<SourceSpan & { text: string }> = []
+  let cursor = 0
+
+  const pushSegment = (start: number, end: number) => {
+    const raw = text.slice(start, end)
+    const leading = raw.length - raw.trimStart().length
+    const trimmed = raw.trim()
+    if (trimmed) {
+      segments.push({ start: start + leading, end: start + leading + trimmed.length, text: trimmed })
+    }
+  }
+
+  for (const match of text.matchAll(SEGMENT_SEPARATOR)) {
+    pushSegment(cursor, match.index ?? cursor)
+    cursor = (match.index ?? cursor) + match[0].length
+  }
+  pushSegment(cursor, text.length)
+
+  return segments
+}
+
+/**
+ * Map a span in text built by joining `segments` with SEGMENT_JOINER back
+ * onto the original text the segments were cut from
+ */
+export function mapJoinedSpan(span: SourceSpan, segments: SourceSpan[]): SourceSpan | null {
+  const mapOffset = (offset: number, isEnd: boolean): number | null => {
+    let joinedStart = 0
+    for (const segment of segments) {
+      const length = segment.end - segment.start
+      const joinedEnd = joinedStart + length
+      if (offset >= joinedStart && (isEnd ? offset <= joinedEnd : offset < joinedEnd)) {
+        return segment.start + (offset - joinedStart)
+      }
+      joinedStart = joinedEnd + SEGMENT_JOINER.length
+    }
+    return null
+  }
+
+  const start = mapOffset(span.start, false)
+  const end = mapOffset(span.end, true)
+  if (start === null || end === null || end <= start) return null
+  return { start, end }
+}
+
+// ============================================
+// FIELD LOCATION
+// ============================================
+
+/**
+ * Find where a parsed transaction's values appear in its source segment.
+ * Used by deterministic parsers that know the segment but not the offsets.
+ */
+export function locateFieldSpans(
+  text: string,
+  segment: SourceSpan,
+  values: { amount: number; merchant: string | null; payment_hint: string | null }
+): FieldSpanMap {
+  const spans: FieldSpanMap = {}
+  const segmentText = text.slice(segment.start, segment.end)
+  const toSpan = (index: number, length: number): SourceSpan => ({
+    start: segment.start + index,
+    end: segment.start + index + length,
+  })
+
+  // Amount: first number in the segment with the same value
+  for (const match of segmentText.matchAll(/\d[\d,]*(?:\.\d+)?/g)) {
+    if (parseFloat(match[0].replace(/,/g, '')) === values.amount) {
+      spans.amount = toSpan(match.index ?? 0, match[0].length)
+      break
+    }
+  }
+
+  if (values.merchant) {
+    const index = segmentText.toLowerCase().indexOf(values.merchant.toLowerCase())
+    if (index !== -1) spans.merchant = toSpan(index, values.merchant.length)
+  }
+
+  // Payment hint: match on its digits (e.g. "*1234" in "card ending 1234")
+  const hintDigits = values.payment_hint?.replace(/\D/g, '')
+  if (hintDigits) {
+    const index = segmentText.indexOf(hintDigits)
+    if (index !== -1) spans.payment_hint = toSpan(index, hintDigits.length)
+  }
+
+  const date = segmentText.match(DATE_TOKEN)
+  if (date) {
+    spans.transaction_datetime = toSpan(date.index ?? 0, date[0].length)
+  }
+
+  return spans
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Accept a span from an untrusted source if it fits inside text of `length`
+ */
+export function normalizeSpan(raw: unknown, length: number): SourceSpan | null {
+  if (!raw || typeof raw !== 'object') return null
+  const { start, end } = raw as { start?: unknown; end?: unknown }
+  if (!Number.isInteger(start) || !Number.isInteger(end)) return null
+  if ((start as number) < 0 || (end as number) > length || (end as number) <= (start as number)) return null
+  return { start: start as number, end: end as number }
+}
+
+/**
+ * Sanitize a field span map from an untrusted source
+ */
+export function normalizeFieldSpans(raw: unknown, length: number): FieldSpanMap {
+  const spans: FieldSpanMap = {}
+  if (!raw || typeof raw !== 'object') return spans
+  for (const field of SPAN_FIELDS) {
+    const span = normalizeSpan((raw as Record<string, unknown>)[field], length)
+    if (span) spans[field] = span
+  }
+  return spans
+}
+
+// ============================================
+// COVERAGE
+// ============================================
+
+/**
+ * Parts of the text no transaction claims - messages the parser skipped
+ */
+export function findUncoveredSpans(text: string, spans: SourceSpan[]): SourceSpan[] {
+  const sorted = [...spans].sort((a, b) => a.start - b.start)
+  const gaps: SourceSpan[] = []
+  let cursor = 0
+
+  const pushGap = (start: number, end: number) => {
+    const raw = text.slice(start, end)
+    const trimmed = raw.trim()
+    if (trimmed.length >= MIN_UNCOVERED_LENGTH) {
+      const leading = raw.length - raw.trimStart().length
+      gaps.push({ start: start + leading, end: start + leading + trimmed.length })
+    }
+  }
+
+  for (const span of sorted) {
+    if (span.start > cursor) pushGap(cursor, span.start)
+    cursor = Math.max(cursor, span.end)
+  }
+  if (cursor < text.length) pushGap(cursor, text.length)
+
+  return gaps
+}
@@ -5,6 +5,8 @@
  * This is the core logic that powers the chat-first interface.
  */
 
+import { segmentMessages, type MessageSegment } from './segmenter'
+
 export interface ValidationResult {
   isValid: boolean
   reason?: string
@@ -12,9 +14,8 @@ export interface ValidationResult {
   suggestedCategory?: string
 }
 
-// Keywords that indicate this is NOT a transaction (spam/promotional/security)
-const EXCLUDE_KEYWORDS = [
-  // Security/OTP
+// Security/OTP messages - never a transaction, even when they quote an amount
+const SECURITY_KEYWORDS = [
   'otp',
   'verification code',
   'security code',
@@ -22,6 +23,12 @@ const EXCLUDE_KEYWORDS = [
   'one time password',
   '2fa',
   'two-factor',
+]
+
+// Keywords that indicate this is NOT a transaction (spam/promotional/security)
+const EXCLUDE_KEYWORDS = [
+  // Security/OTP
+  ...SECURITY_KEYWORDS,
   // Promotional
   'offer',
   'discount',
@@ -360,6 +367,78 @@ export function validateInput(text: string): ValidationResult {
   }
 }
 
+// ============================================
+// PRE-FILTER (bulk pastes)
+// ============================================
+
+export type MessageKind = 'transaction' | 'noise' | 'uncertain'
+
+export interface MessageClassification {
+  kind: MessageKind
+  reason?: string
+}
+
+export interface SkippedMessage extends MessageSegment {
+  reason: string
+}
+
+export interface PrefilterResult {
+  segments: MessageSegment[] // Transaction and uncertain messages, to be parsed
+  skipped: SkippedMessage[] // Noise, left out of the parse
+}
+
+/**
+ * Sort one message into transaction, noise or uncertain.
+ * Only noise is dropped, so anything with a real chance of being a
+ * transaction is classified uncertain rather than noise.
+ */
+export function classifyMessage(text: string): MessageClassification {
+  const lowerText = text.toLowerCase()
+  if (SECURITY_KEYWORDS.some(keyword => lowerText.includes(keyword))) {
+    return { kind: 'noise', reason: 'Security code / OTP' }
+  }
+
+  const validation = validateInput(text)
+  if (validation.isValid) {
+    return validation.confidence === 'low'
+      ? { kind: 'uncertain', reason: validation.reason }
+      : { kind: 'transaction' }
+  }
+
+  // Promo or balance wording inside a message that still reads like a
+  // transaction - e.g. the "Available balance" footer of a purchase SMS
+  if (containsExcludeKeyword(text) && containsIncludeKeyword(text) && extractAmount(text)) {
+    return { kind: 'uncertain', reason: validation.reason }
+  }
+
+  // Too long to judge by keywords - let the parser decide
+  if (text.length > 2000) {
+    return { kind: 'uncertain', reason: validation.reason }
+  }
+
+  return { kind: 'noise', reason: validation.reason }
+}
+
+/**
+ * Split a paste into messages and leave out the ones that are clearly not
+ * transactions (OTPs, promotions, balance-only alerts)
+ */
+export function prefilterMessages(text: string): PrefilterResult {
+  const segments: MessageSegment[] = []
+  const skipped: SkippedMessage[] = []
+
+  for (const segment of segmentMessages(text)) {
+    const classification = classifyMessage(segment.text)
+    if (classification.kind === 'noise') {
+      skipped.push({ ...segment, reason: classification.reason || 'Not a transaction' })
+    } else {
+      segments.push(segment)
+    }
+  }
+
+  return { segments, skipped }
+}
+
 /**
  * Parse a raw text input into structured transaction data
  */
@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from 'clsx'
 import { twMerge } from 'tailwind-merge'
+import { getMinorUnits } from './currency'
 
 /**
  * Combines clsx and tailwind-merge for optimal class name handling
@@ -10,18 +11,24 @@ export function cn(...inputs: ClassValue[]) {
 }
 
 /**
- * Format a number as currency with proper locale
+ * Format a number as currency with proper locale, to the currency's minor
+ * units (KWD 1.250, JPY 1,200)
  */
 export function formatCurrency(
   amount: number,
   currency: string = 'SAR',
   locale: string = 'en-SA'
 ): string {
+  const digits = getMinorUnits(currency)
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    // Not a code Intl accepts
+    return `${amount.toFixed(digits)} ${currency}`
+  }
   return new Intl.NumberFormat(locale, {
     style: 'currency',
     currency,
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
   }).format(amount)
 }
 
@@ -41,7 +48,7 @@ export function formatCompactCurrency(amount: number, currency: string = 'SAR'):
   if (absAmount >= 1_000) {
     return `${sign}${(absAmount / 1_000).toFixed(1)}K ${currency}`
   }
-  return `${sign}${absAmount.toFixed(2)} ${currency}`
+  return `${sign}${absAmount.toFixed(getMinorUnits(currency))} ${currency}`
 }
 
 /**
@@ -13,7 +13,8 @@ import {
   Check,
   Loader2,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  RefreshCw
 } from 'lucide-react'
 import { PageContainer } from '@/components/layout'
 import { GlassCard, Button } from '@/components/ui'
@@ -757,12 +758,15 @@ export function AccountsPage() {
     addAccount,
     updateAccount,
     deleteAccount,
+    recomputeAccountBalances,
     addCard,
     updateCard,
     deleteCard
   } = useData()
   
   const [isLoading, setIsLoading] = useState(true)
+  const [isRecomputing, setIsRecomputing] = useState(false)
+  const [recomputeMessage, setRecomputeMessage] = useState<string | null>(null)
   
   // Account Modal State
   const [isAccountModalOpen, setIsAccountModalOpen] = useState(false)
@@ -803,6 +807,28 @@ export function AccountsPage() {
     await deleteAccount(id)
   }
 
+  // Rebuild balances from the opening balances and the ledger
+  const handleRecomputeBalances = async () => {
+    setIsRecomputing(true)
+    setRecomputeMessage(null)
+    const result = await recomputeAccountBalances()
+    setIsRecomputing(false)
+
+    if (!result.success) {
+      setRecomputeMessage(result.error || 'Failed to recalculate balances')
+      return
+    }
+
+    const summary = result.changed
+      ? `Corrected ${result.changed} account balance${result.changed !== 1 ? 's' : ''}`
+      : 'All balances already match their transactions'
+    // Opening balances back-solved from older, possibly drifted balances
+    const estimated = result.estimated?.length
+      ? `. ${result.estimated.join(', ')} started from an estimated opening balance - set the current balance from a statement to confirm it`
+      : ''
+    setRecomputeMessage(summary + estimated)
+  }
+
   // Card handlers
   const handleAddCard = (accountId: string) => {
     setEditingCard(null)
@@ -876,6 +902,20 @@ export function AccountsPage() {
               <p className="text-xs text-slate-500 mt-1">
                 {accountsWithCards.length} account{accountsWithCards.length !== 1 ? 's' : ''} • {totalCards} card{totalCards !== 1 ? 's' : ''}
               </p>
+              {accountsWithCards.length > 0 && (
+                <button
+                  onClick={handleRecomputeBalances}
+                  disabled={isRecomputing}
+                  className="mt-3 inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs text-slate-400 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-50"
+                  title="Rebuild balances from each account's opening balance and its transactions"
+                >
+                  <RefreshCw className={cn('h-3.5 w-3.5', isRecomputing && 'animate-spin')} />
+                  Recalculate balances
+                </button>
+              )}
+              {recomputeMessage && (
+                <p className="text-xs text-slate-500 mt-1">{recomputeMessage}</p>
+              )}
             </div>
           </GlassCard>
         </motion.div>
@@ -5,18 +5,7 @@ import { PageContainer } from '@/components/layout'
 import { GlassCard } from '@/components/ui'
 import { useData } from '@/context'
 import { formatCurrency } from '@/lib/utils'
-
-// Category colors for charts
-const CATEGORY_COLORS: Record<string, string> = {
-  'Food & Dining': '#f59e0b',
-  'Transportation': '#3b82f6',
-  'Shopping': '#8b5cf6',
-  'Bills & Utilities': '#f97316',
-  'Groceries': '#22c55e',
-  'Health': '#ec4899',
-  'Transfer': '#06b6d4',
-  'Other': '#64748b',
-}
+import { CATEGORY_CHART_COLORS } from '@/lib/constants'
 
 export function AnalyticsPage() {
   const { transactions, summary } = useData()
@@ -32,7 +21,7 @@ export function AnalyticsPage() {
         acc.push({
           name: t.category,
           value: t.amount,
-          color: CATEGORY_COLORS[t.category] || CATEGORY_COLORS['Other'],
+          color: CATEGORY_CHART_COLORS[t.category] || CATEGORY_CHART_COLORS['Other'],
         })
       }
       return acc
@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect, useCallback, forwardRef } from 'react'
+import { useState, useRef, useEffect, useCallback, useMemo, forwardRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { 
   Send, 
@@ -38,19 +38,38 @@ import {
   EyeOff,
   User,
   Upload,
-  FileSpreadsheet
+  FileSpreadsheet,
+  Camera,
+  Receipt,
+  RotateCcw,
+  Inbox
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { formatCurrency } from '@/lib/utils'
 import { formatFeedDate } from '@/lib/dateUtils'
 import { useAuth } from '@/context'
-import { supabase } from '@/services/supabase'
-import { parseTransactions, isBulkParseError, type ParsedTransaction, type BulkParseResult, type CustomCategory } from '@/lib/ai'
+import { supabase, getAuthHeaders } from '@/services/supabase'
+import { parseTransactions, parseReceipt, normalizeCSVTransactions, retryParseChunk, getReceiptMimeType, isBulkParseError, matchPaymentHint, type ParsedTransaction, type BulkParseResult, type ChunkedParse, type ParseChunkResult, type CustomCategory, type RejectedRow } from '@/lib/ai'
 import { convertAmount, type Currency, formatCurrencyWithSymbol } from '@/lib/currency'
 // processCSVUpload moved to use AI-powered API instead
 import { generateId } from '@/lib/utils'
 import { toISODateString } from '@/lib/dateUtils'
-import type { Account, AccountCard, Transaction, Beneficiary, NewSubscription, TransactionAttachment, UserCategory } from '@/types/database'
+import type { Account, AccountCard, Transaction, TransactionDirection, Beneficiary, NewSubscription, TransactionAttachment, UserCategory, RawLog, ChatSession } from '@/types/database'
+import { saveMessageSegments, getRawLogIdForSpan, getRawLog, logFailedInput, getNeedsAttentionLogs, updateRawLogStatus, type SavedSegments } from '@/lib/rawLogs'
+import { prefilterMessages, type SkippedMessage } from '@/lib/transactionFilter'
+import {
+  getCategoryRules,
+  findTransferMatches,
+  getTransferMatchKey,
+  getDismissedTransferMatches,
+  dismissTransferMatch,
+  linkTransferPair,
+  type TransferMatch
+} from '@/lib/reconciliation'
+import { cacheCategoryRules } from '@/lib/offlineParser'
+import { loadExchangeRates } from '@/lib/exchangeRates'
+import { enqueueReparse, processReparseQueue, type ReparseItem } from '@/lib/reparseQueue'
+import { getChatSessions, getChatMessages, renameChatSession, deleteChatSession } from '@/lib/chatSessions'
 import { 
   TransactionDetailModal, 
   TransactionInputToolbar, 
@@ -62,9 +81,14 @@ import {
   StagingReviewModal,
   ParseReviewModal,
   type ReviewedTransaction,
-  ChatResponse,
+  ChatConversation,
+  type ChatTurn,
   type ChatResponseData,
-  CSVQuestionModal
+  type ChatActionProposal,
+  CSVQuestionModal,
+  NeedsAttentionModal,
+  type ManualEntry,
+  TransferMatchModal
 } from '@/components/feed'
 
 // Extended transaction type for UI
@@ -73,7 +97,7 @@ interface UITransaction {
   user_id: string
   amount: number
   currency: string
-  direction: 'in' | 'out'
+  direction: TransactionDirection
   category: string
   merchant: string | null
   transaction_date: string
@@ -81,6 +105,8 @@ interface UITransaction {
   raw_log_id: string | null
   account_id: string | null
   card_id: string | null
+  to_account_id: string | null
+  to_card_id: string | null
   original_amount: number | null
   original_currency: string | null
   conversion_rate: number | null
@@ -141,6 +167,8 @@ interface TransactionCardProps {
   transaction: UITransaction
   account?: Account
   card?: AccountCard
+  toAccount?: Account // Transfers only
+  toCard?: AccountCard
   beneficiary?: Beneficiary
   index: number
   onDelete: (id: string) => void
@@ -148,8 +176,9 @@ interface TransactionCardProps {
 }
 
 const TransactionCard = forwardRef<HTMLDivElement, TransactionCardProps>(
-  function TransactionCard({ transaction, account, card, beneficiary, index, onDelete, onClick }, ref) {
+  function TransactionCard({ transaction, account, card, toAccount, toCard, beneficiary, index, onDelete, onClick }, ref) {
     const isIncome = transaction.direction === 'in'
+    const isTransfer = transaction.direction === 'transfer'
     const isProcessing = transaction.isProcessing
     const hasConversion = transaction.original_amount && transaction.original_currency
     const isReimbursable = transaction.is_reimbursable
@@ -212,6 +241,18 @@ const TransactionCard = forwardRef<HTMLDivElement, TransactionCardProps>(
                       ****{card.last_4_digits}
                     </span>
                   )}
+                  {/* Transfer destination */}
+                  {toAccount && (
+                    <>
+                      <ChevronRight className="h-3 w-3 shrink-0" />
+                      {toAccount.name}
+                      {toCard && (
+                        <span className="text-slate-600">
+                          ****{toCard.last_4_digits}
+                        </span>
+                      )}
+                    </>
+                  )}
                 </span>
               )}
               {isProcessing && (
@@ -247,9 +288,9 @@ const TransactionCard = forwardRef<HTMLDivElement, TransactionCardProps>(
             <div className="shrink-0 text-right">
               <div className={cn(
                 'font-semibold font-mono text-lg',
-                isIncome ? 'text-emerald-400' : 'text-rose-400'
+                isTransfer ? 'text-cyan-400' : isIncome ? 'text-emerald-400' : 'text-rose-400'
               )}>
-                {isIncome ? '+' : '-'}{formatCurrency(transaction.amount, transaction.currency)}
+                {isTransfer ? '' : isIncome ? '+' : '-'}{formatCurrency(transaction.amount, transaction.currency)}
               </div>
               {hasConversion && (
                 <div className="text-xs text-slate-500">
@@ -379,9 +420,9 @@ function AccountSelectionModal({
                 </div>
                 <div className={cn(
                   'text-xl font-bold font-mono',
-                  parsedData.direction === 'in' ? 'text-emerald-400' : 'text-rose-400'
+                  parsedData.direction === 'in' ? 'text-emerald-400' : parsedData.direction === 'transfer' ? 'text-cyan-400' : 'text-rose-400'
                 )}>
-                  {parsedData.direction === 'in' ? '+' : '-'}
+                  {parsedData.direction === 'in' ? '+' : parsedData.direction === 'out' ? '-' : ''}
                   {formatCurrency(parsedData.amount, parsedData.currency)}
                 </div>
               </div>
@@ -486,6 +527,9 @@ function AccountSelectionModal({
   )
 }
 
+// Transaction ids per bulk update/delete request (keeps the request URL short)
+const BULK_UPDATE_CHUNK_SIZE = 100
+
 // Category list for filtering
 const CATEGORIES = [
   'Food & Dining',
@@ -515,7 +559,11 @@ function SummaryHeader({
   beneficiaries,
   beneficiaryFilter,
   onBeneficiaryFilterChange,
-  onImportClick
+  onImportClick,
+  needsAttentionCount,
+  onNeedsAttentionClick,
+  transferMatchCount,
+  onTransferMatchesClick
 }: { 
   accounts: Account[]
   summary: { income: number; expenses: number; net: number; count: number }
@@ -527,6 +575,10 @@ function SummaryHeader({
   beneficiaryFilter: string | null
   onBeneficiaryFilterChange: (beneficiaryId: string | null) => void
   onImportClick: () => void
+  needsAttentionCount: number
+  onNeedsAttentionClick: () => void
+  transferMatchCount: number
+  onTransferMatchesClick: () => void
 }) {
   const { signOut } = useAuth()
   const defaultAccount = accounts.find(a => a.is_default)
@@ -587,6 +639,34 @@ function SummaryHeader({
               </div>
             </div>
 
+            {/* Needs Attention Inbox */}
+            {needsAttentionCount > 0 && (
+              <button
+                onClick={onNeedsAttentionClick}
+                className="relative p-2.5 rounded-xl bg-rose-500/10 hover:bg-rose-500/20 transition-colors"
+                title={`${needsAttentionCount} input${needsAttentionCount !== 1 ? 's' : ''} need${needsAttentionCount === 1 ? 's' : ''} attention`}
+              >
+                <Inbox className="h-4 w-4 text-rose-400" />
+                <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 flex items-center justify-center rounded-full bg-rose-500 text-[10px] font-bold text-white">
+                  {needsAttentionCount > 99 ? '99+' : needsAttentionCount}
+                </span>
+              </button>
+            )}
+
+            {/* Suggested transfer pairs */}
+            {transferMatchCount > 0 && (
+              <button
+                onClick={onTransferMatchesClick}
+                className="relative p-2.5 rounded-xl bg-cyan-500/10 hover:bg-cyan-500/20 transition-colors"
+                title={`${transferMatchCount} possible transfer${transferMatchCount !== 1 ? 's' : ''} between your accounts`}
+              >
+                <ArrowLeftRight className="h-4 w-4 text-cyan-400" />
+                <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 flex items-center justify-center rounded-full bg-cyan-500 text-[10px] font-bold text-white">
+                  {transferMatchCount > 99 ? '99+' : transferMatchCount}
+                </span>
+              </button>
+            )}
+
             {/* Import Statement Button */}
             <button
               onClick={onImportClick}
@@ -769,7 +849,10 @@ function InputDock({
   isSubmitting,
   onCSVDrop,
   pendingCSVFile,
-  onClearCSV
+  onClearCSV,
+  onReceiptSelect,
+  pendingReceiptFile,
+  onClearReceipt
 }: {
   accounts: Account[]
   cards: AccountCard[]
@@ -782,12 +865,17 @@ function InputDock({
   onCSVDrop?: (file: File) => void
   pendingCSVFile?: File | null
   onClearCSV?: () => void
+  onReceiptSelect?: (file: File) => void
+  pendingReceiptFile?: File | null
+  onClearReceipt?: () => void
 }) {
   const [input, setInput] = useState('')
   const [feedback, setFeedback] = useState<{ type: 'error' | 'success'; message: string } | null>(null)
   const [isExpanded, setIsExpanded] = useState(false)
   const [isDragging, setIsDragging] = useState(false)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const receiptInputRef = useRef<HTMLInputElement>(null)
+  const hasPendingFile = !!pendingCSVFile || !!pendingReceiptFile
 
   // Get selected account for display
   const selectedAccount = accounts.find(a => a.id === toolbarState.accountId)
@@ -804,14 +892,17 @@ function InputDock({
   }, [isExpanded])
 
   const handleSubmit = useCallback(async () => {
-    // Allow submit with CSV even if input is empty (will use default context)
-    if ((!input.trim() && !pendingCSVFile) || isSubmitting) return
+    // Allow submit with CSV or receipt even if input is empty (will use default context)
+    if ((!input.trim() && !hasPendingFile) || isSubmitting) return
     
     const result = await onSubmit(input.trim(), pendingCSVFile || undefined)
     
     if (result.success) {
       setInput('')
-      setFeedback({ type: 'success', message: pendingCSVFile ? 'CSV processed!' : 'Transaction(s) added!' })
+      setFeedback({
+        type: 'success',
+        message: pendingCSVFile ? 'CSV processed!' : pendingReceiptFile ? 'Receipt read!' : 'Transaction(s) added!'
+      })
       setIsExpanded(false)
       if (textareaRef.current) {
         textareaRef.current.style.height = 'auto'
@@ -822,7 +913,7 @@ function InputDock({
       // Keep the input text on failure so user can retry
       setFeedback({ type: 'error', message: result.error || 'Failed to process' })
     }
-  }, [input, isSubmitting, onSubmit, pendingCSVFile])
+  }, [input, isSubmitting, onSubmit, pendingCSVFile, pendingReceiptFile, hasPendingFile])
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -836,13 +927,16 @@ function InputDock({
     if (pendingCSVFile) {
       return `Add context for ${pendingCSVFile.name} (e.g., "AED from ADIB, only Jan 2026")...`
     }
+    if (pendingReceiptFile) {
+      return 'Add a note for this receipt (optional)...'
+    }
     if (selectedCard) {
       return `Type or paste transactions... (${selectedCard.name} ****${selectedCard.last_4_digits})`
     }
     if (selectedAccount) {
       return `Type or paste transactions... (${selectedAccount.name})`
     }
-    return "Type, paste, or drop CSV file..."
+    return "Type, paste, or drop a CSV or receipt photo..."
   }
 
   // Drag and drop handlers for CSV files
@@ -867,13 +961,29 @@ function InputDock({
     
     const files = Array.from(e.dataTransfer.files)
     const csvFile = files.find(f => f.name.toLowerCase().endsWith('.csv'))
+    const receiptFile = files.find(f => getReceiptMimeType(f) !== null)
     
     if (csvFile && onCSVDrop) {
       onCSVDrop(csvFile)
-    } else if (files.length > 0 && !csvFile) {
-      setFeedback({ type: 'error', message: 'Please drop a CSV file (.csv)' })
+    } else if (receiptFile && onReceiptSelect) {
+      onReceiptSelect(receiptFile)
+    } else if (files.length > 0) {
+      setFeedback({ type: 'error', message: 'Please drop a CSV file or a receipt photo (JPEG, PNG, HEIC)' })
     }
-  }, [onCSVDrop])
+  }, [onCSVDrop, onReceiptSelect])
+
+  const handleReceiptInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file || !onReceiptSelect) return
+    
+    if (!getReceiptMimeType(file)) {
+      setFeedback({ type: 'error', message: 'Receipt must be a JPEG, PNG or HEIC image' })
+      return
+    }
+    setFeedback(null)
+    onReceiptSelect(file)
+  }, [onReceiptSelect])
 
   return (
     <motion.div
@@ -911,6 +1021,31 @@ function InputDock({
             )}
           </AnimatePresence>
 
+          {/* Pending Receipt Indicator */}
+          <AnimatePresence>
+            {pendingReceiptFile && (
+              <motion.div
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: 10 }}
+                className="flex items-center justify-between gap-2 px-3 py-2 rounded-xl mb-3 text-sm bg-sky-500/10 text-sky-400 border border-sky-500/20"
+              >
+                <div className="flex items-center gap-2">
+                  <Receipt className="h-4 w-4" />
+                  <span className="truncate max-w-[200px]">{pendingReceiptFile.name}</span>
+                  <span className="text-sky-500/70">ready to read</span>
+                </div>
+                <button 
+                  onClick={onClearReceipt}
+                  className="p-1 rounded hover:bg-sky-500/20 transition-colors"
+                  title="Remove receipt"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
           {/* Feedback */}
           <AnimatePresence>
             {feedback && (
@@ -942,7 +1077,7 @@ function InputDock({
             disabled={isSubmitting}
           />
 
-          {/* Input Area - supports drag-and-drop CSV */}
+          {/* Input Area - supports drag-and-drop CSV and receipt photos */}
           <div 
             className={cn(
               'relative flex items-end gap-2 p-2 rounded-2xl',
@@ -960,7 +1095,7 @@ function InputDock({
               <div className="absolute inset-0 flex items-center justify-center rounded-2xl bg-amber-500/10 border-2 border-dashed border-amber-500/50 z-10">
                 <div className="flex items-center gap-2 text-amber-400">
                   <FileSpreadsheet className="h-5 w-5" />
-                  <span className="font-medium">Drop CSV to import</span>
+                  <span className="font-medium">Drop CSV or receipt to import</span>
                 </div>
               </div>
             )}
@@ -983,6 +1118,35 @@ function InputDock({
               )}
             />
 
+            {/* Receipt Photo Button */}
+            {onReceiptSelect && (
+              <>
+                <input
+                  ref={receiptInputRef}
+                  type="file"
+                  accept="image/jpeg,image/png,image/heic,image/heif,.heic,.heif"
+                  onChange={handleReceiptInputChange}
+                  className="hidden"
+                />
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => receiptInputRef.current?.click()}
+                  disabled={isSubmitting}
+                  className={cn(
+                    'shrink-0 p-3 rounded-xl',
+                    'bg-white/[0.05] hover:bg-white/[0.10]',
+                    'text-slate-400 hover:text-white',
+                    'transition-all duration-200',
+                    'disabled:opacity-50'
+                  )}
+                  title="Scan a receipt photo"
+                >
+                  <Camera className="h-5 w-5" />
+                </motion.button>
+              </>
+            )}
+
             {/* Expand/Collapse Button */}
             <motion.button
               whileHover={{ scale: 1.05 }}
@@ -1008,13 +1172,15 @@ function InputDock({
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
               onClick={handleSubmit}
-              disabled={(!input.trim() && !pendingCSVFile) || isSubmitting}
+              disabled={(!input.trim() && !hasPendingFile) || isSubmitting}
               className={cn(
                 'shrink-0 p-3 rounded-xl',
                 'transition-all duration-200',
-                (input.trim() || pendingCSVFile) && !isSubmitting
+                (input.trim() || hasPendingFile) && !isSubmitting
                   ? pendingCSVFile 
                     ? 'bg-amber-500 hover:bg-amber-600 text-white shadow-lg shadow-amber-500/25'
+                    : pendingReceiptFile
+                    ? 'bg-sky-500 hover:bg-sky-600 text-white shadow-lg shadow-sky-500/25'
                     : 'bg-emerald-500 hover:bg-emerald-600 text-white shadow-lg shadow-emerald-500/25' 
                   : 'bg-white/[0.05] text-slate-500 cursor-not-allowed'
               )}
@@ -1028,7 +1194,7 @@ function InputDock({
           </div>
 
           <p className="text-center text-xs text-slate-600 mt-2">
-            Press <kbd className="px-1.5 py-0.5 rounded bg-white/[0.05] text-slate-500">Enter</kbd> to send • Drop CSV file to import • Ask questions about spending
+            Press <kbd className="px-1.5 py-0.5 rounded bg-white/[0.05] text-slate-500">Enter</kbd> to send • Drop CSV or receipt photo to import • Ask questions about spending
           </p>
         </div>
       </div>
@@ -1063,7 +1229,7 @@ function EmptyState() {
       </div>
       <div className="flex items-center gap-2 text-xs text-slate-500">
         <FileText className="h-3.5 w-3.5" />
-        <span>Supports bulk paste – up to 50 transactions at once</span>
+        <span>Supports bulk paste – long message dumps are split and parsed in parallel</span>
       </div>
     </motion.div>
   )
@@ -1076,20 +1242,66 @@ interface BatchProgress {
   succeeded: number
   failed: number
   isComplete: boolean
+  chunks?: ParseChunkResult[]  // Set while parsing a large paste in chunks
+}
+
+// Progress of a chunked parse, counted in chunks
+function getChunkProgress(chunked: ChunkedParse): BatchProgress {
+  const succeeded = chunked.chunks.filter(c => c.status === 'done').length
+  const failed = chunked.chunks.filter(c => c.status === 'failed').length
+  return {
+    total: chunked.chunks.length,
+    processed: succeeded + failed,
+    succeeded,
+    failed,
+    isComplete: succeeded + failed === chunked.chunks.length,
+    chunks: chunked.chunks
+  }
+}
+
+// Amount to save on an account: converted into the account's currency at the
+// rate for the transaction's date, keeping the original. Without an account
+// or a rate for the pair it stays in its own currency.
+function convertForAccount(
+  amount: number,
+  currency: string,
+  account: Account | null | undefined,
+  transactionDate: string
+): Pick<Transaction, 'amount' | 'currency' | 'original_amount' | 'original_currency' | 'conversion_rate'> {
+  if (account && currency !== account.currency) {
+    const conversion = convertAmount(amount, currency as Currency, account.currency as Currency, transactionDate)
+    if (conversion) {
+      return {
+        amount: conversion.convertedAmount,
+        currency: account.currency,
+        original_amount: amount,
+        original_currency: currency,
+        conversion_rate: conversion.rate,
+      }
+    }
+  }
+  return { amount, currency, original_amount: null, original_currency: null, conversion_rate: null }
 }
 
 function BatchProgressModal({
   isOpen,
   progress,
-  onClose
+  onClose,
+  onRetryChunk,
+  onContinue
 }: {
   isOpen: boolean
   progress: BatchProgress
   onClose: () => void
+  onRetryChunk?: (chunkIndex: number) => void
+  onContinue?: () => void
 }) {
   if (!isOpen) return null
 
   const percentage = progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0
+  const chunks = progress.chunks
+  const isRetrying = !!chunks && chunks.some(c => c.status === 'parsing')
+  const parsedCount = chunks ? chunks.reduce((sum, c) => sum + c.transactions.length, 0) : 0
 
   return (
     <motion.div
@@ -1118,12 +1330,16 @@ function BatchProgressModal({
             )}
             <div>
               <h3 className="text-lg font-semibold text-white">
-                {progress.isComplete ? 'Batch Complete!' : 'Processing Batch...'}
+                {chunks
+                  ? (progress.isComplete ? 'Parsing Complete' : 'Parsing Messages...')
+                  : (progress.isComplete ? 'Batch Complete!' : 'Processing Batch...')}
               </h3>
               <p className="text-sm text-slate-400">
-                {progress.isComplete 
-                  ? `${progress.succeeded} transaction${progress.succeeded !== 1 ? 's' : ''} added`
-                  : `${progress.processed} of ${progress.total}`}
+                {chunks
+                  ? `${progress.processed} of ${progress.total} parts • ${parsedCount} transaction${parsedCount !== 1 ? 's' : ''} found`
+                  : progress.isComplete 
+                    ? `${progress.succeeded} transaction${progress.succeeded !== 1 ? 's' : ''} added`
+                    : `${progress.processed} of ${progress.total}`}
               </p>
             </div>
           </div>
@@ -1144,8 +1360,54 @@ function BatchProgressModal({
             </div>
           </div>
 
+          {/* Per-chunk status */}
+          {chunks && (
+            <div className="space-y-1.5 mb-6 max-h-60 overflow-y-auto">
+              {chunks.map(({ chunk, status, transactions, error }) => (
+                <div
+                  key={chunk.index}
+                  className={cn(
+                    "flex items-center gap-2 px-3 py-2 rounded-xl border text-sm",
+                    status === 'failed'
+                      ? "bg-rose-500/10 border-rose-500/20"
+                      : "bg-white/[0.03] border-white/[0.06]"
+                  )}
+                >
+                  {status === 'done' && <CheckCircle2 className="h-4 w-4 text-emerald-400 shrink-0" />}
+                  {status === 'failed' && <XCircle className="h-4 w-4 text-rose-400 shrink-0" />}
+                  {status === 'parsing' && <Loader2 className="h-4 w-4 text-blue-400 animate-spin shrink-0" />}
+                  {status === 'pending' && <div className="h-4 w-4 rounded-full border border-slate-600 shrink-0" />}
+                  <div className="flex-1 min-w-0">
+                    <span className="text-slate-300">
+                      Part {chunk.index + 1}
+                      <span className="text-slate-500"> • {chunk.segments.length} message{chunk.segments.length !== 1 ? 's' : ''}</span>
+                    </span>
+                    {status === 'failed' && error && (
+                      <p className="text-xs text-rose-400/80 truncate">{error}</p>
+                    )}
+                  </div>
+                  {status === 'done' && (
+                    <span className="text-xs text-slate-400 shrink-0">
+                      {transactions.length} found
+                    </span>
+                  )}
+                  {status === 'failed' && onRetryChunk && (
+                    <button
+                      onClick={() => onRetryChunk(chunk.index)}
+                      disabled={isRetrying}
+                      className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium bg-rose-500/20 text-rose-300 hover:bg-rose-500/30 transition-colors disabled:opacity-50 shrink-0"
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                      Retry
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Results Summary */}
-          {progress.isComplete && (
+          {progress.isComplete && !chunks && (
             <div className="space-y-2 mb-6">
               {progress.succeeded > 0 && (
                 <div className="flex items-center gap-2 p-3 rounded-xl bg-emerald-500/10 border border-emerald-500/20">
@@ -1166,8 +1428,29 @@ function BatchProgressModal({
             </div>
           )}
 
+          {/* Chunked parse finished with failures: review what was parsed, or give up */}
+          {progress.isComplete && chunks && (
+            <div className="flex gap-3">
+              <button
+                onClick={onClose}
+                className="flex-1 py-3 rounded-xl bg-white/[0.05] hover:bg-white/[0.1] text-slate-300 font-medium transition-colors"
+              >
+                Discard
+              </button>
+              {parsedCount > 0 && onContinue && (
+                <button
+                  onClick={onContinue}
+                  disabled={isRetrying}
+                  className="flex-1 py-3 rounded-xl bg-emerald-500 hover:bg-emerald-600 text-white font-medium transition-colors disabled:opacity-50"
+                >
+                  Review {parsedCount}
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Close Button */}
-          {progress.isComplete && (
+          {progress.isComplete && !chunks && (
             <button
               onClick={onClose}
               className="w-full py-3 rounded-xl bg-emerald-500 hover:bg-emerald-600 text-white font-medium transition-colors"
@@ -1216,6 +1499,7 @@ export function HomePage() {
   const [showDetailModal, setShowDetailModal] = useState(false)
   const [selectedTransaction, setSelectedTransaction] = useState<UITransaction | null>(null)
   const [transactionAttachments, setTransactionAttachments] = useState<TransactionAttachment[]>([])
+  const [transactionRawLog, setTransactionRawLog] = useState<RawLog | null>(null)
   
   // Batch processing state
   const [showBatchProgress, setShowBatchProgress] = useState(false)
@@ -1240,21 +1524,52 @@ export function HomePage() {
   // Parse Review modal state (for text input review before save)
   const [showParseReview, setShowParseReview] = useState(false)
   const [pendingParsedTransactions, setPendingParsedTransactions] = useState<ParsedTransaction[]>([])
+  const [pendingRejectedRows, setPendingRejectedRows] = useState<RejectedRow[]>([])
+  const [pendingSourceText, setPendingSourceText] = useState('')
+  // Chunked parse that finished with failed chunks, held while the user retries them
+  const [pendingChunkedParse, setPendingChunkedParse] = useState<{ text: string; result: BulkParseResult; skipped: SkippedMessage[] } | null>(null)
+  const [pendingSkippedMessages, setPendingSkippedMessages] = useState<SkippedMessage[]>([])
+  const [pendingParseCached, setPendingParseCached] = useState(false)
   const [pendingExtraFields, setPendingExtraFields] = useState<{
     accountId: string | null
     cardId: string | null
     isReimbursable: boolean
     beneficiaryId: string | null
+    receiptFile: File | null
   } | null>(null)
   
-  // Chat/Question response state
-  const [chatResponse, setChatResponse] = useState<ChatResponseData | null>(null)
+  // Chat conversation state
+  const [showChat, setShowChat] = useState(false)
+  const [chatTurns, setChatTurns] = useState<ChatTurn[]>([])
+  const [chatSessionId, setChatSessionId] = useState<string | null>(null)
+  const [chatSessions, setChatSessions] = useState<ChatSession[]>([])
   const [isChatLoading, setIsChatLoading] = useState(false)
   
   // CSV conversation flow state
   const [pendingCSVFile, setPendingCSVFile] = useState<File | null>(null)
   const [csvQuestion, setCsvQuestion] = useState<{ question: string; context: string; options: string[]; allowCustom: boolean } | null>(null)
   const [csvConversationContext, setCsvConversationContext] = useState<string>('')
+  
+  // Receipt photo waiting to be sent
+  const [pendingReceiptFile, setPendingReceiptFile] = useState<File | null>(null)
+  
+  // "Needs attention" inbox - inputs that failed to parse
+  const [needsAttentionLogs, setNeedsAttentionLogs] = useState<RawLog[]>([])
+  const [showNeedsAttention, setShowNeedsAttention] = useState(false)
+  // Inbox entry being re-parsed; the reviewed transactions are linked to it
+  const [pendingInboxLogId, setPendingInboxLogId] = useState<string | null>(null)
+
+  // Debit/credit pairs that look like one move between the user's accounts
+  const [showTransferMatches, setShowTransferMatches] = useState(false)
+  const [dismissedTransferKeys, setDismissedTransferKeys] = useState(() => getDismissedTransferMatches())
+  const transferMatches = useMemo(
+    () => findTransferMatches(
+      transactions.filter(t => !t.isOptimistic) as Transaction[],
+      accounts,
+      cards
+    ).filter(match => !dismissedTransferKeys.has(getTransferMatchKey(match))),
+    [transactions, accounts, cards, dismissedTransferKeys]
+  )
 
   // Calculate summary
   const summary = {
@@ -1270,7 +1585,7 @@ export function HomePage() {
     if (!user) return
 
     try {
-      const [txRes, accRes, cardRes, benRes, catRes] = await Promise.all([
+      const [txRes, accRes, cardRes, benRes, catRes, inboxLogs] = await Promise.all([
         supabase
           .from('transactions')
           .select('*')
@@ -1292,7 +1607,10 @@ export function HomePage() {
           .from('user_categories')
           .select('*')
           .eq('user_id', user.id)
-          .eq('is_active', true)
+          .eq('is_active', true),
+        getNeedsAttentionLogs(user.id),
+        // Stored rates, so new transactions convert at their own date
+        loadExchangeRates(user.id)
       ])
 
 
@@ -1314,6 +1632,7 @@ export function HomePage() {
       setAccounts((accRes.data as Account[]) || [])
       setCards((cardRes.data as AccountCard[]) || [])
       setBeneficiaries((benRes.data as Beneficiary[]) || [])
+      setNeedsAttentionLogs(inboxLogs)
       // Only set custom categories if the table exists (no error)
       if (!catRes.error) {
         setCustomCategories((catRes.data as UserCategory[]) || [])
@@ -1338,6 +1657,9 @@ export function HomePage() {
         accountId: prev.accountId || toolbarAccountId,
         cardId: prev.cardId || defaultCard?.id || null
       }))
+      
+      // Keep the learned rules on the device for offline drafts
+      cacheCategoryRules(await getCategoryRules(user.id, true))
     } catch (error) {
       console.error('Error fetching data:', error)
     } finally {
@@ -1349,6 +1671,24 @@ export function HomePage() {
     fetchData()
   }, [fetchData])
 
+  // Re-parse offline drafts with the AI once we're back online
+  useEffect(() => {
+    if (!user) return
+    
+    const reparseDrafts = async () => {
+      const customCats: CustomCategory[] = customCategories.map(c => ({
+        name: c.name,
+        description: c.description
+      }))
+      const updated = await processReparseQueue(user.id, customCats)
+      if (updated > 0) fetchData()
+    }
+    
+    if (navigator.onLine) reparseDrafts()
+    window.addEventListener('online', reparseDrafts)
+    return () => window.removeEventListener('online', reparseDrafts)
+  }, [user, customCategories, fetchData])
+
   // Save transaction with account and card
   const saveTransaction = useCallback(async (
     parsed: ParsedTransaction,
@@ -1366,36 +1706,25 @@ export function HomePage() {
     try {
       const account = accountId ? accounts.find(a => a.id === accountId) : null
       const currencyToUse = extraFields?.currency || parsed.currency
-      
-      // Handle currency conversion
-      let finalAmount = parsed.amount
-      let originalAmount: number | null = null
-      let originalCurrency: string | null = null
-      let conversionRate: number | null = null
-
-      if (account && currencyToUse !== account.currency) {
-        const conversion = convertAmount(
-          parsed.amount,
-          currencyToUse as Currency,
-          account.currency as Currency
-        )
-        finalAmount = conversion.convertedAmount
-        originalAmount = parsed.amount
-        originalCurrency = currencyToUse
-        conversionRate = conversion.rate
-      }
 
       // Extract date from datetime
       const transactionDate = parsed.transaction_datetime.split('T')[0]
       const transactionTime = parsed.transaction_datetime
 
+      // Handle currency conversion
+      const converted = convertForAccount(parsed.amount, currencyToUse, account, transactionDate)
+
+      // Transfer destination, when the text names one
+      const destination = parsed.direction === 'transfer'
+        ? matchPaymentHint(parsed.transfer_to_hint ?? null, accounts, cards)
+        : null
+
       // Insert to database
       const { data, error } = await supabase
         .from('transactions')
         .insert({
           user_id: user.id,
-          amount: finalAmount,
-          currency: account?.currency || currencyToUse,
+          ...converted,
           direction: parsed.direction,
           category: parsed.category,
           merchant: parsed.merchant,
@@ -1403,9 +1732,8 @@ export function HomePage() {
           transaction_time: transactionTime,
           account_id: accountId || null,
           card_id: cardId || null,
-          original_amount: originalAmount,
-          original_currency: originalCurrency,
-          conversion_rate: conversionRate,
+          to_account_id: destination?.accountId ?? null,
+          to_card_id: destination?.cardId ?? null,
           notes: parsed.notes,
           description: parsed.description, // Rich data: balance, refs, campaign info
           is_reimbursable: extraFields?.isReimbursable || false,
@@ -1431,7 +1759,7 @@ export function HomePage() {
         prev.map(t => t.id === tempId ? { ...t, isFailed: true, isProcessing: false, category: 'Failed' } : t)
       )
     }
-  }, [user, accounts])
+  }, [user, accounts, cards])
 
   // Get extra fields from toolbar state
   const getExtraFields = useCallback(() => ({
@@ -1452,51 +1780,130 @@ export function HomePage() {
     return questionStarters.some(starter => trimmed.startsWith(starter)) || trimmed.endsWith('?')
   }, [])
   
-  // Handle chat/question queries
+  // Past conversations, refreshed whenever the chat is opened
+  const refreshChatSessions = useCallback(async () => {
+    if (!user) return
+    setChatSessions(await getChatSessions(user.id))
+  }, [user])
+
+  useEffect(() => {
+    if (showChat) refreshChatSessions()
+  }, [showChat, refreshChatSessions])
+
+  // Handle chat/question queries - each one is a turn in the open conversation
   const handleChatQuery = useCallback(async (text: string): Promise<{ success: boolean; error?: string }> => {
+    const questionTurn: ChatTurn = { id: generateId(), role: 'user', content: text, response: null }
+    setShowChat(true)
+    setChatTurns(prev => [...prev, questionTurn])
     setIsChatLoading(true)
-    setChatResponse(null)
+    
+    // A failed question is taken back out of the conversation (the text stays in the input)
+    const dropQuestion = () => setChatTurns(prev => prev.filter(t => t.id !== questionTurn.id))
     
     try {
       const response = await fetch('/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        // The server queries the full history itself
         body: JSON.stringify({
           message: text,
-          transactions: transactions.filter(t => !t.isOptimistic).map(t => ({
-            amount: t.amount,
-            currency: t.currency,
-            category: t.category,
-            merchant: t.merchant,
-            transaction_date: t.transaction_date,
-            direction: t.direction,
-            description: t.description
-          })),
-          currency: defaultCurrency
+          currency: defaultCurrency,
+          sessionId: chatSessionId
         })
       })
       
+      // Over the AI limits, or the limits can't be checked - pass the server's explanation on
+      if (response.status === 429 || response.status === 503) {
+        const errorData = await response.json().catch(() => ({}))
+        dropQuestion()
+        return { success: false, error: errorData.reason || 'Too many requests. Please try again later.' }
+      }
+      
       if (!response.ok) {
         throw new Error('Chat API error')
       }
       
       const data = await response.json() as ChatResponseData
-      setChatResponse(data)
+      setChatTurns(prev => [...prev, { id: generateId(), role: 'assistant', content: data.text, response: data }])
+      if (data.sessionId) {
+        setChatSessionId(data.sessionId)
+        // A new conversation gets its title on the server
+        if (data.sessionId !== chatSessionId) refreshChatSessions()
+      }
       return { success: true }
     } catch (error) {
       console.error('Chat error:', error)
+      dropQuestion()
       return { success: false, error: 'Could not process your question. Please try again.' }
     } finally {
       setIsChatLoading(false)
     }
-  }, [transactions, defaultCurrency])
+  }, [defaultCurrency, chatSessionId, refreshChatSessions])
+
+  const handleNewChat = useCallback(() => {
+    setChatSessionId(null)
+    setChatTurns([])
+  }, [])
+
+  const handleOpenChatSession = useCallback(async (sessionId: string) => {
+    setChatSessionId(sessionId)
+    setChatTurns([])
+    setIsChatLoading(true)
+    try {
+      const messages = await getChatMessages(sessionId)
+      setChatTurns(messages.map(m => ({
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        response: m.role === 'assistant' && m.response ? m.response as unknown as ChatResponseData : null,
+      })))
+    } finally {
+      setIsChatLoading(false)
+    }
+  }, [])
+
+  const handleRenameChatSession = useCallback(async (sessionId: string, title: string) => {
+    const result = await renameChatSession(sessionId, title)
+    if (!result.success) {
+      console.error('Error renaming chat session:', result.error)
+      return
+    }
+    setChatSessions(prev => prev.map(s => s.id === sessionId ? { ...s, title: title.trim() } : s))
+  }, [])
+
+  const handleDeleteChatSession = useCallback(async (sessionId: string) => {
+    const result = await deleteChatSession(sessionId)
+    if (!result.success) {
+      console.error('Error deleting chat session:', result.error)
+      return
+    }
+    setChatSessions(prev => prev.filter(s => s.id !== sessionId))
+    if (sessionId === chatSessionId) handleNewChat()
+  }, [chatSessionId, handleNewChat])
+
+  // Open the review modal for parsed text, using the toolbar selections as defaults
+  const openParseReview = useCallback((result: BulkParseResult, text: string, skipped: SkippedMessage[]) => {
+    setPendingParsedTransactions(result.transactions)
+    setPendingRejectedRows(result.rejected || [])
+    setPendingSkippedMessages(skipped)
+    setPendingParseCached(!!result.cached)
+    setPendingSourceText(text)
+    setPendingExtraFields({
+      accountId: toolbarState.accountId,
+      cardId: toolbarState.cardId,
+      isReimbursable: toolbarState.isReimbursable,
+      beneficiaryId: toolbarState.beneficiaryId,
+      receiptFile: null
+    })
+    setShowParseReview(true)
+  }, [toolbarState])
 
   // Handle text submission - parses with AI and shows review modal
   const handleSubmit = useCallback(async (text: string): Promise<{ success: boolean; error?: string }> => {
     if (!user || isSubmitting) return { success: false, error: 'Not ready' }
     
-    // Check if this is a question/query
-    if (isQuestion(text)) {
+    // Check if this is a question/query - while a conversation is open, everything goes to it
+    if (showChat || isQuestion(text)) {
       return handleChatQuery(text)
     }
 
@@ -1519,6 +1926,8 @@ export function HomePage() {
       raw_log_id: null,
       account_id: toolbarState.lockAccountCard ? toolbarState.accountId : null,
       card_id: toolbarState.lockAccountCard ? toolbarState.cardId : null,
+      to_account_id: null,
+      to_card_id: null,
       original_amount: null,
       original_currency: null,
       conversion_rate: null,
@@ -1541,48 +1950,146 @@ export function HomePage() {
         name: c.name,
         description: c.description
       }))
-      const result: BulkParseResult = await parseTransactions(text, customCats)
+      // Leave OTPs, promotions and balance-only alerts out of the parse
+      const { segments, skipped } = prefilterMessages(text)
+
+      // Large pastes are parsed in chunks - show per-chunk progress while they run
+      const result: BulkParseResult = segments.length > 0
+        ? await parseTransactions(text, customCats, {
+          segments,
+          onChunkProgress: chunked => {
+            setBatchProgress(getChunkProgress(chunked))
+            setShowBatchProgress(true)
+          }
+        })
+        : { transactions: [] }
 
       // Remove the initial processing entry
       setTransactions(prev => prev.filter(t => t.id !== processingTempId))
 
-      if (isBulkParseError(result)) {
+      // Some chunks failed: keep the progress modal open so they can be retried
+      if (result.chunked?.chunks.some(c => c.status === 'failed')) {
+        setPendingChunkedParse({ text, result, skipped })
+        return { success: true }
+      }
+      setShowBatchProgress(false)
+
+      // Nothing parsed - still open the review when there are skipped messages to restore
+      if (isBulkParseError(result) && skipped.length === 0) {
         console.error('Parse error:', result.error, result.reason)
+        await logFailedInput(user.id, text, result.reason || result.error || null)
+        setNeedsAttentionLogs(await getNeedsAttentionLogs(user.id))
         setIsSubmitting(false)
         return { success: false, error: result.reason || result.error || 'Could not parse transaction' }
       }
 
-      const { transactions: parsedTransactions } = result
-      console.log(`Parsed ${parsedTransactions.length} transaction(s)`)
+      console.log(`Parsed ${result.transactions.length} transaction(s)`)
       
       // Show review modal instead of saving immediately
-      setPendingParsedTransactions(parsedTransactions)
+      openParseReview(result, text, skipped)
+      setIsSubmitting(false)
+      return { success: true }
+    } catch (error) {
+      console.error('Error parsing transactions:', error)
+      setTransactions(prev => prev.filter(t => t.id !== processingTempId))
+      await logFailedInput(user.id, text, error instanceof Error ? error.message : null)
+      setNeedsAttentionLogs(await getNeedsAttentionLogs(user.id))
+      return { success: false, error: 'Something went wrong. Please try again.' }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }, [user, isSubmitting, toolbarState, customCategories, openParseReview, showChat, isQuestion, handleChatQuery])
+  
+  // Retry one failed chunk of a large paste
+  const handleRetryChunk = useCallback(async (chunkIndex: number) => {
+    if (!pendingChunkedParse?.result.chunked) return
+
+    const customCats: CustomCategory[] = customCategories.map(c => ({
+      name: c.name,
+      description: c.description
+    }))
+    const result = await retryParseChunk(
+      pendingChunkedParse.result.chunked,
+      chunkIndex,
+      customCats,
+      chunked => setBatchProgress(getChunkProgress(chunked))
+    )
+    setPendingChunkedParse({ ...pendingChunkedParse, result })
+  }, [pendingChunkedParse, customCategories])
+  
+  // Review what a chunked parse found; chunks that still failed go to the inbox
+  const handleContinueChunkedParse = useCallback(async () => {
+    if (!pendingChunkedParse || !user) return
+    openParseReview(pendingChunkedParse.result, pendingChunkedParse.text, pendingChunkedParse.skipped)
+    setPendingChunkedParse(null)
+    setShowBatchProgress(false)
+    
+    const failedChunks = pendingChunkedParse.result.chunked?.chunks.filter(c => c.status === 'failed') || []
+    if (failedChunks.length > 0) {
+      for (const failed of failedChunks) {
+        await logFailedInput(user.id, failed.chunk.text, failed.error || null)
+      }
+      setNeedsAttentionLogs(await getNeedsAttentionLogs(user.id))
+    }
+  }, [pendingChunkedParse, openParseReview, user])
+  
+  const handleCloseBatchProgress = useCallback(() => {
+    setPendingChunkedParse(null)
+    setShowBatchProgress(false)
+  }, [])
+  
+  // Handle submission of a receipt photo (text is an optional note)
+  const handleSubmitReceipt = useCallback(async (
+    file: File,
+    note: string
+  ): Promise<{ success: boolean; error?: string }> => {
+    if (!user || isSubmitting) return { success: false, error: 'Not ready' }
+
+    setIsSubmitting(true)
+
+    try {
+      const customCats: CustomCategory[] = customCategories.map(c => ({
+        name: c.name,
+        description: c.description
+      }))
+      const result = await parseReceipt(file, customCats)
+
+      if (isBulkParseError(result)) {
+        console.error('Receipt parse error:', result.error, result.reason)
+        return { success: false, error: result.reason || result.error || 'Could not read receipt' }
+      }
+
+      // Show review modal - the photo is attached once transactions are saved
+      setPendingParsedTransactions(
+        note ? result.transactions.map(tx => ({ ...tx, notes: tx.notes || note })) : result.transactions
+      )
+      setPendingRejectedRows(result.rejected || [])
       setPendingExtraFields({
         accountId: toolbarState.accountId,
         cardId: toolbarState.cardId,
         isReimbursable: toolbarState.isReimbursable,
-        beneficiaryId: toolbarState.beneficiaryId
+        beneficiaryId: toolbarState.beneficiaryId,
+        receiptFile: file
       })
       setShowParseReview(true)
-      setIsSubmitting(false)
+      setPendingReceiptFile(null)
       return { success: true }
     } catch (error) {
-      console.error('Error parsing transactions:', error)
-      setTransactions(prev => prev.filter(t => t.id !== processingTempId))
+      console.error('Error parsing receipt:', error)
       return { success: false, error: 'Something went wrong. Please try again.' }
     } finally {
       setIsSubmitting(false)
     }
   }, [user, isSubmitting, toolbarState, customCategories])
   
-  // Handle submission with optional CSV file
+  // Handle submission with optional CSV file or pending receipt photo
   const handleSubmitWithCSV = useCallback(async (
     text: string, 
     csvFile?: File
   ): Promise<{ success: boolean; error?: string }> => {
-    // If no CSV file, use regular submit
+    // If no CSV file, use receipt or regular submit
     if (!csvFile) {
-      return handleSubmit(text)
+      return pendingReceiptFile ? handleSubmitReceipt(pendingReceiptFile, text) : handleSubmit(text)
     }
     
     // Process CSV with AI
@@ -1597,7 +2104,7 @@ export function HomePage() {
       // Call the AI-powered CSV analysis endpoint
       const response = await fetch('/api/analyze-csv', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           csvContent,
           instructions: text || '',
@@ -1608,7 +2115,7 @@ export function HomePage() {
       
       if (!response.ok) {
         const error = await response.json().catch(() => ({ error: 'Unknown error' }))
-        return { success: false, error: error.error || 'CSV analysis failed' }
+        return { success: false, error: error.reason || error.error || 'CSV analysis failed' }
       }
       
       const result = await response.json()
@@ -1628,25 +2135,7 @@ export function HomePage() {
       
       if (result.type === 'transactions' && result.transactions?.length > 0) {
         // Got parsed transactions - show in review modal
-        const parsedTransactions: ParsedTransaction[] = result.transactions.map((tx: {
-          amount: number
-          currency: string
-          category: string
-          merchant: string | null
-          transaction_datetime: string
-          direction: 'in' | 'out'
-          description: string | null
-        }) => ({
-          amount: tx.amount,
-          currency: tx.currency,
-          category: tx.category,
-          merchant: tx.merchant,
-          transaction_datetime: tx.transaction_datetime,
-          direction: tx.direction,
-          payment_hint: null,
-          notes: tx.description,
-          description: tx.description
-        }))
+        const parsedTransactions = normalizeCSVTransactions(result.transactions)
         
         // Clear CSV state
         setPendingCSVFile(null)
@@ -1659,7 +2148,8 @@ export function HomePage() {
           accountId: toolbarState.accountId,
           cardId: toolbarState.cardId,
           isReimbursable: false,
-          beneficiaryId: null
+          beneficiaryId: null,
+          receiptFile: null
         })
         setShowParseReview(true)
         
@@ -1674,7 +2164,7 @@ export function HomePage() {
     } finally {
       setIsSubmitting(false)
     }
-  }, [user, handleSubmit, csvConversationContext, toolbarState])
+  }, [user, handleSubmit, handleSubmitReceipt, pendingReceiptFile, csvConversationContext, toolbarState])
   
   // Handle answer to CSV question
   const handleCSVQuestionAnswer = useCallback(async (answer: string) => {
@@ -1693,7 +2183,7 @@ export function HomePage() {
       
       const response = await fetch('/api/analyze-csv', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           csvContent,
           instructions: '',
@@ -1720,25 +2210,7 @@ export function HomePage() {
         })
       } else if (result.type === 'transactions' && result.transactions?.length > 0) {
         // Got transactions
-        const parsedTransactions: ParsedTransaction[] = result.transactions.map((tx: {
-          amount: number
-          currency: string
-          category: string
-          merchant: string | null
-          transaction_datetime: string
-          direction: 'in' | 'out'
-          description: string | null
-        }) => ({
-          amount: tx.amount,
-          currency: tx.currency,
-          category: tx.category,
-          merchant: tx.merchant,
-          transaction_datetime: tx.transaction_datetime,
-          direction: tx.direction,
-          payment_hint: null,
-          notes: tx.description,
-          description: tx.description
-        }))
+        const parsedTransactions = normalizeCSVTransactions(result.transactions)
         
         // Clear CSV state
         setPendingCSVFile(null)
@@ -1751,7 +2223,8 @@ export function HomePage() {
           accountId: toolbarState.accountId,
           cardId: toolbarState.cardId,
           isReimbursable: false,
-          beneficiaryId: null
+          beneficiaryId: null,
+          receiptFile: null
         })
         setShowParseReview(true)
       } else {
@@ -1786,33 +2259,98 @@ export function HomePage() {
     
     let successCount = 0
     let failCount = 0
+    const reparseItems: Omit<ReparseItem, 'queuedAt'>[] = []
+    
+    // Store the receipt photo once and keep it as the raw log for these transactions
+    const receiptFile = pendingExtraFields.receiptFile
+    let receiptPath: string | null = null
+    let receiptRawLogId: string | null = null
+    if (receiptFile) {
+      try {
+        const fileExt = receiptFile.name.split('.').pop()
+        receiptPath = `${user.id}/receipts/${Date.now()}.${fileExt}`
+        
+        const { error: uploadError } = await supabase.storage
+          .from('transaction-attachments')
+          .upload(receiptPath, receiptFile)
+        
+        if (uploadError) throw uploadError
+        
+        const { data: urlData } = supabase.storage
+          .from('transaction-attachments')
+          .getPublicUrl(receiptPath)
+        
+        const { data: rawLog, error: rawLogError } = await supabase
+          .from('raw_logs')
+          .insert({
+            user_id: user.id,
+            content: `Receipt photo: ${receiptFile.name}`,
+            image_url: urlData.publicUrl,
+            source: 'receipt',
+          } as never)
+          .select()
+          .single()
+        
+        if (rawLogError) throw rawLogError
+        receiptRawLogId = (rawLog as RawLog).id
+      } catch (error) {
+        // Transactions are still saved, just without the photo
+        console.error('Error uploading receipt:', error)
+        receiptPath = null
+      }
+    }
+    
+    // Keep each pasted message as a raw log so transactions can show where they came from
+    // (re-parsed inbox entries already have one)
+    let savedSegments: SavedSegments | null = null
+    if (!receiptFile && !pendingInboxLogId && pendingSourceText) {
+      try {
+        savedSegments = await saveMessageSegments(user.id, pendingSourceText)
+      } catch (error) {
+        // Transactions are still saved, just without a link to their message
+        console.error('Error saving message segments:', error)
+      }
+    }
     
     for (let i = 0; i < reviewed.length; i++) {
       const tx = reviewed[i]
       const tempId = generateId()
+      const rawLogId = pendingInboxLogId
+        || (savedSegments ? getRawLogIdForSpan(savedSegments, tx.source_span) : receiptRawLogId)
+      
+      // Transfers name their own accounts ("from AlRajhi to savings"); the toolbar account is the fallback source
+      const isTransfer = tx.direction === 'transfer'
+      const source = isTransfer ? matchPaymentHint(tx.payment_hint, accounts, cards) : null
+      const destination = isTransfer ? matchPaymentHint(tx.transfer_to_hint ?? null, accounts, cards) : null
+      const accountId = source?.accountId || pendingExtraFields.accountId
+      const cardId = source?.accountId ? source.cardId : pendingExtraFields.cardId
+      const toAccountId = destination?.accountId ?? null
+      const toCardId = destination?.cardId ?? null
+      const transactionDate = tx.editedDate || tx.transaction_datetime.split('T')[0]
+      
+      // Into the account's currency, the same as a single save
+      const converted = convertForAccount(tx.amount, tx.currency, accounts.find(a => a.id === accountId), transactionDate)
       
       // Create optimistic entry
       const optimisticTx: UITransaction = {
         id: tempId,
         user_id: user.id,
-        amount: tx.amount,
-        currency: tx.currency,
+        ...converted,
         direction: tx.direction,
         category: tx.category,
         merchant: tx.merchant,
-        transaction_date: tx.editedDate || tx.transaction_datetime.split('T')[0],
+        transaction_date: transactionDate,
         transaction_time: tx.transaction_datetime,
-        raw_log_id: null,
-        account_id: pendingExtraFields.accountId,
-        card_id: pendingExtraFields.cardId,
-        original_amount: null,
-        original_currency: null,
-        conversion_rate: null,
+        raw_log_id: rawLogId,
+        account_id: accountId,
+        card_id: cardId,
+        to_account_id: toAccountId,
+        to_card_id: toCardId,
         notes: tx.notes,
         description: tx.description,
         logo_url: null,
-        beneficiary_id: pendingExtraFields.beneficiaryId,
-        is_reimbursable: pendingExtraFields.isReimbursable,
+        beneficiary_id: isTransfer ? null : pendingExtraFields.beneficiaryId,
+        is_reimbursable: !isTransfer && pendingExtraFields.isReimbursable,
         created_at: new Date().toISOString(),
         isOptimistic: true,
         isProcessing: true,
@@ -1824,19 +2362,21 @@ export function HomePage() {
         // Save directly to database (skip account matching since user reviewed)
         const txData = {
           user_id: user.id,
-          amount: tx.amount,
-          currency: tx.currency,
+          ...converted,
           direction: tx.direction,
           category: tx.category,
           merchant: tx.merchant,
-          transaction_date: tx.editedDate || tx.transaction_datetime.split('T')[0],
+          transaction_date: transactionDate,
           transaction_time: tx.transaction_datetime,
-          account_id: pendingExtraFields.accountId,
-          card_id: pendingExtraFields.cardId,
+          raw_log_id: rawLogId,
+          account_id: accountId,
+          card_id: cardId,
+          to_account_id: toAccountId,
+          to_card_id: toCardId,
           notes: tx.notes,
           description: tx.description,
-          beneficiary_id: pendingExtraFields.beneficiaryId,
-          is_reimbursable: pendingExtraFields.isReimbursable,
+          beneficiary_id: isTransfer ? null : pendingExtraFields.beneficiaryId,
+          is_reimbursable: !isTransfer && pendingExtraFields.isReimbursable,
         }
         
         const { data: savedTx, error } = await supabase
@@ -1859,6 +2399,52 @@ export function HomePage() {
           } : t)
         )
         successCount++
+        
+        // Untouched offline drafts get an AI re-parse later
+        if (tx.offline_draft && !tx.edited) {
+          reparseItems.push({
+            transactionId: saved.id,
+            text: tx.source_span ? pendingSourceText.slice(tx.source_span.start, tx.source_span.end) : pendingSourceText,
+            draft: {
+              amount: tx.amount,
+              currency: tx.currency,
+              direction: tx.direction,
+              category: tx.category,
+              merchant: tx.merchant,
+            },
+          })
+        }
+        
+        // Attach the receipt photo (own copy, so deleting one attachment keeps the others)
+        if (receiptFile && receiptPath) {
+          try {
+            const attachmentPath = `${user.id}/${saved.id}/${receiptPath.split('/').pop()}`
+            const { error: copyError } = await supabase.storage
+              .from('transaction-attachments')
+              .copy(receiptPath, attachmentPath)
+            
+            if (copyError) throw copyError
+            
+            const { data: urlData } = supabase.storage
+              .from('transaction-attachments')
+              .getPublicUrl(attachmentPath)
+            
+            const { error: dbError } = await supabase
+              .from('transaction_attachments')
+              .insert({
+                user_id: user.id,
+                transaction_id: saved.id,
+                file_url: urlData.publicUrl,
+                file_name: receiptFile.name,
+                file_type: getReceiptMimeType(receiptFile) || receiptFile.type,
+                file_size: receiptFile.size,
+              } as never)
+            
+            if (dbError) throw dbError
+          } catch (error) {
+            console.error('Error attaching receipt:', error)
+          }
+        }
       } catch (error) {
         console.error('Error saving transaction:', error)
         // Mark as failed
@@ -1883,6 +2469,16 @@ export function HomePage() {
       }
     }
     
+    enqueueReparse(reparseItems)
+    
+    // The inbox entry now has its transactions
+    if (pendingInboxLogId && successCount > 0) {
+      const resolved = await updateRawLogStatus(pendingInboxLogId, 'resolved')
+      if (resolved.success) {
+        setNeedsAttentionLogs(prev => prev.filter(l => l.id !== pendingInboxLogId))
+      }
+    }
+    
     // Complete batch progress
     if (isBulkOperation) {
       setBatchProgress(prev => ({ ...prev, isComplete: true }))
@@ -1891,17 +2487,100 @@ export function HomePage() {
     
     // Clean up
     setPendingParsedTransactions([])
+    setPendingRejectedRows([])
+    setPendingSkippedMessages([])
+    setPendingParseCached(false)
+    setPendingSourceText('')
+    setPendingInboxLogId(null)
     setPendingExtraFields(null)
     setShowParseReview(false)
     setIsSubmitting(false)
-  }, [user, pendingExtraFields])
+  }, [user, pendingExtraFields, pendingSourceText, pendingInboxLogId, accounts, cards])
+  
+  // Parse a message the pre-filter skipped, at the user's request
+  const handleRestoreSkippedMessage = useCallback(async (message: SkippedMessage): Promise<BulkParseResult> => {
+    const customCats: CustomCategory[] = customCategories.map(c => ({
+      name: c.name,
+      description: c.description
+    }))
+    return parseTransactions(pendingSourceText, customCats, { segments: [message] })
+  }, [pendingSourceText, customCategories])
   
   // Handle cancel from ParseReviewModal  
   const handleCancelParseReview = useCallback(() => {
     setPendingParsedTransactions([])
+    setPendingRejectedRows([])
+    setPendingSkippedMessages([])
+    setPendingParseCached(false)
+    setPendingSourceText('')
+    setPendingInboxLogId(null)
     setPendingExtraFields(null)
     setShowParseReview(false)
   }, [])
+  
+  // Re-parse an inbox entry (with the user's hint) and review the result
+  const handleRetryRawLog = useCallback(async (log: RawLog, hint: string): Promise<{ success: boolean; error?: string }> => {
+    const customCats: CustomCategory[] = customCategories.map(c => ({
+      name: c.name,
+      description: c.description
+    }))
+    const result = await parseTransactions(log.content, customCats, { hint: hint || undefined })
+    
+    if (result.transactions.length === 0) {
+      const reason = result.reason || result.error || 'No transactions found'
+      await updateRawLogStatus(log.id, 'needs_attention', reason)
+      setNeedsAttentionLogs(prev => prev.map(l => l.id === log.id ? { ...l, parse_error: reason } : l))
+      return { success: false, error: reason }
+    }
+    
+    setPendingInboxLogId(log.id)
+    setShowNeedsAttention(false)
+    openParseReview(result, log.content, [])
+    return { success: true }
+  }, [customCategories, openParseReview])
+  
+  // Save a transaction typed in by hand for an inbox entry
+  const handleSaveManualEntry = useCallback(async (log: RawLog, entry: ManualEntry): Promise<{ success: boolean; error?: string }> => {
+    if (!user) return { success: false, error: 'Not ready' }
+    
+    try {
+      const { error } = await supabase
+        .from('transactions')
+        .insert({
+          user_id: user.id,
+          amount: entry.amount,
+          currency: entry.currency,
+          direction: entry.direction,
+          category: entry.category,
+          merchant: entry.merchant,
+          transaction_date: entry.date,
+          raw_log_id: log.id,
+          account_id: toolbarState.accountId,
+          card_id: toolbarState.cardId,
+          notes: entry.notes,
+          beneficiary_id: toolbarState.beneficiaryId,
+          is_reimbursable: toolbarState.isReimbursable,
+        } as never)
+      
+      if (error) throw error
+    } catch (error) {
+      console.error('Error saving manual entry:', error)
+      return { success: false, error: 'Could not save the transaction' }
+    }
+    
+    await updateRawLogStatus(log.id, 'resolved')
+    setNeedsAttentionLogs(prev => prev.filter(l => l.id !== log.id))
+    fetchData()
+    return { success: true }
+  }, [user, toolbarState, fetchData])
+  
+  // Remove an inbox entry that isn't a transaction
+  const handleDismissRawLog = useCallback(async (log: RawLog) => {
+    const result = await updateRawLogStatus(log.id, 'dismissed')
+    if (result.success) {
+      setNeedsAttentionLogs(prev => prev.filter(l => l.id !== log.id))
+    }
+  }, [])
 
   // Handle account/card selection from modal
   const handleAccountSelect = useCallback(async (accountId: string, cardId: string | null) => {
@@ -2079,6 +2758,10 @@ export function HomePage() {
     setSelectedTransaction(transaction)
     setShowDetailModal(true)
     fetchAttachments(transaction.id)
+    setTransactionRawLog(null)
+    if (transaction.raw_log_id) {
+      getRawLog(transaction.raw_log_id).then(setTransactionRawLog)
+    }
   }, [fetchAttachments])
 
   // Update transaction from detail modal
@@ -2116,6 +2799,27 @@ export function HomePage() {
     setSelectedTransaction(null)
   }, [handleDelete])
 
+  // Apply the same update to many transactions (detail modal bulk edit, chat edits)
+  const updateTransactionsById = useCallback(async (
+    ids: string[],
+    updates: Partial<Transaction>
+  ) => {
+    for (let i = 0; i < ids.length; i += BULK_UPDATE_CHUNK_SIZE) {
+      const { error } = await supabase
+        .from('transactions')
+        .update(updates as never)
+        .in('id', ids.slice(i, i + BULK_UPDATE_CHUNK_SIZE))
+
+      if (error) throw error
+    }
+
+    // Update local state
+    const idSet = new Set(ids)
+    setTransactions(prev =>
+      prev.map(t => idSet.has(t.id) ? { ...t, ...updates } as UITransaction : t)
+    )
+  }, [])
+
   // Bulk update transactions by merchant
   const handleBulkTransactionUpdate = useCallback(async (
     merchantName: string,
@@ -2124,28 +2828,84 @@ export function HomePage() {
     if (!user) return
     
     try {
-      // Update all transactions with this merchant (except the one being edited)
-      const { error } = await supabase
+      // All transactions with this merchant (except the one being edited)
+      const { data, error } = await supabase
         .from('transactions')
-        .update(updates as never)
+        .select('id')
         .eq('user_id', user.id)
         .eq('merchant', merchantName)
         .neq('id', selectedTransaction?.id || '')
       
       if (error) throw error
       
-      // Update local state
-      setTransactions(prev =>
-        prev.map(t => 
-          t.merchant === merchantName && t.id !== selectedTransaction?.id
-            ? { ...t, ...updates } as UITransaction
-            : t
-        )
-      )
+      await updateTransactionsById(((data || []) as { id: string }[]).map(t => t.id), updates)
     } catch (error) {
       console.error('Error bulk updating transactions:', error)
     }
-  }, [user, selectedTransaction])
+  }, [user, selectedTransaction, updateTransactionsById])
+
+  // Apply an edit the chat proposed, once the user confirms it
+  const handleApplyChatAction = useCallback(async (
+    proposal: ChatActionProposal
+  ): Promise<{ success: boolean; error?: string }> => {
+    try {
+      if (proposal.action === 'delete') {
+        for (let i = 0; i < proposal.transaction_ids.length; i += BULK_UPDATE_CHUNK_SIZE) {
+          const { error } = await supabase
+            .from('transactions')
+            .delete()
+            .in('id', proposal.transaction_ids.slice(i, i + BULK_UPDATE_CHUNK_SIZE))
+
+          if (error) throw error
+        }
+
+        const idSet = new Set(proposal.transaction_ids)
+        setTransactions(prev => prev.filter(t => !idSet.has(t.id)))
+      } else if (proposal.updates) {
+        await updateTransactionsById(proposal.transaction_ids, proposal.updates)
+      }
+
+      return { success: true }
+    } catch (error) {
+      console.error('Error applying chat action:', error)
+      // Part of it may have been written - reload what's actually stored
+      fetchData()
+      return { success: false, error: 'Could not apply the change. Please try again.' }
+    }
+  }, [updateTransactionsById, fetchData])
+
+  // Link a suggested debit/credit pair as one transfer
+  const handleLinkTransfer = useCallback(async (
+    match: TransferMatch<Transaction>
+  ): Promise<{ success: boolean; error?: string }> => {
+    const result = await linkTransferPair(match)
+    if (!result.success) {
+      // The debit may already be a transfer - reload what's actually stored
+      fetchData()
+      return { success: false, error: 'Could not link these transactions. Please try again.' }
+    }
+
+    setTransactions(prev => prev
+      .filter(t => t.id !== match.incoming.id)
+      .map(t => t.id === match.outgoing.id ? {
+        ...t,
+        direction: 'transfer' as const,
+        category: 'Transfer',
+        to_account_id: match.incoming.account_id,
+        to_card_id: match.incoming.card_id,
+        beneficiary_id: null,
+        is_reimbursable: false,
+      } : t)
+    )
+    // Account balances changed
+    fetchData()
+    return { success: true }
+  }, [fetchData])
+
+  const handleDismissTransfer = useCallback((match: TransferMatch<Transaction>) => {
+    dismissTransferMatch(match)
+    setDismissedTransferKeys(getDismissedTransferMatches())
+  }, [])
 
   // Convert transaction to subscription
   const handleConvertToSubscription = useCallback(async (
@@ -2264,6 +3024,10 @@ export function HomePage() {
         beneficiaryFilter={beneficiaryFilter}
         onBeneficiaryFilterChange={setBeneficiaryFilter}
         onImportClick={() => setShowCSVUpload(true)}
+        needsAttentionCount={needsAttentionLogs.length}
+        onNeedsAttentionClick={() => setShowNeedsAttention(true)}
+        transferMatchCount={transferMatches.length}
+        onTransferMatchesClick={() => setShowTransferMatches(true)}
       />
 
       {/* Feed Area */}
@@ -2291,6 +3055,8 @@ export function HomePage() {
                     transaction={transaction}
                     account={accounts.find(a => a.id === transaction.account_id)}
                     card={cards.find(c => c.id === transaction.card_id)}
+                    toAccount={accounts.find(a => a.id === transaction.to_account_id)}
+                    toCard={cards.find(c => c.id === transaction.to_card_id)}
                     beneficiary={beneficiaries.find(b => b.id === transaction.beneficiary_id)}
                     index={index}
                     onDelete={handleDelete}
@@ -2303,13 +3069,22 @@ export function HomePage() {
         </div>
       </div>
 
-      {/* Chat Response (for questions) */}
+      {/* Chat Conversation (for questions) */}
       <AnimatePresence>
-        {chatResponse && (
-          <ChatResponse
-            response={chatResponse}
+        {showChat && (
+          <ChatConversation
+            title={chatSessions.find(s => s.id === chatSessionId)?.title || null}
+            turns={chatTurns}
+            isLoading={isChatLoading}
             currency={defaultCurrency}
-            onDismiss={() => setChatResponse(null)}
+            sessions={chatSessions}
+            activeSessionId={chatSessionId}
+            onClose={() => setShowChat(false)}
+            onNewChat={handleNewChat}
+            onOpenSession={handleOpenChatSession}
+            onRenameSession={handleRenameChatSession}
+            onDeleteSession={handleDeleteChatSession}
+            onApplyAction={handleApplyChatAction}
           />
         )}
       </AnimatePresence>
@@ -2326,6 +3101,7 @@ export function HomePage() {
         isSubmitting={isSubmitting || isChatLoading}
         onCSVDrop={(file) => {
           // Store the CSV file and wait for user context
+          setPendingReceiptFile(null)
           setPendingCSVFile(file)
         }}
         pendingCSVFile={pendingCSVFile}
@@ -2334,6 +3110,13 @@ export function HomePage() {
           setCsvQuestion(null)
           setCsvConversationContext('')
         }}
+        onReceiptSelect={(file) => {
+          // Store the photo and wait for an optional note
+          setPendingCSVFile(null)
+          setPendingReceiptFile(file)
+        }}
+        pendingReceiptFile={pendingReceiptFile}
+        onClearReceipt={() => setPendingReceiptFile(null)}
       />
 
       {/* Account/Card Selection Modal */}
@@ -2371,7 +3154,9 @@ export function HomePage() {
           <BatchProgressModal
             isOpen={showBatchProgress}
             progress={batchProgress}
-            onClose={() => setShowBatchProgress(false)}
+            onClose={handleCloseBatchProgress}
+            onRetryChunk={pendingChunkedParse ? handleRetryChunk : undefined}
+            onContinue={pendingChunkedParse ? handleContinueChunkedParse : undefined}
           />
         )}
       </AnimatePresence>
@@ -2384,11 +3169,13 @@ export function HomePage() {
         cards={cards}
         allTransactions={transactions as Transaction[]}
         attachments={transactionAttachments}
+        rawLog={transactionRawLog}
         customCategories={customCategories}
         onClose={() => { 
           setShowDetailModal(false)
           setSelectedTransaction(null)
           setTransactionAttachments([])
+          setTransactionRawLog(null)
         }}
         onSave={handleTransactionUpdate}
         onBulkSave={handleBulkTransactionUpdate}
@@ -2481,11 +3268,39 @@ export function HomePage() {
         isOpen={showParseReview}
         onClose={() => setShowParseReview(false)}
         parsedTransactions={pendingParsedTransactions}
+        rejectedRows={pendingRejectedRows}
+        skippedMessages={pendingSkippedMessages}
+        onRestoreSkipped={handleRestoreSkippedMessage}
+        alreadyParsed={pendingParseCached}
+        sourceText={pendingSourceText}
         customCategories={customCategories}
         userId={user?.id || ''}
         onConfirm={handleConfirmParsedTransactions}
         onCancel={handleCancelParseReview}
       />
+      
+      {/* Needs Attention Inbox */}
+      <NeedsAttentionModal
+        isOpen={showNeedsAttention}
+        logs={needsAttentionLogs}
+        customCategories={customCategories}
+        defaultCurrency={defaultCurrency}
+        onClose={() => setShowNeedsAttention(false)}
+        onRetry={handleRetryRawLog}
+        onSaveManual={handleSaveManualEntry}
+        onDismiss={handleDismissRawLog}
+      />
+
+      {/* Suggested transfers */}
+      <TransferMatchModal
+        isOpen={showTransferMatches}
+        matches={transferMatches}
+        accounts={accounts}
+        cards={cards}
+        onClose={() => setShowTransferMatches(false)}
+        onLink={handleLinkTransfer}
+        onDismiss={handleDismissTransfer}
+      />
     </div>
   )
 }
@@ -18,16 +18,29 @@ import {
   Trash2,
   FileSpreadsheet,
   Calendar,
-  Wallet
+  Wallet,
+  Sparkles,
+  MessageSquareText,
+  Gauge,
+  ArrowRightLeft,
+  Upload,
+  CloudDownload,
+  Search
 } from 'lucide-react'
 import { PageContainer } from '@/components/layout'
 import { GlassCard } from '@/components/ui'
 import { CSVUpload, StagingReviewModal } from '@/components/feed'
 import { useAuth } from '@/context'
-import type { Account, AccountCard, Beneficiary, UserCategory, RecurringIncome } from '@/types/database'
-import { CURRENCIES, getCurrencyOptions, type Currency } from '@/lib/currency'
+import type { Account, AccountCard, Beneficiary, UserCategory, RecurringIncome, CategoryRule, ParseCorrection, RedactionLevel, ExchangeRate } from '@/types/database'
+import { CURRENCIES, getCurrencyOptions, getMinorUnits, searchCurrencies, type Currency } from '@/lib/currency'
 import { cn } from '@/lib/utils'
 import { supabase } from '@/services/supabase'
+import { getCategoryRules, updateCategoryRule, deleteCategoryRule, MIN_RULE_CONFIDENCE } from '@/lib/reconciliation'
+import { getParseCorrections, deleteParseCorrection, clearParseCorrections } from '@/lib/corrections'
+import { CONFIDENCE_FIELD_LABELS, type ConfidenceField } from '@/lib/confidence'
+import { getAIUsage, type AIUsage } from '@/lib/ai'
+import { loadExchangeRates, importExchangeRates, deleteExchangeRate, manualRateSource, csvRateSource, defaultRateProvider, type RateSource } from '@/lib/exchangeRates'
+import { toISODateString } from '@/lib/dateUtils'
 
 // Default categories that come with the app
 const DEFAULT_CATEGORIES = [
@@ -47,6 +60,25 @@ const DEFAULT_CATEGORIES = [
   'Other'
 ]
 
+// What each AI redaction level masks before text is sent to the AI
+const REDACTION_OPTIONS: { value: RedactionLevel; label: string; description: string }[] = [
+  {
+    value: 'off',
+    label: 'Off',
+    description: 'Messages are sent as they are',
+  },
+  {
+    value: 'standard',
+    label: 'Standard',
+    description: 'Masks IBANs, card and account numbers, national IDs and phone numbers (last 4 digits kept for card matching)',
+  },
+  {
+    value: 'strict',
+    label: 'Strict',
+    description: 'Also masks names and email addresses. Merchant detection for transfers may be less accurate',
+  },
+]
+
 // Predefined colors for categories and beneficiaries
 const CATEGORY_COLORS = [
   '#10b981', // emerald
@@ -116,9 +148,11 @@ function CurrencyModal({
   onClose: () => void
   isLoading: boolean
 }) {
+  const [query, setQuery] = useState('')
+
   if (!isOpen) return null
 
-  const currencyOptions = getCurrencyOptions()
+  const matches = searchCurrencies(query)
 
   return (
     <motion.div
@@ -156,9 +190,24 @@ function CurrencyModal({
             Choose the currency used for displaying totals and summaries.
           </p>
 
+          {/* Search */}
+          <div className="flex items-center gap-2 px-3 py-2.5 mb-3 rounded-xl bg-white/[0.03] border border-white/[0.06]">
+            <Search className="h-4 w-4 text-slate-500" />
+            <input
+              type="text"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="Search by code or name (USD, دينار...)"
+              className="w-full bg-transparent text-sm text-white placeholder:text-slate-600 outline-none"
+            />
+          </div>
+
           {/* Currency List */}
           <div className="space-y-2 max-h-80 overflow-y-auto">
-            {currencyOptions.map(({ value }) => {
+            {matches.length === 0 && (
+              <p className="py-6 text-center text-sm text-slate-500">No currency found</p>
+            )}
+            {matches.map(value => {
               const currency = CURRENCIES[value]
               const isSelected = value === currentCurrency
               
@@ -183,7 +232,9 @@ function CurrencyModal({
                     )}>
                       {value}
                     </div>
-                    <div className="text-sm text-slate-500">{currency.name}</div>
+                    <div className="text-sm text-slate-500">
+                      {currency.name} · <span dir="rtl">{currency.nameAr}</span>
+                    </div>
                   </div>
                   <div className="text-right">
                     <div className={cn(
@@ -213,6 +264,105 @@ function CurrencyModal({
   )
 }
 
+// AI Redaction Modal
+function RedactionModal({
+  isOpen,
+  currentLevel,
+  onSelect,
+  onClose,
+  isLoading
+}: {
+  isOpen: boolean
+  currentLevel: RedactionLevel
+  onSelect: (level: RedactionLevel) => void
+  onClose: () => void
+  isLoading: boolean
+}) {
+  if (!isOpen) return null
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-md"
+        onClick={e => e.stopPropagation()}
+      >
+        <GlassCard size="lg" className="relative">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-xl bg-emerald-500/20">
+                <Shield className="h-5 w-5 text-emerald-400" />
+              </div>
+              <h2 className="text-xl font-bold text-white">AI Privacy</h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg hover:bg-white/10 text-slate-400 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <p className="text-sm text-slate-400 mb-4">
+            Choose what is masked in your messages and statements before they are sent to the AI.
+            Masked values are restored in the parsed transactions.
+          </p>
+
+          <div className="space-y-2">
+            {REDACTION_OPTIONS.map(option => {
+              const isSelected = option.value === currentLevel
+
+              return (
+                <button
+                  key={option.value}
+                  onClick={() => onSelect(option.value)}
+                  disabled={isLoading}
+                  className={cn(
+                    'w-full flex items-center gap-3 p-3 rounded-xl border transition-all text-left',
+                    isSelected
+                      ? 'bg-emerald-500/20 border-emerald-500/50'
+                      : 'bg-white/[0.03] border-white/[0.06] hover:bg-white/[0.06]',
+                    isLoading && 'opacity-50 cursor-not-allowed'
+                  )}
+                >
+                  <div className="flex-1">
+                    <div className={cn(
+                      'font-medium',
+                      isSelected ? 'text-emerald-400' : 'text-white'
+                    )}>
+                      {option.label}
+                    </div>
+                    <div className="text-sm text-slate-500">{option.description}</div>
+                  </div>
+                  {isSelected && (
+                    <Check className="h-5 w-5 text-emerald-400 shrink-0" />
+                  )}
+                </button>
+              )
+            })}
+          </div>
+
+          {/* Loading indicator */}
+          {isLoading && (
+            <div className="absolute inset-0 flex items-center justify-center bg-slate-900/50 rounded-2xl">
+              <Loader2 className="h-8 w-8 text-emerald-400 animate-spin" />
+            </div>
+          )}
+        </GlassCard>
+      </motion.div>
+    </motion.div>
+  )
+}
+
 // Beneficiary Modal
 function BeneficiaryModal({
   isOpen,
@@ -495,6 +645,292 @@ function CategoryModal({
   )
 }
 
+// Category Rule Modal
+function CategoryRuleModal({
+  isOpen,
+  rule,
+  categories,
+  onSave,
+  onClose,
+  isLoading
+}: {
+  isOpen: boolean
+  rule: CategoryRule | null
+  categories: string[]
+  onSave: (merchantKeyword: string, category: string) => void
+  onClose: () => void
+  isLoading: boolean
+}) {
+  const [merchantKeyword, setMerchantKeyword] = useState(rule?.merchant_keyword || '')
+  const [category, setCategory] = useState(rule?.category || categories[0])
+
+  useEffect(() => {
+    if (isOpen) {
+      setMerchantKeyword(rule?.merchant_keyword || '')
+      setCategory(rule?.category || categories[0])
+    }
+  }, [isOpen, rule])
+
+  if (!isOpen || !rule) return null
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-md"
+        onClick={e => e.stopPropagation()}
+      >
+        <GlassCard size="lg" className="relative">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-xl bg-violet-500/20">
+                <Sparkles className="h-5 w-5 text-violet-400" />
+              </div>
+              <h2 className="text-xl font-bold text-white">Edit Rule</h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg hover:bg-white/10 text-slate-400 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <p className="text-sm text-slate-400 mb-4">
+            Transactions whose merchant contains this keyword get this category.
+          </p>
+
+          {/* Form */}
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-2">Merchant keyword</label>
+              <input
+                type="text"
+                value={merchantKeyword}
+                onChange={(e) => setMerchantKeyword(e.target.value)}
+                placeholder="e.g., starbucks, careem food"
+                className="w-full bg-white/[0.05] border border-white/[0.08] rounded-xl px-4 py-3 text-white placeholder:text-slate-600 outline-none focus:border-violet-500/50 transition-colors"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-2">Category</label>
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className="w-full bg-white/[0.05] border border-white/[0.08] rounded-xl px-4 py-3 text-white outline-none focus:border-violet-500/50 transition-colors"
+              >
+                {/* Keep a category that no longer exists selectable */}
+                {!categories.includes(category) && <option value={category} className="bg-slate-900">{category}</option>}
+                {categories.map((cat) => (
+                  <option key={cat} value={cat} className="bg-slate-900">{cat}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 mt-6">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-3 rounded-xl bg-white/[0.05] text-slate-400 hover:bg-white/[0.08] transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(merchantKeyword, category)}
+              disabled={!merchantKeyword.trim() || isLoading}
+              className="flex-1 px-4 py-3 rounded-xl bg-violet-500 text-white font-medium hover:bg-violet-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {isLoading ? (
+                <Loader2 className="h-5 w-5 animate-spin" />
+              ) : (
+                <>
+                  <Check className="h-5 w-5" />
+                  Save
+                </>
+              )}
+            </button>
+          </div>
+
+          {/* Loading overlay */}
+          {isLoading && (
+            <div className="absolute inset-0 flex items-center justify-center bg-slate-900/50 rounded-2xl">
+              <Loader2 className="h-8 w-8 text-violet-400 animate-spin" />
+            </div>
+          )}
+        </GlassCard>
+      </motion.div>
+    </motion.div>
+  )
+}
+
+// Exchange Rate Modal
+function ExchangeRateModal({
+  isOpen,
+  defaultQuote,
+  onSave,
+  onClose,
+  isLoading,
+  error
+}: {
+  isOpen: boolean
+  defaultQuote: Currency
+  onSave: (date: string, base: Currency, quote: Currency, rate: number) => void
+  onClose: () => void
+  isLoading: boolean
+  error: string | null
+}) {
+  const [date, setDate] = useState(toISODateString(new Date()))
+  const [base, setBase] = useState<Currency>('USD')
+  const [quote, setQuote] = useState<Currency>(defaultQuote)
+  const [rate, setRate] = useState('')
+
+  useEffect(() => {
+    if (isOpen) {
+      setDate(toISODateString(new Date()))
+      setBase(defaultQuote === 'USD' ? 'EUR' : 'USD')
+      setQuote(defaultQuote)
+      setRate('')
+    }
+  }, [isOpen, defaultQuote])
+
+  if (!isOpen) return null
+
+  const currencyOptions = getCurrencyOptions()
+  const parsedRate = parseFloat(rate)
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-md"
+        onClick={e => e.stopPropagation()}
+      >
+        <GlassCard size="lg" className="relative">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-xl bg-cyan-500/20">
+                <ArrowRightLeft className="h-5 w-5 text-cyan-400" />
+              </div>
+              <h2 className="text-xl font-bold text-white">Add Rate</h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg hover:bg-white/10 text-slate-400 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <p className="text-sm text-slate-400 mb-4">
+            Used for transactions on this date and after, until a newer rate is added.
+          </p>
+
+          {/* Form */}
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-2">Date</label>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="w-full bg-white/[0.05] border border-white/[0.08] rounded-xl px-4 py-3 text-white outline-none focus:border-cyan-500/50 transition-colors"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-2">From</label>
+                <select
+                  value={base}
+                  onChange={(e) => setBase(e.target.value as Currency)}
+                  className="w-full bg-white/[0.05] border border-white/[0.08] rounded-xl px-4 py-3 text-white outline-none focus:border-cyan-500/50 transition-colors"
+                >
+                  {currencyOptions.map(option => (
+                    <option key={option.value} value={option.value} className="bg-slate-900">{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-2">To</label>
+                <select
+                  value={quote}
+                  onChange={(e) => setQuote(e.target.value as Currency)}
+                  className="w-full bg-white/[0.05] border border-white/[0.08] rounded-xl px-4 py-3 text-white outline-none focus:border-cyan-500/50 transition-colors"
+                >
+                  {currencyOptions.map(option => (
+                    <option key={option.value} value={option.value} className="bg-slate-900">{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-2">
+                1 {base} = ? {quote}
+              </label>
+              <input
+                type="number"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                placeholder="e.g., 3.7500"
+                step="0.0001"
+                min="0"
+                className="w-full bg-white/[0.05] border border-white/[0.08] rounded-xl px-4 py-3 text-white font-mono placeholder:text-slate-600 outline-none focus:border-cyan-500/50 transition-colors"
+              />
+            </div>
+
+            {error && <p className="text-sm text-rose-400">{error}</p>}
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 mt-6">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-3 rounded-xl bg-white/[0.05] text-slate-400 hover:bg-white/[0.08] transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(date, base, quote, parsedRate)}
+              disabled={!date || base === quote || !(parsedRate > 0) || isLoading}
+              className="flex-1 px-4 py-3 rounded-xl bg-cyan-500 text-white font-medium hover:bg-cyan-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {isLoading ? (
+                <Loader2 className="h-5 w-5 animate-spin" />
+              ) : (
+                <>
+                  <Check className="h-5 w-5" />
+                  Save
+                </>
+              )}
+            </button>
+          </div>
+        </GlassCard>
+      </motion.div>
+    </motion.div>
+  )
+}
+
 // Recurring Income Modal
 function RecurringIncomeModal({
   isOpen,
@@ -663,6 +1099,7 @@ export function SettingsPage() {
   const { user, profile, signOut, updateProfile, defaultCurrency } = useAuth()
   const [showCurrencyModal, setShowCurrencyModal] = useState(false)
   const [isUpdating, setIsUpdating] = useState(false)
+  const [showRedactionModal, setShowRedactionModal] = useState(false)
   
   // Beneficiaries state
   const [beneficiaries, setBeneficiaries] = useState<Beneficiary[]>([])
@@ -678,6 +1115,17 @@ export function SettingsPage() {
   const [isCategoryLoading, setIsCategoryLoading] = useState(false)
   const [deletingCategoryId, setDeletingCategoryId] = useState<string | null>(null)
   
+  // Category rules state
+  const [categoryRules, setCategoryRules] = useState<CategoryRule[]>([])
+  const [editingRule, setEditingRule] = useState<CategoryRule | null>(null)
+  const [isRuleLoading, setIsRuleLoading] = useState(false)
+  const [deletingRuleId, setDeletingRuleId] = useState<string | null>(null)
+  
+  // Parsing examples state
+  const [parseCorrections, setParseCorrections] = useState<ParseCorrection[]>([])
+  const [deletingCorrectionId, setDeletingCorrectionId] = useState<string | null>(null)
+  const [isClearingCorrections, setIsClearingCorrections] = useState(false)
+  
   // CSV Import state
   const [showStagingReview, setShowStagingReview] = useState(false)
   const [accounts, setAccounts] = useState<Account[]>([])
@@ -690,6 +1138,17 @@ export function SettingsPage() {
   const [isIncomeLoading, setIsIncomeLoading] = useState(false)
   const [deletingIncomeId, setDeletingIncomeId] = useState<string | null>(null)
 
+  // AI usage state
+  const [aiUsage, setAIUsage] = useState<AIUsage | null>(null)
+
+  // Exchange rates state
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([])
+  const [showRateModal, setShowRateModal] = useState(false)
+  const [isRateLoading, setIsRateLoading] = useState(false)
+  const [rateError, setRateError] = useState<string | null>(null)
+  const [rateMessage, setRateMessage] = useState<string | null>(null)
+  const [deletingRateId, setDeletingRateId] = useState<string | null>(null)
+
   // Fetch accounts and cards for staging modal
   const fetchAccountsAndCards = useCallback(async () => {
     if (!user) return
@@ -725,6 +1184,12 @@ export function SettingsPage() {
     fetchRecurringIncome()
   }, [fetchRecurringIncome])
 
+  // Fetch today's AI usage
+  useEffect(() => {
+    if (!user) return
+    getAIUsage().then(setAIUsage)
+  }, [user])
+
   // Fetch beneficiaries
   const fetchBeneficiaries = useCallback(async () => {
     if (!user) return
@@ -754,6 +1219,16 @@ export function SettingsPage() {
     }
   }
 
+  const handleRedactionChange = async (level: RedactionLevel) => {
+    setIsUpdating(true)
+    const { error } = await updateProfile({ ai_redaction: level })
+    setIsUpdating(false)
+
+    if (!error) {
+      setShowRedactionModal(false)
+    }
+  }
+
   // Beneficiary handlers
   const handleAddBeneficiary = () => {
     setEditingBeneficiary(null)
@@ -866,6 +1341,149 @@ export function SettingsPage() {
     }
   }
 
+  // Fetch learned category rules
+  const fetchCategoryRules = useCallback(async () => {
+    if (!user) return
+    setCategoryRules(await getCategoryRules(user.id))
+  }, [user])
+
+  useEffect(() => {
+    fetchCategoryRules()
+  }, [fetchCategoryRules])
+
+  // Category rule handlers
+  const handleSaveRule = async (merchantKeyword: string, category: string) => {
+    if (!editingRule) return
+    setIsRuleLoading(true)
+
+    try {
+      const result = await updateCategoryRule(editingRule.id, { merchant_keyword: merchantKeyword, category })
+      if (!result.success) {
+        console.error('Failed to save category rule:', result.error)
+        return
+      }
+      await fetchCategoryRules()
+      setEditingRule(null)
+    } finally {
+      setIsRuleLoading(false)
+    }
+  }
+
+  const handleToggleRuleActive = async (rule: CategoryRule) => {
+    const result = await updateCategoryRule(rule.id, { is_active: !rule.is_active })
+    if (result.success) {
+      setCategoryRules(prev => prev.map(r =>
+        r.id === rule.id ? { ...r, is_active: !rule.is_active } : r
+      ))
+    }
+  }
+
+  const handleDeleteRule = async (id: string) => {
+    setDeletingRuleId(id)
+    try {
+      const result = await deleteCategoryRule(id)
+      if (result.success) {
+        setCategoryRules(prev => prev.filter(r => r.id !== id))
+      }
+    } finally {
+      setDeletingRuleId(null)
+    }
+  }
+
+  // Fetch parsing examples (corrections made in the review screen)
+  const fetchParseCorrections = useCallback(async () => {
+    if (!user) return
+    setParseCorrections(await getParseCorrections(user.id))
+  }, [user])
+
+  useEffect(() => {
+    fetchParseCorrections()
+  }, [fetchParseCorrections])
+
+  const handleDeleteCorrection = async (id: string) => {
+    setDeletingCorrectionId(id)
+    try {
+      const result = await deleteParseCorrection(id)
+      if (result.success) {
+        setParseCorrections(prev => prev.filter(c => c.id !== id))
+      }
+    } finally {
+      setDeletingCorrectionId(null)
+    }
+  }
+
+  const handleClearCorrections = async () => {
+    if (!user) return
+    if (!confirm('Delete all parsing examples? The parser will stop using your past corrections.')) return
+    setIsClearingCorrections(true)
+    try {
+      const result = await clearParseCorrections(user.id)
+      if (result.success) {
+        setParseCorrections([])
+      }
+    } finally {
+      setIsClearingCorrections(false)
+    }
+  }
+
+  // Fetch stored exchange rates (also refreshes the converter)
+  const fetchExchangeRates = useCallback(async () => {
+    if (!user) return
+    setExchangeRates(await loadExchangeRates(user.id))
+  }, [user])
+
+  useEffect(() => {
+    fetchExchangeRates()
+  }, [fetchExchangeRates])
+
+  // Store rates from any source; returns whether it worked
+  const handleImportRates = async (source: RateSource): Promise<boolean> => {
+    if (!user) return false
+    setIsRateLoading(true)
+    setRateError(null)
+    setRateMessage(null)
+
+    try {
+      const result = await importExchangeRates(user.id, source)
+      if (!result.success) {
+        setRateError(result.error || 'Could not save rates')
+        return false
+      }
+      setRateMessage(`Saved ${result.imported} rate${result.imported === 1 ? '' : 's'} from ${source.label}`)
+      await fetchExchangeRates()
+      return true
+    } finally {
+      setIsRateLoading(false)
+    }
+  }
+
+  const handleSaveRate = async (date: string, base: Currency, quote: Currency, rate: number) => {
+    const saved = await handleImportRates(manualRateSource({ date, base, quote, rate }))
+    if (saved) setShowRateModal(false)
+  }
+
+  const handleRatesFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (file) await handleImportRates(csvRateSource(file))
+  }
+
+  const handleFetchTodayRates = async () => {
+    await handleImportRates(defaultRateProvider(toISODateString(new Date()), defaultCurrency))
+  }
+
+  const handleDeleteRate = async (id: string) => {
+    setDeletingRateId(id)
+    try {
+      const result = await deleteExchangeRate(id)
+      if (result.success) {
+        await fetchExchangeRates()
+      }
+    } finally {
+      setDeletingRateId(null)
+    }
+  }
+
   // Recurring Income handlers
   const handleAddIncome = () => {
     setEditingIncome(null)
@@ -938,6 +1556,9 @@ export function SettingsPage() {
 
   // Get current currency info
   const currentCurrencyInfo = CURRENCIES[defaultCurrency]
+  // Older profiles (before the setting existed) get the server default
+  const redactionLevel: RedactionLevel = profile?.ai_redaction || 'standard'
+  const currentRedactionOption = REDACTION_OPTIONS.find(o => o.value === redactionLevel) || REDACTION_OPTIONS[1]
 
   return (
     <PageContainer bottomPadding={false}>
@@ -1040,6 +1661,14 @@ export function SettingsPage() {
                   </div>
                 }
               />
+              <SettingItem
+                icon={Shield}
+                label="AI Privacy"
+                description={redactionLevel === 'off'
+                  ? 'Off - messages are sent to the AI unmasked'
+                  : `${currentRedactionOption.label} - personal data is masked before AI parsing`}
+                onClick={() => setShowRedactionModal(true)}
+              />
             </GlassCard>
           </motion.div>
 
@@ -1135,6 +1764,164 @@ export function SettingsPage() {
             </GlassCard>
           </motion.div>
 
+          {/* Category Rules */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.34 }}
+          >
+            <h3 className="text-sm font-medium text-slate-500 uppercase tracking-wider mb-2 px-1">
+              Learned Rules
+            </h3>
+            <GlassCard size="sm" className="p-4">
+              <p className="text-sm text-slate-400 mb-3">
+                Category corrections you make are remembered and applied to new messages and imports
+              </p>
+
+              {categoryRules.length === 0 ? (
+                <div className="py-6 text-center">
+                  <Sparkles className="h-8 w-8 text-slate-600 mx-auto mb-2" />
+                  <p className="text-sm text-slate-500">No learned rules yet</p>
+                  <p className="text-xs text-slate-600 mt-1">
+                    Change a transaction's category and Rqeeb will remember it for that merchant
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {categoryRules.map((rule) => {
+                    const isWeak = rule.confidence < MIN_RULE_CONFIDENCE
+                    return (
+                      <div
+                        key={rule.id}
+                        className={cn(
+                          "flex items-center gap-3 p-3 rounded-xl border",
+                          rule.is_active
+                            ? "bg-white/[0.03] border-white/[0.06]"
+                            : "bg-white/[0.01] border-white/[0.03] opacity-50"
+                        )}
+                      >
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 text-sm">
+                            <span className="text-white font-medium truncate">"{rule.merchant_keyword}"</span>
+                            <ChevronRight className="h-3 w-3 text-slate-600 shrink-0" />
+                            <span className="text-violet-300 truncate">{rule.category}</span>
+                          </div>
+                          <p className="text-xs text-slate-500 mt-0.5">
+                            Applied {rule.times_applied}× • {Math.round(rule.confidence * 100)}% confidence
+                            {isWeak && <span className="text-amber-400"> • overridden often, not applied</span>}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => handleToggleRuleActive(rule)}
+                          className={cn(
+                            "px-2 py-1 rounded-lg text-xs font-medium transition-colors",
+                            rule.is_active
+                              ? "bg-emerald-500/20 text-emerald-400"
+                              : "bg-slate-500/20 text-slate-400"
+                          )}
+                        >
+                          {rule.is_active ? 'Active' : 'Paused'}
+                        </button>
+                        <button
+                          onClick={() => setEditingRule(rule)}
+                          className="p-2 rounded-lg hover:bg-white/[0.05] text-slate-400 hover:text-white transition-colors"
+                          title="Edit"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteRule(rule.id)}
+                          disabled={deletingRuleId === rule.id}
+                          className="p-2 rounded-lg hover:bg-rose-500/10 text-slate-400 hover:text-rose-400 transition-colors disabled:opacity-50"
+                          title="Delete"
+                        >
+                          {deletingRuleId === rule.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Trash2 className="h-4 w-4" />
+                          )}
+                        </button>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </GlassCard>
+          </motion.div>
+
+          {/* Parsing Examples */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.345 }}
+          >
+            <div className="flex items-center justify-between mb-2 px-1">
+              <h3 className="text-sm font-medium text-slate-500 uppercase tracking-wider">
+                Parsing Examples
+              </h3>
+              {parseCorrections.length > 0 && (
+                <button
+                  onClick={handleClearCorrections}
+                  disabled={isClearingCorrections}
+                  className="flex items-center gap-1 text-xs text-slate-400 hover:text-rose-400 transition-colors disabled:opacity-50"
+                >
+                  {isClearingCorrections && <Loader2 className="h-3 w-3 animate-spin" />}
+                  Clear all
+                </button>
+              )}
+            </div>
+            <GlassCard size="sm" className="p-4">
+              <p className="text-sm text-slate-400 mb-3">
+                Fixes you make while reviewing parsed messages are shown to the AI as examples when it reads similar messages
+              </p>
+
+              {parseCorrections.length === 0 ? (
+                <div className="py-6 text-center">
+                  <MessageSquareText className="h-8 w-8 text-slate-600 mx-auto mb-2" />
+                  <p className="text-sm text-slate-500">No parsing examples yet</p>
+                  <p className="text-xs text-slate-600 mt-1">
+                    Edit a row before saving it and Rqeeb will learn from the fix
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {parseCorrections.map((correction) => (
+                    <div
+                      key={correction.id}
+                      className="flex items-start gap-3 p-3 rounded-xl bg-white/[0.03] border border-white/[0.06]"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs text-slate-300 font-mono whitespace-pre-wrap break-words line-clamp-2">
+                          {correction.raw_input}
+                        </p>
+                        <p className="text-xs text-violet-300 mt-1 truncate">
+                          Fixed {correction.fields_changed
+                            .map(field => CONFIDENCE_FIELD_LABELS[field as ConfidenceField] || field)
+                            .join(', ')}
+                        </p>
+                        <p className="text-xs text-slate-500 mt-0.5">
+                          Used {correction.times_used}× • {new Date(correction.created_at).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleDeleteCorrection(correction.id)}
+                        disabled={deletingCorrectionId === correction.id}
+                        className="p-2 rounded-lg hover:bg-rose-500/10 text-slate-400 hover:text-rose-400 transition-colors disabled:opacity-50"
+                        title="Delete"
+                      >
+                        {deletingCorrectionId === correction.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-4 w-4" />
+                        )}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </GlassCard>
+          </motion.div>
+
           {/* Beneficiaries */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -1206,6 +1993,93 @@ export function SettingsPage() {
             </GlassCard>
           </motion.div>
 
+          {/* Exchange Rates */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.36 }}
+          >
+            <h3 className="text-sm font-medium text-slate-500 uppercase tracking-wider mb-2 px-1">
+              Exchange Rates
+            </h3>
+            <GlassCard size="sm" className="p-4">
+              <div className="flex items-center justify-between gap-2 mb-3">
+                <p className="text-sm text-slate-400">
+                  Foreign purchases convert at the rate for their date; saved ones are updated when rates change
+                </p>
+                <button
+                  onClick={() => { setRateError(null); setShowRateModal(true) }}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-cyan-500/20 text-cyan-400 text-sm font-medium hover:bg-cyan-500/30 transition-colors shrink-0"
+                >
+                  <Plus className="h-4 w-4" />
+                  Add
+                </button>
+              </div>
+
+              <div className="flex gap-2 mb-3">
+                <label className={cn(
+                  'flex-1 flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-white/[0.05] text-slate-300 text-xs font-medium hover:bg-white/[0.08] transition-colors cursor-pointer',
+                  isRateLoading && 'opacity-50 pointer-events-none'
+                )}>
+                  <Upload className="h-3.5 w-3.5" />
+                  Import CSV
+                  <input type="file" accept=".csv,text/csv" onChange={handleRatesFile} className="hidden" />
+                </label>
+                <button
+                  onClick={handleFetchTodayRates}
+                  disabled={isRateLoading}
+                  className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-white/[0.05] text-slate-300 text-xs font-medium hover:bg-white/[0.08] transition-colors disabled:opacity-50"
+                >
+                  {isRateLoading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <CloudDownload className="h-3.5 w-3.5" />}
+                  Fetch today's rates
+                </button>
+              </div>
+
+              {!showRateModal && rateError && <p className="text-xs text-rose-400 mb-3">{rateError}</p>}
+              {rateMessage && <p className="text-xs text-emerald-400 mb-3">{rateMessage}</p>}
+
+              {exchangeRates.length === 0 ? (
+                <div className="py-6 text-center">
+                  <ArrowRightLeft className="h-8 w-8 text-slate-600 mx-auto mb-2" />
+                  <p className="text-sm text-slate-500">No stored rates yet</p>
+                  <p className="text-xs text-slate-600 mt-1">
+                    Built-in approximate rates are used until you add some
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2 max-h-72 overflow-y-auto">
+                  {exchangeRates.map((rate) => (
+                    <div
+                      key={rate.id}
+                      className="flex items-center gap-3 p-3 rounded-xl bg-white/[0.03] border border-white/[0.06]"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-white font-mono truncate">
+                          1 {rate.base_currency} = {Number(rate.rate)} {rate.quote_currency}
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          {rate.rate_date} • {rate.source === 'csv' ? 'CSV import' : rate.source === 'provider' ? 'Rate provider' : 'Manual'}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleDeleteRate(rate.id)}
+                        disabled={deletingRateId === rate.id}
+                        className="p-2 rounded-lg hover:bg-rose-500/10 text-slate-400 hover:text-rose-400 transition-colors disabled:opacity-50"
+                        title="Delete"
+                      >
+                        {deletingRateId === rate.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-4 w-4" />
+                        )}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </GlassCard>
+          </motion.div>
+
           {/* Recurring Income */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -1262,7 +2136,7 @@ export function SettingsPage() {
                           </span>
                         </div>
                         <p className="text-sm text-emerald-400 font-mono">
-                          +{income.currency} {income.amount.toFixed(2)}
+                          +{income.currency} {income.amount.toFixed(getMinorUnits(income.currency))}
                         </p>
                       </div>
                       <button
@@ -1302,6 +2176,51 @@ export function SettingsPage() {
             </GlassCard>
           </motion.div>
 
+          {/* AI Usage */}
+          {aiUsage && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.385 }}
+            >
+              <h3 className="text-sm font-medium text-slate-500 uppercase tracking-wider mb-2 px-1">
+                AI Usage
+              </h3>
+              <GlassCard size="sm" className="p-4">
+                <div className="flex items-center gap-3 mb-3">
+                  <div className="p-2 rounded-lg bg-violet-500/20">
+                    <Gauge className="h-4 w-4 text-violet-400" />
+                  </div>
+                  <div className="flex-1">
+                    <p className="text-white font-medium">
+                      {aiUsage.remaining} of {aiUsage.dailyLimit} AI requests left today
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      Parsing, receipts, CSV imports and chat · resets at{' '}
+                      {new Date(aiUsage.resetsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </p>
+                  </div>
+                </div>
+                <div className="h-2 rounded-full bg-white/[0.06] overflow-hidden">
+                  <div
+                    className={cn(
+                      "h-full rounded-full transition-all",
+                      aiUsage.remaining === 0
+                        ? "bg-rose-500"
+                        : aiUsage.remaining < aiUsage.dailyLimit * 0.2
+                          ? "bg-amber-500"
+                          : "bg-violet-500"
+                    )}
+                    style={{ width: `${Math.min(100, (aiUsage.usedToday / aiUsage.dailyLimit) * 100)}%` }}
+                  />
+                </div>
+                <p className="text-xs text-slate-600 mt-2">
+                  Up to {aiUsage.perMinuteLimit} requests per minute. Re-pasting recent text doesn't count.
+                </p>
+              </GlassCard>
+            </motion.div>
+          )}
+
           {/* Data */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -1387,6 +2306,19 @@ export function SettingsPage() {
         )}
       </AnimatePresence>
 
+      {/* AI Redaction Modal */}
+      <AnimatePresence>
+        {showRedactionModal && (
+          <RedactionModal
+            isOpen={showRedactionModal}
+            currentLevel={redactionLevel}
+            onSelect={handleRedactionChange}
+            onClose={() => setShowRedactionModal(false)}
+            isLoading={isUpdating}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Beneficiary Modal */}
       <AnimatePresence>
         {showBeneficiaryModal && (
@@ -1413,6 +2345,34 @@ export function SettingsPage() {
         )}
       </AnimatePresence>
 
+      {/* Category Rule Modal */}
+      <AnimatePresence>
+        {editingRule && (
+          <CategoryRuleModal
+            isOpen={!!editingRule}
+            rule={editingRule}
+            categories={[...DEFAULT_CATEGORIES, ...customCategories.map(c => c.name)]}
+            onSave={handleSaveRule}
+            onClose={() => setEditingRule(null)}
+            isLoading={isRuleLoading}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Exchange Rate Modal */}
+      <AnimatePresence>
+        {showRateModal && (
+          <ExchangeRateModal
+            isOpen={showRateModal}
+            defaultQuote={defaultCurrency}
+            onSave={handleSaveRate}
+            onClose={() => setShowRateModal(false)}
+            isLoading={isRateLoading}
+            error={rateError}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Recurring Income Modal */}
       <AnimatePresence>
         {showIncomeModal && (
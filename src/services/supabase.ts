@@ -37,3 +37,12 @@ export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
 
 // Export typed client for convenience
 export type SupabaseClient = typeof supabase
+
+/**
+ * Authorization header for the signed-in user - the /api endpoints require
+ * it, and use it to read the user's own data under RLS
+ */
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession()
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {}
+}
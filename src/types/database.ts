@@ -25,6 +25,18 @@ export const BILLING_CYCLES = [
   { value: 'annual' as const, label: 'Yearly', days: 365 },
 ] as const
 
+// Whether a raw log produced a transaction - needs_attention ones show in the inbox
+export type RawLogStatus = 'processed' | 'needs_attention' | 'resolved' | 'dismissed'
+
+// How much personal data is masked before text goes to the AI provider
+export type RedactionLevel = 'off' | 'standard' | 'strict'
+
+// 'transfer' moves money between the user's own accounts - neither income nor expense
+export type TransactionDirection = 'in' | 'out' | 'transfer'
+
+// Where a stored exchange rate came from
+export type ExchangeRateSource = 'manual' | 'csv' | 'provider'
+
 export interface Database {
   public: {
     Tables: {
@@ -36,6 +48,7 @@ export interface Database {
           default_currency: string
           timezone: string | null
           locale: string | null
+          ai_redaction: RedactionLevel
           created_at: string
         }
         Insert: {
@@ -45,6 +58,7 @@ export interface Database {
           default_currency?: string
           timezone?: string | null
           locale?: string | null
+          ai_redaction?: RedactionLevel
           created_at?: string
         }
         Update: {
@@ -54,6 +68,7 @@ export interface Database {
           default_currency?: string
           timezone?: string | null
           locale?: string | null
+          ai_redaction?: RedactionLevel
           created_at?: string
         }
       }
@@ -64,6 +79,8 @@ export interface Database {
           name: string
           type: 'bank' | 'cash' | 'wallet'
           balance: number
+          opening_balance: number // Balance before any transaction; kept in step by a trigger
+          opening_balance_confirmed: boolean // False while opening_balance is only back-solved
           currency: string
           last_4_digits: string | null // Legacy - new cards use account_cards table
           is_default: boolean
@@ -78,6 +95,8 @@ export interface Database {
           name: string
           type: 'bank' | 'cash' | 'wallet'
           balance?: number
+          opening_balance?: number
+          opening_balance_confirmed?: boolean
           currency?: string
           last_4_digits?: string | null
           is_default?: boolean
@@ -92,6 +111,8 @@ export interface Database {
           name?: string
           type?: 'bank' | 'cash' | 'wallet'
           balance?: number
+          opening_balance?: number
+          opening_balance_confirmed?: boolean
           currency?: string
           last_4_digits?: string | null
           is_default?: boolean
@@ -205,6 +226,9 @@ export interface Database {
           content: string
           image_url: string | null
           source: string
+          status: RawLogStatus
+          parse_error: string | null
+          resolved_at: string | null
           created_at: string
         }
         Insert: {
@@ -213,6 +237,9 @@ export interface Database {
           content: string
           image_url?: string | null
           source?: string
+          status?: RawLogStatus
+          parse_error?: string | null
+          resolved_at?: string | null
           created_at?: string
         }
         Update: {
@@ -221,6 +248,9 @@ export interface Database {
           content?: string
           image_url?: string | null
           source?: string
+          status?: RawLogStatus
+          parse_error?: string | null
+          resolved_at?: string | null
           created_at?: string
         }
       }
@@ -262,7 +292,7 @@ export interface Database {
           user_id: string
           amount: number
           currency: string
-          direction: 'in' | 'out'
+          direction: TransactionDirection
           category: string
           merchant: string | null
           transaction_date: string
@@ -270,6 +300,11 @@ export interface Database {
           raw_log_id: string | null
           account_id: string | null
           card_id: string | null
+          to_account_id: string | null // Transfers only
+          to_card_id: string | null
+          to_raw_log_id: string | null // Credit leg's raw log, when linked from a pair
+          posted_amount: number | null // Set by the database: what account_id's balance moved
+          posted_to_amount: number | null // ...and to_account_id's, for transfers
           original_amount: number | null
           original_currency: string | null
           conversion_rate: number | null
@@ -278,6 +313,7 @@ export interface Database {
           logo_url: string | null
           beneficiary_id: string | null
           is_reimbursable: boolean
+          is_rate_override: boolean // conversion_rate set by the user, not the date's rate
           created_at: string
         }
         Insert: {
@@ -285,7 +321,7 @@ export interface Database {
           user_id: string
           amount: number
           currency?: string
-          direction: 'in' | 'out'
+          direction: TransactionDirection
           category: string
           merchant?: string | null
           transaction_date: string
@@ -293,6 +329,9 @@ export interface Database {
           raw_log_id?: string | null
           account_id?: string | null
           card_id?: string | null
+          to_account_id?: string | null
+          to_card_id?: string | null
+          to_raw_log_id?: string | null
           original_amount?: number | null
           original_currency?: string | null
           conversion_rate?: number | null
@@ -301,6 +340,7 @@ export interface Database {
           logo_url?: string | null
           beneficiary_id?: string | null
           is_reimbursable?: boolean
+          is_rate_override?: boolean
           created_at?: string
         }
         Update: {
@@ -308,7 +348,7 @@ export interface Database {
           user_id?: string
           amount?: number
           currency?: string
-          direction?: 'in' | 'out'
+          direction?: TransactionDirection
           category?: string
           merchant?: string | null
           transaction_date?: string
@@ -316,6 +356,9 @@ export interface Database {
           raw_log_id?: string | null
           account_id?: string | null
           card_id?: string | null
+          to_account_id?: string | null
+          to_card_id?: string | null
+          to_raw_log_id?: string | null
           original_amount?: number | null
           original_currency?: string | null
           conversion_rate?: number | null
@@ -324,6 +367,7 @@ export interface Database {
           logo_url?: string | null
           beneficiary_id?: string | null
           is_reimbursable?: boolean
+          is_rate_override?: boolean
           created_at?: string
         }
       }
@@ -405,6 +449,7 @@ export interface Database {
           category: string
           confidence: number
           times_applied: number
+          is_active: boolean
           created_at: string
           updated_at: string
         }
@@ -415,6 +460,7 @@ export interface Database {
           category: string
           confidence?: number
           times_applied?: number
+          is_active?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -425,6 +471,7 @@ export interface Database {
           category?: string
           confidence?: number
           times_applied?: number
+          is_active?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -482,6 +529,171 @@ export interface Database {
           updated_at?: string
         }
       }
+      parse_corrections: {
+        Row: {
+          id: string
+          user_id: string
+          raw_input: string
+          original: Json
+          corrected: Json
+          fields_changed: string[]
+          times_used: number
+          last_used_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          raw_input: string
+          original: Json
+          corrected: Json
+          fields_changed?: string[]
+          times_used?: number
+          last_used_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          raw_input?: string
+          original?: Json
+          corrected?: Json
+          fields_changed?: string[]
+          times_used?: number
+          last_used_at?: string | null
+          created_at?: string
+        }
+      }
+      parse_cache: {
+        Row: {
+          id: string
+          user_id: string
+          cache_key: string
+          response: Json
+          created_at: string
+          expires_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          cache_key: string
+          response: Json
+          created_at?: string
+          expires_at: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          cache_key?: string
+          response?: Json
+          created_at?: string
+          expires_at?: string
+        }
+      }
+      chat_sessions: {
+        Row: {
+          id: string
+          user_id: string
+          title: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          title: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          title?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      chat_messages: {
+        Row: {
+          id: string
+          session_id: string
+          user_id: string
+          role: 'user' | 'assistant'
+          content: string
+          response: Json | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          session_id: string
+          user_id: string
+          role: 'user' | 'assistant'
+          content: string
+          response?: Json | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          session_id?: string
+          user_id?: string
+          role?: 'user' | 'assistant'
+          content?: string
+          response?: Json | null
+          created_at?: string
+        }
+      }
+      exchange_rates: {
+        Row: {
+          id: string
+          user_id: string
+          rate_date: string // YYYY-MM-DD
+          base_currency: string
+          quote_currency: string
+          rate: number // 1 base_currency = rate quote_currency
+          source: ExchangeRateSource
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          rate_date: string
+          base_currency: string
+          quote_currency: string
+          rate: number
+          source?: ExchangeRateSource
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          rate_date?: string
+          base_currency?: string
+          quote_currency?: string
+          rate?: number
+          source?: ExchangeRateSource
+          created_at?: string
+        }
+      }
+      api_usage: {
+        Row: {
+          id: string
+          user_id: string
+          endpoint: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          endpoint: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          endpoint?: string
+          created_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
@@ -507,6 +719,10 @@ export type UserCategory = Database['public']['Tables']['user_categories']['Row'
 export type StagingTransaction = Database['public']['Tables']['staging_transactions']['Row']
 export type CategoryRule = Database['public']['Tables']['category_rules']['Row']
 export type RecurringIncome = Database['public']['Tables']['recurring_income']['Row']
+export type ParseCorrection = Database['public']['Tables']['parse_corrections']['Row']
+export type ChatSession = Database['public']['Tables']['chat_sessions']['Row']
+export type ChatMessage = Database['public']['Tables']['chat_messages']['Row']
+export type ExchangeRate = Database['public']['Tables']['exchange_rates']['Row']
 
 export type NewAccount = Database['public']['Tables']['accounts']['Insert']
 export type NewAccountCard = Database['public']['Tables']['account_cards']['Insert']
@@ -4,6 +4,8 @@
 
 export * from './database'
 
+import type { TransactionDirection } from './database'
+
 // UI State types
 export interface LoadingState {
   isLoading: boolean
@@ -16,7 +18,7 @@ export interface OptimisticTransaction {
   user_id: string
   amount: number
   currency: string
-  direction: 'in' | 'out'
+  direction: TransactionDirection
   category: string
   merchant: string | null
   transaction_date: string
@@ -34,7 +36,7 @@ export interface FeedItem {
   content: string
   amount?: number
   currency?: string
-  direction?: 'in' | 'out'
+  direction?: TransactionDirection
   category?: string
   merchant?: string | null
   timestamp: string
@@ -3,6 +3,8 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
+  // Exchange-rate provider URL template ({date}, {base}, {quotes}), or "stub" for offline reference rates
+  readonly VITE_EXCHANGE_RATE_URL?: string
 }
 
 interface ImportMeta {
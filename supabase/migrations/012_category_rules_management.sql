@@ -0,0 +1,104 @@
+-- Migration: Category Rules Management
+-- Description: Lets users pause learned category rules, and makes rule learning
+--              and rule hits update times_applied / confidence
+
+-- ============================================
+-- CATEGORY RULES: ACTIVE FLAG
+-- ============================================
+ALTER TABLE category_rules ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_category_rules_active ON category_rules(user_id, is_active);
+
+COMMENT ON COLUMN category_rules.is_active IS 'Paused rules are kept but not applied to new parses';
+
+-- ============================================
+-- HELPER FUNCTION: Upsert Category Rule
+-- ============================================
+-- Called when the user corrects a category. Confirming the same mapping again
+-- strengthens the rule; a different category replaces it and starts over.
+CREATE OR REPLACE FUNCTION upsert_category_rule(
+  p_user_id UUID,
+  p_merchant_keyword TEXT,
+  p_category TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  v_rule_id UUID;
+BEGIN
+  IF p_user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Cannot write category rules for another user';
+  END IF;
+
+  INSERT INTO category_rules (user_id, merchant_keyword, category)
+  VALUES (p_user_id, LOWER(TRIM(p_merchant_keyword)), p_category)
+  ON CONFLICT (user_id, merchant_keyword)
+  DO UPDATE SET
+    times_applied = CASE
+      WHEN category_rules.category = p_category THEN category_rules.times_applied + 1
+      ELSE 1
+    END,
+    confidence = CASE
+      WHEN category_rules.category = p_category THEN LEAST(1.0, category_rules.confidence + 0.1)
+      ELSE 1.0
+    END,
+    category = p_category,
+    is_active = TRUE,
+    updated_at = NOW()
+  RETURNING id INTO v_rule_id;
+
+  RETURN v_rule_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- HELPER FUNCTION: Find Category for Merchant
+-- ============================================
+-- Ignores paused and discredited rules, and prefers the most specific keyword
+-- so a correction for "careem food" wins over an older "careem" rule
+CREATE OR REPLACE FUNCTION find_category_for_merchant(
+  p_user_id UUID,
+  p_merchant TEXT
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_category TEXT;
+BEGIN
+  SELECT category INTO v_category
+  FROM category_rules
+  WHERE user_id = p_user_id
+    AND is_active = TRUE
+    AND confidence >= 0.5
+    AND LOWER(p_merchant) LIKE '%' || merchant_keyword || '%'
+  ORDER BY LENGTH(merchant_keyword) DESC, times_applied DESC, confidence DESC
+  LIMIT 1;
+
+  RETURN v_category;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- HELPER FUNCTION: Record Rule Hits / Misses
+-- ============================================
+-- Called when reviewed transactions are saved. Rules whose category the user
+-- kept gain confidence; rules the user overrode lose it.
+-- Runs as the caller so RLS limits it to the caller's own rules.
+CREATE OR REPLACE FUNCTION record_category_rule_results(
+  p_kept_rule_ids UUID[],
+  p_overridden_rule_ids UUID[] DEFAULT '{}'
+)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE category_rules
+  SET times_applied = times_applied + 1,
+      confidence = LEAST(1.0, confidence + 0.05),
+      updated_at = NOW()
+  WHERE id = ANY(p_kept_rule_ids);
+
+  UPDATE category_rules
+  SET confidence = GREATEST(0.0, confidence - 0.2),
+      updated_at = NOW()
+  WHERE id = ANY(p_overridden_rule_ids);
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION record_category_rule_results IS 'Update times_applied/confidence after a reviewed import';
@@ -0,0 +1,61 @@
+-- Migration: Parse Corrections
+-- Description: Stores (raw input -> corrected transaction) pairs from the review
+--              screen so the parser can use them as per-user few-shot examples
+
+-- ============================================
+-- PARSE CORRECTIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS parse_corrections (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  raw_input TEXT NOT NULL,
+  original JSONB NOT NULL,
+  corrected JSONB NOT NULL,
+  fields_changed TEXT[] NOT NULL DEFAULT '{}',
+  times_used INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_parse_corrections_user ON parse_corrections(user_id, created_at DESC);
+
+COMMENT ON TABLE parse_corrections IS 'User edits to parser output, replayed as examples in later parses';
+COMMENT ON COLUMN parse_corrections.original IS 'Fields as the parser returned them';
+COMMENT ON COLUMN parse_corrections.corrected IS 'Fields as the user saved them';
+COMMENT ON COLUMN parse_corrections.times_used IS 'How many parse prompts included this example';
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+ALTER TABLE parse_corrections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own parse corrections"
+  ON parse_corrections FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own parse corrections"
+  ON parse_corrections FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own parse corrections"
+  ON parse_corrections FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own parse corrections"
+  ON parse_corrections FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- HELPER FUNCTION: Mark Corrections Used
+-- ============================================
+-- Called by /api/analyze after picking examples for a prompt.
+-- Runs as the caller so RLS limits it to the caller's own corrections.
+CREATE OR REPLACE FUNCTION mark_parse_corrections_used(p_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+  UPDATE parse_corrections
+  SET times_used = times_used + 1,
+      last_used_at = NOW()
+  WHERE id = ANY(p_ids);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,42 @@
+-- Migration: Raw Log Inbox
+-- Description: Tracks whether each raw log produced a transaction, so inputs
+--              that failed to parse surface in a "Needs attention" inbox
+
+-- ============================================
+-- STATUS COLUMNS
+-- ============================================
+-- processed:        a transaction was saved from it (pasted messages, receipts)
+-- needs_attention:  parsing failed - shown in the inbox
+-- resolved:         fixed from the inbox (re-parsed or entered manually)
+-- dismissed:        the user decided it isn't a transaction
+ALTER TABLE raw_logs
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'processed'
+  CHECK (status IN ('processed', 'needs_attention', 'resolved', 'dismissed'));
+
+ALTER TABLE raw_logs
+ADD COLUMN IF NOT EXISTS parse_error TEXT;
+
+ALTER TABLE raw_logs
+ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN raw_logs.status IS 'processed | needs_attention | resolved | dismissed';
+COMMENT ON COLUMN raw_logs.parse_error IS 'Why the last parse attempt failed';
+
+-- Failed manual entries from before this migration never got a transaction
+UPDATE raw_logs
+SET status = 'needs_attention'
+WHERE source = 'web_manual'
+  AND image_url IS NULL
+  AND NOT EXISTS (SELECT 1 FROM transactions t WHERE t.raw_log_id = raw_logs.id);
+
+CREATE INDEX IF NOT EXISTS idx_raw_logs_needs_attention
+  ON raw_logs(user_id, created_at DESC)
+  WHERE status = 'needs_attention';
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+-- Status changes from the inbox need an update policy
+CREATE POLICY "Users can update own raw logs"
+  ON raw_logs FOR UPDATE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,43 @@
+-- Migration: Parse Cache
+-- Description: Validated /api/analyze results, reused when the same user sends
+--              the same (normalized) input again within the TTL
+
+-- ============================================
+-- PARSE CACHE TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS parse_cache (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  cache_key TEXT NOT NULL,
+  response JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  UNIQUE(user_id, cache_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_parse_cache_expires ON parse_cache(user_id, expires_at);
+
+COMMENT ON TABLE parse_cache IS 'Per-user cache of parsed transactions, keyed by input hash';
+COMMENT ON COLUMN parse_cache.cache_key IS 'SHA-256 of normalized text, custom categories, reference date and hint';
+COMMENT ON COLUMN parse_cache.response IS 'Validated transactions (with source quotes) and rejected rows';
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+ALTER TABLE parse_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own parse cache"
+  ON parse_cache FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own parse cache"
+  ON parse_cache FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own parse cache"
+  ON parse_cache FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own parse cache"
+  ON parse_cache FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,92 @@
+-- Migration: API Usage
+-- Description: One row per AI model call, used to enforce per-user daily and
+--              per-minute limits on the /api endpoints and to show usage in Settings
+
+-- ============================================
+-- API USAGE TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS api_usage (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_usage_user_created ON api_usage(user_id, created_at DESC);
+
+COMMENT ON TABLE api_usage IS 'AI requests per user, counted against the API rate limits';
+COMMENT ON COLUMN api_usage.endpoint IS 'analyze | analyze-receipt | analyze-csv | chat';
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+-- Read-only for users: rows are only written by consume_api_quota, so a
+-- user can't delete their own usage to reset the limits
+ALTER TABLE api_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own api usage"
+  ON api_usage FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- HELPER FUNCTION: Consume API Quota
+-- ============================================
+-- Called by the /api endpoints before each model call. Checks the caller's
+-- usage against the limits and records the call if it is allowed.
+-- Requests from the same user are serialized so parallel calls can't overshoot.
+CREATE OR REPLACE FUNCTION consume_api_quota(
+  p_endpoint TEXT,
+  p_daily_limit INTEGER,
+  p_minute_limit INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_day_start TIMESTAMPTZ := date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  v_used_today INTEGER;
+  v_used_minute INTEGER;
+  v_oldest_in_minute TIMESTAMPTZ;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::TEXT));
+
+  SELECT COUNT(*) INTO v_used_today
+  FROM api_usage
+  WHERE user_id = v_user_id AND created_at >= v_day_start;
+
+  IF v_used_today >= p_daily_limit THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'limit', 'daily',
+      'used_today', v_used_today,
+      'retry_after', CEIL(EXTRACT(EPOCH FROM (v_day_start + INTERVAL '1 day' - NOW())))::INTEGER
+    );
+  END IF;
+
+  SELECT COUNT(*), MIN(created_at) INTO v_used_minute, v_oldest_in_minute
+  FROM api_usage
+  WHERE user_id = v_user_id AND created_at > NOW() - INTERVAL '1 minute';
+
+  IF v_used_minute >= p_minute_limit THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'limit', 'minute',
+      'used_today', v_used_today,
+      'retry_after', GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_oldest_in_minute + INTERVAL '1 minute' - NOW()))))::INTEGER
+    );
+  END IF;
+
+  INSERT INTO api_usage (user_id, endpoint) VALUES (v_user_id, p_endpoint);
+
+  RETURN jsonb_build_object(
+    'allowed', true,
+    'used_today', v_used_today + 1,
+    'retry_after', 0
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION consume_api_quota(TEXT, INTEGER, INTEGER) TO authenticated;
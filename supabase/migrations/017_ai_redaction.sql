@@ -0,0 +1,12 @@
+-- Migration: AI Redaction Setting
+-- Description: How much personal data (account numbers, IBANs, phone numbers,
+--              IDs, names) is masked before text is sent to the AI provider
+
+-- ============================================
+-- ADD REDACTION LEVEL TO PROFILES
+-- ============================================
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS ai_redaction TEXT DEFAULT 'standard' NOT NULL
+  CHECK (ai_redaction IN ('off', 'standard', 'strict'));
+
+COMMENT ON COLUMN profiles.ai_redaction IS 'off | standard (numbers keep last 4 digits) | strict (also names and emails)';
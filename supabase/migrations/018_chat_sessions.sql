@@ -0,0 +1,71 @@
+-- Migration: Chat Sessions
+-- Description: Stored conversations with the spending assistant, so follow-up
+--              questions keep their context and past chats can be reopened
+
+-- ============================================
+-- CHAT SESSIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS chat_sessions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_user ON chat_sessions(user_id, updated_at DESC);
+
+COMMENT ON TABLE chat_sessions IS 'Conversations with the spending assistant';
+COMMENT ON COLUMN chat_sessions.title IS 'Defaults to the first question; users can rename it';
+
+-- ============================================
+-- CHAT MESSAGES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES chat_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  response JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_session ON chat_messages(session_id, created_at);
+
+COMMENT ON COLUMN chat_messages.content IS 'The question, or the answer text';
+COMMENT ON COLUMN chat_messages.response IS 'Full assistant response (bullets, data, citations) for redisplay';
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+ALTER TABLE chat_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own chat sessions"
+  ON chat_sessions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own chat sessions"
+  ON chat_sessions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own chat sessions"
+  ON chat_sessions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own chat sessions"
+  ON chat_sessions FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own chat messages"
+  ON chat_messages FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own chat messages"
+  ON chat_messages FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own chat messages"
+  ON chat_messages FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,107 @@
+-- Migration: Transfers Between Own Accounts
+-- Description: A third transaction direction, 'transfer', for money moved
+--              between the user's own accounts and cards (Al Rajhi → STC Pay,
+--              paying off a credit card). The source is account_id/card_id,
+--              the destination to_account_id/to_card_id. Transfers move
+--              balances but are neither income nor expense.
+
+-- ============================================
+-- TRANSACTIONS: DIRECTION AND DESTINATION
+-- ============================================
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_direction_check;
+ALTER TABLE transactions
+  ADD CONSTRAINT transactions_direction_check CHECK (direction IN ('in', 'out', 'transfer'));
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS to_account_id UUID REFERENCES accounts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS to_card_id UUID REFERENCES account_cards(id) ON DELETE SET NULL;
+
+-- Only transfers have a destination
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_transfer_destination_check;
+ALTER TABLE transactions
+  ADD CONSTRAINT transactions_transfer_destination_check
+  CHECK (direction = 'transfer' OR (to_account_id IS NULL AND to_card_id IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_transactions_to_account_id ON transactions(to_account_id);
+
+COMMENT ON COLUMN transactions.to_account_id IS 'Destination account of a transfer (account_id is the source)';
+COMMENT ON COLUMN transactions.to_card_id IS 'Destination card of a transfer, e.g. the credit card being paid off';
+
+-- ============================================
+-- BALANCE TRIGGER
+-- ============================================
+-- Undo the old row's effect, then apply the new row's. A transfer takes the
+-- amount out of the source account and puts it into the destination.
+CREATE OR REPLACE FUNCTION update_account_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    IF OLD.account_id IS NOT NULL THEN
+      UPDATE accounts
+      SET balance = balance + CASE WHEN OLD.direction = 'in' THEN -OLD.amount ELSE OLD.amount END
+      WHERE id = OLD.account_id;
+    END IF;
+
+    IF OLD.direction = 'transfer' AND OLD.to_account_id IS NOT NULL THEN
+      UPDATE accounts SET balance = balance - OLD.amount WHERE id = OLD.to_account_id;
+    END IF;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    IF NEW.account_id IS NOT NULL THEN
+      UPDATE accounts
+      SET balance = balance + CASE WHEN NEW.direction = 'in' THEN NEW.amount ELSE -NEW.amount END
+      WHERE id = NEW.account_id;
+    END IF;
+
+    IF NEW.direction = 'transfer' AND NEW.to_account_id IS NOT NULL THEN
+      UPDATE accounts SET balance = balance + NEW.amount WHERE id = NEW.to_account_id;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  ELSE
+    RETURN NEW;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- SUMMARIES: TRANSFERS ARE NOT INCOME OR EXPENSE
+-- ============================================
+CREATE OR REPLACE VIEW monthly_summary AS
+SELECT
+  user_id,
+  DATE_TRUNC('month', transaction_date) AS month,
+  SUM(CASE WHEN direction = 'in' THEN amount ELSE 0 END) AS total_income,
+  SUM(CASE WHEN direction = 'out' THEN amount ELSE 0 END) AS total_expenses,
+  SUM(CASE WHEN direction = 'in' THEN amount WHEN direction = 'out' THEN -amount ELSE 0 END) AS net_amount,
+  COUNT(*) FILTER (WHERE direction <> 'transfer') AS transaction_count
+FROM transactions
+GROUP BY user_id, DATE_TRUNC('month', transaction_date);
+
+CREATE OR REPLACE FUNCTION get_monthly_summary(
+  p_user_id UUID,
+  p_year INT DEFAULT EXTRACT(YEAR FROM CURRENT_DATE),
+  p_month INT DEFAULT EXTRACT(MONTH FROM CURRENT_DATE)
+)
+RETURNS TABLE (
+  total_income NUMERIC,
+  total_expenses NUMERIC,
+  net_amount NUMERIC,
+  transaction_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COALESCE(SUM(CASE WHEN direction = 'in' THEN amount ELSE 0 END), 0) AS total_income,
+    COALESCE(SUM(CASE WHEN direction = 'out' THEN amount ELSE 0 END), 0) AS total_expenses,
+    COALESCE(SUM(CASE WHEN direction = 'in' THEN amount WHEN direction = 'out' THEN -amount ELSE 0 END), 0) AS net_amount,
+    COUNT(*) FILTER (WHERE direction <> 'transfer') AS transaction_count
+  FROM transactions
+  WHERE user_id = p_user_id
+    AND EXTRACT(YEAR FROM transaction_date) = p_year
+    AND EXTRACT(MONTH FROM transaction_date) = p_month;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
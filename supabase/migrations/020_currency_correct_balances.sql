@@ -0,0 +1,222 @@
+-- Migration: Currency-Correct Account Balances
+-- Description: Balances post in the account's own currency. A USD purchase
+--              on a SAR account moves the SAR figure, whichever of
+--              amount/original_amount holds it, using the stored
+--              conversion_rate. Every update path (account, direction,
+--              currency, amount, delete) reverses the old posting and applies
+--              the new one. recompute_account_balances() rebuilds balances
+--              from the opening balance and the ledger.
+
+-- ============================================
+-- OPENING BALANCE
+-- ============================================
+-- The balance the user entered, before any transaction. Balances drifted
+-- by the old trigger are rebuilt from it.
+ALTER TABLE accounts
+  ADD COLUMN IF NOT EXISTS opening_balance NUMERIC(14, 2) DEFAULT 0 NOT NULL;
+
+COMMENT ON COLUMN accounts.opening_balance IS 'Balance before any transaction; balance = opening_balance + ledger';
+
+-- Back-solve with the old trigger's arithmetic (amounts posted as-is), so
+-- recomputing replaces only what that arithmetic got wrong
+UPDATE accounts a
+SET opening_balance = a.balance - COALESCE((
+  SELECT SUM(
+    CASE
+      WHEN t.account_id = a.id AND t.direction = 'in' THEN t.amount
+      WHEN t.account_id = a.id THEN -t.amount
+      ELSE 0
+    END
+    + CASE WHEN t.direction = 'transfer' AND t.to_account_id = a.id THEN t.amount ELSE 0 END
+  )
+  FROM transactions t
+  WHERE t.account_id = a.id OR t.to_account_id = a.id
+), 0);
+
+-- ============================================
+-- REFERENCE RATES
+-- ============================================
+-- Same approximate rates as src/lib/currency.ts. Only used when a row has
+-- no stored figure or rate for the account's currency.
+CREATE OR REPLACE FUNCTION reference_rate_to_sar(p_currency TEXT)
+RETURNS NUMERIC AS $$
+  SELECT CASE UPPER(p_currency)
+    WHEN 'SAR' THEN 1
+    WHEN 'USD' THEN 3.75
+    WHEN 'EUR' THEN 4.08
+    WHEN 'GBP' THEN 4.75
+    WHEN 'AED' THEN 1.02
+    WHEN 'KWD' THEN 12.22
+    WHEN 'BHD' THEN 9.95
+    WHEN 'QAR' THEN 1.03
+    WHEN 'OMR' THEN 9.74
+    WHEN 'EGP' THEN 0.077
+    ELSE NULL
+  END
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- POSTING AMOUNT
+-- ============================================
+-- What a transaction moves on an account, in that account's currency.
+-- conversion_rate converts original_currency into currency
+-- (amount = original_amount * conversion_rate).
+CREATE OR REPLACE FUNCTION transaction_amount_in(p_tx transactions, p_currency TEXT)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_from_rate NUMERIC;
+  v_to_rate NUMERIC;
+BEGIN
+  -- Stored in the account's currency (the app converts on save)
+  IF p_currency IS NULL OR p_tx.currency = p_currency THEN
+    RETURN p_tx.amount;
+  END IF;
+
+  -- Stored in another currency, converted from the account's currency
+  IF p_tx.original_currency = p_currency THEN
+    IF p_tx.original_amount IS NOT NULL THEN
+      RETURN p_tx.original_amount;
+    END IF;
+    IF p_tx.conversion_rate > 0 THEN
+      RETURN ROUND(p_tx.amount / p_tx.conversion_rate, 2);
+    END IF;
+  END IF;
+
+  -- No stored link to the account's currency
+  v_from_rate := reference_rate_to_sar(p_tx.currency);
+  v_to_rate := reference_rate_to_sar(p_currency);
+  IF v_from_rate IS NULL OR v_to_rate IS NULL THEN
+    RETURN p_tx.amount;
+  END IF;
+  RETURN ROUND(p_tx.amount * v_from_rate / v_to_rate, 2);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Apply (p_sign = 1) or reverse (p_sign = -1) a transaction on its accounts
+CREATE OR REPLACE FUNCTION post_transaction_to_accounts(p_tx transactions, p_sign INT)
+RETURNS VOID AS $$
+BEGIN
+  IF p_tx.account_id IS NOT NULL THEN
+    UPDATE accounts
+    SET balance = balance + p_sign
+      * CASE WHEN p_tx.direction = 'in' THEN 1 ELSE -1 END
+      * transaction_amount_in(p_tx, accounts.currency)
+    WHERE id = p_tx.account_id;
+  END IF;
+
+  IF p_tx.direction = 'transfer' AND p_tx.to_account_id IS NOT NULL THEN
+    UPDATE accounts
+    SET balance = balance + p_sign * transaction_amount_in(p_tx, accounts.currency)
+    WHERE id = p_tx.to_account_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- BALANCE TRIGGER
+-- ============================================
+CREATE OR REPLACE FUNCTION update_account_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Edits that don't touch the money (category, notes...) post nothing
+  IF TG_OP = 'UPDATE' AND
+     (OLD.amount, OLD.currency, OLD.direction, OLD.account_id, OLD.to_account_id,
+      OLD.original_amount, OLD.original_currency, OLD.conversion_rate)
+     IS NOT DISTINCT FROM
+     (NEW.amount, NEW.currency, NEW.direction, NEW.account_id, NEW.to_account_id,
+      NEW.original_amount, NEW.original_currency, NEW.conversion_rate) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Marks these balance writes as postings, not a balance the user typed in
+  PERFORM set_config('rqeeb.ledger_posting', 'on', true);
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM post_transaction_to_accounts(OLD, -1);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM post_transaction_to_accounts(NEW, 1);
+  END IF;
+
+  PERFORM set_config('rqeeb.ledger_posting', '', true);
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  ELSE
+    RETURN NEW;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- KEEP THE OPENING BALANCE IN STEP
+-- ============================================
+-- A balance set by hand (Accounts → Current Balance) moves the opening
+-- balance by the same amount, so recomputing keeps it.
+CREATE OR REPLACE FUNCTION track_opening_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.opening_balance := NEW.balance;
+  ELSIF NEW.balance IS DISTINCT FROM OLD.balance
+    AND COALESCE(current_setting('rqeeb.ledger_posting', true), '') <> 'on' THEN
+    NEW.opening_balance := OLD.opening_balance + (NEW.balance - OLD.balance);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_track_opening_balance ON accounts;
+CREATE TRIGGER trigger_track_opening_balance
+  BEFORE INSERT OR UPDATE ON accounts
+  FOR EACH ROW EXECUTE FUNCTION track_opening_balance();
+
+-- ============================================
+-- RECOMPUTE FROM THE LEDGER
+-- ============================================
+-- Sum of every posting on an account, in its currency
+CREATE OR REPLACE FUNCTION account_ledger_total(p_account_id UUID)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(SUM(
+    CASE
+      WHEN t.account_id = a.id AND t.direction = 'in' THEN transaction_amount_in(t, a.currency)
+      WHEN t.account_id = a.id THEN -transaction_amount_in(t, a.currency)
+      ELSE 0
+    END
+    + CASE WHEN t.direction = 'transfer' AND t.to_account_id = a.id THEN transaction_amount_in(t, a.currency) ELSE 0 END
+  ), 0)
+  FROM accounts a
+  JOIN transactions t ON t.account_id = a.id OR t.to_account_id = a.id
+  WHERE a.id = p_account_id;
+$$ LANGUAGE sql STABLE;
+
+-- Rebuild balances as opening balance + ledger: one account, or all of the
+-- caller's. Returns the accounts whose balance changed.
+CREATE OR REPLACE FUNCTION recompute_account_balances(p_account_id UUID DEFAULT NULL)
+RETURNS TABLE (account_id UUID, old_balance NUMERIC, new_balance NUMERIC) AS $$
+#variable_conflict use_column
+BEGIN
+  PERFORM set_config('rqeeb.ledger_posting', 'on', true);
+
+  RETURN QUERY
+  WITH recomputed AS (
+    SELECT a.id, a.balance AS old_balance, a.opening_balance + account_ledger_total(a.id) AS new_balance
+    FROM accounts a
+    WHERE (p_account_id IS NOT NULL AND a.id = p_account_id)
+       OR (p_account_id IS NULL AND a.user_id = auth.uid())
+  ),
+  updated AS (
+    UPDATE accounts a
+    SET balance = r.new_balance, updated_at = NOW()
+    FROM recomputed r
+    WHERE a.id = r.id AND a.balance IS DISTINCT FROM r.new_balance
+    RETURNING a.id, r.old_balance, r.new_balance
+  )
+  SELECT u.id, u.old_balance, u.new_balance FROM updated u;
+
+  PERFORM set_config('rqeeb.ledger_posting', '', true);
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION recompute_account_balances(UUID) IS 'Rebuild account balances from opening_balance and the transaction ledger';
@@ -0,0 +1,136 @@
+-- Migration: Historical Exchange Rates
+-- Description: Rates by date and currency pair, so a purchase converts at
+--              the rate of its own date instead of today's guess. Rates are
+--              typed in, imported from CSV or fetched from a provider.
+--              Transactions can pin their own rate.
+
+-- ============================================
+-- EXCHANGE RATES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rate_date DATE NOT NULL,
+  base_currency TEXT NOT NULL,
+  quote_currency TEXT NOT NULL,
+  rate NUMERIC(18, 8) NOT NULL CHECK (rate > 0),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'csv', 'provider')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, rate_date, base_currency, quote_currency),
+  CHECK (base_currency <> quote_currency)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_pair
+  ON exchange_rates(user_id, base_currency, quote_currency, rate_date DESC);
+
+COMMENT ON TABLE exchange_rates IS 'Historical exchange rates per user: 1 base_currency = rate quote_currency on rate_date';
+COMMENT ON COLUMN exchange_rates.source IS 'manual, csv (rates import) or provider (HTTP rate provider)';
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own exchange rates"
+  ON exchange_rates FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own exchange rates"
+  ON exchange_rates FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own exchange rates"
+  ON exchange_rates FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own exchange rates"
+  ON exchange_rates FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- PER-TRANSACTION RATE OVERRIDE
+-- ============================================
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS is_rate_override BOOLEAN DEFAULT false NOT NULL;
+
+COMMENT ON COLUMN transactions.is_rate_override IS 'conversion_rate was set by the user, not looked up for the transaction date';
+
+-- ============================================
+-- RATE LOOKUP
+-- ============================================
+-- The user's rate for a pair on a date: the latest one on or before it,
+-- from the pair or its inverse. NULL if none is stored.
+CREATE OR REPLACE FUNCTION exchange_rate_on(
+  p_user_id UUID,
+  p_from TEXT,
+  p_to TEXT,
+  p_date DATE
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_direct exchange_rates%ROWTYPE;
+  v_inverse exchange_rates%ROWTYPE;
+BEGIN
+  IF p_from = p_to THEN
+    RETURN 1;
+  END IF;
+
+  SELECT * INTO v_direct FROM exchange_rates
+  WHERE user_id = p_user_id AND base_currency = p_from AND quote_currency = p_to AND rate_date <= p_date
+  ORDER BY rate_date DESC
+  LIMIT 1;
+
+  SELECT * INTO v_inverse FROM exchange_rates
+  WHERE user_id = p_user_id AND base_currency = p_to AND quote_currency = p_from AND rate_date <= p_date
+  ORDER BY rate_date DESC
+  LIMIT 1;
+
+  -- The closer of the two to the date
+  IF v_direct.id IS NOT NULL AND (v_inverse.id IS NULL OR v_direct.rate_date >= v_inverse.rate_date) THEN
+    RETURN v_direct.rate;
+  ELSIF v_inverse.id IS NOT NULL THEN
+    RETURN 1 / v_inverse.rate;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================
+-- POSTING AMOUNT: STORED RATES BEFORE REFERENCE RATES
+-- ============================================
+-- Same rules as migration 020, with the user's rate for the transaction's
+-- date tried before the approximate reference rates
+CREATE OR REPLACE FUNCTION transaction_amount_in(p_tx transactions, p_currency TEXT)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_rate NUMERIC;
+  v_from_rate NUMERIC;
+  v_to_rate NUMERIC;
+BEGIN
+  -- Stored in the account's currency (the app converts on save)
+  IF p_currency IS NULL OR p_tx.currency = p_currency THEN
+    RETURN p_tx.amount;
+  END IF;
+
+  -- Stored in another currency, converted from the account's currency
+  IF p_tx.original_currency = p_currency THEN
+    IF p_tx.original_amount IS NOT NULL THEN
+      RETURN p_tx.original_amount;
+    END IF;
+    IF p_tx.conversion_rate > 0 THEN
+      RETURN ROUND(p_tx.amount / p_tx.conversion_rate, 2);
+    END IF;
+  END IF;
+
+  -- The user's rate on the transaction's date
+  v_rate := exchange_rate_on(p_tx.user_id, p_tx.currency, p_currency, p_tx.transaction_date::DATE);
+  IF v_rate IS NOT NULL THEN
+    RETURN ROUND(p_tx.amount * v_rate, 2);
+  END IF;
+
+  -- No stored link to the account's currency
+  v_from_rate := reference_rate_to_sar(p_tx.currency);
+  v_to_rate := reference_rate_to_sar(p_currency);
+  IF v_from_rate IS NULL OR v_to_rate IS NULL THEN
+    RETURN p_tx.amount;
+  END IF;
+  RETURN ROUND(p_tx.amount * v_from_rate / v_to_rate, 2);
+END;
+$$ LANGUAGE plpgsql STABLE;
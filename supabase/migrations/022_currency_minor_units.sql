@@ -0,0 +1,241 @@
+-- Migration: Every ISO 4217 Currency
+-- Description: Currencies are no longer limited to ten codes. Money columns
+--              keep three decimals so KWD, BHD, OMR, JOD, TND, LYD and IQD
+--              amounts (fils/baisa) are stored exactly, and conversions round
+--              to the target currency's own minor units (0 for JPY, 3 for
+--              KWD, 2 for most). Reference rates cover the same currencies as
+--              src/lib/currency.ts.
+
+-- ============================================
+-- VIEWS OVER THE WIDENED COLUMNS
+-- ============================================
+-- A column can't change type under a view, so these are dropped and
+-- recreated unchanged below
+DROP VIEW IF EXISTS account_summary;
+DROP VIEW IF EXISTS upcoming_subscriptions;
+DROP VIEW IF EXISTS cards_with_account;
+DROP VIEW IF EXISTS account_with_cards_summary;
+DROP VIEW IF EXISTS monthly_summary;
+DROP VIEW IF EXISTS category_breakdown;
+
+-- ============================================
+-- THREE-DECIMAL MONEY COLUMNS
+-- ============================================
+ALTER TABLE transactions
+  ALTER COLUMN amount TYPE NUMERIC(15, 3),
+  ALTER COLUMN original_amount TYPE NUMERIC(15, 3);
+
+ALTER TABLE accounts
+  ALTER COLUMN balance TYPE NUMERIC(17, 3),
+  ALTER COLUMN opening_balance TYPE NUMERIC(17, 3);
+
+ALTER TABLE subscriptions
+  ALTER COLUMN amount TYPE NUMERIC(13, 3);
+
+ALTER TABLE recurring_income
+  ALTER COLUMN amount TYPE NUMERIC(15, 3);
+
+-- ============================================
+-- RECREATE VIEWS
+-- ============================================
+CREATE OR REPLACE VIEW account_summary AS
+SELECT
+  a.id,
+  a.user_id,
+  a.name,
+  a.type,
+  a.balance,
+  a.currency,
+  a.is_default,
+  a.color,
+  COUNT(t.id) AS transaction_count,
+  COALESCE(SUM(CASE WHEN t.direction = 'out' THEN t.amount ELSE 0 END), 0) AS total_spent,
+  COALESCE(SUM(CASE WHEN t.direction = 'in' THEN t.amount ELSE 0 END), 0) AS total_received
+FROM accounts a
+LEFT JOIN transactions t ON t.account_id = a.id
+GROUP BY a.id;
+
+CREATE OR REPLACE VIEW upcoming_subscriptions AS
+SELECT
+  s.*,
+  a.name AS account_name,
+  a.last_4_digits AS account_last_4,
+  s.next_deduction_date - CURRENT_DATE AS days_until_deduction
+FROM subscriptions s
+LEFT JOIN accounts a ON s.account_id = a.id
+WHERE s.is_active = true
+ORDER BY s.next_deduction_date ASC;
+
+CREATE OR REPLACE VIEW cards_with_account AS
+SELECT
+  c.id,
+  c.user_id,
+  c.account_id,
+  c.name AS card_name,
+  c.last_4_digits,
+  c.type AS card_type,
+  c.is_default AS card_is_default,
+  c.color AS card_color,
+  a.name AS account_name,
+  a.type AS account_type,
+  a.balance AS account_balance,
+  a.currency AS account_currency,
+  a.color AS account_color
+FROM account_cards c
+JOIN accounts a ON c.account_id = a.id;
+
+CREATE OR REPLACE VIEW account_with_cards_summary AS
+SELECT
+  a.*,
+  COALESCE(COUNT(c.id), 0) AS cards_count,
+  ARRAY_AGG(
+    CASE WHEN c.id IS NOT NULL THEN
+      jsonb_build_object(
+        'id', c.id,
+        'name', c.name,
+        'last_4_digits', c.last_4_digits,
+        'type', c.type,
+        'is_default', c.is_default,
+        'color', c.color
+      )
+    ELSE NULL END
+  ) FILTER (WHERE c.id IS NOT NULL) AS cards
+FROM accounts a
+LEFT JOIN account_cards c ON a.id = c.account_id
+GROUP BY a.id;
+
+CREATE OR REPLACE VIEW monthly_summary AS
+SELECT
+  user_id,
+  DATE_TRUNC('month', transaction_date) AS month,
+  SUM(CASE WHEN direction = 'in' THEN amount ELSE 0 END) AS total_income,
+  SUM(CASE WHEN direction = 'out' THEN amount ELSE 0 END) AS total_expenses,
+  SUM(CASE WHEN direction = 'in' THEN amount WHEN direction = 'out' THEN -amount ELSE 0 END) AS net_amount,
+  COUNT(*) FILTER (WHERE direction <> 'transfer') AS transaction_count
+FROM transactions
+GROUP BY user_id, DATE_TRUNC('month', transaction_date);
+
+CREATE OR REPLACE VIEW category_breakdown AS
+SELECT
+  user_id,
+  DATE_TRUNC('month', transaction_date) AS month,
+  category,
+  direction,
+  SUM(amount) AS total_amount,
+  COUNT(*) AS transaction_count
+FROM transactions
+GROUP BY user_id, DATE_TRUNC('month', transaction_date), category, direction;
+
+-- ============================================
+-- MINOR UNITS
+-- ============================================
+-- Decimal places of a currency, as in src/lib/currencyRegistry.ts
+CREATE OR REPLACE FUNCTION currency_minor_units(p_currency TEXT)
+RETURNS INT AS $$
+  SELECT CASE
+    WHEN UPPER(p_currency) IN ('BIF', 'CLP', 'DJF', 'GNF', 'ISK', 'JPY', 'KMF', 'KRW',
+                               'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF') THEN 0
+    WHEN UPPER(p_currency) IN ('BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND') THEN 3
+    ELSE 2
+  END
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- REFERENCE RATES
+-- ============================================
+-- Same approximate rates as src/lib/currency.ts. NULL for a currency
+-- without one; posting then falls back to the stored amount.
+CREATE OR REPLACE FUNCTION reference_rate_to_sar(p_currency TEXT)
+RETURNS NUMERIC AS $$
+  SELECT CASE UPPER(p_currency)
+    WHEN 'SAR' THEN 1
+    WHEN 'USD' THEN 3.75
+    WHEN 'EUR' THEN 4.08
+    WHEN 'GBP' THEN 4.75
+    WHEN 'AED' THEN 1.02
+    WHEN 'KWD' THEN 12.22
+    WHEN 'BHD' THEN 9.95
+    WHEN 'QAR' THEN 1.03
+    WHEN 'OMR' THEN 9.74
+    WHEN 'EGP' THEN 0.077
+    WHEN 'JOD' THEN 5.29
+    WHEN 'IQD' THEN 0.00286
+    WHEN 'LBP' THEN 0.0000419
+    WHEN 'MAD' THEN 0.41
+    WHEN 'TND' THEN 1.27
+    WHEN 'DZD' THEN 0.0289
+    WHEN 'LYD' THEN 0.69
+    WHEN 'YER' THEN 0.015
+    WHEN 'TRY' THEN 0.0915
+    WHEN 'INR' THEN 0.0426
+    WHEN 'PKR' THEN 0.0133
+    WHEN 'BDT' THEN 0.0307
+    WHEN 'LKR' THEN 0.0124
+    WHEN 'NPR' THEN 0.0266
+    WHEN 'PHP' THEN 0.064
+    WHEN 'IDR' THEN 0.000226
+    WHEN 'MYR' THEN 0.89
+    WHEN 'SGD' THEN 2.89
+    WHEN 'THB' THEN 0.115
+    WHEN 'CNY' THEN 0.526
+    WHEN 'HKD' THEN 0.482
+    WHEN 'JPY' THEN 0.025
+    WHEN 'KRW' THEN 0.0027
+    WHEN 'AUD' THEN 2.45
+    WHEN 'NZD' THEN 2.17
+    WHEN 'CAD' THEN 2.69
+    WHEN 'CHF' THEN 4.69
+    WHEN 'SEK' THEN 0.395
+    WHEN 'NOK' THEN 0.37
+    WHEN 'DKK' THEN 0.547
+    WHEN 'ZAR' THEN 0.215
+    WHEN 'RUB' THEN 0.046
+    WHEN 'BRL' THEN 0.69
+    WHEN 'MXN' THEN 0.2
+    ELSE NULL
+  END
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- POSTING AMOUNT: ROUNDED TO THE ACCOUNT'S CURRENCY
+-- ============================================
+-- Same rules as migration 021, rounding converted figures to the account
+-- currency's decimals instead of always two
+CREATE OR REPLACE FUNCTION transaction_amount_in(p_tx transactions, p_currency TEXT)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_rate NUMERIC;
+  v_from_rate NUMERIC;
+  v_to_rate NUMERIC;
+  v_digits INT := currency_minor_units(p_currency);
+BEGIN
+  -- Stored in the account's currency (the app converts on save)
+  IF p_currency IS NULL OR p_tx.currency = p_currency THEN
+    RETURN p_tx.amount;
+  END IF;
+
+  -- Stored in another currency, converted from the account's currency
+  IF p_tx.original_currency = p_currency THEN
+    IF p_tx.original_amount IS NOT NULL THEN
+      RETURN p_tx.original_amount;
+    END IF;
+    IF p_tx.conversion_rate > 0 THEN
+      RETURN ROUND(p_tx.amount / p_tx.conversion_rate, v_digits);
+    END IF;
+  END IF;
+
+  -- The user's rate on the transaction's date
+  v_rate := exchange_rate_on(p_tx.user_id, p_tx.currency, p_currency, p_tx.transaction_date::DATE);
+  IF v_rate IS NOT NULL THEN
+    RETURN ROUND(p_tx.amount * v_rate, v_digits);
+  END IF;
+
+  -- No stored link to the account's currency
+  v_from_rate := reference_rate_to_sar(p_tx.currency);
+  v_to_rate := reference_rate_to_sar(p_currency);
+  IF v_from_rate IS NULL OR v_to_rate IS NULL THEN
+    RETURN p_tx.amount;
+  END IF;
+  RETURN ROUND(p_tx.amount * v_from_rate / v_to_rate, v_digits);
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,58 @@
+-- Migration: Transfers To A Card Move Money
+-- Description: A transfer whose destination is only a card (to_card_id,
+--              e.g. paying off a credit card) credited nothing, because
+--              balances post to accounts. The destination account is now
+--              taken from the card. Account summaries leave transfers out
+--              entirely, transaction_count included.
+
+-- ============================================
+-- DESTINATION ACCOUNT FROM THE CARD
+-- ============================================
+-- Runs before the balance trigger, so the posting sees the account
+CREATE OR REPLACE FUNCTION resolve_transfer_destination()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.to_card_id IS NOT NULL THEN
+    NEW.to_account_id := COALESCE(
+      (SELECT account_id FROM account_cards WHERE id = NEW.to_card_id),
+      NEW.to_account_id
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_resolve_transfer_destination ON transactions;
+CREATE TRIGGER trigger_resolve_transfer_destination
+  BEFORE INSERT OR UPDATE OF to_card_id, to_account_id ON transactions
+  FOR EACH ROW EXECUTE FUNCTION resolve_transfer_destination();
+
+-- Existing card-only transfers: setting the account posts the credit they
+-- were missing
+UPDATE transactions t
+SET to_account_id = c.account_id
+FROM account_cards c
+WHERE t.to_card_id = c.id
+  AND t.direction = 'transfer'
+  AND t.to_account_id IS DISTINCT FROM c.account_id;
+
+-- ============================================
+-- ACCOUNT SUMMARY: TRANSFERS ARE NOT SPENDING OR INCOME
+-- ============================================
+-- Transfers are excluded in the join, so no total or count picks them up
+CREATE OR REPLACE VIEW account_summary AS
+SELECT
+  a.id,
+  a.user_id,
+  a.name,
+  a.type,
+  a.balance,
+  a.currency,
+  a.is_default,
+  a.color,
+  COUNT(t.id) AS transaction_count,
+  COALESCE(SUM(CASE WHEN t.direction = 'out' THEN t.amount ELSE 0 END), 0) AS total_spent,
+  COALESCE(SUM(CASE WHEN t.direction = 'in' THEN t.amount ELSE 0 END), 0) AS total_received
+FROM accounts a
+LEFT JOIN transactions t ON t.account_id = a.id AND t.direction <> 'transfer'
+GROUP BY a.id;
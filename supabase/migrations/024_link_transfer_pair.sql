@@ -0,0 +1,58 @@
+-- Migration: Link Transfer Pairs In One Step
+-- Description: Linking a matched debit/credit pair updated the debit and
+--              deleted the credit in two requests; if the delete failed the
+--              destination was credited twice. link_transfer_pair() does
+--              both in one transaction, and keeps what the credit leg
+--              carried: its source message and its attachments.
+
+-- ============================================
+-- SOURCE MESSAGE OF THE CREDIT LEG
+-- ============================================
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS to_raw_log_id UUID REFERENCES raw_logs(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN transactions.to_raw_log_id IS 'Raw log of the credit leg a linked transfer was merged from (raw_log_id is the debit''s)';
+
+-- ============================================
+-- LINK
+-- ============================================
+-- The debit becomes the transfer (its account is the source, the credit's
+-- account the destination) and the credit is deleted. Runs as definer so
+-- attachments can be moved (they have no update policy); both rows must
+-- belong to the caller.
+CREATE OR REPLACE FUNCTION link_transfer_pair(p_outgoing_id UUID, p_incoming_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_incoming transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_incoming FROM transactions
+  WHERE id = p_incoming_id AND user_id = auth.uid() AND direction = 'in'
+  FOR UPDATE;
+
+  IF v_incoming.id IS NULL THEN
+    RAISE EXCEPTION 'Incoming transaction % not found', p_incoming_id;
+  END IF;
+
+  UPDATE transactions
+  SET direction = 'transfer',
+      category = 'Transfer',
+      to_account_id = v_incoming.account_id,
+      to_card_id = v_incoming.card_id,
+      to_raw_log_id = v_incoming.raw_log_id,
+      beneficiary_id = NULL,
+      is_reimbursable = false
+  WHERE id = p_outgoing_id AND user_id = auth.uid() AND direction = 'out';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Outgoing transaction % not found', p_outgoing_id;
+  END IF;
+
+  UPDATE transaction_attachments
+  SET transaction_id = p_outgoing_id
+  WHERE transaction_id = p_incoming_id AND user_id = auth.uid();
+
+  DELETE FROM transactions WHERE id = p_incoming_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION link_transfer_pair(UUID, UUID) IS 'Merge a matched debit/credit pair into one transfer, atomically';
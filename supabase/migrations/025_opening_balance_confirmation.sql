@@ -0,0 +1,87 @@
+-- Migration: Estimated Opening Balances
+-- Description: Migration 020 back-solved opening balances from balances the
+--              old trigger had already drifted (it never posted a
+--              transaction whose account was set later, for one), so those
+--              errors became part of the opening balance and recomputing
+--              kept them. Opening balances are now marked as estimated
+--              until the user enters a balance, and recompute_account_balances()
+--              reports the accounts that still rest on an estimate.
+
+-- ============================================
+-- CONFIRMED OPENING BALANCE
+-- ============================================
+ALTER TABLE accounts
+  ADD COLUMN IF NOT EXISTS opening_balance_confirmed BOOLEAN DEFAULT false NOT NULL;
+
+COMMENT ON COLUMN accounts.opening_balance_confirmed IS 'opening_balance comes from a balance the user entered, not the 020 back-solve';
+
+-- Without transactions the back-solve is just the balance the user entered
+UPDATE accounts a
+SET opening_balance_confirmed = true
+WHERE NOT EXISTS (
+  SELECT 1 FROM transactions t WHERE t.account_id = a.id OR t.to_account_id = a.id
+);
+
+-- A balance entered on creation or set by hand is a real starting point
+CREATE OR REPLACE FUNCTION track_opening_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.opening_balance := NEW.balance;
+    NEW.opening_balance_confirmed := true;
+  ELSIF NEW.balance IS DISTINCT FROM OLD.balance
+    AND COALESCE(current_setting('rqeeb.ledger_posting', true), '') <> 'on' THEN
+    NEW.opening_balance := OLD.opening_balance + (NEW.balance - OLD.balance);
+    NEW.opening_balance_confirmed := true;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- RECOMPUTE: REPORT ESTIMATES
+-- ============================================
+-- Same rebuild as migration 020. Returns the accounts whose balance changed
+-- and those whose opening balance is still an estimate, changed or not.
+DROP FUNCTION IF EXISTS recompute_account_balances(UUID);
+
+CREATE OR REPLACE FUNCTION recompute_account_balances(p_account_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  account_id UUID,
+  old_balance NUMERIC,
+  new_balance NUMERIC,
+  opening_balance NUMERIC,
+  opening_balance_confirmed BOOLEAN
+) AS $$
+#variable_conflict use_column
+BEGIN
+  PERFORM set_config('rqeeb.ledger_posting', 'on', true);
+
+  RETURN QUERY
+  WITH recomputed AS (
+    SELECT
+      a.id,
+      a.balance AS old_balance,
+      a.opening_balance + account_ledger_total(a.id) AS new_balance,
+      a.opening_balance,
+      a.opening_balance_confirmed
+    FROM accounts a
+    WHERE (p_account_id IS NOT NULL AND a.id = p_account_id)
+       OR (p_account_id IS NULL AND a.user_id = auth.uid())
+  ),
+  updated AS (
+    UPDATE accounts a
+    SET balance = r.new_balance, updated_at = NOW()
+    FROM recomputed r
+    WHERE a.id = r.id AND a.balance IS DISTINCT FROM r.new_balance
+    RETURNING a.id
+  )
+  SELECT r.id, r.old_balance, r.new_balance, r.opening_balance, r.opening_balance_confirmed
+  FROM recomputed r
+  WHERE r.id IN (SELECT u.id FROM updated u) OR NOT r.opening_balance_confirmed;
+
+  PERFORM set_config('rqeeb.ledger_posting', '', true);
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION recompute_account_balances(UUID) IS 'Rebuild account balances from opening_balance and the transaction ledger; lists changed accounts and estimated opening balances';
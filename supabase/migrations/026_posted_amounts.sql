@@ -0,0 +1,180 @@
+-- Migration: Stored Posting Amounts
+-- Description: What a transaction moved on its accounts depends on its date
+--              and on the user's exchange rates, which can change after it
+--              was posted. Reversing it by recomputing the figure then took
+--              off a different amount than was put on, and balances
+--              drifted. The posted figures are now stored on the row,
+--              reversals use them, and adding, editing or deleting a rate
+--              reposts the transactions it affects.
+
+-- ============================================
+-- POSTED FIGURES
+-- ============================================
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS posted_amount NUMERIC(17, 3),
+  ADD COLUMN IF NOT EXISTS posted_to_amount NUMERIC(17, 3);
+
+COMMENT ON COLUMN transactions.posted_amount IS 'Amount moved on account_id, in that account''s currency, when last posted';
+COMMENT ON COLUMN transactions.posted_to_amount IS 'Amount a transfer moved into to_account_id, in that account''s currency';
+
+-- Existing rows get today's figures, without moving any balance;
+-- Recalculate balances settles any difference from what was posted before
+ALTER TABLE transactions DISABLE TRIGGER trigger_update_account_balance;
+
+UPDATE transactions t
+SET posted_amount = CASE WHEN t.account_id IS NOT NULL
+      THEN transaction_amount_in(t, (SELECT currency FROM accounts WHERE id = t.account_id)) END,
+    posted_to_amount = CASE WHEN t.direction = 'transfer' AND t.to_account_id IS NOT NULL
+      THEN transaction_amount_in(t, (SELECT currency FROM accounts WHERE id = t.to_account_id)) END;
+
+ALTER TABLE transactions ENABLE TRIGGER trigger_update_account_balance;
+
+-- ============================================
+-- WORK OUT THE FIGURES BEFORE SAVING
+-- ============================================
+-- Recomputed when anything they depend on changes, the date included, or
+-- when a repost asks for it (rqeeb.repost). Otherwise the stored figures
+-- stay, whatever the client sends.
+CREATE OR REPLACE FUNCTION set_posted_amounts()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND COALESCE(current_setting('rqeeb.repost', true), '') <> 'on'
+    AND (OLD.amount, OLD.currency, OLD.direction, OLD.account_id, OLD.to_account_id,
+         OLD.original_amount, OLD.original_currency, OLD.conversion_rate, OLD.transaction_date)
+        IS NOT DISTINCT FROM
+        (NEW.amount, NEW.currency, NEW.direction, NEW.account_id, NEW.to_account_id,
+         NEW.original_amount, NEW.original_currency, NEW.conversion_rate, NEW.transaction_date) THEN
+    NEW.posted_amount := OLD.posted_amount;
+    NEW.posted_to_amount := OLD.posted_to_amount;
+    RETURN NEW;
+  END IF;
+
+  NEW.posted_amount := CASE WHEN NEW.account_id IS NOT NULL
+    THEN transaction_amount_in(NEW, (SELECT currency FROM accounts WHERE id = NEW.account_id)) END;
+  NEW.posted_to_amount := CASE WHEN NEW.direction = 'transfer' AND NEW.to_account_id IS NOT NULL
+    THEN transaction_amount_in(NEW, (SELECT currency FROM accounts WHERE id = NEW.to_account_id)) END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Named to run after trigger_resolve_transfer_destination (023)
+DROP TRIGGER IF EXISTS trigger_set_posted_amounts ON transactions;
+CREATE TRIGGER trigger_set_posted_amounts
+  BEFORE INSERT OR UPDATE ON transactions
+  FOR EACH ROW EXECUTE FUNCTION set_posted_amounts();
+
+-- ============================================
+-- POST AND REVERSE THE STORED FIGURES
+-- ============================================
+CREATE OR REPLACE FUNCTION post_transaction_to_accounts(p_tx transactions, p_sign INT)
+RETURNS VOID AS $$
+BEGIN
+  IF p_tx.account_id IS NOT NULL AND p_tx.posted_amount IS NOT NULL THEN
+    UPDATE accounts
+    SET balance = balance + p_sign
+      * CASE WHEN p_tx.direction = 'in' THEN 1 ELSE -1 END
+      * p_tx.posted_amount
+    WHERE id = p_tx.account_id;
+  END IF;
+
+  IF p_tx.direction = 'transfer' AND p_tx.to_account_id IS NOT NULL AND p_tx.posted_to_amount IS NOT NULL THEN
+    UPDATE accounts
+    SET balance = balance + p_sign * p_tx.posted_to_amount
+    WHERE id = p_tx.to_account_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_account_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- The posted figures already cover amount, currency, rate and date;
+  -- edits that leave them and the accounts alone post nothing
+  IF TG_OP = 'UPDATE' AND
+     (OLD.direction, OLD.account_id, OLD.to_account_id, OLD.posted_amount, OLD.posted_to_amount)
+     IS NOT DISTINCT FROM
+     (NEW.direction, NEW.account_id, NEW.to_account_id, NEW.posted_amount, NEW.posted_to_amount) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Marks these balance writes as postings, not a balance the user typed in
+  PERFORM set_config('rqeeb.ledger_posting', 'on', true);
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM post_transaction_to_accounts(OLD, -1);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM post_transaction_to_accounts(NEW, 1);
+  END IF;
+
+  PERFORM set_config('rqeeb.ledger_posting', '', true);
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  ELSE
+    RETURN NEW;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- LEDGER FROM THE STORED FIGURES
+-- ============================================
+CREATE OR REPLACE FUNCTION account_ledger_total(p_account_id UUID)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(SUM(
+    CASE
+      WHEN t.account_id = p_account_id AND t.direction = 'in' THEN COALESCE(t.posted_amount, 0)
+      WHEN t.account_id = p_account_id THEN -COALESCE(t.posted_amount, 0)
+      ELSE 0
+    END
+    + CASE WHEN t.direction = 'transfer' AND t.to_account_id = p_account_id THEN COALESCE(t.posted_to_amount, 0) ELSE 0 END
+  ), 0)
+  FROM transactions t
+  WHERE t.account_id = p_account_id OR t.to_account_id = p_account_id;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- REPOST WHEN RATES CHANGE
+-- ============================================
+-- Work the figures out again for the user's transactions in these
+-- currencies from a date on; the balance trigger moves any difference
+CREATE OR REPLACE FUNCTION repost_transactions(p_user_id UUID, p_currencies TEXT[], p_from DATE)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM set_config('rqeeb.repost', 'on', true);
+
+  UPDATE transactions
+  SET posted_amount = posted_amount
+  WHERE user_id = p_user_id
+    AND currency = ANY(p_currencies)
+    AND transaction_date >= p_from
+    AND (account_id IS NOT NULL OR to_account_id IS NOT NULL);
+
+  PERFORM set_config('rqeeb.repost', '', true);
+END;
+$$ LANGUAGE plpgsql;
+
+-- A rate applies from its date until the next one, so everything on or
+-- after it may convert differently
+CREATE OR REPLACE FUNCTION repost_for_exchange_rate()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM repost_transactions(OLD.user_id, ARRAY[OLD.base_currency, OLD.quote_currency], OLD.rate_date);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM repost_transactions(NEW.user_id, ARRAY[NEW.base_currency, NEW.quote_currency], NEW.rate_date);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_repost_for_exchange_rate ON exchange_rates;
+CREATE TRIGGER trigger_repost_for_exchange_rate
+  AFTER INSERT OR UPDATE OR DELETE ON exchange_rates
+  FOR EACH ROW EXECUTE FUNCTION repost_for_exchange_rate();
@@ -0,0 +1,55 @@
+-- Migration: Re-apply Rates To Converted Transactions
+-- Description: A rate added, imported, edited or deleted after a
+--              transaction was saved changed its posting (026) but not the
+--              transaction itself: conversion_rate and the converted amount
+--              kept the old rate. Transactions that follow the stored rates
+--              (not the user's own, is_rate_override) are now converted
+--              again with the rate for their date.
+
+-- ============================================
+-- RE-CONVERT
+-- ============================================
+-- Same rate lookup as the app: the user's latest rate on or before the
+-- date. Rows without one keep their rate. conversion_rate is
+-- NUMERIC(10, 6), so a rate it can't hold is left for the user to set.
+CREATE OR REPLACE FUNCTION reapply_exchange_rates(p_user_id UUID, p_currencies TEXT[], p_from DATE)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE transactions t
+  SET conversion_rate = r.rate,
+      amount = ROUND(t.original_amount * r.rate, currency_minor_units(t.currency))
+  FROM (
+    SELECT id, ROUND(exchange_rate_on(user_id, original_currency, currency, transaction_date::DATE), 6) AS rate
+    FROM transactions
+    WHERE user_id = p_user_id
+      AND NOT is_rate_override
+      AND original_amount IS NOT NULL
+      AND original_currency = ANY(p_currencies)
+      AND currency = ANY(p_currencies)
+      AND transaction_date >= p_from
+  ) r
+  WHERE t.id = r.id
+    AND r.rate > 0
+    AND r.rate < 10000
+    AND t.conversion_rate IS DISTINCT FROM r.rate;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Re-convert first; the new amounts repost themselves, and the repost
+-- then covers rows converted through the account's currency
+CREATE OR REPLACE FUNCTION repost_for_exchange_rate()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM reapply_exchange_rates(OLD.user_id, ARRAY[OLD.base_currency, OLD.quote_currency], OLD.rate_date);
+    PERFORM repost_transactions(OLD.user_id, ARRAY[OLD.base_currency, OLD.quote_currency], OLD.rate_date);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM reapply_exchange_rates(NEW.user_id, ARRAY[NEW.base_currency, NEW.quote_currency], NEW.rate_date);
+    PERFORM repost_transactions(NEW.user_id, ARRAY[NEW.base_currency, NEW.quote_currency], NEW.rate_date);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;